@@ -3,14 +3,28 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
-export default defineConfig({
+const shared = {
   schema: "./src/db/schema", // Updated to point to the schema directory
   out: "./src/db/migrations",
-  dialect: "postgresql",
-  dbCredentials: {
-    url:
-      process.env.DATABASE_URL || "postgresql://localhost:5432/spotify_clone",
-  },
+  dialect: "postgresql" as const,
   verbose: true,
   strict: true,
-});
+};
+
+export default defineConfig(
+  process.env.DATABASE_DRIVER === "pglite"
+    ? {
+        ...shared,
+        // Same directory as PGLITE_DATA_DIR in src/db/connection.ts
+        driver: "pglite",
+        dbCredentials: { url: "./.orchids/db" },
+      }
+    : {
+        ...shared,
+        dbCredentials: {
+          url:
+            process.env.DATABASE_URL ||
+            "postgresql://localhost:5432/spotify_clone",
+        },
+      }
+);
@@ -1,6 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // PGlite loads its WebAssembly and data files from its package directory,
+  // which bundling would lose (DATABASE_DRIVER=pglite)
+  serverExternalPackages: ["@electric-sql/pglite"],
   images: {
     remotePatterns: [
       {
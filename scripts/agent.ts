@@ -1,19 +1,35 @@
 #!/usr/bin/env tsx
 
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import chalk from "chalk";
 import dotenv from "dotenv";
 import readline from "readline";
-import { GoogleGenAI, Type } from "@google/genai";
 import fs from "fs";
 import path from "path";
 import { DatabaseAgent } from "./agent/databaseAgent";
+import { DIALECT_NAMES, resolveDialect } from "./agent/core/dialects";
+import {
+  HOOK_STRATEGY_NAMES,
+  resolveHookStrategy,
+} from "./agent/core/hook-strategies";
+import { loadTableSpec, parseTableFlags } from "./agent/core/table-spec";
+import {
+  createProvider,
+  listProviders,
+  resolveProviderConfig,
+} from "./agent/providers/registry";
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMToolCall,
+  LLMToolDefinition,
+  SchemaDefinition,
+} from "./agent/types";
 
 dotenv.config();
 
-// Tool configuration for the agentic system
-const TOOLS_CONFIG = {
-  systemInstruction: `You are an advanced Database Agent for Orchids - a sophisticated AI system that creates full-stack database implementations.
+// System prompt for the agentic system
+const SYSTEM_INSTRUCTION = `You are an advanced Database Agent for Orchids - a sophisticated AI system that creates full-stack database implementations.
 
 Your capabilities include:
 - Analyzing project structure and existing code
@@ -33,57 +49,61 @@ When a user asks for database features, you should:
 5. Integrate with the frontend UI
 6. Provide real-time updates on your progress
 
-Use the tools extensively to understand the project before implementing changes.`,
-  tools: [
-    {
-      name: "list_files",
-      description:
-        "List files and directories in the current directory or a specified path",
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          path: {
-            type: Type.STRING,
-            description:
-              "Optional path to list (defaults to current directory)",
-          },
+Use the tools extensively to understand the project before implementing changes.`;
+
+// Tools the model can call, described with JSON Schema
+const TOOLS: LLMToolDefinition[] = [
+  {
+    name: "list_files",
+    description:
+      "List files and directories in the current directory or a specified path",
+    parameters: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Optional path to list (defaults to current directory)",
         },
       },
     },
-    {
-      name: "read_file",
-      description: "Read the contents of a file",
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          filename: {
-            type: Type.STRING,
-            description: "Path to the file to read",
-          },
+  },
+  {
+    name: "read_file",
+    description: "Read the contents of a file",
+    parameters: {
+      type: "object",
+      properties: {
+        filename: {
+          type: "string",
+          description: "Path to the file to read",
         },
       },
+      required: ["filename"],
     },
-    {
-      name: "implement_database_feature",
-      description:
-        "Implement a database feature using the Orchids Database Agent",
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          query: {
-            type: Type.STRING,
-            description:
-              "Natural language description of the database feature to implement",
-          },
+  },
+  {
+    name: "implement_database_feature",
+    description:
+      "Implement a database feature using the Orchids Database Agent",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description:
+            "Natural language description of the database feature to implement",
         },
       },
+      required: ["query"],
     },
-  ],
-  toolConfig: { functionCallingConfig: { mode: "AUTO" } },
-};
+  },
+];
 
 // Execute a tool call and return the result
-async function executeTool(call: any): Promise<string> {
+async function executeTool(
+  call: LLMToolCall,
+  provider: LLMProvider
+): Promise<string> {
   try {
     if (call.name === "list_files") {
       const targetPath = call.args?.path || ".";
@@ -117,7 +137,7 @@ async function executeTool(call: any): Promise<string> {
       console.log(chalk.yellow(`Implementing: ${query}`));
       console.log();
 
-      const agent = new DatabaseAgent();
+      const agent = new DatabaseAgent({ provider });
       await agent.processQuery(query);
 
       return `Successfully implemented database feature: ${query}`;
@@ -129,7 +149,68 @@ async function executeTool(call: any): Promise<string> {
   }
 }
 
-async function startInteractiveMode(ai: GoogleGenAI, verbose: boolean) {
+// Asks on the terminal whether a detected rename should keep the column's data
+function askToRename(
+  table: string,
+  from: string,
+  to: string
+): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) =>
+    rl.question(
+      chalk.yellow(
+        `❓ Rename ${table}.${from} to ${to}, keeping its data? Otherwise the column is dropped and re-added (y/N) `
+      ),
+      (answer) => {
+        rl.close();
+        resolve(/^y(es)?$/i.test(answer.trim()));
+      }
+    )
+  );
+}
+
+// --db pglite points drizzle-kit, the seed scripts and src/db at the
+// embedded database; child processes inherit DATABASE_DRIVER
+function useDatabaseDriver(driver: string | undefined) {
+  if (!driver) return;
+  if (!["postgres", "pglite"].includes(driver)) {
+    console.error(
+      chalk.red(`❌ Unknown --db "${driver}": use postgres or pglite`)
+    );
+    process.exit(1);
+  }
+  process.env.DATABASE_DRIVER = driver;
+  if (driver === "pglite") {
+    fs.mkdirSync(".orchids", { recursive: true });
+    console.log(
+      chalk.gray(
+        "🗄️  Using the embedded PGlite database in .orchids/db (add DATABASE_DRIVER=pglite to .env to run the app against it)"
+      )
+    );
+  }
+}
+
+// Asks on the terminal whether a locking or destructive migration may run
+function askToMigrate(risk: "locking" | "destructive"): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) =>
+    rl.question(
+      chalk.yellow(`❓ Apply this ${risk} migration? (y/N) `),
+      (answer) => {
+        rl.close();
+        resolve(/^y(es)?$/i.test(answer.trim()));
+      }
+    )
+  );
+}
+
+async function startInteractiveMode(provider: LLMProvider, verbose: boolean) {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -146,6 +227,14 @@ async function startInteractiveMode(ai: GoogleGenAI, verbose: boolean) {
   console.log(
     chalk.gray('Type "exit" to quit, "clear" to reset conversation history')
   );
+  console.log(
+    chalk.gray('Type "/plan <query>" to preview changes without writing files')
+  );
+  console.log(
+    chalk.gray(
+      'Type "undo [runId]" to revert the last (or a specific) agent run'
+    )
+  );
   console.log(chalk.gray("Examples:"));
   console.log(
     chalk.gray('  - "Can you store the recently played songs in a table"')
@@ -157,7 +246,7 @@ async function startInteractiveMode(ai: GoogleGenAI, verbose: boolean) {
   console.log();
   rl.prompt();
 
-  let history: any[] = [];
+  let history: LLMMessage[] = [];
 
   rl.on("line", async (input) => {
     const trimmed = input.trim();
@@ -174,24 +263,52 @@ async function startInteractiveMode(ai: GoogleGenAI, verbose: boolean) {
       return;
     }
 
+    if (trimmed === "undo" || trimmed.startsWith("undo ")) {
+      const runId = trimmed.slice("undo".length).trim() || undefined;
+      try {
+        const agent = new DatabaseAgent({ provider: null });
+        await agent.undoRun(runId);
+      } catch (error: any) {
+        console.error(chalk.red("❌ Error:"), error.message);
+      }
+      rl.prompt();
+      return;
+    }
+
+    if (trimmed.startsWith("/plan")) {
+      const planQuery = trimmed.slice("/plan".length).trim();
+      if (!planQuery) {
+        console.log(chalk.yellow("Usage: /plan <query>"));
+      } else {
+        try {
+          const agent = new DatabaseAgent({ dryRun: true, provider });
+          await agent.processQuery(planQuery);
+        } catch (error: any) {
+          console.error(chalk.red("❌ Error:"), error.message);
+        }
+      }
+      rl.prompt();
+      return;
+    }
+
     if (trimmed) {
       try {
         // Add user message to conversation history
-        history.push({ role: "user", parts: [{ text: trimmed }] });
+        history.push({ role: "user", content: trimmed });
 
         console.log(chalk.blue("🤖 AI Agent is thinking..."));
 
         // Get initial AI response
-        let response = await ai.models.generateContent({
-          model: "gemini-2.0-flash",
-          contents: history,
-          config: TOOLS_CONFIG,
+        let response = await provider.generateWithTools({
+          messages: history,
+          tools: TOOLS,
+          systemInstruction: SYSTEM_INSTRUCTION,
         });
 
         // Agent feedback loop - continue until no more tools needed
         let iterations = 0;
-        while (response.functionCalls && iterations < 10) {
-          const toolCall = response.functionCalls[0];
+        while (response.toolCalls.length && iterations < 10) {
+          const toolCall = response.toolCalls[0];
 
           if (verbose) {
             console.log(
@@ -206,24 +323,26 @@ async function startInteractiveMode(ai: GoogleGenAI, verbose: boolean) {
           }
 
           // Execute the tool and get result
-          const result = await executeTool(toolCall);
+          const result = await executeTool(toolCall, provider);
 
           // Add tool call and result to history
-          history.push({ role: "model", parts: [{ functionCall: toolCall }] });
           history.push({
-            role: "function",
-            parts: [
-              {
-                functionResponse: { name: toolCall.name, response: { result } },
-              },
-            ],
+            role: "assistant",
+            content: response.text,
+            toolCalls: [toolCall],
+          });
+          history.push({
+            role: "tool",
+            toolCallId: toolCall.id,
+            name: toolCall.name,
+            content: result,
           });
 
           // Get next AI response
-          response = await ai.models.generateContent({
-            model: "gemini-2.0-flash",
-            contents: history,
-            config: TOOLS_CONFIG,
+          response = await provider.generateWithTools({
+            messages: history,
+            tools: TOOLS,
+            systemInstruction: SYSTEM_INSTRUCTION,
           });
 
           iterations++;
@@ -231,7 +350,7 @@ async function startInteractiveMode(ai: GoogleGenAI, verbose: boolean) {
 
         // Display final result and add to history
         console.log(chalk.green(response.text));
-        history.push({ role: "model", parts: [{ text: response.text }] });
+        history.push({ role: "assistant", content: response.text });
       } catch (error: any) {
         console.error(chalk.red("❌ Error:"), error.message);
       }
@@ -259,46 +378,232 @@ program
   .option("-i, --interactive", "Start interactive mode")
   .option(
     "-a, --apiKey <key>",
-    "Google Gemini API key (or set GEMINI_API_KEY env var)"
+    "API key for the LLM provider (or set GEMINI_API_KEY / OPENAI_API_KEY)"
+  )
+  .option(
+    "-p, --provider <name>",
+    `LLM provider: ${listProviders().join(", ")} (or set ORCHIDS_LLM_PROVIDER)`
+  )
+  .option("-m, --model <name>", "Model name (or set ORCHIDS_LLM_MODEL)")
+  .option(
+    "--base-url <url>",
+    "Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1"
   )
   .option("-v, --verbose", "Enable verbose mode", false)
+  .option(
+    "--dry-run",
+    "Show the files and commands a query would change without applying them",
+    false
+  )
+  .option(
+    "-s, --spec <file>",
+    "JSON or YAML table spec to build instead of parsing a query"
+  )
+  .option("-t, --table <name>", "Table to build from --field flags")
+  .option(
+    "--field <name:type[:constraint...]>",
+    "Field for --table, e.g. song_title:text:notNull (repeatable)",
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option(
+    "--alter <change>",
+    'Change to an existing --table, e.g. "add genre:text" or "rename name:title" (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option(
+    "--access <rule>",
+    'Access rule for --table with --auth, e.g. "read:public", "write:curator", "delete:admin" or "hidden:notes" (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option(
+    "--rename <table.old:new>",
+    "Approve renaming a column of an existing table, keeping its data (repeatable)",
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option(
+    "--allow-destructive",
+    "Apply migrations that drop data or lock populated tables without asking",
+    false
+  )
+  .option(
+    "--db <driver>",
+    "Database to migrate and seed: postgres (DATABASE_URL) or pglite (embedded, stored in .orchids/db)"
+  )
+  .option(
+    "--dialect <name>",
+    `Database dialect: ${DIALECT_NAMES.join(
+      ", "
+    )}; switches drizzle.config.ts and src/db/connection.ts when it differs`
+  )
+  .option(
+    "--hooks <strategy>",
+    `How generated hooks fetch and cache data: ${HOOK_STRATEGY_NAMES.join(
+      ", "
+    )}; swr and react-query add a provider to src/app/layout.tsx`
+  )
+  .option(
+    "--auth",
+    "Add users, sessions and login routes, and scope the routes of tables with user_id to the signed-in user",
+    false
+  )
+  .option(
+    "--skip-commands",
+    "Write files but don't run drizzle-kit or seed scripts",
+    false
+  )
+  .option(
+    "--repair-attempts <n>",
+    "Times the model may fix generated code that fails to typecheck",
+    (value: string) => {
+      const attempts = Number(value);
+      if (!Number.isInteger(attempts) || attempts < 1)
+        throw new InvalidArgumentError("Expected a positive integer.");
+      return attempts;
+    },
+    2
+  )
+  .option(
+    "--template",
+    "Generate code from deterministic templates even if an LLM is configured",
+    false
+  )
   .argument(
     "[query]",
     "Natural language query describing the database feature to implement"
   )
   .action(async (query: string | undefined, options: any) => {
-    const apiKey = options.apiKey || process.env.GEMINI_API_KEY;
+    useDatabaseDriver(options.db);
+    let tables: SchemaDefinition[] | null = null;
+    try {
+      if (options.dialect) resolveDialect(options.dialect);
+      if (options.hooks) resolveHookStrategy(options.hooks);
+    } catch (error: any) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    try {
+      if (options.spec) tables = loadTableSpec(options.spec);
+      else if (options.table)
+        tables = [
+          parseTableFlags(
+            options.table,
+            options.field,
+            options.alter,
+            options.access
+          ),
+        ];
+    } catch (error: any) {
+      console.error(chalk.red("❌ Invalid table spec:"), error.message);
+      process.exit(1);
+    }
 
-    if (!apiKey) {
-      console.log(chalk.yellow("⚠️  No GEMINI_API_KEY found"));
+    const providerConfig = resolveProviderConfig({
+      provider: options.provider,
+      model: options.model,
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl,
+    });
+    const provider = options.template ? null : createProvider(providerConfig);
+
+    if (!provider && !options.template) {
       console.log(
-        chalk.gray("   Add your API key to .env file or use --apiKey option")
+        chalk.yellow(
+          `⚠️  No API key found for the ${providerConfig.provider} provider`
+        )
       );
       console.log(
-        chalk.gray("   Running in demo mode without AI capabilities\n")
+        chalk.gray("   Add your API key to .env file or use --apiKey option")
       );
+      if (tables)
+        console.log(
+          chalk.gray("   Generating code from deterministic templates\n")
+        );
     }
 
-    if (options.interactive || !query) {
-      if (!apiKey) {
-        console.log(chalk.red("❌ Interactive mode requires a Gemini API key"));
-        process.exit(1);
-      }
-      const ai = new GoogleGenAI({ apiKey });
+    if (tables) {
+      console.log(chalk.blue.bold("🌺 Orchids Database Agent"));
+      console.log(chalk.gray("━".repeat(50)));
+      console.log();
+      const agent = new DatabaseAgent({
+        dryRun: options.dryRun,
+        skipCommands: options.skipCommands,
+        repairAttempts: options.repairAttempts,
+        renames: options.rename,
+        confirmRename: process.stdin.isTTY ? askToRename : undefined,
+        allowDestructive: options.allowDestructive,
+        confirmMigration: process.stdin.isTTY ? askToMigrate : undefined,
+        dialect: options.dialect,
+        hooks: options.hooks,
+        auth: options.auth,
+        provider,
+      });
+      await agent.processTableSpec(tables);
+    } else if (!provider) {
+      // Only table specs can be built without a model
+      console.log(
+        chalk.red(
+          "❌ Queries and interactive mode need an LLM provider; use --spec or --table/--field to run in template mode"
+        )
+      );
+      process.exit(1);
+    } else if (options.interactive || !query) {
       if (options.verbose) {
-        console.log(chalk.green("🚀 Gemini AI client initialized"));
+        console.log(
+          chalk.green(
+            `🚀 ${provider.name} client initialized (${provider.model})`
+          )
+        );
       }
-      await startInteractiveMode(ai, options.verbose);
+      await startInteractiveMode(provider, options.verbose);
     } else {
       // Direct query mode (existing functionality)
       console.log(chalk.blue.bold("🌺 Orchids Database Agent"));
       console.log(chalk.gray("━".repeat(50)));
       console.log();
-      const agent = new DatabaseAgent();
+      const agent = new DatabaseAgent({
+        dryRun: options.dryRun,
+        skipCommands: options.skipCommands,
+        repairAttempts: options.repairAttempts,
+        renames: options.rename,
+        confirmRename: process.stdin.isTTY ? askToRename : undefined,
+        allowDestructive: options.allowDestructive,
+        confirmMigration: process.stdin.isTTY ? askToMigrate : undefined,
+        dialect: options.dialect,
+        hooks: options.hooks,
+        auth: options.auth,
+        provider,
+      });
       await agent.processQuery(query);
     }
   });
 
+program
+  .command("undo")
+  .description("Revert the files changed by the last (or a given) agent run")
+  .argument("[runId]", "Run id from .orchids/runs (defaults to the latest run)")
+  .option("-f, --force", "Restore files even if they changed since the run")
+  .option("--dry-run", "Show what would be restored without writing files")
+  .option(
+    "--allow-destructive",
+    "Apply the reverting migration without asking when it drops data"
+  )
+  .option("--db <driver>", "Database to migrate: postgres or pglite")
+  .action(async (runId: string | undefined, options: any) => {
+    useDatabaseDriver(options.db);
+    const agent = new DatabaseAgent({
+      dryRun: options.dryRun,
+      allowDestructive: options.allowDestructive,
+      confirmMigration: process.stdin.isTTY ? askToMigrate : undefined,
+      provider: null,
+    });
+    const undone = await agent.undoRun(runId, options.force);
+    if (!undone) process.exitCode = 1;
+  });
+
 process.on("uncaughtException", (error) => {
   console.error(chalk.red("❌ Unexpected error:"), error.message);
   process.exit(1);
@@ -0,0 +1,335 @@
+import * as path from "path";
+import ts from "typescript";
+import { AccessPolicy, AccessRule, SchemaDefinition } from "../types";
+import { columnKey, tableExportName } from "../utils";
+
+// Per-table access policies. Each lives in src/db/access/<table>.ts next to
+// the schema file, where the agent reads it back, so regenerated routes
+// keep enforcing it. src/lib/access.ts checks them at runtime.
+
+export const ACCESS_DIR = "src/db/access";
+export const ACCESS_LIB_FILE = "src/lib/access.ts";
+export const ADMIN_ROLE = "admin";
+
+export const ACCESS_OPERATIONS = [
+  "read",
+  "create",
+  "update",
+  "delete",
+] as const;
+export type AccessOperation = (typeof ACCESS_OPERATIONS)[number];
+
+export function accessFilePath(def: SchemaDefinition): string {
+  return path.join(process.cwd(), ACCESS_DIR, def.fileName);
+}
+
+export function accessExportName(def: SchemaDefinition): string {
+  return `${tableExportName(def)}Access`;
+}
+
+// Operations without a rule are public too
+export function isPublicRule(rule: AccessRule | undefined): boolean {
+  return rule === undefined || rule === "public";
+}
+
+// Hidden columns as the keys rows have
+export function hiddenKeys(def: SchemaDefinition): string[] {
+  return Object.keys(def.access?.hidden ?? {}).map((column) =>
+    columnKey(def, column)
+  );
+}
+
+// The `access` of a table spec or of the model's answer:
+//
+//   access:
+//     read: public
+//     write: curator            # create and update
+//     delete: admin
+//     hidden: [internal_notes]  # or { internal_notes: curator }
+//
+// A rule is public, authenticated, a role, "curator|editor" or a list of
+// roles. Hidden columns listed without a rule are only shown to admins.
+export function parseAccessPolicy(tableName: string, raw: any): AccessPolicy {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Table '${tableName}' access must be an object`);
+  }
+  const unknown = Object.keys(raw).filter(
+    (key) =>
+      !["write", "hidden", ...ACCESS_OPERATIONS].includes(
+        key as AccessOperation
+      )
+  );
+  if (unknown.length) {
+    throw new Error(
+      `Table '${tableName}' access has unknown key(s) ${unknown.join(
+        ", "
+      )} - expected read, create, update, delete, write or hidden`
+    );
+  }
+
+  const policy: AccessPolicy = {};
+  for (const operation of ACCESS_OPERATIONS) {
+    const value =
+      raw[operation] ??
+      (operation === "create" || operation === "update"
+        ? raw.write
+        : undefined);
+    if (value !== undefined)
+      policy[operation] = parseAccessRule(tableName, operation, value);
+  }
+  if (raw.hidden !== undefined) {
+    const hidden: [string, unknown][] = Array.isArray(raw.hidden)
+      ? raw.hidden.map((column: unknown) => [column, [ADMIN_ROLE]])
+      : typeof raw.hidden === "object" && raw.hidden
+      ? Object.entries(raw.hidden)
+      : [];
+    if (
+      hidden.length === 0 ||
+      hidden.some(([column]) => typeof column !== "string")
+    ) {
+      throw new Error(
+        `Table '${tableName}' access.hidden must list columns, or map them to rules`
+      );
+    }
+    policy.hidden = Object.fromEntries(
+      hidden.map(([column, rule]) => [
+        column,
+        parseAccessRule(tableName, `hidden.${column}`, rule),
+      ])
+    );
+  }
+  return policy;
+}
+
+// --access flags of --table: "read:public", "write:curator|editor",
+// "delete:admin" and "hidden:internal_notes[:curator]"
+export function parseAccessFlags(
+  tableName: string,
+  flags: string[]
+): AccessPolicy {
+  const raw: Record<string, any> = {};
+  for (const flag of flags) {
+    const [key, value, rule] = flag.split(":").map((p) => p.trim());
+    if (!key || !value) {
+      throw new Error(
+        `Invalid access '${flag}' - expected operation:rule or hidden:column[:rule]`
+      );
+    }
+    if (key === "hidden") {
+      raw.hidden = { ...raw.hidden, [value]: rule ?? [ADMIN_ROLE] };
+    } else {
+      raw[key] = value;
+    }
+  }
+  return parseAccessPolicy(tableName, raw);
+}
+
+function parseAccessRule(
+  tableName: string,
+  name: string,
+  value: unknown
+): AccessRule {
+  if (value === "public" || value === "authenticated") return value;
+  const roles =
+    typeof value === "string"
+      ? value.split(/[|,]/)
+      : Array.isArray(value) && value.every((v) => typeof v === "string")
+      ? value
+      : null;
+  if (!roles) {
+    throw new Error(
+      `Table '${tableName}' access.${name} must be public, authenticated or roles`
+    );
+  }
+  return [...new Set(roles.map((role) => role.trim()).filter(Boolean))];
+}
+
+// Problems with a table's policy, e.g. hiding a column it doesn't have
+export function accessProblems(def: SchemaDefinition): string[] {
+  return Object.keys(def.access?.hidden ?? {}).flatMap((column) => {
+    if (column === "id")
+      return [`${def.tableName}: the id column can't be hidden`];
+    if (!def.fields.some((f) => f.name === column))
+      return [`${def.tableName}: hidden column ${column} doesn't exist`];
+    return [];
+  });
+}
+
+// For the plan, e.g. "read public, create curator, delete admin, hides notes"
+export function describeAccess(policy: AccessPolicy): string {
+  const rule = (r: AccessRule) =>
+    typeof r === "string" ? r : r.length ? r.join("|") : ADMIN_ROLE;
+  const hidden = Object.keys(policy.hidden ?? {});
+  return [
+    ...ACCESS_OPERATIONS.filter((op) => policy[op] !== undefined).map(
+      (op) => `${op} ${rule(policy[op]!)}`
+    ),
+    ...(hidden.length ? [`hides ${hidden.join(", ")}`] : []),
+  ].join(", ");
+}
+
+export function sameAccess(
+  a: AccessPolicy | undefined,
+  b: AccessPolicy | undefined
+): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// src/db/access/<table>.ts. Hidden columns are written as row keys, the
+// names src/lib/access.ts sees.
+export function accessFileSource(def: SchemaDefinition): string {
+  const policy = def.access ?? {};
+  const rule = (r: AccessRule) =>
+    typeof r === "string"
+      ? `"${r}"`
+      : `[${r.map((role) => `"${role}"`).join(", ")}]`;
+  const lines = ACCESS_OPERATIONS.filter((op) => policy[op] !== undefined).map(
+    (op) => `  ${op}: ${rule(policy[op]!)},`
+  );
+  const hidden = Object.entries(policy.hidden ?? {});
+  if (hidden.length) {
+    lines.push(
+      "  hidden: {",
+      ...hidden.map(
+        ([column, r]) => `    ${columnKey(def, column)}: ${rule(r)},`
+      ),
+      "  },"
+    );
+  }
+  return `import type { AccessPolicy } from "@/lib/access";
+
+// Who may use the ${def.tableName} routes. Regenerated routes keep enforcing
+// this file; rules are "public", "authenticated" or the roles allowed, and
+// admins pass every rule.
+export const ${accessExportName(def)}: AccessPolicy = {
+${lines.join("\n")}
+};
+`;
+}
+
+// Reads a policy file back, mapping hidden row keys to column names. Null
+// when it declares no object literal the agent understands.
+export function parseAccessSource(
+  text: string,
+  def: SchemaDefinition
+): AccessPolicy | null {
+  const source = ts.createSourceFile(
+    def.fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS
+  );
+  for (const statement of source.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const decl of statement.declarationList.declarations) {
+      const value = decl.initializer && literalValue(decl.initializer);
+      if (!value || typeof value !== "object" || Array.isArray(value)) continue;
+      const columns = Object.fromEntries(
+        def.fields.map((f) => [columnKey(def, f.name), f.name])
+      );
+      if (value.hidden && typeof value.hidden === "object") {
+        value.hidden = Object.fromEntries(
+          Object.entries(value.hidden).map(([key, rule]) => [
+            columns[key] ?? key,
+            rule,
+          ])
+        );
+      }
+      try {
+        return parseAccessPolicy(def.tableName, value);
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// Strings, arrays and objects of them; undefined for anything else
+function literalValue(node: ts.Expression): any {
+  while (
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isParenthesizedExpression(node)
+  )
+    node = node.expression;
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isArrayLiteralExpression(node)) {
+    const items = node.elements.map(literalValue);
+    return items.includes(undefined) ? undefined : items;
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const entries: [string, any][] = [];
+    for (const property of node.properties) {
+      if (!ts.isPropertyAssignment(property)) return undefined;
+      const name = property.name;
+      const key =
+        ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : null;
+      const value = literalValue(property.initializer);
+      if (key === null || value === undefined) return undefined;
+      entries.push([key, value]);
+    }
+    return Object.fromEntries(entries);
+  }
+  return undefined;
+}
+
+// src/lib/access.ts, written with the rest of the auth subsystem. 401 and
+// 403 come from src/lib/auth.ts, so they match the scoped routes.
+export const ACCESS_LIB_SOURCE = `import type { NextResponse } from "next/server";
+import { forbidden, getCurrentUser, unauthorized, type CurrentUser } from "@/lib/auth";
+
+// The role that passes every rule
+export const ADMIN_ROLE = "${ADMIN_ROLE}";
+
+export type Operation = "read" | "create" | "update" | "delete";
+
+// "public", "authenticated" (any signed-in user) or the roles allowed
+export type AccessRule = "public" | "authenticated" | readonly string[];
+
+// A table's policy, declared in src/db/access. Operations without a rule are
+// public; hidden columns are left out of responses, filters and sorts for
+// users their rule doesn't admit.
+export interface AccessPolicy {
+  read?: AccessRule;
+  create?: AccessRule;
+  update?: AccessRule;
+  delete?: AccessRule;
+  hidden?: Readonly<Record<string, AccessRule>>;
+}
+
+export function admits(rule: AccessRule | undefined, user: CurrentUser | null): boolean {
+  if (rule === undefined || rule === "public") return true;
+  if (!user) return false;
+  return rule === "authenticated" || user.role === ADMIN_ROLE || rule.includes(user.role);
+}
+
+// The signed-in user, or null, when the policy allows the operation;
+// otherwise the 401 without a session or the 403 without the role
+export async function authorize(
+  policy: AccessPolicy,
+  operation: Operation
+): Promise<{ user: CurrentUser | null } | { error: NextResponse }> {
+  const user = await getCurrentUser();
+  const rule = policy[operation];
+  if (admits(rule, user)) return { user };
+  if (!user) return { error: unauthorized() };
+  const roles = typeof rule === "object" && rule.length ? rule : [ADMIN_ROLE];
+  return { error: forbidden(\`\${operation} requires the \${roles.join(" or ")} role\`) };
+}
+
+// Keys of the hidden columns the user may not see
+export function hiddenFields(policy: AccessPolicy, user: CurrentUser | null): string[] {
+  return Object.entries(policy.hidden ?? {})
+    .filter(([, rule]) => !admits(rule, user))
+    .map(([key]) => key);
+}
+
+export function omitFields<T extends object>(record: T, fields: string[]): T {
+  if (fields.length === 0) return record;
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => !fields.includes(key))
+  ) as T;
+}
+`;
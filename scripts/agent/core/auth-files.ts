@@ -0,0 +1,582 @@
+import { SchemaDefinition } from "../types";
+import { ACCESS_LIB_FILE, ACCESS_LIB_SOURCE } from "./access-policy";
+import { columnKey } from "../utils";
+import { parseColumnType } from "./column-types";
+import { ComponentEditor } from "./component-editor";
+import { Dialect } from "./dialects";
+
+// The auth subsystem --auth adds: users and sessions tables, credentials
+// routes under /api/auth, getCurrentUser() for route handlers, the checks
+// of access policies, and a middleware turning away requests to
+// user-scoped routes without a session.
+
+export const AUTH_FILE = "src/lib/auth.ts";
+export const AUTH_CLIENT_FILE = "src/lib/auth-client.ts";
+export const MIDDLEWARE_FILE = "src/middleware.ts";
+export const LOGIN_PAGE_FILE = "src/app/login/page.tsx";
+export const PAGE_FILE = "src/app/page.tsx";
+export const SESSION_COOKIE = "session";
+
+// Tables with this integer column hold rows of one user each
+export const OWNER_COLUMN = "user_id";
+
+// First line of the generated middleware; a hand-written one is left alone
+const MIDDLEWARE_MARKER = "// Generated by the database agent";
+
+export const AUTH_TABLES: SchemaDefinition[] = [
+  {
+    tableName: "users",
+    fileName: "users.ts",
+    fields: [
+      {
+        name: "email",
+        type: "varchar(255)",
+        constraints: ["notNull()", "unique()"],
+      },
+      { name: "password_hash", type: "text", constraints: ["notNull()"] },
+      { name: "name", type: "varchar(100)" },
+      // Checked against the rules of access policies; see core/access-policy.ts
+      {
+        name: "role",
+        type: "varchar(20)",
+        constraints: ["notNull()", "default(user)"],
+      },
+    ],
+  },
+  {
+    tableName: "sessions",
+    fileName: "sessions.ts",
+    fields: [
+      {
+        name: "user_id",
+        type: "integer",
+        constraints: ["notNull()"],
+        references: { table: "users", column: "id", onDelete: "cascade" },
+      },
+      {
+        name: "token_hash",
+        type: "varchar(64)",
+        constraints: ["notNull()", "unique()"],
+      },
+      { name: "expires_at", type: "timestamp", constraints: ["notNull()"] },
+    ],
+  },
+];
+
+export function isAuthTable(tableName: string): boolean {
+  return AUTH_TABLES.some((def) => def.tableName === tableName);
+}
+
+// Marks a table whose rows belong to users, so its routes only serve the
+// signed-in user's rows and its request bodies leave the owner out
+export function withOwner(def: SchemaDefinition): SchemaDefinition {
+  if (def.owner || isAuthTable(def.tableName)) return def;
+  const field = def.fields.find((f) => f.name === OWNER_COLUMN);
+  const column = field && parseColumnType(field.type);
+  if (!column || column.kind !== "number" || column.isArray || column.isSerial)
+    return def;
+  return { ...def, owner: OWNER_COLUMN };
+}
+
+export function ownerKey(def: SchemaDefinition): string | null {
+  return def.owner ? columnKey(def, def.owner) : null;
+}
+
+// Every file of the subsystem but the schemas and the middleware, which
+// change with the tables
+export function authFiles(dialect: Dialect): Record<string, string> {
+  return {
+    [AUTH_FILE]: authSource(dialect),
+    [AUTH_CLIENT_FILE]: AUTH_CLIENT_SOURCE,
+    [ACCESS_LIB_FILE]: ACCESS_LIB_SOURCE,
+    "src/app/api/auth/signup/route.ts": SIGNUP_ROUTE_SOURCE,
+    "src/app/api/auth/login/route.ts": LOGIN_ROUTE_SOURCE,
+    "src/app/api/auth/logout/route.ts": LOGOUT_ROUTE_SOURCE,
+    "src/app/api/auth/me/route.ts": ME_ROUTE_SOURCE,
+    [LOGIN_PAGE_FILE]: LOGIN_PAGE_SOURCE,
+  };
+}
+
+function authSource(dialect: Dialect): string {
+  const insert = dialect.supportsReturning
+    ? `    const [user] = await db.insert(users).values(values).returning(USER_COLUMNS);
+    return user;`
+    : `    const [{ id }] = await db.insert(users).values(values).$returningId();
+    return (await findUser(id))!;`;
+
+  return `import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, gt } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import { sessions, users, type Users } from "@/db/schema";
+
+export const SESSION_COOKIE = "${SESSION_COOKIE}";
+const SESSION_DAYS = 30;
+
+// A user as route handlers and responses see it: never the password hash
+export type CurrentUser = Omit<Users, "passwordHash">;
+
+const USER_COLUMNS = {
+  id: users.id,
+  email: users.email,
+  name: users.name,
+  role: users.role,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+export const signUpSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(255),
+  password: z.string().min(8, "Use at least 8 characters").max(128),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const signInSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1),
+});
+
+// 401 and 403 bodies match the errors of the generated routes
+export function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: "Sign in required", issues: [] },
+    { status: 401 }
+  );
+}
+
+export function forbidden(error = "This record belongs to another user") {
+  return NextResponse.json(
+    { success: false, error, issues: [] },
+    { status: 403 }
+  );
+}
+
+// The body of a credentials route, or the 400 to answer with
+export async function readCredentials<T extends z.ZodTypeAny>(
+  request: NextRequest,
+  schema: T
+): Promise<{ data: z.infer<T> } | { error: NextResponse }> {
+  const body = await request.json().catch(() => null);
+  const parsed = schema.safeParse(body ?? {});
+  if (parsed.success) return { data: parsed.data };
+  const message = parsed.error.issues
+    .map((issue) => (issue.path.length ? \`\${issue.path.join(".")}: \${issue.message}\` : issue.message))
+    .join("; ");
+  return {
+    error: NextResponse.json(
+      { success: false, error: message, issues: parsed.error.issues },
+      { status: 400 }
+    ),
+  };
+}
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  length: number
+) => Promise<Buffer>;
+
+// "salt:key", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, 64);
+  return \`\${salt.toString("hex")}:\${key.toString("hex")}\`;
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [salt, key] = hash.split(":");
+  if (!salt || !key) return false;
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+async function findUser(id: number): Promise<CurrentUser | null> {
+  const [user] = await db.select(USER_COLUMNS).from(users).where(eq(users.id, id));
+  return user ?? null;
+}
+
+// Drizzle wraps the driver's error as its cause
+function isUniqueViolation(error: unknown): boolean {
+  const cause = (error instanceof Error && error.cause ? error.cause : error) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  return ${uniqueViolationCheck(dialect)};
+}
+
+// The new user, or null when the email already has an account. The insert
+// itself checks, so two sign-ups with one email can't both pass.
+export async function createUser(
+  input: z.infer<typeof signUpSchema>
+): Promise<CurrentUser | null> {
+  const values = {
+    email: input.email,
+    passwordHash: await hashPassword(input.password),
+    name: input.name ?? null,
+  };
+  try {
+${insert}
+  } catch (error) {
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+}
+
+// Checked in place of a missing account's hash, so unknown emails take as
+// long to turn away as wrong passwords
+const DUMMY_HASH = \`\${"0".repeat(32)}:\${"0".repeat(128)}\`;
+
+// The user with these credentials, or null for an unknown email or a wrong
+// password alike
+export async function authenticate(
+  input: z.infer<typeof signInSchema>
+): Promise<CurrentUser | null> {
+  const [account] = await db
+    .select({ id: users.id, passwordHash: users.passwordHash })
+    .from(users)
+    .where(eq(users.email, input.email));
+  const valid = await verifyPassword(input.password, account?.passwordHash ?? DUMMY_HASH);
+  if (!account || !valid) return null;
+  return findUser(account.id);
+}
+
+// The cookie holds a random token; only its hash is stored, so the sessions
+// table alone can't be used to sign in
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function createSession(userId: number) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  await db.insert(sessions).values({ userId, tokenHash: hashToken(token), expiresAt });
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function deleteSession() {
+  const store = await cookies();
+  const token = store.get(SESSION_COOKIE)?.value;
+  if (token) await db.delete(sessions).where(eq(sessions.tokenHash, hashToken(token)));
+  store.delete(SESSION_COOKIE);
+}
+
+// The signed-in user of the request being handled, or null without a
+// valid, unexpired session
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const [user] = await db
+    .select(USER_COLUMNS)
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.tokenHash, hashToken(token)), gt(sessions.expiresAt, new Date())));
+  return user ?? null;
+}
+`;
+}
+
+// How each driver reports a duplicate key
+function uniqueViolationCheck(dialect: Dialect): string {
+  switch (dialect.name) {
+    case "sqlite":
+      return `typeof cause.message === "string" && cause.message.includes("UNIQUE constraint failed")`;
+    case "mysql":
+      return `cause.code === "ER_DUP_ENTRY"`;
+    default:
+      return `cause.code === "23505"`;
+  }
+}
+
+function authRoute(
+  method: string,
+  endpoint: string,
+  action: string,
+  comment: string,
+  imports: string[],
+  body: string
+): string {
+  const readsRequest = body.includes("request");
+  return `import { ${
+    readsRequest ? "NextRequest, " : ""
+  }NextResponse } from "next/server";
+import { ${imports.join(", ")} } from "@/lib/auth";
+
+// ${comment}
+export async function ${method}(${readsRequest ? "request: NextRequest" : ""}) {
+  try {
+${body}
+  } catch (error) {
+    console.error("${method} ${endpoint} error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to ${action}" },
+      { status: 500 }
+    );
+  }
+}
+`;
+}
+
+const SIGNUP_ROUTE_SOURCE = authRoute(
+  "POST",
+  "/api/auth/signup",
+  "sign up",
+  "Creates an account and signs it in",
+  ["createSession", "createUser", "readCredentials", "signUpSchema"],
+  `    const body = await readCredentials(request, signUpSchema);
+    if ("error" in body) return body.error;
+    const user = await createUser(body.data);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "An account with this email already exists", issues: [] },
+        { status: 409 }
+      );
+    }
+    await createSession(user.id);
+    return NextResponse.json({ success: true, data: user }, { status: 201 });`
+);
+
+const LOGIN_ROUTE_SOURCE = authRoute(
+  "POST",
+  "/api/auth/login",
+  "sign in",
+  "Signs in with email and password",
+  ["authenticate", "createSession", "readCredentials", "signInSchema"],
+  `    const body = await readCredentials(request, signInSchema);
+    if ("error" in body) return body.error;
+
+    const user = await authenticate(body.data);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Invalid email or password", issues: [] },
+        { status: 401 }
+      );
+    }
+    await createSession(user.id);
+    return NextResponse.json({ success: true, data: user });`
+);
+
+const LOGOUT_ROUTE_SOURCE = authRoute(
+  "POST",
+  "/api/auth/logout",
+  "sign out",
+  "Ends the session; succeeds without one too",
+  ["deleteSession"],
+  `    await deleteSession();
+    return NextResponse.json({ success: true });`
+);
+
+const ME_ROUTE_SOURCE = authRoute(
+  "GET",
+  "/api/auth/me",
+  "fetch the current user",
+  "The signed-in user",
+  ["getCurrentUser", "unauthorized"],
+  `    const user = await getCurrentUser();
+    if (!user) return unauthorized();
+    return NextResponse.json({ success: true, data: user });`
+);
+
+const AUTH_CLIENT_SOURCE = `import type { CurrentUser } from "@/lib/auth";
+
+// The credentials routes from the browser. The session lives in an
+// httpOnly cookie, so components only ever see the user.
+
+// CurrentUser with dates as ISO strings
+export type SessionUser = Omit<CurrentUser, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+async function send<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new AuthError(body?.error ?? \`Request failed with status \${response.status}\`, response.status);
+  }
+  return body as T;
+}
+
+export async function signUp(input: {
+  email: string;
+  password: string;
+  name?: string;
+}): Promise<SessionUser> {
+  return (await send<{ data: SessionUser }>("/api/auth/signup", { method: "POST", body: JSON.stringify(input) })).data;
+}
+
+export async function signIn(input: { email: string; password: string }): Promise<SessionUser> {
+  return (await send<{ data: SessionUser }>("/api/auth/login", { method: "POST", body: JSON.stringify(input) })).data;
+}
+
+export async function signOut(): Promise<void> {
+  await send("/api/auth/logout", { method: "POST" });
+}
+
+// null when nobody is signed in
+export async function getSessionUser(): Promise<SessionUser | null> {
+  try {
+    return (await send<{ data: SessionUser }>("/api/auth/me")).data;
+  } catch (error) {
+    if (error instanceof AuthError && error.status === 401) return null;
+    throw error;
+  }
+}
+`;
+
+const LOGIN_PAGE_SOURCE = `"use client";
+
+import { useState } from "react";
+import { signIn, signUp } from "@/lib/auth-client";
+
+// Sign in or create an account, then back to the app
+export default function LoginPage() {
+  const [mode, setMode] = useState<"signin" | "signup">("signin");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPending(true);
+    setError(null);
+    try {
+      if (mode === "signup") await signUp({ email, password, name: name || undefined });
+      else await signIn({ email, password });
+      window.location.assign("/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setPending(false);
+    }
+  };
+
+  const input =
+    "w-full rounded-md bg-[#242424] px-3 py-2 text-sm text-white placeholder-[#a7a7a7] outline-none focus:ring-2 focus:ring-white";
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-[#121212] px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4 rounded-lg bg-[#181818] p-8">
+        <h1 className="text-2xl font-bold text-white">
+          {mode === "signin" ? "Log in" : "Sign up"}
+        </h1>
+        {mode === "signup" && (
+          <input className={input} placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+        )}
+        <input
+          className={input}
+          type="email"
+          placeholder="Email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <input
+          className={input}
+          type="password"
+          placeholder="Password"
+          autoComplete={mode === "signin" ? "current-password" : "new-password"}
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={pending}
+          className="w-full rounded-full bg-[#1db954] py-3 text-sm font-bold text-black hover:bg-[#1ed760] disabled:opacity-50"
+        >
+          {mode === "signin" ? "Log in" : "Sign up"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setMode(mode === "signin" ? "signup" : "signin")}
+          className="w-full text-sm text-[#a7a7a7] hover:text-white"
+        >
+          {mode === "signin" ? "No account? Sign up" : "Have an account? Log in"}
+        </button>
+      </form>
+    </main>
+  );
+}
+`;
+
+// Runs on the edge, which can't reach the database: requests to the scoped
+// routes without a session cookie get their 401 here, and the routes check
+// the session itself. Null when no routes are scoped.
+export function middlewareSource(endpoints: string[]): string | null {
+  if (endpoints.length === 0) return null;
+  return `${MIDDLEWARE_MARKER} for the user-scoped routes
+import { NextRequest, NextResponse } from "next/server";
+
+// SESSION_COOKIE of src/lib/auth.ts, which can't be imported on the edge
+const SESSION_COOKIE = "${SESSION_COOKIE}";
+
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+  return NextResponse.json(
+    { success: false, error: "Sign in required", issues: [] },
+    { status: 401 }
+  );
+}
+
+export const config = {
+  matcher: [
+${endpoints.map((endpoint) => `    "${endpoint}/:path*",`).join("\n")}
+  ],
+};
+`;
+}
+
+export function isGeneratedMiddleware(source: string): boolean {
+  return source.startsWith(MIDDLEWARE_MARKER);
+}
+
+// Makes the logout item of SpotifyHeader end the session. Null when the
+// page already signs out or has no handler to change.
+export function integrateLogout(page: string): string | null {
+  const editor = new ComponentEditor(page, "page.tsx");
+  const handler = editor.findStatementDeclaring(
+    "SpotifyApp",
+    "handleUserMenuAction"
+  );
+  if (!handler || editor.isReferenced("signOut")) return null;
+  const indent = editor.indentOf(handler);
+  editor.replaceNode(
+    handler,
+    [
+      `const handleUserMenuAction = async (action: 'profile' | 'settings' | 'logout') => {`,
+      `  if (action === 'logout') {`,
+      `    await signOut()`,
+      `    window.location.assign('/login')`,
+      `  }`,
+      `}`,
+    ].join(`\n${indent}`)
+  );
+  editor.addNamedImports("@/lib/auth-client", ["signOut"]);
+  return editor.getText();
+}
@@ -1,31 +1,32 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import chalk from "chalk";
 import ora from "ora";
-import { AgentStep } from "../types";
+import { AgentStep, LLMProvider } from "../types";
 import { logStep } from "../utils";
+import { createProvider } from "../providers/registry";
 
 export abstract class BaseAgent {
-  protected genAI: GoogleGenerativeAI | null;
-  protected model: any;
+  protected model: LLMProvider | null;
   protected spinner: any;
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+  constructor(provider?: LLMProvider | null) {
+    this.model = provider === undefined ? createProvider() : provider;
+    if (provider === undefined && !this.model) {
       console.log(
-        chalk.yellow("⚠️  No GEMINI_API_KEY found - running in demo mode")
+        chalk.yellow("⚠️  No LLM provider configured - running in demo mode")
       );
       console.log(
         chalk.gray(
-          "   Add your API key to .env for full AI-powered functionality\n"
+          "   Add your provider's API key to .env for full AI-powered functionality\n"
         )
       );
     }
-    this.genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
-    this.model =
-      apiKey && this.genAI
-        ? this.genAI.getGenerativeModel({ model: "gemini-2.5-flash" })
-        : null;
+  }
+
+  // What generates the code, as progress messages name it
+  protected get generator(): string {
+    return this.model
+      ? `${this.model.name} (${this.model.model})`
+      : "the deterministic templates";
   }
 
   protected log(step: AgentStep) {
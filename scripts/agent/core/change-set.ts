@@ -0,0 +1,324 @@
+import chalk from "chalk";
+import * as fs from "fs";
+import * as path from "path";
+import { createTwoFilesPatch } from "diff";
+import { FileChange } from "../types";
+
+// Collects every file the agent writes during a run. Writes are staged in
+// memory and only reach the disk on flush()/commit(); rollback() restores the
+// tree to how it was before the run. In dry-run mode nothing touches the disk.
+// Reads are served from the staged changes so later steps see the files
+// earlier steps "wrote".
+export class ChangeSet {
+  private changes = new Map<string, FileChange>();
+  private pending = new Set<string>();
+  private written = new Set<string>();
+  private createdDirs: string[] = [];
+  private watchedDirs = new Map<string, Map<string, string>>();
+  private settledDirs = new Set<string>();
+  // Content of written files when they were settled; null when deleted
+  private settledFiles = new Map<string, string | null>();
+  private skippedCommands: string[] = [];
+  private executedCommands: string[] = [];
+  private committed = false;
+
+  constructor(
+    private readonly dryRun: boolean = false,
+    private readonly skipCommands: boolean = false
+  ) {}
+
+  get isDryRun() {
+    return this.dryRun;
+  }
+
+  writeFile(filePath: string, content: string) {
+    this.stage(filePath, content);
+  }
+
+  deleteFile(filePath: string) {
+    this.stage(filePath, null);
+  }
+
+  private stage(filePath: string, content: string | null) {
+    const absolutePath = path.resolve(filePath);
+    const existing = this.changes.get(absolutePath);
+    const before = existing
+      ? existing.before
+      : fs.existsSync(absolutePath)
+      ? fs.readFileSync(absolutePath, "utf8")
+      : null;
+
+    this.changes.set(absolutePath, {
+      path: absolutePath,
+      before,
+      after: content,
+    });
+    if (!this.dryRun) this.pending.add(absolutePath);
+  }
+
+  readFile(filePath: string): string {
+    const change = this.changes.get(path.resolve(filePath));
+    if (change?.after === null)
+      throw new Error(`ENOENT: ${filePath} is staged for deletion`);
+    if (change) return change.after;
+    return fs.readFileSync(filePath, "utf8");
+  }
+
+  exists(filePath: string): boolean {
+    const absolutePath = path.resolve(filePath);
+    const change = this.changes.get(absolutePath);
+    if (change) return change.after !== null;
+    const prefix = absolutePath + path.sep;
+    for (const [changedPath, { after }] of this.changes) {
+      if (after !== null && changedPath.startsWith(prefix)) return true;
+    }
+    return fs.existsSync(absolutePath);
+  }
+
+  readDir(dirPath: string): string[] {
+    const absoluteDir = path.resolve(dirPath);
+    const entries = new Set(
+      fs.existsSync(absoluteDir) ? fs.readdirSync(absoluteDir) : []
+    );
+    for (const [changedPath, { after }] of this.changes) {
+      if (path.dirname(changedPath) !== absoluteDir) continue;
+      if (after === null) entries.delete(path.basename(changedPath));
+      else entries.add(path.basename(changedPath));
+    }
+    return [...entries].sort();
+  }
+
+  // Commands are only recorded in dry-run or skip-commands mode; returns true
+  // when the caller should actually run it. Staged files are flushed first so the command
+  // sees them on disk.
+  runCommand(command: string): boolean {
+    if (!this.dryRun && !this.skipCommands) {
+      this.flush();
+      this.executedCommands.push(command);
+      return true;
+    }
+    this.skippedCommands.push(command);
+    return false;
+  }
+
+  // Snapshot a directory an external tool (e.g. drizzle-kit) is about to
+  // write into, so rollback() can undo those writes as well.
+  watchDirectory(dirPath: string) {
+    const absoluteDir = path.resolve(dirPath);
+    if (this.dryRun || this.watchedDirs.has(absoluteDir)) return;
+    this.ensureDir(absoluteDir);
+    const snapshot = new Map<string, string>();
+    for (const file of listFilesRecursive(absoluteDir)) {
+      snapshot.set(file, fs.readFileSync(file, "utf8"));
+    }
+    this.watchedDirs.set(absoluteDir, snapshot);
+  }
+
+  // Keeps the tree as it is now through rollback() once a tool has applied
+  // it somewhere rollback() can't reach, e.g. drizzle-kit migrating the
+  // database: the migrations it wrote into the watched directory, and the
+  // schema files it generated them from, must keep matching the database.
+  settle(watchedDir: string) {
+    const absoluteDir = path.resolve(watchedDir);
+    if (!this.watchedDirs.has(absoluteDir)) return;
+    this.settledDirs.add(absoluteDir);
+    for (const filePath of this.written) {
+      this.settledFiles.set(
+        filePath,
+        fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : null
+      );
+    }
+  }
+
+  // What rollback() keeps: settled files, and the tool's writes in settled
+  // directories
+  getSettledChanges(): { files: FileChange[]; generatedFiles: FileChange[] } {
+    const files: FileChange[] = [];
+    for (const [filePath, after] of this.settledFiles) {
+      const { before } = this.changes.get(filePath)!;
+      if (before !== after) files.push({ path: filePath, before, after });
+    }
+    const generatedFiles = this.getWatchedChanges().filter((c) =>
+      [...this.settledDirs].some((dir) => c.path.startsWith(dir + path.sep))
+    );
+    return { files, generatedFiles };
+  }
+
+  flush() {
+    if (this.dryRun) return;
+    for (const filePath of this.pending) {
+      const change = this.changes.get(filePath)!;
+      this.written.add(filePath);
+      if (change.after === null) {
+        fs.rmSync(filePath, { force: true });
+        continue;
+      }
+      this.ensureDir(path.dirname(filePath));
+      // Write next to the target and rename so a file is never half-written
+      const tempPath = `${filePath}.orchids-tmp`;
+      fs.writeFileSync(tempPath, change.after);
+      fs.renameSync(tempPath, filePath);
+    }
+    this.pending.clear();
+  }
+
+  commit() {
+    this.flush();
+    this.committed = true;
+  }
+
+  rollback() {
+    if (this.dryRun || this.committed) return;
+    this.pending.clear();
+
+    for (const filePath of this.written) {
+      const content = this.settledFiles.has(filePath)
+        ? (this.settledFiles.get(filePath) as string | null)
+        : this.changes.get(filePath)!.before;
+      if (content === null) {
+        fs.rmSync(filePath, { force: true });
+      } else {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+    }
+    this.written.clear();
+
+    for (const [dir, snapshot] of this.watchedDirs) {
+      if (!fs.existsSync(dir) || this.settledDirs.has(dir)) continue;
+      for (const file of listFilesRecursive(dir)) {
+        const original = snapshot.get(file);
+        if (original === undefined) fs.rmSync(file, { force: true });
+        else if (fs.readFileSync(file, "utf8") !== original)
+          fs.writeFileSync(file, original);
+      }
+      for (const [file, content] of snapshot) {
+        if (!fs.existsSync(file)) {
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, content);
+        }
+      }
+      removeEmptyDirs(dir);
+    }
+    this.watchedDirs.clear();
+    this.settledDirs.clear();
+    this.settledFiles.clear();
+
+    // Deepest directories first so parents are empty by the time we get there
+    const dirs = [...new Set(this.createdDirs)].sort(
+      (a, b) => b.length - a.length
+    );
+    for (const dir of dirs) {
+      try {
+        fs.rmdirSync(dir);
+      } catch {}
+    }
+    this.createdDirs = [];
+  }
+
+  getChanges(): FileChange[] {
+    return [...this.changes.values()];
+  }
+
+  // Files an external tool created or modified inside watched directories
+  getWatchedChanges(): FileChange[] {
+    const changes: FileChange[] = [];
+    for (const [dir, snapshot] of this.watchedDirs) {
+      if (!fs.existsSync(dir)) continue;
+      for (const file of listFilesRecursive(dir)) {
+        const before = snapshot.get(file) ?? null;
+        const after = fs.readFileSync(file, "utf8");
+        if (before !== after) changes.push({ path: file, before, after });
+      }
+    }
+    return changes;
+  }
+
+  getExecutedCommands(): string[] {
+    return [...this.executedCommands];
+  }
+
+  getSkippedCommands(): string[] {
+    return [...this.skippedCommands];
+  }
+
+  printSummary() {
+    const changes = this.getChanges();
+    console.log(
+      chalk.green("\n📝 Planned Changes (dry run - nothing written):")
+    );
+
+    if (changes.length === 0) {
+      console.log(chalk.gray("   No files would be changed"));
+    }
+
+    for (const change of changes) {
+      const relativePath = path.relative(process.cwd(), change.path);
+      if (change.before === change.after) {
+        console.log(chalk.gray(`\n   = ${relativePath} (unchanged)`));
+        continue;
+      }
+      const label =
+        change.before === null
+          ? "create"
+          : change.after === null
+          ? "delete"
+          : "overwrite";
+      console.log(chalk.blue.bold(`\n   ${label}: ${relativePath}`));
+
+      const patch = createTwoFilesPatch(
+        change.before === null ? "/dev/null" : `a/${relativePath}`,
+        change.after === null ? "/dev/null" : `b/${relativePath}`,
+        change.before ?? "",
+        change.after ?? ""
+      );
+      patch
+        .trimEnd()
+        .split("\n")
+        .slice(1)
+        .forEach((line) => console.log(colorDiffLine(line)));
+    }
+
+    if (this.skippedCommands.length) {
+      console.log(chalk.green("\n⏭️  Commands that would run:"));
+      this.skippedCommands.forEach((c) => console.log(chalk.gray(`   $ ${c}`)));
+    }
+  }
+
+  private ensureDir(dirPath: string) {
+    const missing: string[] = [];
+    let current = dirPath;
+    while (!fs.existsSync(current)) {
+      missing.push(current);
+      current = path.dirname(current);
+    }
+    if (missing.length) {
+      fs.mkdirSync(dirPath, { recursive: true });
+      this.createdDirs.push(...missing);
+    }
+  }
+}
+
+function listFilesRecursive(dirPath: string): string[] {
+  return fs.readdirSync(dirPath, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dirPath, entry.name);
+    return entry.isDirectory() ? listFilesRecursive(entryPath) : [entryPath];
+  });
+}
+
+function removeEmptyDirs(dirPath: string) {
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const entryPath = path.join(dirPath, entry.name);
+    removeEmptyDirs(entryPath);
+    if (fs.readdirSync(entryPath).length === 0) fs.rmdirSync(entryPath);
+  }
+}
+
+function colorDiffLine(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return chalk.bold(line);
+  if (line.startsWith("+")) return chalk.green(line);
+  if (line.startsWith("-")) return chalk.red(line);
+  if (line.startsWith("@@")) return chalk.cyan(line);
+  return chalk.gray(line);
+}
@@ -0,0 +1,283 @@
+import { SchemaField } from "../types";
+import { toCamelCase, toPascalCase } from "../utils";
+
+// SchemaField.type strings and the Drizzle pg-core column each one maps to.
+// Parameterised forms: varchar(n), char(n), numeric(p,s), enum(a|b|c) and
+// timestamp({ withTimezone: true }) (alias timestamptz). Any type can end
+// with [] to make it an array column.
+export const COLUMN_TYPES = [
+  "serial",
+  "smallserial",
+  "bigserial",
+  "integer",
+  "smallint",
+  "bigint",
+  "real",
+  "doublePrecision",
+  "numeric(p,s)",
+  "text",
+  "varchar(n)",
+  "char(n)",
+  "uuid",
+  "boolean",
+  "json",
+  "jsonb",
+  "date",
+  "time",
+  "interval",
+  "timestamp",
+  "timestamp({ withTimezone: true })",
+  "enum(a|b|c)",
+];
+
+export const COLUMN_CONSTRAINTS = [
+  "primaryKey()",
+  "notNull()",
+  "unique()",
+  "defaultNow()",
+  "defaultRandom()",
+  "default(value)",
+  "$onUpdate(() => value)",
+  "check(sql expression)",
+];
+
+export type ValueKind =
+  | "number"
+  | "string"
+  | "boolean"
+  | "date"
+  | "json"
+  | "enum";
+
+export interface ColumnType {
+  // pg-core builder, or "enum" for pgEnum-backed columns
+  builder: string;
+  // Builder options as source text, e.g. "{ length: 50 }"
+  options: string | null;
+  kind: ValueKind;
+  isArray: boolean;
+  isSerial: boolean;
+  enumValues: string[];
+  length: number | null;
+}
+
+const SIMPLE_TYPES: Record<string, { builder: string; kind: ValueKind }> = {
+  serial: { builder: "serial", kind: "number" },
+  smallserial: { builder: "smallserial", kind: "number" },
+  bigserial: { builder: "bigserial", kind: "number" },
+  integer: { builder: "integer", kind: "number" },
+  int: { builder: "integer", kind: "number" },
+  smallint: { builder: "smallint", kind: "number" },
+  bigint: { builder: "bigint", kind: "number" },
+  real: { builder: "real", kind: "number" },
+  doubleprecision: { builder: "doublePrecision", kind: "number" },
+  "double precision": { builder: "doublePrecision", kind: "number" },
+  numeric: { builder: "numeric", kind: "string" },
+  decimal: { builder: "numeric", kind: "string" },
+  text: { builder: "text", kind: "string" },
+  varchar: { builder: "varchar", kind: "string" },
+  char: { builder: "char", kind: "string" },
+  uuid: { builder: "uuid", kind: "string" },
+  boolean: { builder: "boolean", kind: "boolean" },
+  json: { builder: "json", kind: "json" },
+  jsonb: { builder: "jsonb", kind: "json" },
+  date: { builder: "date", kind: "string" },
+  time: { builder: "time", kind: "string" },
+  interval: { builder: "interval", kind: "string" },
+  timestamp: { builder: "timestamp", kind: "date" },
+  timestamptz: { builder: "timestamp", kind: "date" },
+};
+
+// Returns null for types the agent cannot generate
+export function parseColumnType(type: string): ColumnType | null {
+  let spec = type.trim();
+  const isArray = spec.endsWith("[]");
+  if (isArray) spec = spec.slice(0, -2).trim();
+
+  const match = spec.match(/^([A-Za-z ]+?)\s*(?:\(([\s\S]*)\))?$/);
+  if (!match) return null;
+  const name = match[1].toLowerCase();
+  const args = match[2]?.trim() ?? null;
+
+  const column: ColumnType = {
+    builder: "",
+    options: null,
+    kind: "string",
+    isArray,
+    isSerial: /serial$/.test(name),
+    enumValues: [],
+    length: null,
+  };
+
+  if (name === "enum") {
+    const values = (args ?? "")
+      .split(/[|,]/)
+      .map((v) => v.trim().replace(/^["']|["']$/g, ""))
+      .filter(Boolean);
+    if (values.length === 0) return null;
+    return { ...column, builder: "enum", kind: "enum", enumValues: values };
+  }
+
+  const simple = SIMPLE_TYPES[name];
+  if (!simple) return null;
+  Object.assign(column, simple);
+
+  if (column.builder === "varchar" || column.builder === "char") {
+    if (args !== null && !/^\d+$/.test(args)) return null;
+    column.length = args
+      ? Number(args)
+      : column.builder === "varchar"
+      ? 255
+      : 1;
+    column.options = `{ length: ${column.length} }`;
+  } else if (column.builder === "numeric") {
+    if (args !== null) {
+      const [precision, scale] = args.split(",").map((a) => a.trim());
+      if (!/^\d+$/.test(precision) || (scale && !/^\d+$/.test(scale)))
+        return null;
+      column.options = scale
+        ? `{ precision: ${precision}, scale: ${scale} }`
+        : `{ precision: ${precision} }`;
+    }
+  } else if (column.builder === "timestamp") {
+    const withTimezone =
+      name === "timestamptz" || /withTimezone\s*:\s*true/.test(args ?? "");
+    if (args !== null && !/^\{[\s\S]*\}$/.test(args)) return null;
+    if (withTimezone) column.options = "{ withTimezone: true }";
+  } else if (column.builder === "bigint" || column.builder === "bigserial") {
+    // Plain JS numbers keep the generated types and JSON payloads simple
+    column.options = '{ mode: "number" }';
+  } else if (args !== null) {
+    return null;
+  }
+
+  return column;
+}
+
+// Exported pgEnum for an enum column: recently_played.status ->
+// recentlyPlayedStatusEnum = pgEnum("recently_played_status", [...])
+export function enumExportName(tableName: string, fieldName: string): string {
+  return `${toCamelCase(tableName)}${toPascalCase(fieldName)}Enum`;
+}
+
+// `varchar("name", { length: 50 }).array()` without constraints
+export function columnBuilderCall(
+  tableName: string,
+  field: SchemaField,
+  column: ColumnType
+): string {
+  const builder =
+    column.builder === "enum"
+      ? enumExportName(tableName, field.name)
+      : column.builder;
+  const options = column.options ? `, ${column.options}` : "";
+  return `${builder}("${field.name}"${options})${
+    column.isArray ? ".array()" : ""
+  }`;
+}
+
+// TypeScript type of the column in $inferSelect, or in a JSON payload when
+// `json` is set (dates travel as ISO strings)
+export function columnTsType(column: ColumnType, json = false): string {
+  const base = {
+    number: "number",
+    string: "string",
+    boolean: "boolean",
+    date: json ? "string" : "Date",
+    json: "unknown",
+    enum: column.enumValues.map((v) => JSON.stringify(v)).join(" | "),
+  }[column.kind];
+  if (!column.isArray) return base;
+  return column.kind === "enum" ? `(${base})[]` : `${base}[]`;
+}
+
+export function isNullableField(field: SchemaField): boolean {
+  return !(field.constraints ?? []).some(
+    (c) => c === "notNull()" || c === "primaryKey()"
+  );
+}
+
+// Argument of a constraint call: "default(0)" -> "0"
+export function constraintArgument(constraint: string): string {
+  return constraint.slice(constraint.indexOf("(") + 1, -1).trim();
+}
+
+// Source for a `.default(...)` argument. Bare words on string-like columns
+// are quoted, so "default(active)" becomes .default("active").
+export function formatDefaultValue(column: ColumnType, raw: string): string {
+  const quoted = /^(["'`])[\s\S]*\1$/.test(raw);
+  const stringLike = column.kind === "string" || column.kind === "enum";
+  if (column.isArray || raw.startsWith("sql`") || !stringLike || quoted)
+    return raw;
+  return JSON.stringify(raw);
+}
+
+// Problems with a default value for the column, if any
+export function checkDefaultValue(
+  column: ColumnType,
+  raw: string
+): string | null {
+  if (!raw) return "default() needs a value";
+  if (raw.startsWith("sql`")) return null;
+  if (column.isArray) {
+    return raw.startsWith("[") ? null : "array defaults must be array literals";
+  }
+
+  const unquoted = raw.replace(/^(["'`])([\s\S]*)\1$/, "$2");
+  switch (column.kind) {
+    case "number":
+      return /^-?\d+(\.\d+)?$/.test(raw) ? null : `'${raw}' is not a number`;
+    case "boolean":
+      return ["true", "false"].includes(raw)
+        ? null
+        : `'${raw}' is not a boolean`;
+    case "enum":
+      return column.enumValues.includes(unquoted)
+        ? null
+        : `'${unquoted}' is not one of ${column.enumValues.join(", ")}`;
+    case "date":
+      return "use defaultNow() or a sql`...` default for timestamps";
+    default:
+      return null;
+  }
+}
+
+// Postgres type of a column as drizzle-kit writes it in migrations. Enum
+// columns use the pgEnum type name, which defaults to <table>_<column>.
+export function columnSqlType(
+  column: ColumnType,
+  enumTypeName: string
+): string {
+  let base: string;
+  if (column.builder === "enum") base = `"public"."${enumTypeName}"`;
+  else if (column.builder === "doublePrecision") base = "double precision";
+  else if (column.builder === "varchar" || column.builder === "char")
+    base = `${column.builder}(${column.length})`;
+  else if (column.builder === "numeric" && column.options)
+    base = `numeric(${column.options.match(/\d+/g)!.join(", ")})`;
+  else if (column.builder === "timestamp" && column.options)
+    base = "timestamp with time zone";
+  else base = column.builder;
+  return column.isArray ? `${base}[]` : base;
+}
+
+// SQL DEFAULT expression for a column's constraints, or null without one
+export function columnSqlDefault(
+  column: ColumnType,
+  constraints: string[]
+): string | null {
+  if (constraints.includes("defaultNow()")) return "now()";
+  if (constraints.includes("defaultRandom()")) return "gen_random_uuid()";
+  const constraint = constraints.find((c) => c.startsWith("default("));
+  if (!constraint) return null;
+
+  const raw = constraintArgument(constraint);
+  if (raw.startsWith("sql`")) return raw.slice(4, -1);
+  if (column.isArray) {
+    const items = JSON.parse(raw.replace(/'/g, '"')) as unknown[];
+    return `'{${items.map((i) => String(i)).join(",")}}'`;
+  }
+  const unquoted = raw.replace(/^(["'`])([\s\S]*)\1$/, "$2");
+  if (column.kind === "number" || column.kind === "boolean") return unquoted;
+  return `'${unquoted.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,166 @@
+import ts from "typescript";
+import { SourceEditor } from "./source-editor";
+
+export type LiteralKind = "string" | "number" | "boolean" | "other";
+
+export interface ArrayDeclaration {
+  statement: ts.VariableStatement;
+  name: string;
+  // Annotation text such as "PlaylistItem[]", kept when the array is replaced
+  typeText: string | null;
+  // Properties of the first object in the array and the kind of their values
+  elementFields: Array<{ name: string; kind: LiteralKind }>;
+}
+
+// Source-preserving edits to a React component through the TypeScript AST.
+// The query methods make it cheap for callers to skip work that is already
+// done, which keeps repeated integrations idempotent.
+export class ComponentEditor extends SourceEditor {
+  constructor(text: string, fileName = "component.tsx") {
+    super(text, fileName);
+  }
+
+  // Body of `function Name() {}` or `const Name = () => {}`
+  findComponent(name: string): ts.Block | undefined {
+    for (const statement of this.source.statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name?.text === name)
+        return statement.body;
+      if (ts.isVariableStatement(statement)) {
+        for (const decl of statement.declarationList.declarations) {
+          const init = decl.initializer;
+          if (
+            ts.isIdentifier(decl.name) &&
+            decl.name.text === name &&
+            init &&
+            (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) &&
+            ts.isBlock(init.body)
+          )
+            return init.body;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // The top-level statement of the component body that declares `name`,
+  // either directly or through a destructuring pattern
+  findStatementDeclaring(
+    componentName: string,
+    name: string
+  ): ts.VariableStatement | undefined {
+    const body = this.findComponent(componentName);
+    return body?.statements
+      .filter(ts.isVariableStatement)
+      .find((statement) =>
+        statement.declarationList.declarations.some((d) =>
+          declaredNames(d.name).includes(name)
+        )
+      );
+  }
+
+  // A top-level `const name = [...]` in the component body
+  findArrayDeclaration(
+    componentName: string,
+    name: string
+  ): ArrayDeclaration | undefined {
+    const statement = this.findStatementDeclaring(componentName, name);
+    const decl = statement?.declarationList.declarations.find(
+      (d) => ts.isIdentifier(d.name) && d.name.text === name
+    );
+    if (
+      !statement ||
+      !decl?.initializer ||
+      !ts.isArrayLiteralExpression(decl.initializer)
+    )
+      return undefined;
+
+    const first = decl.initializer.elements[0];
+    const elementFields =
+      first && ts.isObjectLiteralExpression(first)
+        ? first.properties.filter(ts.isPropertyAssignment).map((p) => ({
+            name: p.name.getText(this.source),
+            kind: literalKind(p.initializer),
+          }))
+        : [];
+
+    return {
+      statement,
+      name,
+      typeText: decl.type ? decl.type.getText(this.source) : null,
+      elementFields,
+    };
+  }
+
+  // Whether the component body calls `callee(...)` anywhere
+  callsFunction(componentName: string, callee: string): boolean {
+    const body = this.findComponent(componentName);
+    return !!body && this.findCall(body, (name) => name === callee) !== null;
+  }
+
+  // Whether a useEffect in the component already calls `callee`
+  hasEffectCalling(componentName: string, callee: string): boolean {
+    const body = this.findComponent(componentName);
+    if (!body) return false;
+    return body.statements.some((statement) => {
+      if (!ts.isExpressionStatement(statement)) return false;
+      const expr = statement.expression;
+      return (
+        ts.isCallExpression(expr) &&
+        ts.isIdentifier(expr.expression) &&
+        expr.expression.text === "useEffect" &&
+        this.findCall(expr, (name) => name === callee) !== null
+      );
+    });
+  }
+
+  private findCall(
+    root: ts.Node,
+    match: (name: string) => boolean
+  ): ts.CallExpression | null {
+    let found: ts.CallExpression | null = null;
+    const visit = (node: ts.Node) => {
+      if (found) return;
+      if (
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        match(node.expression.text)
+      ) {
+        found = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(root);
+    return found;
+  }
+}
+
+// Whether `code` is a single, syntactically valid TypeScript expression
+export function isValidExpression(code: string): boolean {
+  if (!code.trim()) return false;
+  const { diagnostics } = ts.transpileModule(`(${code});`, {
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+    fileName: "expression.tsx",
+  });
+  return (diagnostics ?? []).length === 0;
+}
+
+function declaredNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) =>
+    ts.isOmittedExpression(element) ? [] : declaredNames(element.name)
+  );
+}
+
+function literalKind(node: ts.Expression): LiteralKind {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+    return "string";
+  if (ts.isNumericLiteral(node)) return "number";
+  if (
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword
+  )
+    return "boolean";
+  return "other";
+}
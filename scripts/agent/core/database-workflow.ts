@@ -1,18 +1,140 @@
 import chalk from "chalk";
 import * as fs from "fs";
 import * as path from "path";
+import { pathToFileURL } from "url";
 import { execSync } from "child_process";
-import { SchemaDefinition } from "../types";
+import { SchemaDefinition, SchemaField } from "../types";
+import { columnKey, tableExportName } from "../utils";
 import { BaseAgent } from "./base-agent";
+import { ChangeSet } from "./change-set";
+import { connectionSource, drizzleConfigSource } from "./dialect-files";
+import { DIALECTS, Dialect } from "./dialects";
+import { LIST_QUERY_FILE, listQuerySource } from "./list-query";
+import {
+  ExistingColumns,
+  MigrationReport,
+  analyzeMigration,
+  formatMigrationReport,
+  snapshotColumns,
+} from "./migration-safety";
+import { SchemaEditor } from "./schema-editor";
+import { TableAlteration, applyChanges } from "./schema-evolution";
+import { ParsedTable } from "./schema-parser";
 
 export class DatabaseWorkflow extends BaseAgent {
-  async implementSchema(schemaDef: SchemaDefinition, schemaGenerator: any) {
+  private changeSet = new ChangeSet();
+  private dialect: Dialect = DIALECTS.postgresql;
+  // Decides whether a locking or destructive migration may run
+  private approveMigration: (report: MigrationReport) => Promise<boolean> =
+    async () => true;
+
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  setDialect(dialect: Dialect) {
+    this.dialect = dialect;
+  }
+
+  setMigrationApproval(approve: (report: MigrationReport) => Promise<boolean>) {
+    this.approveMigration = approve;
+  }
+
+  // Points drizzle.config.ts and src/db/connection.ts at the dialect and
+  // installs its driver. Existing schema files are regenerated from their
+  // definitions, which maps their column types, and the old migrations are
+  // removed because drizzle-kit rejects a folder written for another
+  // dialect. Returns the files written, or null when the driver could not
+  // be installed.
+  async switchDialect(
+    dialect: Dialect,
+    tables: ParsedTable[],
+    schemaGenerator: any
+  ): Promise<string[] | null> {
+    this.log({
+      type: "editing",
+      message: `Switching the project from ${this.dialect.label} to ${dialect.label}`,
+    });
+    const dbDir = path.join(process.cwd(), "src", "db");
+    const configPath = path.join(process.cwd(), "drizzle.config.ts");
+    const connectionPath = path.join(dbDir, "connection.ts");
+    this.changeSet.writeFile(configPath, drizzleConfigSource(dialect));
+    this.changeSet.writeFile(connectionPath, connectionSource(dialect));
+    console.log(chalk.gray("   📝 Updated: drizzle.config.ts"));
+    console.log(chalk.gray("   📝 Updated: src/db/connection.ts"));
+
+    this.setDialect(dialect);
+    const written = [configPath, connectionPath];
+
+    // Routes of earlier runs match text through the dialect's LIKE
+    const listQueryPath = path.join(process.cwd(), LIST_QUERY_FILE);
+    if (this.changeSet.exists(listQueryPath)) {
+      this.changeSet.writeFile(listQueryPath, listQuerySource(dialect));
+      written.push(listQueryPath);
+      console.log(chalk.gray(`   📝 Updated: ${LIST_QUERY_FILE}`));
+    }
+    const allDefinitions = tables.map((t) => t.definition);
+    for (const table of tables) {
+      if (tables.some((t) => t !== table && t.filePath === table.filePath))
+        throw new Error(
+          `${path.basename(
+            table.filePath
+          )} declares several tables; convert it to ${dialect.label} by hand`
+        );
+      this.changeSet.writeFile(
+        table.filePath,
+        schemaGenerator.generateBasicSchemaContent(
+          table.definition,
+          allDefinitions
+        )
+      );
+      written.push(table.filePath);
+      console.log(
+        chalk.gray(
+          `   📝 Rewrote for ${dialect.label}: ${path.basename(table.filePath)}`
+        )
+      );
+    }
+
+    const migrationsDir = path.join(dbDir, "migrations");
+    const migrations = fs.existsSync(migrationsDir)
+      ? listFiles(migrationsDir)
+      : [];
+    migrations.forEach((file) => this.changeSet.deleteFile(file));
+    if (migrations.length)
+      console.log(
+        chalk.gray(
+          `   🗑️  Removed ${migrations.length} migration file(s); the ${dialect.label} database starts from a new migration`
+        )
+      );
+
+    const install = `npm install ${dialect.driverPackages.join(" ")}`;
+    if (this.changeSet.runCommand(install)) {
+      this.startSpinner(`Installing ${dialect.driverPackages.join(", ")}...`);
+      try {
+        execSync(install, { stdio: "pipe", cwd: process.cwd() });
+        this.stopSpinner(true, "Database driver installed");
+      } catch (e: any) {
+        this.stopSpinner(false, "Installing the database driver failed");
+        console.log(chalk.red(`❌ ${e.message}`));
+        return null;
+      }
+    }
+    return written;
+  }
+
+  async implementSchema(
+    schemaDef: SchemaDefinition,
+    schemaGenerator: any,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ) {
     this.log({
       type: "creating",
       message: `Creating ${schemaDef.tableName} schema definition`,
     });
     const schemaContent = await schemaGenerator.generateSchemaContent(
-      schemaDef
+      schemaDef,
+      allDefinitions
     );
     const schemaPath = path.join(
       process.cwd(),
@@ -21,11 +143,182 @@ export class DatabaseWorkflow extends BaseAgent {
       "schema",
       schemaDef.fileName
     );
-    fs.mkdirSync(path.dirname(schemaPath), { recursive: true });
-    fs.writeFileSync(schemaPath, schemaContent);
+    this.changeSet.writeFile(schemaPath, schemaContent);
     console.log(chalk.gray(`   📁 Created: ${schemaDef.fileName}`));
   }
 
+  // Patches an existing schema file for the changes instead of regenerating
+  // it, so columns, comments and helpers the changes don't touch survive.
+  // Returns the files written, including other schema files whose foreign
+  // keys point at a renamed column.
+  async alterSchema(
+    { table, changes }: TableAlteration,
+    schemaGenerator: any,
+    allTables: ParsedTable[]
+  ): Promise<string[]> {
+    const { filePath } = table;
+    const tableName = table.definition.tableName;
+    const exportName = tableExportName(table.definition);
+    this.log({
+      type: "editing",
+      message: `Altering ${tableName} schema definition`,
+    });
+
+    const editor = new SchemaEditor(
+      this.changeSet.readFile(filePath),
+      path.basename(filePath)
+    );
+    const coreImports = new Set<string>();
+    const ormImports = new Set<string>();
+    const relatedImports = new Map<string, string>();
+    const written = [filePath];
+    let current = table.definition;
+    const allDefinitions = allTables.map((t) => t.definition);
+
+    // Emits the column and collects what it needs from other modules
+    const columnCode = (field: SchemaField) => {
+      const column = schemaGenerator.columnDefinition(
+        current,
+        field,
+        allDefinitions
+      );
+      for (const name of column.imports) {
+        if (name === "sql") ormImports.add(name);
+        else
+          coreImports.add(
+            name === this.dialect.anyColumn ? `type ${name}` : name
+          );
+      }
+      const target = allTables.find(
+        (t) => t.definition.tableName === field.references?.table
+      );
+      if (target && target.filePath !== filePath)
+        relatedImports.set(
+          `./${path.basename(target.filePath, ".ts")}`,
+          tableExportName(target.definition)
+        );
+
+      const pgEnum = table.enums[field.name];
+      if (column.enumDeclaration && pgEnum) {
+        // Keep the existing pgEnum and its type name, only with new values
+        const values = column.enumDeclaration.match(/\[.*\]/)![0];
+        editor.replaceDeclaration(
+          pgEnum.exportName,
+          `export const ${pgEnum.exportName} = pgEnum("${pgEnum.typeName}", ${values});`
+        );
+        return column.code.replace(/^\w+\(/, `${pgEnum.exportName}(`);
+      }
+      if (column.enumDeclaration)
+        editor.insertBeforeTable(exportName, column.enumDeclaration);
+      return column.code;
+    };
+    const replaceCheck = (field: SchemaField, name: string) => {
+      editor.removeTableCheck(exportName, `${tableName}_${name}_check`);
+      const check = schemaGenerator.columnDefinition(
+        current,
+        field,
+        allDefinitions
+      ).check;
+      if (check && !editor.addTableCheck(exportName, check))
+        throw new Error(
+          `Cannot add a check constraint to ${exportName} in ${path.basename(
+            filePath
+          )}`
+        );
+    };
+    const removeUnusedEnum = (column: string) => {
+      const pgEnum = table.enums[column];
+      if (pgEnum && !editor.isReferenced(pgEnum.exportName))
+        editor.removeDeclaration(pgEnum.exportName);
+    };
+
+    for (const change of changes) {
+      const name = change.action === "add" ? change.field.name : change.field;
+      const field = current.fields.find((f) => f.name === name);
+      const key = columnKey(current, name);
+      const next = applyChanges(current, [change]);
+
+      if (change.action === "add") {
+        editor.addColumn(
+          exportName,
+          columnKey(next, name),
+          columnCode(change.field)
+        );
+        replaceCheck(change.field, name);
+      } else if (change.action === "drop") {
+        editor.removeColumn(exportName, key);
+        editor.removeTableCheck(
+          exportName,
+          `${tableName}_${change.field}_check`
+        );
+        removeUnusedEnum(change.field);
+      } else if (change.action === "rename") {
+        const newKey = columnKey(next, change.to);
+        editor.renameColumn(exportName, key, newKey, change.to);
+        const renamed = {
+          ...field!,
+          name: change.to,
+          constraints: field!.constraints?.map((c) =>
+            c.startsWith("check(")
+              ? c.replace(new RegExp(`\\b${change.field}\\b`, "g"), change.to)
+              : c
+          ),
+        };
+        if (renamed.constraints?.some((c) => c.startsWith("check(")))
+          replaceCheck(renamed, change.field);
+        if (newKey !== key)
+          written.push(
+            ...this.renameForeignKeyAccesses(table, key, newKey, allTables)
+          );
+      } else {
+        const retyped = {
+          ...field!,
+          type: change.type,
+          constraints: change.constraints ?? field!.constraints,
+        };
+        editor.replaceColumn(exportName, key, columnCode(retyped));
+        replaceCheck(retyped, change.field);
+        removeUnusedEnum(change.field);
+      }
+      current = next;
+    }
+
+    editor.addNamedImports(this.dialect.coreModule, [...coreImports]);
+    editor.addNamedImports("drizzle-orm", [...ormImports]);
+    relatedImports.forEach((name, moduleName) =>
+      editor.addNamedImports(moduleName, [name])
+    );
+    editor.pruneNamedImports(this.dialect.coreModule);
+    editor.pruneNamedImports("drizzle-orm");
+
+    this.changeSet.writeFile(filePath, editor.getText());
+    console.log(chalk.gray(`   📝 Updated: ${path.basename(filePath)}`));
+    return written;
+  }
+
+  // `.references(() => example.oldKey)` in the other schema files
+  private renameForeignKeyAccesses(
+    table: ParsedTable,
+    key: string,
+    newKey: string,
+    allTables: ParsedTable[]
+  ): string[] {
+    const files = [
+      ...new Set(
+        allTables.map((t) => t.filePath).filter((f) => f !== table.filePath)
+      ),
+    ];
+    return files.filter((file) => {
+      const text = this.changeSet.readFile(file);
+      const editor = new SchemaEditor(text, path.basename(file));
+      editor.renameAccesses(tableExportName(table.definition), key, newKey);
+      if (editor.getText() === text) return false;
+      this.changeSet.writeFile(file, editor.getText());
+      console.log(chalk.gray(`   📝 Updated: ${path.basename(file)}`));
+      return true;
+    });
+  }
+
   async updateSchemaIndex(
     schemaDefinitions: SchemaDefinition[],
     schemaGenerator: any
@@ -33,62 +326,255 @@ export class DatabaseWorkflow extends BaseAgent {
     this.log({ type: "editing", message: "Updating schema index file" });
     const schemaDir = path.join(process.cwd(), "src", "db", "schema");
     const indexPath = path.join(schemaDir, "index.ts");
-    const existing = fs.existsSync(schemaDir)
-      ? fs
-          .readdirSync(schemaDir)
-          .filter((f) => f.endsWith(".ts") && f !== "index.ts")
-      : [];
+    const existing = this.changeSet
+      .readDir(schemaDir)
+      .filter((f) => f.endsWith(".ts") && f !== "index.ts");
     const all = [
       ...new Set([...existing, ...schemaDefinitions.map((d) => d.fileName)]),
     ];
     const indexContent = await schemaGenerator.generateSchemaIndexContent(all);
-    fs.writeFileSync(indexPath, indexContent);
+    this.changeSet.writeFile(indexPath, indexContent);
     console.log(chalk.gray("   📁 Updated: schema/index.ts"));
   }
 
-  async runMigrations() {
+  // Rewrites the index from whatever schema files exist, without the model
+  async rebuildSchemaIndex(schemaGenerator: any) {
+    const schemaDir = path.join(process.cwd(), "src", "db", "schema");
+    const schemaFiles = this.changeSet
+      .readDir(schemaDir)
+      .filter((f) => f.endsWith(".ts") && f !== "index.ts");
+    this.changeSet.writeFile(
+      path.join(schemaDir, "index.ts"),
+      schemaGenerator.generateBasicSchemaIndexContent(schemaFiles)
+    );
+    console.log(chalk.gray("   📁 Updated: schema/index.ts"));
+  }
+
+  // The generated SQL is classified before it is applied; `existing` holds
+  // the tables that already have rows, on top of those in the last snapshot
+  async runMigrations(
+    migrationName?: string,
+    existing: ExistingColumns = {}
+  ): Promise<boolean> {
     this.log({
       type: "migrating",
       message: "Generating and applying database migrations",
     });
+    const generateCommand = migrationName
+      ? `npx drizzle-kit generate --name ${migrationName}`
+      : "npx drizzle-kit generate";
+    const generate = this.changeSet.runCommand(generateCommand);
+    const migrate = this.changeSet.runCommand("npx drizzle-kit migrate");
+    if (!generate || !migrate) {
+      console.log(
+        chalk.gray(
+          `   ⏭️  Skipped migrations (${
+            this.changeSet.isDryRun ? "dry run" : "--skip-commands"
+          })`
+        )
+      );
+      return true;
+    }
+    // drizzle-kit writes SQL and journal files we need to undo on rollback
+    const migrationsDir = path.join(process.cwd(), "src", "db", "migrations");
+    this.changeSet.watchDirectory(migrationsDir);
+    const entriesBefore = this.readJournal(migrationsDir).length;
     this.startSpinner("Generating migration files...");
     try {
-      execSync("npx drizzle-kit generate", {
+      execSync(generateCommand, {
         stdio: "pipe",
         cwd: process.cwd(),
       });
       this.stopSpinner(true, "Migration files generated");
+
+      const entries = this.readJournal(migrationsDir);
+      if (entries.length > entriesBefore) {
+        const report = this.analyzeGeneratedMigration(
+          migrationsDir,
+          entries,
+          existing
+        );
+        if (report.risk !== "additive") {
+          formatMigrationReport(report).forEach((line) =>
+            console.log(chalk.yellow(line))
+          );
+          if (!(await this.approveMigration(report))) return false;
+        }
+      }
+
+      this.startSpinner("Applying migrations to database...");
+      execSync("npx drizzle-kit migrate", {
+        stdio: "pipe",
+        cwd: process.cwd(),
+      });
+      this.stopSpinner(true, "Migrations applied successfully");
+      // The database has them now, so a rollback keeps the migrations and
+      // the schema files they come from
+      this.changeSet.settle(migrationsDir);
+      return true;
+    } catch (e: any) {
+      this.stopSpinner(false, "Migration failed");
+      console.log(chalk.red(`❌ Migration error: ${e.message}`));
+      return false;
+    }
+  }
+
+  private readJournal(migrationsDir: string): any[] {
+    const journalPath = path.join(migrationsDir, "meta", "_journal.json");
+    if (!fs.existsSync(journalPath)) return [];
+    return JSON.parse(fs.readFileSync(journalPath, "utf8")).entries ?? [];
+  }
+
+  // Classifies the newest migration against the snapshot before it
+  private analyzeGeneratedMigration(
+    migrationsDir: string,
+    entries: any[],
+    existing: ExistingColumns
+  ): MigrationReport {
+    const entry = entries[entries.length - 1];
+    const previous = entries[entries.length - 2];
+    const snapshotPath =
+      previous &&
+      path.join(
+        migrationsDir,
+        "meta",
+        `${String(previous.idx).padStart(4, "0")}_snapshot.json`
+      );
+    const snapshot =
+      snapshotPath && fs.existsSync(snapshotPath)
+        ? snapshotColumns(JSON.parse(fs.readFileSync(snapshotPath, "utf8")))
+        : {};
+    return analyzeMigration(
+      fs.readFileSync(path.join(migrationsDir, `${entry.tag}.sql`), "utf8"),
+      { ...existing, ...snapshot }
+    );
+  }
+
+  // drizzle-kit generate prompts for renames and turns type changes into
+  // plain SET DATA TYPE, so alterations run as a custom migration holding
+  // the data-preserving SQL. Its snapshot is rebuilt from the patched
+  // schema, keeping later generated migrations from repeating the changes.
+  async runAlterMigration(
+    migrationName: string,
+    statements: string[]
+  ): Promise<boolean> {
+    this.log({
+      type: "migrating",
+      message: "Generating and applying the schema alteration",
+    });
+    statements.forEach((s) => console.log(chalk.gray(`   ${s}`)));
+
+    const generateCommand = `npx drizzle-kit generate --custom --name ${migrationName}`;
+    const generate = this.changeSet.runCommand(generateCommand);
+    const migrate = this.changeSet.runCommand("npx drizzle-kit migrate");
+    if (!generate || !migrate) {
+      console.log(
+        chalk.gray(
+          `   ⏭️  Skipped migrations (${
+            this.changeSet.isDryRun ? "dry run" : "--skip-commands"
+          })`
+        )
+      );
+      return true;
+    }
+
+    const migrationsDir = path.join(process.cwd(), "src", "db", "migrations");
+    this.changeSet.watchDirectory(migrationsDir);
+    this.startSpinner("Generating migration files...");
+    try {
+      execSync(generateCommand, { stdio: "pipe", cwd: process.cwd() });
+      const entries = this.readJournal(migrationsDir);
+      const entry = entries[entries.length - 1];
+      fs.writeFileSync(
+        path.join(migrationsDir, `${entry.tag}.sql`),
+        `${statements.join("\n--> statement-breakpoint\n")}\n`
+      );
+      await this.rebuildSnapshot(
+        path.join(
+          migrationsDir,
+          "meta",
+          `${String(entry.idx).padStart(4, "0")}_snapshot.json`
+        )
+      );
+      this.stopSpinner(true, "Migration files generated");
       this.startSpinner("Applying migrations to database...");
       execSync("npx drizzle-kit migrate", {
         stdio: "pipe",
         cwd: process.cwd(),
       });
       this.stopSpinner(true, "Migrations applied successfully");
+      // The database has them now, so a rollback keeps the migrations and
+      // the schema files they come from
+      this.changeSet.settle(migrationsDir);
+      return true;
     } catch (e: any) {
       this.stopSpinner(false, "Migration failed");
       console.log(chalk.red(`❌ Migration error: ${e.message}`));
+      return false;
     }
   }
 
+  // A custom migration's snapshot copies the previous one; replace it with
+  // the schema as it is now, keeping the ids that chain the snapshots.
+  // drizzle-kit/api is required because its ESM build fails under tsx.
+  private async rebuildSnapshot(snapshotPath: string) {
+    const { generateDrizzleJson } = require("drizzle-kit/api");
+    const schema = await import(
+      pathToFileURL(path.join(process.cwd(), "src", "db", "schema", "index.ts"))
+        .href
+    );
+    const previous = JSON.parse(fs.readFileSync(snapshotPath, "utf8"));
+    const snapshot = generateDrizzleJson(schema, previous.prevId);
+    fs.writeFileSync(
+      snapshotPath,
+      JSON.stringify(
+        { ...snapshot, id: previous.id, prevId: previous.prevId },
+        null,
+        2
+      )
+    );
+  }
+
   async validateSchemas(
     schemaDefinitions: SchemaDefinition[],
-    schemaValidator: any
+    schemaValidator: any,
+    alterations: TableAlteration[] = [],
+    allDefinitions: SchemaDefinition[] = schemaDefinitions
   ) {
     let allSchemasValid = true;
 
-    for (const schemaDef of schemaDefinitions) {
-      const validation = await schemaValidator.validateSchema(schemaDef);
+    const validations = [
+      ...(await Promise.all(
+        alterations.map(async (a) => ({
+          tableName: a.table.definition.tableName,
+          validation: await schemaValidator.validateAlteration(
+            a.table.definition,
+            a.changes,
+            allDefinitions
+          ),
+        }))
+      )),
+      ...(await Promise.all(
+        schemaDefinitions.map(async (schemaDef) => ({
+          tableName: schemaDef.tableName,
+          validation: await schemaValidator.validateSchema(
+            schemaDef,
+            allDefinitions
+          ),
+        }))
+      )),
+    ];
+
+    for (const { tableName, validation } of validations) {
       if (!validation.isValid) {
         allSchemasValid = false;
-        console.log(
-          chalk.red(`❌ Schema validation failed for ${schemaDef.tableName}:`)
-        );
+        console.log(chalk.red(`❌ Schema validation failed for ${tableName}:`));
         validation.errors.forEach((e: string) =>
           console.log(chalk.red(`   • ${e}`))
         );
       } else {
         console.log(
-          chalk.green(`✅ Schema validation passed for ${schemaDef.tableName}`)
+          chalk.green(`✅ Schema validation passed for ${tableName}`)
         );
         validation.warnings.forEach((w: string) =>
           console.log(chalk.yellow(`   ⚠️  ${w}`))
@@ -108,6 +594,19 @@ export class DatabaseWorkflow extends BaseAgent {
     return true;
   }
 
+  async typecheckFiles(files: string[], typeChecker: any): Promise<boolean> {
+    this.log({
+      type: "validating",
+      message: `Typechecking ${files.length} generated file(s)`,
+    });
+    const unresolved = await typeChecker.verifyFiles(files);
+    if (unresolved.length === 0) {
+      console.log(chalk.gray("   ✅ Generated code typechecks"));
+      return true;
+    }
+    return false;
+  }
+
   async validateGeneratedSchemas(
     schemaDefinitions: SchemaDefinition[],
     schemaValidator: any
@@ -125,3 +624,10 @@ export class DatabaseWorkflow extends BaseAgent {
     return true;
   }
 }
+
+function listFiles(dirPath: string): string[] {
+  return fs.readdirSync(dirPath, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dirPath, entry.name);
+    return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+  });
+}
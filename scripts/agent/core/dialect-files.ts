@@ -0,0 +1,182 @@
+import { Dialect } from "./dialects";
+
+// drizzle.config.ts and src/db/connection.ts for each dialect. The
+// PostgreSQL versions are the files the project ships with; switching
+// dialects rewrites both, and src/db/index.ts and the seed scripts only
+// rely on connectDb() and Database.
+
+export function drizzleConfigSource(dialect: Dialect): string {
+  switch (dialect.name) {
+    case "sqlite":
+      return `import { defineConfig } from "drizzle-kit";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// SQLite through libSQL: the local file from src/db/connection.ts, or a
+// Turso database when DATABASE_URL is a libsql:// URL
+export default defineConfig({
+  schema: "./src/db/schema",
+  out: "./src/db/migrations",
+  dialect: "turso",
+  verbose: true,
+  strict: true,
+  dbCredentials: {
+    url: process.env.DATABASE_URL || "file:.orchids/local.db",
+    authToken: process.env.DATABASE_AUTH_TOKEN,
+  },
+});
+`;
+    case "mysql":
+      return `import { defineConfig } from "drizzle-kit";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export default defineConfig({
+  schema: "./src/db/schema",
+  out: "./src/db/migrations",
+  dialect: "mysql",
+  verbose: true,
+  strict: true,
+  dbCredentials: {
+    url:
+      process.env.DATABASE_URL || "mysql://root@localhost:3306/spotify_clone",
+  },
+});
+`;
+    default:
+      return `import { defineConfig } from "drizzle-kit";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const shared = {
+  schema: "./src/db/schema", // Updated to point to the schema directory
+  out: "./src/db/migrations",
+  dialect: "postgresql" as const,
+  verbose: true,
+  strict: true,
+};
+
+export default defineConfig(
+  process.env.DATABASE_DRIVER === "pglite"
+    ? {
+        ...shared,
+        // Same directory as PGLITE_DATA_DIR in src/db/connection.ts
+        driver: "pglite",
+        dbCredentials: { url: "./.orchids/db" },
+      }
+    : {
+        ...shared,
+        dbCredentials: {
+          url:
+            process.env.DATABASE_URL ||
+            "postgresql://localhost:5432/spotify_clone",
+        },
+      }
+);
+`;
+  }
+}
+
+export function connectionSource(dialect: Dialect): string {
+  switch (dialect.name) {
+    case "sqlite":
+      return `import { createClient } from "@libsql/client";
+import * as fs from "fs";
+import * as path from "path";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import * as schema from "./schema/index";
+
+// Local database file used when DATABASE_URL is unset. A libsql:// URL
+// with DATABASE_AUTH_TOKEN connects to Turso instead.
+export const SQLITE_FILE = ".orchids/local.db";
+
+export type Database = LibSQLDatabase<typeof schema>;
+
+// Opens a connection to the configured database. \`close\` ends it so
+// scripts can exit once they are done.
+export function connectDb(): { db: Database; close: () => Promise<void> } {
+  const url = process.env.DATABASE_URL;
+  if (!url) fs.mkdirSync(path.dirname(SQLITE_FILE), { recursive: true });
+  const client = createClient({
+    url: url || \`file:\${SQLITE_FILE}\`,
+    authToken: process.env.DATABASE_AUTH_TOKEN,
+  });
+  return {
+    db: drizzle(client, { schema }),
+    close: async () => client.close(),
+  };
+}
+`;
+    case "mysql":
+      return `import { drizzle, type MySql2Database } from "drizzle-orm/mysql2";
+import mysql from "mysql2/promise";
+import * as schema from "./schema/index";
+
+export type Database = MySql2Database<typeof schema>;
+
+// Opens a connection to the configured database. \`close\` ends it so
+// scripts can exit once they are done.
+export function connectDb(): { db: Database; close: () => Promise<void> } {
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error("DATABASE_URL is not set. Add a mysql:// URL to .env");
+  }
+  const pool = mysql.createPool(url);
+  return {
+    db: drizzle(pool, { schema, mode: "default" }),
+    close: () => pool.end(),
+  };
+}
+`;
+    default:
+      return `import { PGlite } from "@electric-sql/pglite";
+import * as fs from "fs";
+import * as path from "path";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { drizzle as drizzlePostgres } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import * as schema from "./schema/index";
+
+// Embedded PGlite database used when DATABASE_DRIVER=pglite, so the app,
+// drizzle-kit and seed scripts run without a Postgres server
+export const PGLITE_DATA_DIR = ".orchids/db";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function usesPglite(): boolean {
+  return process.env.DATABASE_DRIVER === "pglite";
+}
+
+// Opens a connection to the configured database. \`close\` ends it so
+// scripts can exit once they are done.
+export function connectDb(): { db: Database; close: () => Promise<void> } {
+  if (usesPglite()) {
+    // PGlite creates the data directory but not its parents
+    fs.mkdirSync(path.dirname(PGLITE_DATA_DIR), { recursive: true });
+    const client = new PGlite(PGLITE_DATA_DIR);
+    return {
+      db: drizzlePglite(client, { schema }),
+      close: () => client.close(),
+    };
+  }
+
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error(
+      "DATABASE_URL is not set. Add it to .env, or set DATABASE_DRIVER=pglite to use the embedded database"
+    );
+  }
+  // TLS comes from the URL, e.g. ?sslmode=require for hosted databases
+  const client = postgres(url);
+  return {
+    db: drizzlePostgres(client, { schema }),
+    close: () => client.end(),
+  };
+}
+`;
+  }
+}
@@ -0,0 +1,314 @@
+import { SchemaField } from "../types";
+import {
+  COLUMN_TYPES,
+  ColumnType,
+  columnBuilderCall,
+  columnTsType,
+  enumExportName,
+} from "./column-types";
+
+export type DialectName = "postgresql" | "sqlite" | "mysql";
+
+export interface Dialect {
+  name: DialectName;
+  // Shown in prompts and messages
+  label: string;
+  // `dialect` in drizzle.config.ts; SQLite goes through libSQL, which
+  // serves local files and Turso databases alike
+  kitDialect: "postgresql" | "turso" | "mysql";
+  coreModule: string;
+  tableFunction: string;
+  // Core module names the schema prompt suggests importing
+  commonBuilders: string[];
+  // Type of the column in a self-referencing .references() callback
+  anyColumn: string;
+  // Whether insert, update and delete support .returning()
+  supportsReturning: boolean;
+  // Packages src/db/connection.ts imports besides drizzle-orm
+  driverPackages: string[];
+  // SchemaField types without an equivalent, with what to use instead
+  unsupportedTypes: Record<string, string>;
+}
+
+export const DIALECTS: Record<DialectName, Dialect> = {
+  postgresql: {
+    name: "postgresql",
+    label: "PostgreSQL",
+    kitDialect: "postgresql",
+    coreModule: "drizzle-orm/pg-core",
+    tableFunction: "pgTable",
+    commonBuilders: [
+      "pgTable",
+      "serial",
+      "text",
+      "timestamp",
+      "integer",
+      "boolean",
+      "uuid",
+      "jsonb",
+      "numeric",
+      "pgEnum",
+      "check",
+    ],
+    anyColumn: "AnyPgColumn",
+    supportsReturning: true,
+    driverPackages: ["postgres", "@electric-sql/pglite"],
+    unsupportedTypes: {},
+  },
+  sqlite: {
+    name: "sqlite",
+    label: "SQLite",
+    kitDialect: "turso",
+    coreModule: "drizzle-orm/sqlite-core",
+    tableFunction: "sqliteTable",
+    commonBuilders: [
+      "sqliteTable",
+      "integer",
+      "text",
+      "real",
+      "numeric",
+      "check",
+    ],
+    anyColumn: "AnySQLiteColumn",
+    supportsReturning: true,
+    driverPackages: ["@libsql/client"],
+    unsupportedTypes: { interval: "store seconds in an integer column" },
+  },
+  mysql: {
+    name: "mysql",
+    label: "MySQL",
+    kitDialect: "mysql",
+    coreModule: "drizzle-orm/mysql-core",
+    tableFunction: "mysqlTable",
+    commonBuilders: [
+      "mysqlTable",
+      "int",
+      "varchar",
+      "text",
+      "timestamp",
+      "boolean",
+      "json",
+      "decimal",
+      "mysqlEnum",
+      "check",
+    ],
+    anyColumn: "AnyMySqlColumn",
+    supportsReturning: false,
+    driverPackages: ["mysql2"],
+    unsupportedTypes: { interval: "store seconds in an integer column" },
+  },
+};
+
+export const DIALECT_NAMES = Object.keys(DIALECTS) as DialectName[];
+
+const ALIASES: Record<string, DialectName> = {
+  postgres: "postgresql",
+  pg: "postgresql",
+  turso: "sqlite",
+  libsql: "sqlite",
+};
+
+// --dialect value, or drizzle.config.ts dialect, to a Dialect
+export function resolveDialect(name: string): Dialect {
+  const key = name.trim().toLowerCase();
+  const dialect = DIALECTS[(ALIASES[key] ?? key) as DialectName];
+  if (!dialect)
+    throw new Error(
+      `Unknown dialect '${name}'. Use one of: ${DIALECT_NAMES.join(", ")}`
+    );
+  return dialect;
+}
+
+// The dialect drizzle.config.ts targets; PostgreSQL when there is none
+export function detectDialect(drizzleConfig: string | null): Dialect {
+  const match = drizzleConfig?.match(/dialect:\s*["'](\w+)["']/);
+  if (!match) return DIALECTS.postgresql;
+  return match[1] === "sqlite" ? DIALECTS.sqlite : resolveDialect(match[1]);
+}
+
+// COLUMN_TYPES the dialect can store
+export function dialectColumnTypes(dialect: Dialect): string[] {
+  return COLUMN_TYPES.filter((t) => !dialect.unsupportedTypes[t]);
+}
+
+// Why a column cannot be stored in the dialect, or null when it can
+export function unsupportedColumn(
+  dialect: Dialect,
+  column: ColumnType
+): string | null {
+  const instead = dialect.unsupportedTypes[column.builder];
+  return instead
+    ? `${column.builder} is not supported by ${dialect.label}; ${instead}`
+    : null;
+}
+
+// How a column is stored when the dialect has no exact equivalent
+export function columnTypeNote(
+  dialect: Dialect,
+  column: ColumnType
+): string | null {
+  if (dialect.name === "postgresql") return null;
+  if (column.isArray)
+    return `arrays are stored as JSON in ${dialect.label}, so they cannot be queried element by element`;
+  if (column.builder === "timestamp" && column.options)
+    return dialect.name === "sqlite"
+      ? "SQLite stores timestamps as unix seconds, without a time zone"
+      : "MySQL timestamps have no time zone; values are stored in UTC";
+  if (column.builder === "uuid")
+    return `uuids are stored as ${
+      dialect.name === "sqlite" ? "text" : "varchar(36)"
+    } and defaultRandom() generates them in the app`;
+  return null;
+}
+
+export interface DialectColumn {
+  // `text("tags", { mode: "json" }).$type<string[]>()` without constraints
+  call: string;
+  // Names from the dialect's core module, or "sql" from drizzle-orm
+  imports: string[];
+  enumDeclaration?: string;
+}
+
+// Builder call for a column in the dialect. PostgreSQL uses the pg-core
+// builders the types are named after; SQLite and MySQL map them onto their
+// closest column types.
+export function dialectColumn(
+  dialect: Dialect,
+  tableName: string,
+  field: SchemaField,
+  column: ColumnType
+): DialectColumn {
+  if (dialect.name === "postgresql") {
+    if (column.builder !== "enum")
+      return {
+        call: columnBuilderCall(tableName, field, column),
+        imports: [column.builder],
+      };
+    return {
+      call: columnBuilderCall(tableName, field, column),
+      imports: ["pgEnum"],
+      enumDeclaration: `export const ${enumExportName(
+        tableName,
+        field.name
+      )} = pgEnum("${tableName}_${field.name}", ${enumList(column)});`,
+    };
+  }
+
+  const [builder, options, suffix = ""] =
+    dialect.name === "sqlite" ? sqliteBuilder(column) : mysqlBuilder(column);
+  const args = options ? `, ${options}` : "";
+  return {
+    call: `${builder}("${field.name}"${args})${suffix}`,
+    imports: [builder],
+  };
+}
+
+// [builder, options, chained calls]
+function sqliteBuilder(column: ColumnType): [string, string | null, string?] {
+  if (column.isArray)
+    return ["text", '{ mode: "json" }', `.$type<${columnTsType(column)}>()`];
+  switch (column.builder) {
+    case "enum":
+      return ["text", `{ enum: ${enumList(column)} }`];
+    case "serial":
+    case "smallserial":
+    case "bigserial":
+    case "integer":
+    case "smallint":
+    case "bigint":
+      return ["integer", null];
+    case "real":
+    case "doublePrecision":
+      return ["real", null];
+    case "numeric":
+      return ["numeric", null];
+    case "varchar":
+    case "char":
+      return ["text", column.options];
+    case "boolean":
+      return ["integer", '{ mode: "boolean" }'];
+    case "json":
+    case "jsonb":
+      return ["text", '{ mode: "json" }'];
+    case "timestamp":
+      return ["integer", '{ mode: "timestamp" }'];
+    default:
+      // text, uuid, date, time
+      return ["text", null];
+  }
+}
+
+function mysqlBuilder(column: ColumnType): [string, string | null, string?] {
+  if (column.isArray)
+    return ["json", null, `.$type<${columnTsType(column)}>()`];
+  switch (column.builder) {
+    case "enum":
+      return ["mysqlEnum", enumList(column)];
+    case "serial":
+      return ["int", null, ".autoincrement()"];
+    case "smallserial":
+      return ["smallint", null, ".autoincrement()"];
+    case "bigserial":
+      return ["bigint", column.options, ".autoincrement()"];
+    case "integer":
+      return ["int", null];
+    case "real":
+      return ["float", null];
+    case "doublePrecision":
+      return ["double", null];
+    case "numeric":
+      return ["decimal", column.options];
+    case "uuid":
+      return ["varchar", "{ length: 36 }"];
+    case "jsonb":
+      return ["json", null];
+    case "date":
+      return ["date", '{ mode: "string" }'];
+    case "timestamp":
+      return ["timestamp", null];
+    default:
+      // smallint, bigint, text, varchar, char, boolean, json, time
+      return [column.builder, column.options];
+  }
+}
+
+function enumList(column: ColumnType): string {
+  return `[${column.enumValues.map((v) => JSON.stringify(v)).join(", ")}]`;
+}
+
+// Constraints whose call differs from the pg-core one they are named after,
+// as `.call(...)` plus what it imports; null keeps the constraint as is
+export function dialectConstraint(
+  dialect: Dialect,
+  column: ColumnType,
+  constraint: string
+): { code: string; imports: string[] } | null {
+  if (dialect.name === "postgresql") return null;
+  if (constraint === "primaryKey()" && column.isSerial)
+    return dialect.name === "sqlite"
+      ? { code: ".primaryKey({ autoIncrement: true })", imports: [] }
+      : null;
+  if (constraint === "defaultRandom()")
+    return { code: ".$defaultFn(() => crypto.randomUUID())", imports: [] };
+  if (constraint === "defaultNow()") {
+    if (column.builder === "timestamp")
+      return dialect.name === "sqlite"
+        ? { code: ".default(sql`(unixepoch())`)", imports: ["sql"] }
+        : null;
+    const now = column.builder === "date" ? "CURRENT_DATE" : "CURRENT_TIME";
+    return { code: `.default(sql\`(${now})\`)`, imports: ["sql"] };
+  }
+  return null;
+}
+
+// Prompt line mapping the SchemaField types onto the dialect's builders
+export function builderGuide(dialect: Dialect): string {
+  switch (dialect.name) {
+    case "sqlite":
+      return 'Field types map to sqlite-core builders: serial/integer/smallint/bigint -> integer("col"), serial ids -> integer("id").primaryKey({ autoIncrement: true }), real/doublePrecision -> real("col"), numeric -> numeric("col"), varchar(n)/char(n) -> text("col", { length: n }), text/uuid/date/time -> text("col"), boolean -> integer("col", { mode: "boolean" }), timestamp -> integer("col", { mode: "timestamp" }) with defaultNow() as .default(sql`(unixepoch())`), json/jsonb -> text("col", { mode: "json" }), "type[]" -> text("col", { mode: "json" }).$type<type[]>(), enum(a|b) -> text("col", { enum: ["a", "b"] }), defaultRandom() -> .$defaultFn(() => crypto.randomUUID())';
+    case "mysql":
+      return 'Field types map to mysql-core builders: serial -> int("col").autoincrement(), integer -> int("col"), bigint/bigserial -> bigint("col", { mode: "number" }), real -> float("col"), doublePrecision -> double("col"), numeric(p,s) -> decimal("col", { precision: p, scale: s }), varchar(n) -> varchar("col", { length: n }), uuid -> varchar("col", { length: 36 }), jsonb -> json("col"), date -> date("col", { mode: "string" }), timestamp -> timestamp("col"), "type[]" -> json("col").$type<type[]>(), enum(a|b) -> mysqlEnum("col", ["a", "b"]), defaultRandom() -> .$defaultFn(() => crypto.randomUUID()). MySQL has no .returning(): use .$returningId() on inserts and select the row again after updates';
+    default:
+      return 'Field types map to pg-core builders: varchar(n) -> varchar("col", { length: n }), numeric(p,s) -> numeric("col", { precision: p, scale: s }), timestamp({ withTimezone: true }) or timestamptz -> timestamp("col", { withTimezone: true }), bigint/bigserial -> bigint("col", { mode: "number" }), "type[]" -> .array(), enum(a|b) -> an exported pgEnum("<table>_<column>", ["a", "b"]) used as the column builder';
+  }
+}
@@ -0,0 +1,65 @@
+export type HookStrategyName = "plain" | "swr" | "react-query";
+
+export interface HookStrategy {
+  name: HookStrategyName;
+  // Shown in prompts and messages
+  label: string;
+  // Packages the hooks and src/app/providers.tsx import
+  packages: string[];
+  // Whether the hooks load their list when they mount, so components need
+  // no effect calling fetchAll
+  loadsOnMount: boolean;
+}
+
+export const HOOK_STRATEGIES: Record<HookStrategyName, HookStrategy> = {
+  plain: {
+    name: "plain",
+    label: "plain React state",
+    packages: [],
+    loadsOnMount: false,
+  },
+  swr: {
+    name: "swr",
+    label: "SWR",
+    packages: ["swr"],
+    loadsOnMount: true,
+  },
+  "react-query": {
+    name: "react-query",
+    label: "TanStack Query",
+    packages: ["@tanstack/react-query"],
+    loadsOnMount: true,
+  },
+};
+
+export const HOOK_STRATEGY_NAMES = Object.keys(
+  HOOK_STRATEGIES
+) as HookStrategyName[];
+
+const ALIASES: Record<string, HookStrategyName> = {
+  tanstack: "react-query",
+  "tanstack-query": "react-query",
+  none: "plain",
+};
+
+// --hooks value to a HookStrategy
+export function resolveHookStrategy(name: string): HookStrategy {
+  const key = name.trim().toLowerCase();
+  const strategy = HOOK_STRATEGIES[(ALIASES[key] ?? key) as HookStrategyName];
+  if (!strategy)
+    throw new Error(
+      `Unknown hook strategy '${name}'. Use one of: ${HOOK_STRATEGY_NAMES.join(
+        ", "
+      )}`
+    );
+  return strategy;
+}
+
+// The strategy the generated src/app/providers.tsx sets up; plain when
+// there is none
+export function detectHookStrategy(providers: string | null): HookStrategy {
+  if (providers?.includes('from "@tanstack/react-query"'))
+    return HOOK_STRATEGIES["react-query"];
+  if (providers?.includes('from "swr"')) return HOOK_STRATEGIES.swr;
+  return HOOK_STRATEGIES.plain;
+}
@@ -0,0 +1,488 @@
+import { SchemaDefinition } from "../types";
+import { columnKey } from "../utils";
+import { ColumnType, columnTsType, parseColumnType } from "./column-types";
+import { Dialect } from "./dialects";
+
+// src/lib/list-params.ts and src/lib/list-query.ts: the list-query contract
+// of the generated GET handlers, written next to the first route. Only the
+// text matching in list-query.ts differs between dialects.
+
+export const LIST_PARAMS_FILE = "src/lib/list-params.ts";
+export const LIST_QUERY_FILE = "src/lib/list-query.ts";
+
+// Fields the list endpoints filter and sort on: everything but JSON and
+// array columns. `type` is the TypeScript type of a filter value.
+export function listFields(
+  schemaDef: SchemaDefinition
+): { key: string; type: string; column: ColumnType }[] {
+  return schemaDef.fields.flatMap((f) => {
+    const column = parseColumnType(f.type);
+    if (!column || column.isArray || column.kind === "json") return [];
+    const type =
+      column.kind === "date" ? "string | Date" : columnTsType(column, true);
+    return [{ key: columnKey(schemaDef, f.name), type, column }];
+  });
+}
+
+export function listParamsSource(): string {
+  return `// Query parameters of the generated list endpoints (GET /api/<table>), as
+// read by parseListQuery in src/lib/list-query.ts. Safe to import from
+// client components.
+
+export const FILTER_OPERATORS = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "ilike",
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+// A bare value is shorthand for eq. ilike takes a pattern with % and _
+// wildcards; in matches any of the values.
+export type Filter<T> =
+  | T
+  | {
+      eq?: T;
+      ne?: T;
+      gt?: T;
+      gte?: T;
+      lt?: T;
+      lte?: T;
+      in?: T[];
+      ilike?: string;
+    };
+
+// A field, or "-field" for descending order
+export type Sort<Field extends string> = Field | \`-\${Field}\`;
+
+export interface ListParams<
+  Filters extends object = Record<string, Filter<unknown>>,
+  SortField extends string = string
+> {
+  filters?: Filters;
+  sort?: Sort<SortField> | Sort<SortField>[];
+  // Words that must each appear in one of the text fields
+  q?: string;
+  limit?: number;
+  offset?: number;
+  // pagination.nextCursor of the previous page; not combined with offset
+  cursor?: string;
+}
+
+export interface Pagination {
+  limit: number;
+  // null when paging by cursor
+  offset: number | null;
+  // Rows matching the filters and q
+  total: number;
+  hasMore: boolean;
+  // Passed as cursor for the next page; null on the last page, or when a
+  // sort field can be null
+  nextCursor: string | null;
+}
+
+function formatValue(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+export function listSearchParams<
+  Filters extends object,
+  SortField extends string
+>(params: ListParams<Filters, SortField> = {}): URLSearchParams {
+  const search = new URLSearchParams();
+  for (const [field, filter] of Object.entries(params.filters ?? {})) {
+    if (filter === undefined) continue;
+    if (
+      filter === null ||
+      typeof filter !== "object" ||
+      filter instanceof Date
+    ) {
+      search.set(field, formatValue(filter));
+      continue;
+    }
+    for (const [operator, value] of Object.entries(filter)) {
+      if (value === undefined) continue;
+      search.set(
+        \`\${field}[\${operator}]\`,
+        Array.isArray(value) ? value.map(formatValue).join(",") : formatValue(value)
+      );
+    }
+  }
+  if (params.sort) {
+    search.set("sort", ([] as string[]).concat(params.sort).join(","));
+  }
+  if (params.q) search.set("q", params.q);
+  if (params.limit !== undefined) search.set("limit", String(params.limit));
+  if (params.offset !== undefined) search.set("offset", String(params.offset));
+  if (params.cursor) search.set("cursor", params.cursor);
+  return search;
+}
+`;
+}
+
+export function listQuerySource(dialect: Dialect): string {
+  return `import {
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  gt,
+  gte,
+  ${dialect.name === "postgresql" ? "ilike" : "like"},
+  inArray,
+  lt,
+  lte,
+  ne,
+  or,${dialect.name === "sqlite" ? "\n  sql," : ""}
+  type Column,
+  type SQL,
+  type Table,
+} from "drizzle-orm";
+import {
+  FILTER_OPERATORS,
+  type FilterOperator,
+  type Pagination,
+} from "./list-params";
+
+// The query contract every generated list endpoint (GET /api/<table>)
+// implements. Fields are column keys or SQL names.
+//   ?<field>=v or ?<field>[op]=v  filters; op is one of FILTER_OPERATORS and
+//                                 \`in\` takes comma-separated values
+//   ?sort=-playedAt,title         sort, "-" for descending; id breaks ties
+//   ?limit=20&offset=40           offset pagination (limit up to 100, default 50)
+//   ?limit=20&cursor=...          cursor pagination from pagination.nextCursor
+//   ?q=words                      each word must appear in one of the text fields
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+const RESERVED = ["limit", "offset", "cursor", "sort", "q"];
+// Column data types that can be filtered and sorted on
+const COMPARABLE: string[] = ["string", "number", "bigint", "boolean", "date"];
+
+export interface ListQuery {
+  // Filters and q, for counting the matching rows
+  where: SQL | undefined;
+  // where, starting after the cursor
+  pageWhere: SQL | undefined;
+  orderBy: SQL[];
+  // Rows to fetch: one more than the page size, to tell whether there is more
+  take: number;
+  offset: number;
+  page<T extends Record<string, unknown>>(
+    rows: T[],
+    total: number
+  ): { data: T[]; pagination: Pagination };
+}
+
+interface SortField {
+  key: string;
+  column: Column;
+  descending: boolean;
+}
+
+class ListQueryError extends Error {}
+
+// Reads the list query of \`table\`, or the reason it is invalid. \`ignore\`
+// lists parameters the route handles itself, such as include, and \`hidden\`
+// the keys of columns the user may not see, which can't be filtered,
+// sorted or searched either.
+export function parseListQuery(
+  table: Table,
+  params: URLSearchParams,
+  ignore: string[] = [],
+  hidden: string[] = []
+): ListQuery | { error: string } {
+  try {
+    return buildListQuery(table, params, ignore, hidden);
+  } catch (error) {
+    if (error instanceof ListQueryError) return { error: error.message };
+    throw error;
+  }
+}
+
+function buildListQuery(
+  table: Table,
+  params: URLSearchParams,
+  ignore: string[],
+  hidden: string[]
+): ListQuery {
+  const columns: Record<string, Column> = Object.fromEntries(
+    Object.entries(getTableColumns(table)).filter(([key]) => !hidden.includes(key))
+  );
+  const field = (name: string): [string, Column] => {
+    const entry = Object.entries(columns).find(
+      ([key, column]) => key === name || column.name === name
+    );
+    if (!entry) throw new ListQueryError(\`Unknown field '\${name}'\`);
+    if (!COMPARABLE.includes(entry[1].dataType))
+      throw new ListQueryError(\`'\${name}' can't be filtered or sorted\`);
+    return entry;
+  };
+
+  const conditions: (SQL | undefined)[] = [];
+  for (const [name, value] of params) {
+    if (RESERVED.includes(name) || ignore.includes(name)) continue;
+    const match = name.match(/^(\\w+)(?:\\[(\\w+)\\])?$/);
+    if (!match) throw new ListQueryError(\`Unknown parameter '\${name}'\`);
+    conditions.push(filter(field(match[1])[1], match[2] ?? "eq", value));
+  }
+
+  const q = params.get("q")?.trim();
+  if (q) {
+    const text = Object.values(columns).filter(isText);
+    if (text.length === 0)
+      throw new ListQueryError("q needs a text field to search");
+    for (const word of q.split(/\\s+/)) {
+      const pattern = \`%\${word.replace(/[\\\\%_]/g, "\\\\$&")}%\`;
+      conditions.push(or(...text.map((column) => matches(column, pattern))));
+    }
+  }
+  const where = and(...conditions);
+
+  const sort: SortField[] = [];
+  const createdAt = Object.keys(columns).find(
+    (key) => columns[key].name === "created_at"
+  );
+  const defaultSort = createdAt ? \`-\${createdAt}\` : columns.id ? "-id" : "";
+  for (const part of (params.get("sort") ?? defaultSort).split(",")) {
+    const name = part.trim();
+    if (!name) continue;
+    const [key, column] = field(name.replace(/^[-+]/, ""));
+    if (!sort.some((s) => s.key === key))
+      sort.push({ key, column, descending: name.startsWith("-") });
+  }
+  if (columns.id && !sort.some((s) => s.key === "id")) {
+    const descending = sort[0]?.descending ?? false;
+    sort.push({ key: "id", column: columns.id, descending });
+  }
+  const sortKey = sort
+    .map((s) => \`\${s.descending ? "-" : ""}\${s.key}\`)
+    .join(",");
+  // Keyset pagination can't step over NULLs
+  const cursorable =
+    sort.length > 0 && sort.every((s) => s.column.notNull);
+
+  const limit = integerParam(params, "limit", DEFAULT_LIMIT, 1);
+  const offset = integerParam(params, "offset", 0, 0);
+  const cursor = params.get("cursor");
+  let pageWhere = where;
+  if (cursor !== null) {
+    if (params.has("offset"))
+      throw new ListQueryError("Use either cursor or offset");
+    if (!cursorable)
+      throw new ListQueryError(
+        "Cursor pagination needs a sort on fields that can't be null"
+      );
+    pageWhere = and(where, after(sort, decodeCursor(cursor, sortKey, sort)));
+  }
+
+  return {
+    where,
+    pageWhere,
+    orderBy: sort.map((s) => (s.descending ? desc(s.column) : asc(s.column))),
+    take: Math.min(limit, MAX_LIMIT) + 1,
+    offset: cursor === null ? offset : 0,
+    page(rows, total) {
+      const size = Math.min(limit, MAX_LIMIT);
+      const data = rows.slice(0, size);
+      const hasMore = rows.length > size;
+      const last = data[data.length - 1];
+      return {
+        data,
+        pagination: {
+          limit: size,
+          offset: cursor === null ? offset : null,
+          total,
+          hasMore,
+          nextCursor:
+            hasMore && cursorable
+              ? encodeCursor(
+                  sortKey,
+                  sort.map((s) => last[s.key])
+                )
+              : null,
+        },
+      };
+    },
+  };
+}
+
+function filter(column: Column, operator: string, raw: string): SQL {
+  if (!FILTER_OPERATORS.includes(operator as FilterOperator))
+    throw new ListQueryError(
+      \`Unknown operator '\${operator}'; use one of \${FILTER_OPERATORS.join(
+        ", "
+      )}\`
+    );
+  switch (operator as FilterOperator) {
+    case "eq":
+      return eq(column, parseValue(column, raw));
+    case "ne":
+      return ne(column, parseValue(column, raw));
+    case "in":
+      return inArray(
+        column,
+        raw.split(",").map((value) => parseValue(column, value))
+      );
+    case "ilike":
+      if (!isText(column))
+        throw new ListQueryError("ilike only applies to text fields");
+      return matches(column, raw);
+    default: {
+      if (column.dataType === "boolean")
+        throw new ListQueryError(\`\${operator} doesn't apply to booleans\`);
+      const compare = { gt, gte, lt, lte }[operator as "gt"];
+      return compare(column, parseValue(column, raw));
+    }
+  }
+}
+
+${matchesSource(dialect)}
+
+function isText(column: Column): boolean {
+  return (
+    column.dataType === "string" &&
+    !column.enumValues?.length &&
+    /(text|char)$/i.test(column.columnType)
+  );
+}
+
+function parseValue(column: Column, raw: string): unknown {
+  const invalid = () =>
+    new ListQueryError(\`'\${raw}' is not a valid value for \${column.name}\`);
+  switch (column.dataType) {
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(value)) throw invalid();
+      return value;
+    }
+    case "bigint":
+      if (!/^-?\\d+$/.test(raw)) throw invalid();
+      return BigInt(raw);
+    case "boolean":
+      if (raw !== "true" && raw !== "false") throw invalid();
+      return raw === "true";
+    case "date": {
+      const value = new Date(raw);
+      if (Number.isNaN(value.getTime())) throw invalid();
+      return value;
+    }
+    default:
+      if (column.enumValues?.length && !column.enumValues.includes(raw))
+        throw invalid();
+      return raw;
+  }
+}
+
+function integerParam(
+  params: URLSearchParams,
+  name: string,
+  fallback: number,
+  min: number
+): number {
+  const raw = params.get(name);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min)
+    throw new ListQueryError(\`\${name} must be an integer of at least \${min}\`);
+  return value;
+}
+
+// Rows that come after \`values\` in the sort order
+function after(sort: SortField[], values: unknown[]): SQL | undefined {
+  return or(
+    ...sort.map((s, i) =>
+      and(
+        ...sort.slice(0, i).map((p, j) => eq(p.column, values[j])),
+        (s.descending ? lt : gt)(s.column, values[i])
+      )
+    )
+  );
+}
+
+// The sort values of the last row, tied to the sort they belong to
+function encodeCursor(sortKey: string, values: unknown[]): string {
+  const json = JSON.stringify({
+    sort: sortKey,
+    values: values.map((v) => (typeof v === "bigint" ? v.toString() : v)),
+  });
+  return Buffer.from(json).toString("base64url");
+}
+
+function decodeCursor(
+  cursor: string,
+  sortKey: string,
+  sort: SortField[]
+): unknown[] {
+  let decoded: { sort?: unknown; values?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new ListQueryError("Invalid cursor");
+  }
+  const values = decoded?.values;
+  if (
+    decoded?.sort !== sortKey ||
+    !Array.isArray(values) ||
+    values.length !== sort.length
+  )
+    throw new ListQueryError("The cursor was created for a different sort");
+  return values.map((value, i) => cursorValue(sort[i].column, value));
+}
+
+// A sort value read back from a cursor, as encodeCursor wrote it
+function cursorValue(column: Column, value: unknown): unknown {
+  const invalid = () => new ListQueryError("Invalid cursor");
+  switch (column.dataType) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) throw invalid();
+      return value;
+    case "bigint":
+      if (typeof value !== "string" || !/^-?\\d+$/.test(value))
+        throw invalid();
+      return BigInt(value);
+    case "boolean":
+      if (typeof value !== "boolean") throw invalid();
+      return value;
+    case "date": {
+      const date = new Date(typeof value === "string" ? value : NaN);
+      if (Number.isNaN(date.getTime()) || date.toISOString() !== value)
+        throw invalid();
+      return date;
+    }
+    default:
+      if (typeof value !== "string") throw invalid();
+      return value;
+  }
+}
+`;
+}
+
+// ilike and q both go through matches()
+function matchesSource(dialect: Dialect): string {
+  switch (dialect.name) {
+    case "sqlite":
+      return `// SQLite's LIKE ignores ASCII case; ESCAPE makes \\ escape % and _ as
+// in the other dialects
+function matches(column: Column, pattern: string): SQL {
+  return sql\`\${column} like \${pattern} escape '\\\\'\`;
+}`;
+    case "mysql":
+      return `// MySQL has no ILIKE, but LIKE ignores case under the default collations;
+// \\ escapes % and _
+function matches(column: Column, pattern: string): SQL {
+  return like(column, pattern);
+}`;
+    default:
+      return `// Case-insensitive LIKE; \\ escapes % and _
+function matches(column: Column, pattern: string): SQL {
+  return ilike(column, pattern);
+}`;
+  }
+}
@@ -0,0 +1,398 @@
+import { columnSqlType, parseColumnType } from "./column-types";
+import { ParsedTable } from "./schema-parser";
+
+export type MigrationRisk = "additive" | "locking" | "destructive";
+
+export interface ClassifiedStatement {
+  sql: string;
+  risk: MigrationRisk;
+  reason: string;
+}
+
+export interface MigrationReport {
+  statements: ClassifiedStatement[];
+  // The worst risk of any statement
+  risk: MigrationRisk;
+}
+
+// SQL types of the columns of tables that already exist, by table then
+// column. Those tables are assumed to hold rows.
+export type ExistingColumns = Record<string, Record<string, string>>;
+
+// Least to most dangerous
+export const RISK_ORDER: MigrationRisk[] = [
+  "additive",
+  "locking",
+  "destructive",
+];
+
+// Classifies each statement of a migration. Statements run in order, so the
+// column types seen by a statement include the changes made before it;
+// tables created by the migration are empty and anything done to them is
+// additive. Besides PostgreSQL this reads the MySQL and SQLite statements
+// drizzle-kit writes, including SQLite's copy of a table into __new_<name>.
+export function analyzeMigration(
+  sql: string | string[],
+  existing: ExistingColumns
+): MigrationReport {
+  const statements = Array.isArray(sql) ? sql : splitStatements(sql);
+  const columns: ExistingColumns = Object.fromEntries(
+    Object.entries(existing).map(([table, cols]) => [table, { ...cols }])
+  );
+  const populated = new Set(Object.keys(existing));
+
+  const classified = statements.map((statement) =>
+    classifyStatement(statement, columns, populated)
+  );
+  return {
+    statements: classified,
+    risk: classified.reduce<MigrationRisk>(
+      (worst, s) =>
+        RISK_ORDER.indexOf(s.risk) > RISK_ORDER.indexOf(worst) ? s.risk : worst,
+      "additive"
+    ),
+  };
+}
+
+// drizzle-kit separates statements with `--> statement-breakpoint`
+export function splitStatements(sql: string): string[] {
+  return sql
+    .split(/-->\s*statement-breakpoint/)
+    .flatMap((chunk) => chunk.split(/;\s*(?:\r?\n|$)/))
+    .map((s) => s.replace(/^\s*--.*$/gm, "").trim())
+    .filter(Boolean)
+    .map((s) => (s.endsWith(";") ? s : `${s};`));
+}
+
+// The tables under src/db/schema as they are before the migration
+export function existingColumns(tables: ParsedTable[]): ExistingColumns {
+  return Object.fromEntries(
+    tables.map((table) => [
+      table.definition.tableName,
+      Object.fromEntries(
+        table.definition.fields.map((f) => {
+          const column = parseColumnType(f.type) ?? parseColumnType("text")!;
+          const enumName =
+            table.enums[f.name]?.typeName ??
+            `${table.definition.tableName}_${f.name}`;
+          return [f.name, normalizeType(columnSqlType(column, enumName))];
+        })
+      ),
+    ])
+  );
+}
+
+// Tables recorded in a drizzle-kit snapshot (meta/NNNN_snapshot.json)
+export function snapshotColumns(snapshot: any): ExistingColumns {
+  const tables: Record<string, any> = snapshot?.tables ?? {};
+  return Object.fromEntries(
+    Object.values(tables).map((table: any) => [
+      table.name,
+      Object.fromEntries(
+        Object.values<any>(table.columns ?? {}).map((c) => [
+          c.name,
+          normalizeType(
+            c.typeSchema ? `"${c.typeSchema}"."${c.type}"` : String(c.type)
+          ),
+        ])
+      ),
+    ])
+  );
+}
+
+// Lines for the plan: a summary, then every statement that is not additive
+export function formatMigrationReport(report: MigrationReport): string[] {
+  const counts = RISK_ORDER.map((risk) => ({
+    risk,
+    count: report.statements.filter((s) => s.risk === risk).length,
+  })).filter((c) => c.count > 0);
+  return [
+    `Migration safety: ${report.risk} (${counts
+      .map((c) => `${c.count} ${c.risk}`)
+      .join(", ")})`,
+    ...report.statements
+      .filter((s) => s.risk !== "additive")
+      .map(
+        (s) =>
+          `   ${s.risk === "destructive" ? "⚠️ " : "🔒"} ${s.risk}: ${
+            s.reason
+          }\n      ${s.sql}`
+      ),
+  ];
+}
+
+function classifyStatement(
+  sql: string,
+  columns: ExistingColumns,
+  populated: Set<string>
+): ClassifiedStatement {
+  const result = (risk: MigrationRisk, reason: string) => ({
+    sql,
+    risk,
+    reason,
+  });
+  const text = sql.replace(/\s+/g, " ").trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^CREATE TABLE (?:IF NOT EXISTS )?(\S+)/i))) {
+    columns[identifier(match[1])] = {};
+    populated.delete(identifier(match[1]));
+    return result("additive", `creates table ${identifier(match[1])}`);
+  }
+  if ((match = text.match(/^DROP TABLE (?:IF EXISTS )?(\S+)/i))) {
+    const table = identifier(match[1]);
+    return columns[`__new_${table}`]
+      ? result("locking", `replaces ${table} with its rebuilt copy`)
+      : result("destructive", `drops table ${table} and all of its rows`);
+  }
+  if ((match = text.match(/^INSERT INTO (\S+?)\(.*\bFROM (\S+?);?$/i))) {
+    const table = identifier(match[2]);
+    return populated.has(table)
+      ? result(
+          "locking",
+          `copies every row of ${table} into a rebuilt table, holding a write lock`
+        )
+      : result("additive", `copies ${table} into ${identifier(match[1])}`);
+  }
+  if (/^PRAGMA\b/i.test(text)) return result("additive", "sets a pragma");
+  if (/^(TRUNCATE|DELETE FROM)\b/i.test(text))
+    return result("destructive", "deletes rows");
+  if (/^CREATE TYPE\b/i.test(text)) return result("additive", "creates a type");
+  if (/^ALTER TYPE \S+ ADD VALUE\b/i.test(text))
+    return result("additive", "adds an enum value");
+  if (/^DROP TYPE\b/i.test(text))
+    return result("destructive", "drops a type and the values it allowed");
+
+  if (
+    (match = text.match(
+      /^CREATE (UNIQUE )?INDEX (CONCURRENTLY )?.*? ON (?:ONLY )?(\S+)/i
+    ))
+  ) {
+    const table = identifier(match[3]);
+    return populated.has(table) && !match[2]
+      ? result(
+          "locking",
+          `builds an index on ${table}, blocking writes until it finishes`
+        )
+      : result("additive", `creates an index on ${table}`);
+  }
+  if (/^DROP INDEX\b/i.test(text)) return result("additive", "drops an index");
+
+  if ((match = text.match(/^UPDATE (\S+)/i))) {
+    const table = identifier(match[1]);
+    return populated.has(table)
+      ? result("locking", `rewrites existing rows of ${table}`)
+      : result("additive", `updates ${table}`);
+  }
+
+  if (
+    !(match = text.match(/^ALTER TABLE (?:IF EXISTS )?(?:ONLY )?(\S+) (.*)$/i))
+  )
+    return result("locking", "not recognised; review it before migrating");
+
+  const table = identifier(match[1]);
+  const action = match[2];
+  const hasRows = populated.has(table);
+  const tableColumns = (columns[table] ??= {});
+
+  if (
+    (match = action.match(
+      /^ADD (?:COLUMN )?(?:IF NOT EXISTS )?(?!CONSTRAINT\b)(\S+) (.*)$/i
+    ))
+  ) {
+    const column = identifier(match[1]);
+    const definition = match[2];
+    tableColumns[column] = normalizeType(columnTypeOf(definition));
+    const notNull = /\bNOT NULL\b/i.test(definition);
+    const fallback = definition.match(/\bDEFAULT (\S+)/i)?.[1];
+    if (hasRows && notNull && !fallback)
+      return result(
+        "locking",
+        `adds NOT NULL column ${table}.${column} without a default, which fails while ${table} has rows`
+      );
+    if (hasRows && fallback && /\(\)/.test(fallback) && fallback !== "now()")
+      return result(
+        "locking",
+        `adds ${table}.${column} with a volatile default, rewriting every row`
+      );
+    return result("additive", `adds column ${table}.${column}`);
+  }
+  if ((match = action.match(/^DROP COLUMN (?:IF EXISTS )?(\S+)/i))) {
+    const column = identifier(match[1]);
+    delete tableColumns[column];
+    return result(
+      "destructive",
+      `drops column ${table}.${column} and its data`
+    );
+  }
+  if ((match = action.match(/^RENAME COLUMN (\S+) TO (\S+)/i))) {
+    const [from, to] = [identifier(match[1]), identifier(match[2])];
+    tableColumns[to] = tableColumns[from];
+    delete tableColumns[from];
+    return result("additive", `renames ${table}.${from} to ${to}`);
+  }
+  if ((match = action.match(/^RENAME TO (\S+)/i))) {
+    const to = identifier(match[1]);
+    columns[to] = tableColumns;
+    if (hasRows) populated.add(to);
+    return result("additive", `renames table ${table} to ${to}`);
+  }
+
+  // A column's new type, from PostgreSQL's SET DATA TYPE or MySQL's MODIFY
+  const retype = (column: string, type: string) => {
+    const from = tableColumns[column];
+    const to = normalizeType(type);
+    tableColumns[column] = to;
+    if (!hasRows)
+      return result("additive", `changes the type of ${table}.${column}`);
+    if (from === undefined || isNarrowing(from, to))
+      return result(
+        "destructive",
+        `narrows ${table}.${column} ${
+          from ? `from ${from} ` : ""
+        }to ${to}; values that do not fit fail or are cut`
+      );
+    return rewritesTable(from, to)
+      ? result(
+          "locking",
+          `changes ${table}.${column} from ${from} to ${to}, rewriting the table under an exclusive lock`
+        )
+      : result("additive", `widens ${table}.${column} to ${to}`);
+  };
+  if ((match = action.match(/^MODIFY (?:COLUMN )?(\S+) (.*?);?$/i)))
+    return retype(identifier(match[1]), columnTypeOf(match[2]));
+
+  if ((match = action.match(/^ALTER COLUMN (\S+) (.*)$/i))) {
+    const column = identifier(match[1]);
+    const change = match[2];
+    const type = change.match(/^(?:SET DATA )?TYPE (.+?)(?: USING .*)?;?$/i);
+    if (type) return retype(column, type[1]);
+    if (/^SET NOT NULL/i.test(change))
+      return hasRows
+        ? result(
+            "locking",
+            `makes ${table}.${column} NOT NULL, scanning every row under an exclusive lock`
+          )
+        : result("additive", `makes ${table}.${column} NOT NULL`);
+    return result(
+      "additive",
+      `changes the default or nullability of ${table}.${column}`
+    );
+  }
+
+  if ((match = action.match(/^ADD CONSTRAINT (\S+) (.*)$/i))) {
+    const name = identifier(match[1]);
+    const kind = match[2].match(
+      /^(FOREIGN KEY|UNIQUE|CHECK|PRIMARY KEY)/i
+    )?.[1];
+    if (!hasRows || /\bNOT VALID\b/i.test(match[2]))
+      return result("additive", `adds constraint ${name}`);
+    return result(
+      "locking",
+      kind && /^(UNIQUE|PRIMARY KEY)$/i.test(kind)
+        ? `adds ${name}, building its index while ${table} is locked`
+        : `adds ${name}, validating every row of ${table}`
+    );
+  }
+  if (/^DROP (CONSTRAINT|FOREIGN KEY|INDEX)\b/i.test(action))
+    return result("additive", "drops a constraint");
+
+  return result("locking", "not recognised; review it before migrating");
+}
+
+// `"public"."artists"` or `artists` (MySQL, SQLite) -> artists
+function identifier(raw: string): string {
+  const parts = raw.replace(/[;(].*$/, "").split(".");
+  return parts[parts.length - 1].replace(/^["`]|["`]$/g, "");
+}
+
+// The type at the start of an ADD COLUMN definition
+function columnTypeOf(definition: string): string {
+  return definition
+    .replace(
+      /\s+(PRIMARY KEY|NOT NULL|NULL|DEFAULT|UNIQUE|CONSTRAINT|REFERENCES|CHECK|GENERATED)\b.*$/i,
+      ""
+    )
+    .trim();
+}
+
+function normalizeType(type: string): string {
+  return type
+    .trim()
+    .toLowerCase()
+    .replace(/\s*,\s*/g, ",")
+    .replace(/^character varying/, "varchar")
+    .replace(/^int4\b|^int\b/, "integer")
+    .replace(/^int8\b/, "bigint")
+    .replace(/^int2\b/, "smallint")
+    .replace(/^float8\b/, "double precision")
+    .replace(/^timestamptz\b/, "timestamp with time zone")
+    .replace(/^serial\b/, "integer")
+    .replace(/^bigserial\b/, "bigint")
+    .replace(/^smallserial\b/, "smallint");
+}
+
+const INTEGER_WIDTH: Record<string, number> = {
+  smallint: 1,
+  integer: 2,
+  bigint: 3,
+};
+
+// Digits needed for the largest value of each integer type
+const INTEGER_DIGITS: Record<string, number> = {
+  smallint: 5,
+  integer: 10,
+  bigint: 19,
+};
+
+// Whether every value of `from` fits in `to`
+function isNarrowing(from: string, to: string): boolean {
+  if (from === to) return false;
+  if (from.endsWith("[]") !== to.endsWith("[]")) return true;
+  const [fromBase, toBase] = [
+    from.replace(/\[\]$/, ""),
+    to.replace(/\[\]$/, ""),
+  ];
+
+  if (toBase === "text") return false;
+  const length = (t: string) => t.match(/^(?:varchar|char)\((\d+)\)$/)?.[1];
+  if (length(toBase))
+    return (
+      !length(fromBase) || Number(length(fromBase)) > Number(length(toBase))
+    );
+  if (toBase === "varchar")
+    return !/^varchar/.test(fromBase) && fromBase !== "text";
+
+  if (toBase in INTEGER_WIDTH)
+    return (
+      !(fromBase in INTEGER_WIDTH) ||
+      INTEGER_WIDTH[fromBase] > INTEGER_WIDTH[toBase]
+    );
+  if (toBase === "double precision")
+    return !(fromBase in INTEGER_WIDTH) && !["real"].includes(fromBase);
+  if (toBase.startsWith("numeric")) {
+    if (toBase === "numeric") return false;
+    const [p1, s1] = precision(fromBase);
+    const [p2, s2] = precision(toBase);
+    if (fromBase in INTEGER_WIDTH) return p2! - s2 < INTEGER_DIGITS[fromBase];
+    return p1 === undefined || p2! - s2 < p1 - s1 || s2 < s1;
+  }
+  if (toBase === "timestamp with time zone")
+    return !["timestamp", "date"].includes(fromBase);
+  if (toBase === "timestamp") return fromBase !== "date";
+  return true;
+}
+
+function precision(type: string): [number, number] | [undefined, number] {
+  const match = type.match(/^numeric\((\d+)(?:,(\d+))?\)$/);
+  return match ? [Number(match[1]), Number(match[2] ?? 0)] : [undefined, 0];
+}
+
+// Postgres changes varchar lengths and varchar -> text in the catalog only
+function rewritesTable(from: string, to: string): boolean {
+  const base = (t: string) => t.replace(/\(\d+\)$/, "");
+  return !(
+    (base(from) === "varchar" && (base(to) === "varchar" || to === "text")) ||
+    (from === "text" && to === "varchar")
+  );
+}
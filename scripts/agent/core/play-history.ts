@@ -0,0 +1,247 @@
+import { SchemaDefinition, SchemaField } from "../types";
+import { columnKey, tableExportName } from "../utils";
+import { isNullableField, parseColumnType } from "./column-types";
+import { ComponentEditor } from "./component-editor";
+
+// Listening history. A table named like recently_played gets the columns
+// below, a /plays route the app's player records plays through, and the
+// Recently Played shelf lists the contexts played from most recently.
+
+export const PLAY_HISTORY_HOOK_FILE = "src/hooks/usePlayHistory.ts";
+
+const HISTORY_TABLE = /recently_played|(play|listening)_history/;
+
+// What every play records besides the track's own columns
+export const HISTORY_FIELDS: SchemaField[] = [
+  { name: "track_id", type: "text", constraints: ["notNull()"] },
+  { name: "context_type", type: "varchar(20)" },
+  { name: "context_id", type: "text" },
+  { name: "context_name", type: "text" },
+  { name: "device", type: "varchar(100)", constraints: ["notNull()"] },
+  {
+    name: "played_at",
+    type: "timestamp",
+    constraints: ["defaultNow()", "notNull()"],
+  },
+];
+
+// Columns that can hold each property of the app's Track, tried in order;
+// duration needs a numeric column, the rest text ones
+const TRACK_COLUMNS: Record<string, string[]> = {
+  title: ["song_title", "track_title", "title", "song_name", "track_name"],
+  artist: ["artist_name", "artist"],
+  album: ["album_name", "album"],
+  albumArt: [
+    "image_url",
+    "album_art",
+    "cover_art",
+    "artwork_url",
+    "image",
+    "cover_image",
+    "thumbnail",
+  ],
+  duration: ["duration_seconds", "duration", "length"],
+  audioUrl: ["audio_url", "preview_url", "stream_url"],
+};
+
+// Added for the Track properties a new history table has no column for, so
+// the shelf can play its tracks again
+const TRACK_FIELDS: Record<string, SchemaField> = {
+  title: { name: "song_title", type: "text", constraints: ["notNull()"] },
+  artist: { name: "artist_name", type: "text", constraints: ["notNull()"] },
+  album: { name: "album_name", type: "text" },
+  albumArt: { name: "image_url", type: "text" },
+  duration: {
+    name: "duration_seconds",
+    type: "integer",
+    constraints: ["notNull()"],
+  },
+  audioUrl: { name: "audio_url", type: "text" },
+};
+
+export function isHistoryTableName(tableName: string): boolean {
+  return HISTORY_TABLE.test(tableName);
+}
+
+// Adds the track and history columns a new history table lacks, before
+// its timestamps
+export function withPlayHistory(def: SchemaDefinition): SchemaDefinition {
+  if (!isHistoryTableName(def.tableName)) return def;
+  const has = (name: string) => def.fields.some((f) => f.name === name);
+  const missing = [
+    ...Object.entries(TRACK_FIELDS)
+      .filter(([property]) => !TRACK_COLUMNS[property].some(has))
+      .map(([, field]) => field),
+    ...HISTORY_FIELDS.filter((field) => !has(field.name)),
+  ];
+  if (missing.length === 0) return def;
+  const stamps = def.fields.findIndex((f) =>
+    ["created_at", "updated_at"].includes(f.name)
+  );
+  const at = stamps === -1 ? def.fields.length : stamps;
+  return {
+    ...def,
+    fields: [...def.fields.slice(0, at), ...missing, ...def.fields.slice(at)],
+  };
+}
+
+// Tables the player records into: the ones with every history column
+export function isHistoryTable(def: SchemaDefinition): boolean {
+  return (
+    isHistoryTableName(def.tableName) &&
+    HISTORY_FIELDS.every((field) =>
+      def.fields.some((f) => f.name === field.name)
+    )
+  );
+}
+
+export function playsClientName(def: SchemaDefinition): string {
+  return `${tableExportName(def)}Plays`;
+}
+
+// The row key of the column holding each Track property, for the ones the
+// table has a column for
+export function trackColumns(
+  def: SchemaDefinition
+): Record<string, { key: string; nullable: boolean }> {
+  const columns: Record<string, { key: string; nullable: boolean }> = {};
+  for (const [property, candidates] of Object.entries(TRACK_COLUMNS)) {
+    for (const candidate of candidates) {
+      const field = def.fields.find((f) => f.name === candidate);
+      const column = field && parseColumnType(field.type);
+      const kind = property === "duration" ? "number" : "string";
+      if (!field || column?.kind !== kind || column.isArray) continue;
+      columns[property] = {
+        key: columnKey(def, field.name),
+        nullable: isNullableField(field),
+      };
+      break;
+    }
+  }
+  return columns;
+}
+
+// src/hooks/usePlayHistory.ts: usePlayRecorder() logs what the player
+// plays once it counts as a play, useRecentContexts() reads the history
+// back for the shelf
+export function playHistoryHookSource(def: SchemaDefinition): string {
+  const client = playsClientName(def);
+  return `import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePlayer } from '@/components/player-provider';
+import { ${client}, type RecentContext } from '@/lib/api-client';
+import type { QueueState } from '@/lib/play-queue';
+
+// A play counts after 30 seconds or half the track, whichever comes first
+const MIN_PLAY_SECONDS = 30;
+const DEVICE_KEY = 'mcbeats-device';
+const RECORDED_EVENT = 'mcbeats:play-recorded';
+
+interface Listen {
+  trackId: string;
+  startedAt: string;
+  listened: number;
+  lastTime: number;
+  recorded: boolean;
+}
+
+// This browser, as the history names it: "web-" and a random id kept in
+// localStorage
+function deviceName(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = Math.random().toString(36).slice(2, 10);
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return \`web-\${id}\`;
+}
+
+// Records the player's plays with the context of the queue. Only time
+// actually listened counts, so skipping or seeking through a track doesn't
+// log it; a track logs again once it is restarted or repeated.
+export function usePlayRecorder(queue: QueueState) {
+  const player = usePlayer();
+  const listen = useRef<Listen | null>(null);
+  // Queued tracks play outside the context
+  const context = queue.current?.position === null ? null : queue.context;
+
+  useEffect(() => {
+    if (player.status === 'ended') listen.current = null;
+  }, [player.status]);
+
+  useEffect(() => {
+    const track = player.track;
+    if (!track || !player.isPlaying) return;
+
+    const current = listen.current;
+    const restarted = current && player.currentTime < 1 && current.lastTime > 2;
+    if (!current || current.trackId !== track.id || restarted) {
+      listen.current = {
+        trackId: track.id,
+        startedAt: new Date().toISOString(),
+        listened: 0,
+        lastTime: player.currentTime,
+        recorded: false,
+      };
+      return;
+    }
+
+    const delta = player.currentTime - current.lastTime;
+    current.lastTime = player.currentTime;
+    if (delta > 0 && delta < 2) current.listened += delta;
+
+    // Until the metadata loads the duration can be 0 or NaN; a play of a
+    // track of unknown length takes the full 30 seconds
+    const duration = player.duration || track.duration;
+    const threshold =
+      Number.isFinite(duration) && duration > 0 ? Math.min(MIN_PLAY_SECONDS, duration / 2) : MIN_PLAY_SECONDS;
+    if (current.recorded || current.listened < threshold) return;
+    current.recorded = true;
+    ${client}
+      .record({ track, context, device: deviceName(), playedAt: current.startedAt })
+      .then(() => window.dispatchEvent(new Event(RECORDED_EVENT)))
+      .catch((error) => console.error('Recording the play failed:', error));
+  }, [player.currentTime, player.isPlaying]);
+}
+
+// The albums, playlists and shelves played from most recently, newest
+// first; refreshed whenever a play is recorded
+export function useRecentContexts(limit = 10) {
+  const [contexts, setContexts] = useState<RecentContext[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setContexts(await ${client}.recentContexts(limit));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the listening history');
+    } finally {
+      setLoading(false);
+    }
+  }, [limit]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(RECORDED_EVENT, refresh);
+    return () => window.removeEventListener(RECORDED_EVENT, refresh);
+  }, [refresh]);
+
+  return { contexts, loading, error, refresh };
+}
+`;
+}
+
+// Starts usePlayRecorder() in SpotifyApp, next to the queue it reads the
+// context from. Null when the page already records plays or has no queue.
+export function integratePlayRecorder(page: string): string | null {
+  const editor = new ComponentEditor(page, "page.tsx");
+  const queue = editor.findStatementDeclaring("SpotifyApp", "playQueue");
+  if (!queue || editor.isReferenced("usePlayRecorder")) return null;
+  editor.insertAfter(
+    queue,
+    `\n${editor.indentOf(queue)}usePlayRecorder(playQueue.queue)`
+  );
+  editor.addNamedImports("@/hooks/usePlayHistory", ["usePlayRecorder"]);
+  return editor.getText();
+}
@@ -1,49 +1,69 @@
 import * as fs from "fs";
 import * as path from "path";
+import { AUTH_FILE } from "./auth-files";
+import { ChangeSet } from "./change-set";
+import { Dialect, detectDialect } from "./dialects";
+import { HookStrategy, detectHookStrategy } from "./hook-strategies";
+import { PROVIDERS_FILE } from "./query-cache-files";
+import { loadSchemaTables, ParsedTable } from "./schema-parser";
 
+export interface ProjectContext {
+  // The dialect drizzle.config.ts targets
+  dialect: Dialect;
+  // How the hooks cache data, read from src/app/providers.tsx
+  hooks: HookStrategy;
+  // Whether --auth set up src/lib/auth.ts
+  auth: boolean;
+  // Every table under src/db/schema, read into SchemaDefinitions
+  tables: ParsedTable[];
+  apiRoutes: string[];
+  components: string[];
+}
+
+// Builds the run's model of the project. Prompts, validation and templates
+// all work from these tables instead of the raw schema file text.
 export class ProjectAnalyzer {
-  async getProjectContext(): Promise<string> {
-    const context: string[] = [];
-    const push = (label: string, items: string[]) =>
-      items.length && context.push(`${label}: ${items.join(", ")}`);
+  private changeSet = new ChangeSet();
 
-    try {
-      const schemaDir = path.join(process.cwd(), "src", "db", "schema");
-      if (fs.existsSync(schemaDir))
-        push(
-          "Existing schemas",
-          fs
-            .readdirSync(schemaDir)
-            .filter((f) => f.endsWith(".ts") && f !== "index.ts")
-        );
-    } catch {}
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
 
-    try {
-      const apiDir = path.join(process.cwd(), "src", "app", "api");
-      if (fs.existsSync(apiDir)) {
-        push(
-          "Existing API routes",
-          fs
-            .readdirSync(apiDir, { withFileTypes: true })
-            .filter((d) => d.isDirectory())
-            .map((d) => d.name)
-        );
-      }
-    } catch {}
+  async getProjectContext(): Promise<ProjectContext> {
+    return {
+      dialect: detectDialect(this.read("drizzle.config.ts")),
+      hooks: detectHookStrategy(this.read(PROVIDERS_FILE)),
+      auth: this.read(AUTH_FILE) !== null,
+      tables: loadSchemaTables(this.changeSet),
+      apiRoutes: this.list(["src", "app", "api"], (d) =>
+        d.isDirectory() ? d.name : null
+      ),
+      components: this.list(["src", "components"], (d) =>
+        d.name.endsWith(".tsx") ? d.name.replace(".tsx", "") : null
+      ),
+    };
+  }
 
-    try {
-      const componentsDir = path.join(process.cwd(), "src", "components");
-      if (fs.existsSync(componentsDir)) {
-        push(
-          "Main components",
-          fs
-            .readdirSync(componentsDir)
-            .filter((f) => f.endsWith(".tsx"))
-            .map((f) => f.replace(".tsx", ""))
-        );
-      }
-    } catch {}
+  private read(file: string): string | null {
+    const filePath = path.join(process.cwd(), file);
+    return this.changeSet.exists(filePath)
+      ? this.changeSet.readFile(filePath)
+      : null;
+  }
 
-    return context.join("\n");
+  private list(
+    segments: string[],
+    select: (entry: fs.Dirent) => string | null
+  ): string[] {
+    try {
+      const dir = path.join(process.cwd(), ...segments);
+      if (!fs.existsSync(dir)) return [];
+      return fs
+        .readdirSync(dir, { withFileTypes: true })
+        .map(select)
+        .filter((name): name is string => name !== null);
+    } catch {
+      return [];
+    }
   }
 }
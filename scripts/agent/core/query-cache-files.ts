@@ -0,0 +1,322 @@
+import ts from "typescript";
+import { SchemaDefinition } from "../types";
+import { tableExportName, toPascalCase } from "../utils";
+import { HookStrategy } from "./hook-strategies";
+import { SourceEditor } from "./source-editor";
+
+// The files the SWR and TanStack Query hooks share: query-key factories,
+// the provider holding the cache, and helpers that prefetch on the server
+// and hydrate that cache. Plain hooks use none of them.
+
+export const QUERY_KEYS_FILE = "src/lib/query-keys.ts";
+export const QUERY_CLIENT_FILE = "src/lib/query-client.ts";
+export const HYDRATION_FILE = "src/lib/hydration.tsx";
+export const PROVIDERS_FILE = "src/app/providers.tsx";
+export const LAYOUT_FILE = "src/app/layout.tsx";
+
+// Every file a strategy writes besides the hooks
+export function queryCacheFiles(strategy: HookStrategy): string[] {
+  switch (strategy.name) {
+    case "react-query":
+      return [
+        QUERY_KEYS_FILE,
+        QUERY_CLIENT_FILE,
+        HYDRATION_FILE,
+        PROVIDERS_FILE,
+      ];
+    case "swr":
+      return [QUERY_KEYS_FILE, HYDRATION_FILE, PROVIDERS_FILE];
+    default:
+      return [];
+  }
+}
+
+export function queryCacheSource(
+  file: string,
+  strategy: HookStrategy,
+  tables: SchemaDefinition[]
+): string {
+  switch (file) {
+    case QUERY_KEYS_FILE:
+      return queryKeysSource(strategy, tables);
+    case QUERY_CLIENT_FILE:
+      return queryClientSource();
+    case HYDRATION_FILE:
+      return hydrationSource(strategy, tables);
+    case PROVIDERS_FILE:
+      return providersSource(strategy);
+    default:
+      throw new Error(`Not a query cache file: ${file}`);
+  }
+}
+
+function listParamsType(def: SchemaDefinition): string {
+  return `${toPascalCase(def.tableName)}ListParams`;
+}
+
+function queryKeysSource(
+  strategy: HookStrategy,
+  tables: SchemaDefinition[]
+): string {
+  const matcher =
+    strategy.name === "swr"
+      ? `
+// Filter for SWR's mutate(): every cached key that starts with \`prefix\`
+export function matchesKey(prefix: readonly unknown[]) {
+  return (key: unknown) =>
+    Array.isArray(key) && prefix.every((part, i) => key[i] === part);
+}
+`
+      : "";
+
+  return `import type {
+${tables.map((def) => `  ${listParamsType(def)},`).join("\n")}
+} from "@/lib/api-client";
+
+// Cache keys of the generated hooks and the server prefetches. Every key of
+// a table starts with its name, so invalidating \`all\` refreshes its lists
+// and records together.
+function tableKeys<Params>(table: string) {
+  return {
+    all: [table] as const,
+    lists: () => [table, "list"] as const,
+    list: (params?: Params) => [table, "list", params ?? {}] as const,
+    details: () => [table, "detail"] as const,
+    detail: (id: number) => [table, "detail", id] as const,
+  };
+}
+
+export const queryKeys = {
+${tables
+  .map((def) => {
+    const name = tableExportName(def);
+    return `  ${name}: tableKeys<${listParamsType(def)}>("${name}"),`;
+  })
+  .join("\n")}
+};
+${matcher}`;
+}
+
+// Server prefetches and the browser cache start from the same defaults
+function queryClientSource(): string {
+  return `import { QueryClient } from "@tanstack/react-query";
+
+// Data prefetched on the server stays fresh for a while, so hydrated hooks
+// don't refetch it as soon as they mount
+export function makeQueryClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: 30 * 1000,
+        refetchOnWindowFocus: false,
+      },
+    },
+  });
+}
+`;
+}
+
+function providersSource(strategy: HookStrategy): string {
+  if (strategy.name === "swr") {
+    return `"use client";
+
+import { SWRConfig } from "swr";
+
+// The cache every generated hook reads and mutates. Requests for the same
+// key within dedupingInterval share one response.
+export function Providers({ children }: { children: React.ReactNode }) {
+  return (
+    <SWRConfig
+      value={{
+        dedupingInterval: 30 * 1000,
+        revalidateOnFocus: false,
+        keepPreviousData: true,
+      }}
+    >
+      {children}
+    </SWRConfig>
+  );
+}
+`;
+  }
+
+  return `"use client";
+
+import { useState } from "react";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { makeQueryClient } from "@/lib/query-client";
+
+// The cache every generated hook reads and mutates; one per browser tab
+export function Providers({ children }: { children: React.ReactNode }) {
+  const [queryClient] = useState(makeQueryClient);
+  return (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+`;
+}
+
+function hydrationSource(
+  strategy: HookStrategy,
+  tables: SchemaDefinition[]
+): string {
+  const swr = strategy.name === "swr";
+  const imports = swr
+    ? `import { SWRConfig, unstable_serialize } from "swr";`
+    : `import { HydrationBoundary, dehydrate } from "@tanstack/react-query";`;
+  const hydrate = swr
+    ? `  const fallback: Record<string, unknown> = {};
+  await Promise.all(
+    queries.map(async (query) => {
+      try {
+        fallback[unstable_serialize(query.key)] = await query.fetch(api);
+      } catch {
+        // The hook fetches it in the browser instead
+      }
+    })
+  );
+  return <SWRConfig value={{ fallback }}>{children}</SWRConfig>;`
+    : `  const queryClient = makeQueryClient();
+  // Failed prefetches are left out; the hook fetches them in the browser
+  await Promise.all(
+    queries.map((query) =>
+      queryClient.prefetchQuery({
+        queryKey: query.key,
+        queryFn: () => query.fetch(api),
+      })
+    )
+  );
+  return (
+    <HydrationBoundary state={dehydrate(queryClient)}>
+      {children}
+    </HydrationBoundary>
+  );`;
+
+  return `import { headers } from "next/headers";
+${imports}
+import {
+  createApiClient,
+  type ApiClient,
+${tables.map((def) => `  type ${listParamsType(def)},`).join("\n")}
+} from "@/lib/api-client";
+${
+  swr ? "" : `import { makeQueryClient } from "@/lib/query-client";\n`
+}import { queryKeys } from "@/lib/query-keys";
+
+// Server-side data for the generated hooks, for App Router server
+// components and layouts:
+//
+//   <Hydrate queries={[prefetch.${tableExportName(
+    tables[0]
+  )}.list({ limit: 20 })]}>
+//     <ClientComponentUsingTheHook />
+//   </Hydrate>
+
+export interface PrefetchQuery {
+  key: readonly unknown[];
+  fetch: (api: ApiClient) => Promise<unknown>;
+}
+
+export const prefetch = {
+${tables
+  .map((def) => {
+    const name = tableExportName(def);
+    return `  ${name}: {
+    list: (params?: ${listParamsType(def)}): PrefetchQuery => ({
+      key: queryKeys.${name}.list(params),
+      fetch: (api) => api.${name}.list(params),
+    }),
+    detail: (id: number): PrefetchQuery => ({
+      key: queryKeys.${name}.detail(id),
+      fetch: (api) => api.${name}.get(id),
+    }),
+  },`;
+  })
+  .join("\n")}
+};
+
+// The API client for server code: the app's own routes through the
+// request's origin, with its cookies
+export async function serverApi(): Promise<ApiClient> {
+  const incoming = await headers();
+  const host = incoming.get("x-forwarded-host") ?? incoming.get("host");
+  const protocol = incoming.get("x-forwarded-proto") ?? "http";
+  const cookie = incoming.get("cookie");
+  return createApiClient({
+    baseUrl: \`\${protocol}://\${host}\`,
+    headers: cookie ? { cookie } : undefined,
+  });
+}
+
+// Runs the queries during the server render and seeds the cache with their
+// results, so the hooks below render with data instead of fetching on mount
+export async function Hydrate({
+  queries,
+  children,
+}: {
+  queries: PrefetchQuery[];
+  children: React.ReactNode;
+}) {
+  const api = await serverApi();
+${hydrate}
+}
+`;
+}
+
+// Root layout edits: <Providers> around the page, or removed again when the
+// project goes back to plain hooks. Both return null when there is nothing
+// to change.
+export function wrapLayoutChildren(layout: string): string | null {
+  const editor = new LayoutEditor(layout, "layout.tsx");
+  const children = editor.findChildren();
+  if (!children || editor.findProviders()) return null;
+  editor.replaceNode(children, `<Providers>{children}</Providers>`);
+  editor.addNamedImports("./providers", ["Providers"]);
+  return editor.getText();
+}
+
+export function unwrapLayoutChildren(layout: string): string | null {
+  const editor = new LayoutEditor(layout, "layout.tsx");
+  const providers = editor.findProviders();
+  if (!providers) return null;
+  editor.replaceNode(
+    providers,
+    providers.children.map((child) => child.getText()).join("")
+  );
+  editor.pruneNamedImports("./providers");
+  return editor.getText();
+}
+
+class LayoutEditor extends SourceEditor {
+  // The {children} expression the layout renders
+  findChildren(): ts.JsxExpression | undefined {
+    return this.find(
+      (node): node is ts.JsxExpression =>
+        ts.isJsxExpression(node) &&
+        !!node.expression &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === "children"
+    );
+  }
+
+  findProviders(): ts.JsxElement | undefined {
+    return this.find(
+      (node): node is ts.JsxElement =>
+        ts.isJsxElement(node) &&
+        node.openingElement.tagName.getText(this.source) === "Providers"
+    );
+  }
+
+  private find<T extends ts.Node>(
+    match: (node: ts.Node) => node is T
+  ): T | undefined {
+    let found: T | undefined;
+    const visit = (node: ts.Node) => {
+      if (found) return;
+      if (match(node)) found = node;
+      else ts.forEachChild(node, visit);
+    };
+    visit(this.source);
+    return found;
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  OnDeleteAction,
+  SchemaDefinition,
+  SchemaField,
+  SchemaRelationship,
+} from "../types";
+import { toCamelCase, toSingular } from "../utils";
+
+export const ON_DELETE_ACTIONS: OnDeleteAction[] = [
+  "cascade",
+  "set null",
+  "restrict",
+  "no action",
+];
+
+// A Drizzle relation of a table: `one` follows a foreign key held by the
+// table, `many` collects the rows of another table that point back at it
+export interface TableRelation {
+  name: string;
+  kind: "one" | "many";
+  table: string;
+  field?: SchemaField;
+}
+
+// Default foreign key column for rows pointing at `table`: artists -> artist_id
+export function foreignKeyName(tableName: string): string {
+  return `${toSingular(tableName)}_id`;
+}
+
+// Join table generated for a many-to-many relationship
+export function joinTableName(
+  tableName: string,
+  relationship: SchemaRelationship
+): string {
+  return relationship.through ?? `${tableName}_${relationship.table}`;
+}
+
+// Turns declared relationships into foreign key fields, adding the join
+// tables many-to-many relationships need. Fields that already exist under
+// the foreign key name only gain the reference, so resolving twice is a
+// no-op.
+export function resolveRelationships(
+  schemaDefinitions: SchemaDefinition[]
+): SchemaDefinition[] {
+  const resolved = schemaDefinitions.map((def) => ({
+    ...def,
+    fields: def.fields.map((f) => ({ ...f })),
+  }));
+
+  for (const def of [...resolved]) {
+    for (const relationship of def.relationships ?? []) {
+      if (relationship.type === "one-to-many") {
+        addForeignKey(
+          def,
+          relationship.column ?? foreignKeyName(relationship.table),
+          relationship.table,
+          relationship.onDelete
+        );
+        continue;
+      }
+
+      const through = joinTableName(def.tableName, relationship);
+      let join = resolved.find((d) => d.tableName === through);
+      if (!join) {
+        join = { tableName: through, fileName: `${through}.ts`, fields: [] };
+        resolved.push(join);
+      }
+      const onDelete = relationship.onDelete ?? "cascade";
+      const ownKey = foreignKeyName(def.tableName);
+      // A table linked to itself needs two distinct columns
+      const otherKey =
+        relationship.table === def.tableName
+          ? `related_${ownKey}`
+          : relationship.column ?? foreignKeyName(relationship.table);
+      addForeignKey(join, ownKey, def.tableName, onDelete);
+      addForeignKey(join, otherKey, relationship.table, onDelete);
+    }
+  }
+
+  return resolved;
+}
+
+function addForeignKey(
+  def: SchemaDefinition,
+  column: string,
+  table: string,
+  onDelete?: OnDeleteAction
+) {
+  const references = { table, column: "id", ...(onDelete ? { onDelete } : {}) };
+  const existing = def.fields.find((f) => f.name === column);
+  if (existing) {
+    existing.references = existing.references ?? references;
+    return;
+  }
+  def.fields.push({
+    name: column,
+    type: "integer",
+    constraints: onDelete === "set null" ? [] : ["notNull()"],
+    references,
+  });
+}
+
+// Relations of `schemaDef` among `allDefinitions`, keyed the way
+// relations() and `with` name them: artist_id -> artist, tracks -> tracks.
+// Self references only get the foreign key, Drizzle needs relation names
+// to tell both ends apart.
+export function tableRelations(
+  schemaDef: SchemaDefinition,
+  allDefinitions: SchemaDefinition[]
+): TableRelation[] {
+  const relations: TableRelation[] = [];
+  const add = (relation: TableRelation) => {
+    if (!relations.some((r) => r.name === relation.name))
+      relations.push(relation);
+  };
+
+  for (const field of schemaDef.fields) {
+    if (!field.references || field.references.table === schemaDef.tableName)
+      continue;
+    add({
+      name: toCamelCase(field.name.replace(/_id$/, "")),
+      kind: "one",
+      table: field.references.table,
+      field,
+    });
+  }
+
+  for (const other of allDefinitions) {
+    if (other.tableName === schemaDef.tableName) continue;
+    const pointsBack = other.fields.filter(
+      (f) => f.references?.table === schemaDef.tableName
+    );
+    // Two keys to the same table would make the relation ambiguous
+    if (pointsBack.length === 1)
+      add({
+        name: toCamelCase(other.tableName),
+        kind: "many",
+        table: other.tableName,
+      });
+  }
+
+  return relations;
+}
+
+// Parents before the tables that reference them, so seeds can look up the
+// ids they point at. Cycles keep their declared order.
+export function sortByDependencies(
+  schemaDefinitions: SchemaDefinition[]
+): SchemaDefinition[] {
+  const byName = new Map(schemaDefinitions.map((d) => [d.tableName, d]));
+  const sorted: SchemaDefinition[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+
+  const visit = (def: SchemaDefinition) => {
+    if (done.has(def.tableName) || visiting.has(def.tableName)) return;
+    visiting.add(def.tableName);
+    for (const field of def.fields) {
+      const parent = field.references && byName.get(field.references.table);
+      if (parent && parent !== def) visit(parent);
+    }
+    visiting.delete(def.tableName);
+    done.add(def.tableName);
+    sorted.push(def);
+  };
+
+  schemaDefinitions.forEach(visit);
+  return sorted;
+}
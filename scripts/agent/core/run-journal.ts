@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import * as path from "path";
+import { FileChange, RunJournalEntry } from "../types";
+
+// Persists one JSON file per agent run under .orchids/runs so a run can be
+// reverted later with `orchids-agent undo`.
+export class RunJournal {
+  private runsDir: string;
+
+  constructor(rootDir: string = process.cwd()) {
+    this.runsDir = path.join(rootDir, ".orchids", "runs");
+  }
+
+  record(
+    query: string,
+    files: FileChange[],
+    generatedFiles: FileChange[],
+    commands: string[],
+    partial: boolean = false
+  ): RunJournalEntry {
+    const createdAt = new Date();
+    const entry: RunJournalEntry = {
+      id: this.uniqueId(createdAt),
+      query,
+      createdAt: createdAt.toISOString(),
+      files: files.map((f) => this.toRelative(f)),
+      generatedFiles: generatedFiles.map((f) => this.toRelative(f)),
+      commands,
+    };
+    if (partial) entry.partial = true;
+    this.save(entry);
+    return entry;
+  }
+
+  save(entry: RunJournalEntry) {
+    fs.mkdirSync(this.runsDir, { recursive: true });
+    fs.writeFileSync(this.runPath(entry.id), JSON.stringify(entry, null, 2));
+  }
+
+  list(): RunJournalEntry[] {
+    if (!fs.existsSync(this.runsDir)) return [];
+    return fs
+      .readdirSync(this.runsDir)
+      .filter((f) => f.endsWith(".json"))
+      .sort()
+      .map((f) =>
+        JSON.parse(fs.readFileSync(path.join(this.runsDir, f), "utf8"))
+      );
+  }
+
+  // Returns the requested run, or the most recent run not yet undone
+  load(runId?: string): RunJournalEntry | null {
+    const runs = this.list();
+    if (runId) return runs.find((r) => r.id === runId) ?? null;
+    return runs.reverse().find((r) => !r.undoneAt) ?? null;
+  }
+
+  // The run's time to the millisecond, e.g. 20250101T120000000; runs in the
+  // same millisecond get a counter so none overwrites another
+  private uniqueId(createdAt: Date): string {
+    const time = createdAt.toISOString().replace(/[-:.Z]/g, "");
+    let id = time;
+    for (let n = 2; fs.existsSync(this.runPath(id)); n++) id = `${time}_${n}`;
+    return id;
+  }
+
+  private runPath(id: string): string {
+    return path.join(this.runsDir, `${id}.json`);
+  }
+
+  private toRelative(change: FileChange): FileChange {
+    return { ...change, path: path.relative(process.cwd(), change.path) };
+  }
+}
@@ -0,0 +1,235 @@
+import ts from "typescript";
+import { SourceEditor } from "./source-editor";
+
+interface TableNode {
+  statement: ts.VariableStatement;
+  call: ts.CallExpression;
+  columns: ts.ObjectLiteralExpression;
+}
+
+// Patches pgTable declarations in an existing schema file, keeping every
+// column, comment and helper the edit does not touch.
+export class SchemaEditor extends SourceEditor {
+  constructor(text: string, fileName = "schema.ts") {
+    super(text, fileName);
+  }
+
+  hasColumn(exportName: string, key: string): boolean {
+    return !!this.findColumn(exportName, key);
+  }
+
+  // Adds `key: code` before the timestamp columns, or last when there are none
+  addColumn(exportName: string, key: string, code: string) {
+    const table = this.requireTable(exportName);
+    const properties = table.columns.properties;
+    const before = properties.find(
+      (p) =>
+        ts.isPropertyAssignment(p) &&
+        ["createdAt", "created_at"].includes(p.name.getText(this.source))
+    );
+    if (before) {
+      this.insertBefore(before, `${key}: ${code},\n${this.indentOf(before)}`);
+      return;
+    }
+
+    const last = properties[properties.length - 1];
+    if (!last) {
+      this.replaceNode(table.columns, `{\n  ${key}: ${code},\n}`);
+      return;
+    }
+    const hasComma = this.getText().slice(last.getEnd()).trimStart()[0] === ",";
+    if (!hasComma) this.insertAfter(last, ",");
+    const anchor =
+      this.requireTable(exportName).columns.properties[properties.length - 1];
+    const end = this.getText().indexOf(",", anchor.getEnd()) + 1;
+    this.splice(end, end, `\n${this.indentOf(anchor)}${key}: ${code},`);
+  }
+
+  // Replaces a column's builder chain, renaming its key when `newKey` is set
+  replaceColumn(exportName: string, key: string, code: string, newKey = key) {
+    this.replaceNode(this.requireColumn(exportName, key), `${newKey}: ${code}`);
+  }
+
+  // Renames the property and the database column name in the builder call,
+  // then updates `table.key` accesses such as relations and checks
+  renameColumn(
+    exportName: string,
+    key: string,
+    newKey: string,
+    newColumnName: string
+  ) {
+    const property = this.requireColumn(exportName, key);
+    let builder: ts.Expression = property.initializer;
+    while (
+      ts.isCallExpression(builder) &&
+      ts.isPropertyAccessExpression(builder.expression)
+    )
+      builder = builder.expression.expression;
+    const nameArg =
+      ts.isCallExpression(builder) && builder.arguments[0]
+        ? builder.arguments[0]
+        : undefined;
+    if (nameArg && ts.isStringLiteral(nameArg))
+      this.replaceNode(nameArg, JSON.stringify(newColumnName));
+    this.replaceNode(this.requireColumn(exportName, key).name, newKey);
+    this.renameAccesses(exportName, key, newKey);
+  }
+
+  // `artists.oldKey` -> `artists.newKey` anywhere in the file
+  renameAccesses(exportName: string, key: string, newKey: string) {
+    if (key === newKey) return;
+    for (;;) {
+      const access = this.findNode(
+        (node): node is ts.PropertyAccessExpression =>
+          ts.isPropertyAccessExpression(node) &&
+          node.expression.getText(this.source) === exportName &&
+          node.name.text === key
+      );
+      if (!access) return;
+      this.replaceNode(access.name, newKey);
+    }
+  }
+
+  removeColumn(exportName: string, key: string) {
+    this.removeNode(this.requireColumn(exportName, key));
+  }
+
+  // Appends to the table's `() => [...]` extra config, adding one if needed.
+  // Returns false for config shapes it cannot extend.
+  addTableCheck(exportName: string, code: string): boolean {
+    const table = this.requireTable(exportName);
+    const config = table.call.arguments[2];
+    const list =
+      config && ts.isArrowFunction(config) && !ts.isBlock(config.body)
+        ? unwrap(config.body)
+        : undefined;
+    if (list && ts.isArrayLiteralExpression(list)) {
+      const last = list.elements[list.elements.length - 1];
+      if (last) this.insertAfter(last, `, ${code}`);
+      else this.replaceNode(list, `[${code}]`);
+      return true;
+    }
+    if (config) return false;
+    this.insertAfter(table.columns, `, () => [${code}]`);
+    return true;
+  }
+
+  // Removes a `check("name", ...)` from the table's extra config
+  removeTableCheck(exportName: string, name: string) {
+    const table = this.requireTable(exportName);
+    const config = table.call.arguments[2];
+    if (!config) return;
+    const check = this.findNode(
+      (node): node is ts.CallExpression =>
+        ts.isCallExpression(node) &&
+        node.expression.getText(this.source) === "check" &&
+        ts.isStringLiteral(node.arguments[0]) &&
+        (node.arguments[0] as ts.StringLiteral).text === name &&
+        node.getStart(this.source) >= config.getStart(this.source) &&
+        node.getEnd() <= config.getEnd()
+    );
+    if (check) this.removeNode(check);
+  }
+
+  // Inserts top-level statements (such as pgEnum exports) before the table
+  insertBeforeTable(exportName: string, code: string) {
+    this.insertBefore(this.requireTable(exportName).statement, `${code}\n\n`);
+  }
+
+  // Replaces the top-level `const` declaring exportName, e.g. a pgEnum
+  replaceDeclaration(exportName: string, code: string) {
+    this.replaceNode(this.requireDeclaration(exportName), code);
+  }
+
+  // Removes the declaration and the blank line that separated it
+  removeDeclaration(exportName: string) {
+    const statement = this.requireDeclaration(exportName);
+    const text = this.getText();
+    const start = text.lastIndexOf("\n", statement.getStart(this.source)) + 1;
+    const end = statement.getEnd();
+    const rest = text.slice(end).match(/^[ \t]*(\r?\n)?([ \t]*\r?\n)?/)![0];
+    this.splice(start, end + rest.length, "");
+  }
+
+  private requireDeclaration(exportName: string): ts.VariableStatement {
+    const statement = this.source.statements.find(
+      (s): s is ts.VariableStatement =>
+        ts.isVariableStatement(s) &&
+        s.declarationList.declarations.some(
+          (d) => ts.isIdentifier(d.name) && d.name.text === exportName
+        )
+    );
+    if (!statement)
+      throw new Error(`No declaration '${exportName}' in ${this.fileName}`);
+    return statement;
+  }
+
+  private findTable(exportName: string): TableNode | undefined {
+    for (const statement of this.source.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const decl of statement.declarationList.declarations) {
+        const call = decl.initializer;
+        if (
+          ts.isIdentifier(decl.name) &&
+          decl.name.text === exportName &&
+          call &&
+          ts.isCallExpression(call) &&
+          call.arguments[1] &&
+          ts.isObjectLiteralExpression(call.arguments[1])
+        )
+          return { statement, call, columns: call.arguments[1] };
+      }
+    }
+    return undefined;
+  }
+
+  private findColumn(
+    exportName: string,
+    key: string
+  ): ts.PropertyAssignment | undefined {
+    return this.findTable(exportName)
+      ?.columns.properties.filter(ts.isPropertyAssignment)
+      .find(
+        (p) => p.name.getText(this.source).replace(/^["']|["']$/g, "") === key
+      );
+  }
+
+  private requireTable(exportName: string): TableNode {
+    const table = this.findTable(exportName);
+    if (!table)
+      throw new Error(`No pgTable '${exportName}' in ${this.fileName}`);
+    return table;
+  }
+
+  private requireColumn(
+    exportName: string,
+    key: string
+  ): ts.PropertyAssignment {
+    const column = this.findColumn(exportName, key);
+    if (!column)
+      throw new Error(
+        `No column '${key}' on ${exportName} in ${this.fileName}`
+      );
+    return column;
+  }
+
+  private findNode<T extends ts.Node>(
+    match: (node: ts.Node) => node is T
+  ): T | undefined {
+    let found: T | undefined;
+    const visit = (node: ts.Node) => {
+      if (found) return;
+      if (match(node)) {
+        found = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.source);
+    return found;
+  }
+}
+
+function unwrap(node: ts.Node): ts.Node {
+  return ts.isParenthesizedExpression(node) ? unwrap(node.expression) : node;
+}
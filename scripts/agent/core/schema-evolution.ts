@@ -0,0 +1,412 @@
+import { SchemaChange, SchemaDefinition, SchemaField } from "../types";
+import {
+  ColumnType,
+  columnSqlDefault,
+  columnSqlType,
+  constraintArgument,
+  isNullableField,
+  parseColumnType,
+} from "./column-types";
+import { toCamelCase } from "../utils";
+import { ParsedTable } from "./schema-parser";
+
+// Changes requested for a table that already exists
+export interface TableAlteration {
+  table: ParsedTable;
+  changes: SchemaChange[];
+}
+
+// Changes that turn a table as it exists into `desired`. Columns are matched
+// by name; a dropped and an added column with the same definition are
+// reported as a rename, which callers must confirm before applying it.
+export function diffSchemas(
+  existing: SchemaDefinition,
+  desired: SchemaDefinition
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const has = (def: SchemaDefinition, name: string) =>
+    def.fields.some((f) => f.name === name);
+  const added = desired.fields.filter((f) => !has(existing, f.name));
+
+  for (const field of existing.fields) {
+    if (has(desired, field.name)) continue;
+    const renamed = added.find(
+      (a) => sameColumn(a, field) && sameReference(a, field)
+    );
+    if (renamed) {
+      added.splice(added.indexOf(renamed), 1);
+      changes.push({ action: "rename", field: field.name, to: renamed.name });
+    } else {
+      changes.push({ action: "drop", field: field.name });
+    }
+  }
+
+  for (const field of desired.fields) {
+    const current = existing.fields.find((f) => f.name === field.name);
+    if (current && !sameColumn(current, field))
+      changes.push({
+        action: "retype",
+        field: field.name,
+        type: field.type,
+        constraints: field.constraints ?? [],
+      });
+  }
+
+  for (const field of added) changes.push({ action: "add", field });
+  return changes;
+}
+
+// The definition after the changes. Added columns go before the timestamp
+// columns, where SchemaEditor inserts them, under camelCase keys; renamed
+// columns keep the key style they had.
+export function applyChanges(
+  schemaDef: SchemaDefinition,
+  changes: SchemaChange[]
+): SchemaDefinition {
+  const fields = schemaDef.fields.map((f) => ({ ...f }));
+  const keys = schemaDef.propertyKeys && { ...schemaDef.propertyKeys };
+  // The policy's hidden columns follow renames and drops
+  const hidden = schemaDef.access?.hidden && { ...schemaDef.access.hidden };
+  for (const change of changes) {
+    const index = fields.findIndex((f) => f.name === change.field);
+    switch (change.action) {
+      case "add": {
+        const at = fields.findIndex((f) => f.name === "created_at");
+        fields.splice(at >= 0 ? at : fields.length, 0, { ...change.field });
+        if (keys) keys[change.field.name] = toCamelCase(change.field.name);
+        break;
+      }
+      case "drop":
+        if (index >= 0) fields.splice(index, 1);
+        if (keys) delete keys[change.field];
+        if (hidden) delete hidden[change.field];
+        break;
+      case "rename":
+        if (index >= 0) fields[index].name = change.to;
+        if (keys) {
+          keys[change.to] =
+            keys[change.field] === change.field
+              ? change.to
+              : toCamelCase(change.to);
+          delete keys[change.field];
+        }
+        if (hidden?.[change.field]) {
+          hidden[change.to] = hidden[change.field];
+          delete hidden[change.field];
+        }
+        break;
+      case "retype":
+        if (index >= 0)
+          fields[index] = {
+            ...fields[index],
+            type: change.type,
+            constraints: change.constraints ?? fields[index].constraints,
+          };
+        break;
+    }
+  }
+
+  const altered: SchemaDefinition = {
+    ...schemaDef,
+    fields,
+    ...(keys ? { propertyKeys: keys } : {}),
+  };
+  if (hidden) {
+    const { hidden: _, ...access } = altered.access!;
+    altered.access = Object.keys(hidden).length
+      ? { ...access, hidden }
+      : access;
+  }
+  delete altered.alter;
+  return altered;
+}
+
+// "add genre (text)", "rename name -> title", ...
+export function describeChange(change: SchemaChange): string {
+  switch (change.action) {
+    case "add":
+      return `add ${change.field.name} (${change.field.type})`;
+    case "drop":
+      return `drop ${change.field}`;
+    case "rename":
+      return `rename ${change.field} -> ${change.to}`;
+    case "retype":
+      return `retype ${change.field} -> ${change.type}${
+        change.constraints?.length ? ` ${change.constraints.join(" ")}` : ""
+      }`;
+  }
+}
+
+// ALTER statements applying the changes to the table without losing rows:
+// columns are renamed rather than recreated, type changes cast the existing
+// values with USING, and NULLs are backfilled from the default before a
+// column becomes NOT NULL. Constraint names follow drizzle-kit's so later
+// generated migrations line up with them.
+export function alterTableSql(
+  table: ParsedTable,
+  changes: SchemaChange[]
+): string[] {
+  const tableName = table.definition.tableName;
+  const quoted = `"${tableName}"`;
+  const statements: string[] = [];
+  let fields = table.definition.fields.map((f) => ({ ...f }));
+  const enums: Record<string, string> = Object.fromEntries(
+    Object.entries(table.enums).map(([column, e]) => [column, e.typeName])
+  );
+  const constraintNames = (field: SchemaField) => [
+    field.constraints?.includes("unique()") &&
+      `${tableName}_${field.name}_unique`,
+    field.references &&
+      `${tableName}_${field.name}_${field.references.table}_${field.references.column}_fk`,
+    field.constraints?.some((c) => c.startsWith("check(")) &&
+      `${tableName}_${field.name}_check`,
+  ];
+
+  for (const change of changes) {
+    const field = fields.find((f) => f.name === change.field);
+
+    if (change.action === "add") {
+      const column = requireType(change.field);
+      if (column.builder === "enum") {
+        enums[change.field.name] = `${tableName}_${change.field.name}`;
+        statements.push(createEnum(enums[change.field.name], column));
+      }
+      statements.push(
+        ...addColumnSql(
+          tableName,
+          change.field,
+          column,
+          enums[change.field.name]
+        )
+      );
+      fields.push(change.field);
+      continue;
+    }
+    if (!field) continue;
+
+    if (change.action === "rename") {
+      statements.push(
+        `ALTER TABLE ${quoted} RENAME COLUMN "${field.name}" TO "${change.to}";`
+      );
+      const before = constraintNames(field);
+      const after = constraintNames({ ...field, name: change.to });
+      before.forEach((name, i) => {
+        if (name && after[i])
+          statements.push(
+            `ALTER TABLE ${quoted} RENAME CONSTRAINT "${name}" TO "${after[i]}";`
+          );
+      });
+      if (enums[field.name]) {
+        enums[change.to] = enums[field.name];
+        delete enums[field.name];
+      }
+      field.name = change.to;
+    } else if (change.action === "drop") {
+      statements.push(`ALTER TABLE ${quoted} DROP COLUMN "${field.name}";`);
+      if (enums[field.name])
+        statements.push(`DROP TYPE "public"."${enums[field.name]}";`);
+      fields = fields.filter((f) => f !== field);
+    } else {
+      const next: SchemaField = {
+        ...field,
+        type: change.type,
+        constraints: change.constraints ?? field.constraints,
+      };
+      statements.push(...retypeSql(tableName, field, next, enums));
+      Object.assign(field, next);
+    }
+  }
+
+  return statements;
+}
+
+function addColumnSql(
+  tableName: string,
+  field: SchemaField,
+  column: ColumnType,
+  enumTypeName: string | undefined
+): string[] {
+  const constraints = field.constraints ?? [];
+  const defaultValue = columnSqlDefault(column, constraints);
+  const statements = [
+    `ALTER TABLE "${tableName}" ADD COLUMN "${field.name}" ${columnSqlType(
+      column,
+      enumTypeName ?? ""
+    )}${defaultValue ? ` DEFAULT ${defaultValue}` : ""}${
+      isNullableField(field) ? "" : " NOT NULL"
+    };`,
+  ];
+  if (constraints.includes("unique()"))
+    statements.push(uniqueSql(tableName, field.name));
+  const check = checkExpression(field);
+  if (check) statements.push(checkSql(tableName, field.name, check));
+  if (field.references) {
+    const { table, column: target, onDelete } = field.references;
+    statements.push(
+      `ALTER TABLE "${tableName}" ADD CONSTRAINT "${tableName}_${
+        field.name
+      }_${table}_${target}_fk" FOREIGN KEY ("${
+        field.name
+      }") REFERENCES "public"."${table}"("${target}") ON DELETE ${
+        onDelete ?? "no action"
+      } ON UPDATE no action;`
+    );
+  }
+  return statements;
+}
+
+function retypeSql(
+  tableName: string,
+  field: SchemaField,
+  next: SchemaField,
+  enums: Record<string, string>
+): string[] {
+  const alter = `ALTER TABLE "${tableName}" ALTER COLUMN "${field.name}"`;
+  const statements: string[] = [];
+  const current = requireType(field);
+  const column = requireType(next);
+  const oldDefault = columnSqlDefault(current, field.constraints ?? []);
+  const newDefault = columnSqlDefault(column, next.constraints ?? []);
+  const typeChanged = !sameType(current, column);
+  let defaultDropped = false;
+
+  if (typeChanged) {
+    const enumName = enums[field.name] ?? `${tableName}_${field.name}`;
+    const widenedEnum =
+      current.builder === "enum" &&
+      column.builder === "enum" &&
+      current.isArray === column.isArray &&
+      current.enumValues.every((v) => column.enumValues.includes(v));
+
+    if (widenedEnum) {
+      for (const value of column.enumValues)
+        if (!current.enumValues.includes(value))
+          statements.push(
+            `ALTER TYPE "public"."${enumName}" ADD VALUE '${value}';`
+          );
+    } else {
+      // The default may not cast to the new type, so it is set again below
+      if (oldDefault) {
+        statements.push(`${alter} DROP DEFAULT;`);
+        defaultDropped = true;
+      }
+      if (current.builder === "enum") {
+        // Values go through text so the type can be dropped and recreated
+        statements.push(`${alter} SET DATA TYPE text;`);
+        statements.push(`DROP TYPE "public"."${enumName}";`);
+        delete enums[field.name];
+      }
+      if (column.builder === "enum") {
+        enums[field.name] = enumName;
+        statements.push(createEnum(enumName, column));
+      }
+      const sqlType = columnSqlType(column, enums[field.name] ?? "");
+      statements.push(
+        `${alter} SET DATA TYPE ${sqlType} USING "${field.name}"::${sqlType};`
+      );
+    }
+  }
+
+  if (defaultDropped ? newDefault : newDefault !== oldDefault)
+    statements.push(
+      newDefault
+        ? `${alter} SET DEFAULT ${newDefault};`
+        : `${alter} DROP DEFAULT;`
+    );
+
+  if (isNullableField(field) && !isNullableField(next)) {
+    if (newDefault)
+      statements.push(
+        `UPDATE "${tableName}" SET "${field.name}" = ${newDefault} WHERE "${field.name}" IS NULL;`
+      );
+    statements.push(`${alter} SET NOT NULL;`);
+  } else if (!isNullableField(field) && isNullableField(next)) {
+    statements.push(`${alter} DROP NOT NULL;`);
+  }
+
+  const wasUnique = field.constraints?.includes("unique()");
+  const isUnique = next.constraints?.includes("unique()");
+  if (!wasUnique && isUnique) statements.push(uniqueSql(tableName, field.name));
+  if (wasUnique && !isUnique)
+    statements.push(
+      `ALTER TABLE "${tableName}" DROP CONSTRAINT "${tableName}_${field.name}_unique";`
+    );
+
+  const oldCheck = checkExpression(field);
+  const newCheck = checkExpression(next);
+  if (oldCheck !== newCheck) {
+    if (oldCheck)
+      statements.push(
+        `ALTER TABLE "${tableName}" DROP CONSTRAINT "${tableName}_${field.name}_check";`
+      );
+    if (newCheck) statements.push(checkSql(tableName, field.name, newCheck));
+  }
+
+  return statements;
+}
+
+function createEnum(typeName: string, column: ColumnType): string {
+  return `CREATE TYPE "public"."${typeName}" AS ENUM(${column.enumValues
+    .map((v) => `'${v.replace(/'/g, "''")}'`)
+    .join(", ")});`;
+}
+
+function uniqueSql(tableName: string, column: string): string {
+  return `ALTER TABLE "${tableName}" ADD CONSTRAINT "${tableName}_${column}_unique" UNIQUE("${column}");`;
+}
+
+function checkSql(tableName: string, column: string, expression: string) {
+  return `ALTER TABLE "${tableName}" ADD CONSTRAINT "${tableName}_${column}_check" CHECK (${expression});`;
+}
+
+function checkExpression(field: SchemaField): string | null {
+  const check = field.constraints?.find((c) => c.startsWith("check("));
+  return check ? constraintArgument(check) : null;
+}
+
+function requireType(field: SchemaField): ColumnType {
+  const column = parseColumnType(field.type);
+  if (!column)
+    throw new Error(`Unsupported type '${field.type}' for ${field.name}`);
+  return column;
+}
+
+function sameType(a: ColumnType, b: ColumnType): boolean {
+  return (
+    a.builder === b.builder &&
+    a.options === b.options &&
+    a.isArray === b.isArray &&
+    a.enumValues.join("|") === b.enumValues.join("|")
+  );
+}
+
+// Same type and constraints, ignoring spelling differences such as
+// default(active) and default("active")
+function sameColumn(a: SchemaField, b: SchemaField): boolean {
+  const typeA = parseColumnType(a.type);
+  const typeB = parseColumnType(b.type);
+  if (!typeA || !typeB) return a.type === b.type;
+  return (
+    sameType(typeA, typeB) &&
+    constraintKey(a, typeA) === constraintKey(b, typeB)
+  );
+}
+
+function constraintKey(field: SchemaField, column: ColumnType): string {
+  const constraints = field.constraints ?? [];
+  return [
+    ...constraints
+      .filter((c) => !/^default(Now|Random)?\(/.test(c))
+      .map((c) => c.replace(/\s+/g, "")),
+    `default:${columnSqlDefault(column, constraints)}`,
+  ]
+    .sort()
+    .join(";");
+}
+
+function sameReference(a: SchemaField, b: SchemaField): boolean {
+  return (
+    JSON.stringify(a.references ?? null) ===
+    JSON.stringify(b.references ?? null)
+  );
+}
@@ -0,0 +1,410 @@
+import * as path from "path";
+import ts from "typescript";
+import { OnDeleteAction, SchemaDefinition, SchemaField } from "../types";
+import { accessFilePath, parseAccessSource } from "./access-policy";
+import { ChangeSet } from "./change-set";
+
+export interface ParsedTable {
+  filePath: string;
+  // With exportName and propertyKeys set
+  definition: SchemaDefinition;
+  // pgEnum behind each enum column, by column name
+  enums: Record<string, ParsedEnum>;
+}
+
+export interface ParsedEnum {
+  exportName: string;
+  // Postgres type name, the first pgEnum argument
+  typeName: string;
+  values: string[];
+}
+
+// Table functions of the supported dialects
+const TABLE_FUNCTIONS = ["pgTable", "sqliteTable", "mysqlTable"];
+
+// Defaults the generator writes for defaultNow() outside PostgreSQL, with
+// the type of the text columns SQLite stores dates and times in
+const NOW_DEFAULTS: Record<string, string | null> = {
+  "(unixepoch())": null,
+  "(CURRENT_DATE)": "date",
+  "(CURRENT_TIME)": "time",
+};
+
+// Reads the `export const x = pgTable(...)` declarations of a Drizzle schema
+// file back into SchemaDefinitions, using the same type and constraint
+// strings the generator accepts, so existing tables are described exactly
+// like new ones. sqliteTable and mysqlTable columns map back onto the
+// types they are generated from. Foreign keys to tables declared in other
+// files are resolved by loadSchemaTables.
+export function parseSchemaSource(
+  text: string,
+  filePath: string
+): ParsedTable[] {
+  const source = ts.createSourceFile(
+    filePath,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS
+  );
+  const enums = new Map<string, ParsedEnum>();
+  const tables: ParsedTable[] = [];
+
+  for (const statement of source.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const decl of statement.declarationList.declarations) {
+      const call = decl.initializer;
+      if (!ts.isIdentifier(decl.name) || !call || !ts.isCallExpression(call))
+        continue;
+      const callee = call.expression.getText(source);
+      const [nameArg, columnsArg, configArg] = call.arguments;
+      if (callee === "pgEnum" && nameArg && ts.isStringLiteral(nameArg)) {
+        enums.set(decl.name.text, {
+          exportName: decl.name.text,
+          typeName: nameArg.text,
+          values: columnsArg ? stringElements(columnsArg) : [],
+        });
+      } else if (
+        TABLE_FUNCTIONS.includes(callee) &&
+        nameArg &&
+        ts.isStringLiteral(nameArg) &&
+        columnsArg &&
+        ts.isObjectLiteralExpression(columnsArg)
+      ) {
+        tables.push(
+          parseTable(
+            decl.name.text,
+            nameArg.text,
+            columnsArg,
+            configArg,
+            enums,
+            filePath,
+            source
+          )
+        );
+      }
+    }
+  }
+
+  resolveReferences(tables);
+  return tables;
+}
+
+// Every table declared under src/db/schema, with foreign keys resolved to
+// table and column names and its policy from src/db/access. This is the agent's model of the existing
+// database; prompts and templates work from it rather than file text.
+export function loadSchemaTables(changeSet: ChangeSet): ParsedTable[] {
+  const schemaDir = path.join(process.cwd(), "src", "db", "schema");
+  if (!changeSet.exists(schemaDir)) return [];
+
+  const tables = changeSet
+    .readDir(schemaDir)
+    .filter((f) => f.endsWith(".ts") && f !== "index.ts")
+    .flatMap((f) => {
+      const filePath = path.join(schemaDir, f);
+      return parseSchemaSource(changeSet.readFile(filePath), filePath);
+    });
+  resolveReferences(tables);
+  for (const table of tables) {
+    const accessPath = accessFilePath(table.definition);
+    const access = changeSet.exists(accessPath)
+      ? parseAccessSource(changeSet.readFile(accessPath), table.definition)
+      : null;
+    if (access) table.definition.access = access;
+  }
+  return tables;
+}
+
+// References are parsed as export name and property key (artists.id) and
+// become table and column names (artists, id) once the target is known
+function resolveReferences(tables: ParsedTable[]) {
+  for (const table of tables) {
+    for (const field of table.definition.fields) {
+      const target = field.references
+        ? tables.find(
+            (t) => t.definition.exportName === field.references!.table
+          )
+        : undefined;
+      if (!target) continue;
+      const keys = target.definition.propertyKeys!;
+      const column = Object.keys(keys).find(
+        (name) => keys[name] === field.references!.column
+      );
+      field.references = {
+        ...field.references!,
+        table: target.definition.tableName,
+        column: column ?? field.references!.column,
+      };
+    }
+  }
+}
+
+function parseTable(
+  exportName: string,
+  tableName: string,
+  columns: ts.ObjectLiteralExpression,
+  config: ts.Expression | undefined,
+  enums: Map<string, ParsedEnum>,
+  filePath: string,
+  source: ts.SourceFile
+): ParsedTable {
+  const fields: SchemaField[] = [];
+  const propertyKeys: Record<string, string> = {};
+  const columnEnums: Record<string, ParsedEnum> = {};
+
+  for (const property of columns.properties) {
+    if (!ts.isPropertyAssignment(property)) continue;
+    const key = property.name.getText(source).replace(/^["']|["']$/g, "");
+    const parsed = parseColumn(key, property.initializer, enums, source);
+    if (!parsed) continue;
+    const { field, builder } = parsed;
+    fields.push(field);
+    propertyKeys[field.name] = key;
+    const pgEnum = enums.get(builder);
+    if (pgEnum) columnEnums[field.name] = pgEnum;
+  }
+
+  // check("<table>_<column>_check", sql`...`) as written by the generator
+  if (config) {
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.getText(source) === "check"
+      ) {
+        const [name, expr] = node.arguments;
+        const field = fields.find(
+          (f) =>
+            ts.isStringLiteral(name) &&
+            name.text === `${tableName}_${f.name}_check`
+        );
+        if (field && expr && ts.isTaggedTemplateExpression(expr)) {
+          const sql = expr.template.getText(source).slice(1, -1);
+          field.constraints = [...(field.constraints ?? []), `check(${sql})`];
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(config);
+  }
+
+  return {
+    filePath,
+    definition: {
+      tableName,
+      fileName: path.basename(filePath),
+      fields,
+      exportName,
+      propertyKeys,
+    },
+    enums: columnEnums,
+  };
+}
+
+// `text("name").notNull().default("x")` -> { name, type, constraints }
+function parseColumn(
+  key: string,
+  initializer: ts.Expression,
+  enums: Map<string, ParsedEnum>,
+  source: ts.SourceFile
+): { field: SchemaField; builder: string } | null {
+  const chain: ts.CallExpression[] = [];
+  let node: ts.Expression = initializer;
+  while (ts.isCallExpression(node)) {
+    chain.unshift(node);
+    if (!ts.isPropertyAccessExpression(node.expression)) break;
+    node = node.expression.expression;
+  }
+  const builderCall = chain[0];
+  if (!builderCall || !ts.isIdentifier(builderCall.expression)) return null;
+
+  const builder = builderCall.expression.text;
+  const [first, second] = builderCall.arguments;
+  const name = first && ts.isStringLiteral(first) ? first.text : key;
+  const options =
+    [first, second].find(
+      (a): a is ts.ObjectLiteralExpression =>
+        !!a && ts.isObjectLiteralExpression(a)
+    ) ?? null;
+
+  let type = columnType(builder, builderCall.arguments, options, enums, source);
+  const constraints: string[] = [];
+  const field: SchemaField = { name, type, constraints };
+
+  for (const call of chain.slice(1)) {
+    const method = (call.expression as ts.PropertyAccessExpression).name.text;
+    const args = call.arguments.map((a) => a.getText(source));
+    switch (method) {
+      case "array":
+        type += "[]";
+        break;
+      case "autoincrement":
+        type = SERIAL_TYPES[type] ?? type;
+        break;
+      case "primaryKey":
+        // sqlite-core integer ids: primaryKey({ autoIncrement: true })
+        if (/autoIncrement:\s*true/.test(args[0] ?? ""))
+          type = SERIAL_TYPES[type] ?? type;
+        constraints.push("primaryKey()");
+        break;
+      case "$type": {
+        // JSON columns holding arrays: .$type<string[]>()
+        const element = call.typeArguments?.[0]
+          ?.getText(source)
+          .match(/^\(?([\s\S]+?)\)?\[\]$/)?.[1];
+        if (element && type === "json") type = `${arrayElementType(element)}[]`;
+        break;
+      }
+      case "$defaultFn":
+        // uuids outside PostgreSQL are text or varchar(36) columns
+        if (/randomUUID\(\)/.test(args[0] ?? "")) {
+          type = "uuid";
+          constraints.push("defaultRandom()");
+        }
+        break;
+      case "notNull":
+      case "unique":
+      case "defaultNow":
+      case "defaultRandom":
+        constraints.push(`${method}()`);
+        break;
+      case "default": {
+        const now = args[0]?.match(/^sql`([\s\S]*)`$/)?.[1];
+        if (now && now in NOW_DEFAULTS) {
+          if (type === "text") type = NOW_DEFAULTS[now] ?? type;
+          constraints.push("defaultNow()");
+        } else {
+          constraints.push(`default(${args[0] ?? ""})`);
+        }
+        break;
+      }
+      case "$onUpdate":
+      case "$onUpdateFn":
+        constraints.push(`$onUpdate(${args[0] ?? ""})`);
+        break;
+      case "references":
+        field.references = parseReference(call, source);
+        break;
+    }
+  }
+  field.type = type;
+  return { field, builder };
+}
+
+const SERIAL_TYPES: Record<string, string> = {
+  integer: "serial",
+  smallint: "smallserial",
+  bigint: "bigserial",
+};
+
+function columnType(
+  builder: string,
+  args: ts.NodeArray<ts.Expression>,
+  options: ts.ObjectLiteralExpression | null,
+  enums: Map<string, ParsedEnum>,
+  source: ts.SourceFile
+): string {
+  const pgEnum = enums.get(builder);
+  if (pgEnum) return `enum(${pgEnum.values.join("|")})`;
+  if (builder === "mysqlEnum" && args[1])
+    return `enum(${stringElements(args[1]).join("|")})`;
+
+  const optionNode = (name: string) =>
+    options?.properties.find(
+      (p): p is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(p) && p.name.getText(source) === name
+    )?.initializer;
+  const option = (name: string) => optionNode(name)?.getText(source);
+
+  switch (builder) {
+    case "int":
+      return "integer";
+    case "float":
+      return "real";
+    case "double":
+      return "doublePrecision";
+    case "integer": {
+      // sqlite-core stores timestamps and booleans as integers
+      const mode = option("mode");
+      if (mode === '"timestamp"' || mode === '"timestamp_ms"')
+        return "timestamp";
+      return mode === '"boolean"' ? "boolean" : "integer";
+    }
+    case "text": {
+      const values = optionNode("enum");
+      if (values) return `enum(${stringElements(values).join("|")})`;
+      if (option("mode") === '"json"') return "json";
+      const length = option("length");
+      return length ? `varchar(${length})` : "text";
+    }
+    case "varchar":
+    case "char": {
+      const length = option("length");
+      return length ? `${builder}(${length})` : builder;
+    }
+    case "numeric":
+    case "decimal": {
+      const precision = option("precision");
+      const scale = option("scale");
+      if (!precision) return "numeric";
+      return scale ? `numeric(${precision},${scale})` : `numeric(${precision})`;
+    }
+    case "timestamp":
+      return option("withTimezone") === "true"
+        ? "timestamp({ withTimezone: true })"
+        : "timestamp";
+    default:
+      return builder;
+  }
+}
+
+// `.references(() => artists.id, { onDelete: "cascade" })`, still keyed by
+// export name and property key
+function parseReference(
+  call: ts.CallExpression,
+  source: ts.SourceFile
+): SchemaField["references"] {
+  const [target, options] = call.arguments;
+  let body: ts.Node | undefined =
+    target && ts.isArrowFunction(target) ? target.body : undefined;
+  if (body && ts.isBlock(body)) {
+    const ret = body.statements.find(ts.isReturnStatement);
+    body = ret?.expression;
+  }
+  if (!body || !ts.isPropertyAccessExpression(body)) return undefined;
+
+  const onDelete =
+    options && ts.isObjectLiteralExpression(options)
+      ? options.properties
+          .filter(ts.isPropertyAssignment)
+          .find((p) => p.name.getText(source) === "onDelete")
+          ?.initializer.getText(source)
+          .replace(/^["']|["']$/g, "")
+      : undefined;
+
+  return {
+    table: body.expression.getText(source),
+    column: body.name.text,
+    ...(onDelete ? { onDelete: onDelete as OnDeleteAction } : {}),
+  };
+}
+
+// Element type of a JSON array column back to a column type
+function arrayElementType(tsType: string): string {
+  const literals = tsType.split("|").map((t) => t.trim());
+  if (literals.every((t) => /^(["'])[\s\S]*\1$/.test(t)))
+    return `enum(${literals.map((t) => t.slice(1, -1)).join("|")})`;
+  return (
+    {
+      string: "text",
+      number: "integer",
+      boolean: "boolean",
+      Date: "timestamp",
+    }[tsType] ?? "json"
+  );
+}
+
+function stringElements(node: ts.Expression): string[] {
+  return ts.isArrayLiteralExpression(node)
+    ? node.elements.filter(ts.isStringLiteral).map((e) => e.text)
+    : [];
+}
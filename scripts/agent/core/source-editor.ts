@@ -0,0 +1,171 @@
+import ts from "typescript";
+
+// Source-preserving edits through the TypeScript AST. Every edit splices
+// text at node positions and reparses, so formatting outside the edited
+// nodes is untouched and lookups always see the current code.
+export class SourceEditor {
+  private text: string;
+  protected source: ts.SourceFile;
+
+  constructor(text: string, protected readonly fileName = "source.ts") {
+    this.text = text;
+    this.source = this.parse();
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  // Adds the names to an existing `import { ... } from "module"` or inserts
+  // a new import after the last one. Returns false when nothing changed.
+  addNamedImports(moduleName: string, names: string[]): boolean {
+    const imports = this.source.statements.filter(ts.isImportDeclaration);
+    const existing = imports.find(
+      (i) =>
+        ts.isStringLiteral(i.moduleSpecifier) &&
+        i.moduleSpecifier.text === moduleName &&
+        !i.importClause?.isTypeOnly &&
+        i.importClause?.namedBindings &&
+        ts.isNamedImports(i.importClause.namedBindings)
+    );
+
+    if (existing) {
+      const bindings = existing.importClause!.namedBindings as ts.NamedImports;
+      const present = bindings.elements.map((e) => e.getText(this.source));
+      const missing = names.filter((n) => !present.includes(n));
+      if (missing.length === 0) return false;
+      this.replaceNode(bindings, `{ ${[...present, ...missing].join(", ")} }`);
+      return true;
+    }
+
+    const unique = names.filter((n, i) => names.indexOf(n) === i);
+    if (unique.length === 0) return false;
+    const reference = imports[0];
+    const quote = reference?.moduleSpecifier.getText(this.source)[0] ?? '"';
+    const semicolon =
+      reference && !this.endsWithSemicolon(reference) ? "" : ";";
+    const declaration = `import { ${unique.join(
+      ", "
+    )} } from ${quote}${moduleName}${quote}${semicolon}`;
+
+    const last = imports[imports.length - 1];
+    if (last) {
+      this.splice(last.getEnd(), last.getEnd(), `\n${declaration}`);
+    } else {
+      // Keep directives such as "use client" first
+      const directive = this.source.statements.find(
+        (s) => ts.isExpressionStatement(s) && ts.isStringLiteral(s.expression)
+      );
+      const at = directive ? directive.getEnd() : 0;
+      this.splice(
+        at,
+        at,
+        directive ? `\n\n${declaration}` : `${declaration}\n`
+      );
+    }
+    return true;
+  }
+
+  // Drops named imports from the module that nothing else in the file uses,
+  // and the whole declaration once it is empty
+  pruneNamedImports(moduleName: string) {
+    for (;;) {
+      const declaration = this.source.statements
+        .filter(ts.isImportDeclaration)
+        .find(
+          (i) =>
+            ts.isStringLiteral(i.moduleSpecifier) &&
+            i.moduleSpecifier.text === moduleName &&
+            i.importClause?.namedBindings &&
+            ts.isNamedImports(i.importClause.namedBindings)
+        );
+      const bindings = declaration?.importClause?.namedBindings as
+        | ts.NamedImports
+        | undefined;
+      const unused = bindings?.elements.find(
+        (e) => !this.isReferenced(e.name.text)
+      );
+      if (!declaration || !bindings || !unused) return;
+      if (bindings.elements.length === 1) this.removeNode(declaration);
+      else this.removeNode(unused);
+    }
+  }
+
+  // Whether an identifier is used anywhere, not counting imports and the
+  // name it is declared under
+  isReferenced(name: string): boolean {
+    let found = false;
+    const visit = (node: ts.Node) => {
+      if (found || ts.isImportDeclaration(node)) return;
+      if (
+        ts.isIdentifier(node) &&
+        node.text === name &&
+        !(ts.isVariableDeclaration(node.parent) && node.parent.name === node)
+      )
+        found = true;
+      else ts.forEachChild(node, visit);
+    };
+    visit(this.source);
+    return found;
+  }
+
+  // Replaces a node's text (leading comments and indentation are kept)
+  replaceNode(node: ts.Node, text: string) {
+    this.splice(node.getStart(this.source), node.getEnd(), text);
+  }
+
+  insertAfter(node: ts.Node, text: string) {
+    this.splice(node.getEnd(), node.getEnd(), text);
+  }
+
+  insertBefore(node: ts.Node, text: string) {
+    const start = node.getStart(this.source);
+    this.splice(start, start, text);
+  }
+
+  // Removes a node together with the rest of its line when nothing else is
+  // left on it, e.g. a property and its trailing comma
+  removeNode(node: ts.Node) {
+    let start = node.getStart(this.source);
+    let end = node.getEnd();
+    const rest = this.text.slice(end).match(/^,?[ \t]*(\r?\n)?/)![0];
+    end += rest.length;
+    const lineStart = this.text.lastIndexOf("\n", start - 1) + 1;
+    if (
+      rest.endsWith("\n") &&
+      /^[ \t]*$/.test(this.text.slice(lineStart, start))
+    )
+      start = lineStart;
+    this.splice(start, end, "");
+  }
+
+  // Leading whitespace of the line a node starts on
+  indentOf(node: ts.Node): string {
+    const start = node.getStart(this.source);
+    const lineStart = this.text.lastIndexOf("\n", start - 1) + 1;
+    return this.text.slice(lineStart, start).match(/^[ \t]*/)![0];
+  }
+
+  endsWithSemicolon(node: ts.Node): boolean {
+    return this.text
+      .slice(node.getStart(this.source), node.getEnd())
+      .endsWith(";");
+  }
+
+  // Inserted text follows the file's line endings
+  protected splice(start: number, end: number, text: string) {
+    if (this.text.includes("\r\n")) text = text.replace(/\r?\n/g, "\r\n");
+    this.text = this.text.slice(0, start) + text + this.text.slice(end);
+    this.source = this.parse();
+  }
+
+  private parse(): ts.SourceFile {
+    return ts.createSourceFile(
+      this.fileName,
+      this.text,
+      ts.ScriptTarget.Latest,
+      true,
+      this.fileName.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+    );
+  }
+}
@@ -0,0 +1,279 @@
+import * as fs from "fs";
+import * as path from "path";
+import YAML from "yaml";
+import {
+  OnDeleteAction,
+  SchemaChange,
+  SchemaDefinition,
+  SchemaField,
+  SchemaReference,
+  SchemaRelationship,
+} from "../types";
+import { parseAccessFlags, parseAccessPolicy } from "./access-policy";
+
+// Structured table specs let the agent run without an LLM. A spec file is
+// JSON or YAML holding either a list of tables or `{ tables: [...] }`:
+//
+//   tables:
+//     - tableName: recently_played
+//       fields:
+//         - song_title:text:notNull
+//         - { name: duration_seconds, type: integer, constraints: [notNull()] }
+//         - track_id:integer:notNull:references(tracks, cascade)
+//       relationships:
+//         - { type: one-to-many, table: users }
+//     - tableName: example
+//       alter:
+//         - add genre:text:default(pop)
+//         - rename name:title
+//     - tableName: made_for_you
+//       access: { read: public, write: curator, delete: admin }
+//
+// references(table[.column][, onDelete]) marks a foreign key field, and
+// relationships declare the foreign keys and join tables to generate.
+// A table that already exists is altered to match its fields, or by the
+// changes listed under `alter`; one listing only `access` keeps its
+// columns and gets the new policy (see core/access-policy.ts).
+export function loadTableSpec(specPath: string): SchemaDefinition[] {
+  const fullPath = path.resolve(specPath);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`Spec file not found: ${specPath}`);
+  }
+
+  const raw = fs.readFileSync(fullPath, "utf8");
+  const spec = /\.ya?ml$/i.test(fullPath) ? YAML.parse(raw) : JSON.parse(raw);
+  const tables = Array.isArray(spec) ? spec : spec?.tables;
+  if (!Array.isArray(tables) || tables.length === 0) {
+    throw new Error(`Spec file ${specPath} does not define any tables`);
+  }
+
+  return tables.map((table: any, i: number) => {
+    const tableName = table?.tableName ?? table?.name;
+    if (typeof tableName !== "string" || !tableName) {
+      throw new Error(`Table ${i + 1} in ${specPath} is missing a tableName`);
+    }
+    if (table.alter !== undefined && !Array.isArray(table.alter)) {
+      throw new Error(`Table '${tableName}' alter must be a list`);
+    }
+    if (!Array.isArray(table.fields) && !table.alter && !table.access) {
+      throw new Error(`Table '${tableName}' must list its fields`);
+    }
+    if (
+      table.relationships !== undefined &&
+      !Array.isArray(table.relationships)
+    ) {
+      throw new Error(`Table '${tableName}' relationships must be a list`);
+    }
+    return {
+      tableName,
+      fileName: table.fileName ?? `${tableName}.ts`,
+      fields: (table.fields ?? []).map((field: any) =>
+        typeof field === "string"
+          ? parseFieldFlag(field)
+          : normalizeField(tableName, field)
+      ),
+      ...(table.relationships?.length
+        ? {
+            relationships: table.relationships.map((r: any) =>
+              normalizeRelationship(tableName, r)
+            ),
+          }
+        : {}),
+      ...(table.alter || !Array.isArray(table.fields)
+        ? {
+            alter: (table.alter ?? []).map((c: any) =>
+              parseSchemaChange(tableName, c)
+            ),
+          }
+        : {}),
+      ...(table.access
+        ? { access: parseAccessPolicy(tableName, table.access) }
+        : {}),
+    };
+  });
+}
+
+// Builds a single table from `--table name --field name:type:constraint ...`,
+// with `--alter` changes for a table that already exists and `--access`
+// rules. Without fields or changes only the policy of the table changes.
+export function parseTableFlags(
+  tableName: string,
+  fields: string[],
+  changes: string[] = [],
+  access: string[] = []
+): SchemaDefinition {
+  return {
+    tableName,
+    fileName: `${tableName}.ts`,
+    fields: fields.map(parseFieldFlag),
+    ...(changes.length || (access.length && !fields.length)
+      ? { alter: changes.map((c) => parseSchemaChange(tableName, c)) }
+      : {}),
+    ...(access.length ? { access: parseAccessFlags(tableName, access) } : {}),
+  };
+}
+
+// "song_title:text:notNull:unique" -> { name, type, constraints }. Colons
+// inside brackets belong to the part, as in "timestamp({ withTimezone: true })".
+export function parseFieldFlag(flag: string): SchemaField {
+  const [name, type, ...constraints] = splitFlag(flag).map((p) => p.trim());
+  if (!name || !type) {
+    throw new Error(
+      `Invalid field '${flag}' - expected name:type[:constraint...]`
+    );
+  }
+  return withReference({
+    name,
+    type,
+    constraints: constraints.filter(Boolean).map(normalizeConstraint),
+  });
+}
+
+// One change to an existing table, either shaped like SchemaChange or as
+// "add genre:text", "drop description", "rename name:title" or
+// "retype duration:integer[:constraint...]"
+export function parseSchemaChange(
+  tableName: string,
+  change: any
+): SchemaChange {
+  if (typeof change === "string") {
+    const [action, ...rest] = change.trim().split(/\s+/);
+    const flag = rest.join(" ");
+    const [field, second, ...constraints] = splitFlag(flag).map((p) =>
+      p.trim()
+    );
+    switch (action) {
+      case "add":
+        return { action, field: parseFieldFlag(flag) };
+      case "drop":
+        if (field) return { action, field };
+        break;
+      case "rename":
+        if (field && second) return { action, field, to: second };
+        break;
+      case "retype":
+        if (field && second)
+          return {
+            action,
+            field,
+            type: second,
+            constraints: constraints.filter(Boolean).map(normalizeConstraint),
+          };
+        break;
+    }
+    throw new Error(
+      `Invalid change '${change}' for table '${tableName}' - expected add, drop, rename or retype`
+    );
+  }
+
+  switch (change?.action) {
+    case "add":
+      return {
+        action: "add",
+        field:
+          typeof change.field === "string"
+            ? parseFieldFlag(change.field)
+            : normalizeField(tableName, change.field),
+      };
+    case "drop":
+      if (typeof change.field === "string")
+        return { action: "drop", field: change.field };
+      break;
+    case "rename":
+      if (typeof change.field === "string" && typeof change.to === "string")
+        return { action: "rename", field: change.field, to: change.to };
+      break;
+    case "retype":
+      if (typeof change.field === "string" && typeof change.type === "string")
+        return {
+          action: "retype",
+          field: change.field,
+          type: change.type,
+          ...(Array.isArray(change.constraints)
+            ? { constraints: change.constraints.map(normalizeConstraint) }
+            : {}),
+        };
+      break;
+  }
+  throw new Error(
+    `Invalid change ${JSON.stringify(change)} for table '${tableName}'`
+  );
+}
+
+function splitFlag(flag: string): string[] {
+  const parts = [""];
+  let depth = 0;
+  for (const char of flag) {
+    if ("([{".includes(char)) depth++;
+    if (")]}".includes(char)) depth--;
+    if (char === ":" && depth === 0) parts.push("");
+    else parts[parts.length - 1] += char;
+  }
+  return parts;
+}
+
+function normalizeField(tableName: string, field: any): SchemaField {
+  if (!field?.name || !field?.type) {
+    throw new Error(`Table '${tableName}' has a field without name or type`);
+  }
+  const normalized = withReference({
+    name: field.name,
+    type: field.type,
+    constraints: (field.constraints ?? []).map(normalizeConstraint),
+  });
+  if (field.references) {
+    normalized.references =
+      typeof field.references === "string"
+        ? parseReference(field.references)
+        : {
+            table: field.references.table,
+            column: field.references.column ?? "id",
+            ...(field.references.onDelete
+              ? { onDelete: field.references.onDelete }
+              : {}),
+          };
+  }
+  return normalized;
+}
+
+function normalizeRelationship(
+  tableName: string,
+  relationship: any
+): SchemaRelationship {
+  if (!relationship?.type || !relationship?.table) {
+    throw new Error(
+      `Table '${tableName}' has a relationship without type or table`
+    );
+  }
+  return relationship;
+}
+
+// Moves a references(...) constraint onto field.references
+function withReference(field: SchemaField): SchemaField {
+  const constraint = field.constraints?.find((c) =>
+    c.startsWith("references(")
+  );
+  if (!constraint) return field;
+  return {
+    ...field,
+    constraints: field.constraints!.filter((c) => c !== constraint),
+    references: parseReference(constraint.slice("references(".length, -1)),
+  };
+}
+
+// "tracks", "tracks.id" or "tracks.id, cascade"
+function parseReference(value: string): SchemaReference {
+  const [target, onDelete] = value.split(",").map((p) => p.trim());
+  const [table, column = "id"] = target.split(".");
+  if (!table) throw new Error(`Invalid reference '${value}'`);
+  return {
+    table,
+    column,
+    ...(onDelete ? { onDelete: onDelete as OnDeleteAction } : {}),
+  };
+}
+
+// Accept both "notNull" and "notNull()"
+function normalizeConstraint(constraint: string): string {
+  return constraint.endsWith(")") ? constraint : `${constraint}()`;
+}
@@ -1,42 +1,130 @@
 import chalk from "chalk";
+import * as fs from "fs";
+import * as path from "path";
 import { BaseAgent } from "./core/base-agent";
-import { ProjectAnalyzer } from "./core/project-analyzer";
+import {
+  accessProblems,
+  describeAccess,
+  sameAccess,
+} from "./core/access-policy";
+import { isAuthTable, withOwner } from "./core/auth-files";
+import { isHistoryTable, withPlayHistory } from "./core/play-history";
+import { ProjectAnalyzer, ProjectContext } from "./core/project-analyzer";
 import { DatabaseWorkflow } from "./core/database-workflow";
+import { ChangeSet } from "./core/change-set";
+import { DIALECTS, Dialect, resolveDialect } from "./core/dialects";
+import {
+  HOOK_STRATEGIES,
+  HookStrategy,
+  resolveHookStrategy,
+} from "./core/hook-strategies";
+import { RunJournal } from "./core/run-journal";
+import { resolveRelationships, sortByDependencies } from "./core/relationships";
+import { ParsedTable, loadSchemaTables } from "./core/schema-parser";
+import {
+  MigrationReport,
+  MigrationRisk,
+  RISK_ORDER,
+  analyzeMigration,
+  existingColumns,
+  formatMigrationReport,
+} from "./core/migration-safety";
+import {
+  TableAlteration,
+  alterTableSql,
+  applyChanges,
+  describeChange,
+  diffSchemas,
+} from "./core/schema-evolution";
 import { SchemaValidator } from "./modules/schema-validator";
 import { SchemaGenerator } from "./modules/schema-generator";
 import { ApiGenerator } from "./modules/api-generator";
+import { ValidationGenerator } from "./modules/validation-generator";
+import { OpenApiGenerator } from "./modules/openapi-generator";
+import { ApiClientGenerator } from "./modules/api-client-generator";
+import { AuthGenerator } from "./modules/auth-generator";
 import { SeedGenerator } from "./modules/seed-generator";
 import { FrontendIntegrator } from "./modules/frontend-integrator";
 import { UIIntegrator } from "./modules/ui-integrator";
-import { SchemaDefinition } from "./types";
+import { TypeChecker } from "./modules/type-checker";
+import { DatabaseAgentOptions, SchemaChange, SchemaDefinition } from "./types";
+
+interface PlannedAlteration extends TableAlteration {
+  // The table's definition once the changes are applied
+  altered: SchemaDefinition;
+}
 
 export class DatabaseAgent extends BaseAgent {
   private projectAnalyzer = new ProjectAnalyzer();
-  private databaseWorkflow = new DatabaseWorkflow();
+  private databaseWorkflow = new DatabaseWorkflow(this.model);
   private schemaValidator = new SchemaValidator();
   private schemaGenerator = new SchemaGenerator();
   private apiGenerator = new ApiGenerator();
+  private validationGenerator = new ValidationGenerator();
+  private openApiGenerator = new OpenApiGenerator();
+  private apiClientGenerator = new ApiClientGenerator();
+  private authGenerator = new AuthGenerator();
   private seedGenerator = new SeedGenerator();
   private frontendIntegrator = new FrontendIntegrator();
   private uiIntegrator = new UIIntegrator();
+  private typeChecker = new TypeChecker();
+  private runJournal = new RunJournal();
+  private dryRun: boolean;
+  private skipCommands: boolean;
+  private renames: string[];
+  private confirmRename?: DatabaseAgentOptions["confirmRename"];
+  private allowDestructive: boolean;
+  private confirmMigration?: DatabaseAgentOptions["confirmMigration"];
+  // The worst migration risk approved so far in this run
+  private approvedRisk: MigrationRisk = "additive";
+  // --dialect; otherwise the run keeps the dialect of drizzle.config.ts
+  private requestedDialect?: Dialect;
+  private dialect: Dialect = DIALECTS.postgresql;
+  // --hooks; otherwise the run keeps the project's strategy
+  private requestedHooks?: HookStrategy;
+  // --auth, or a project that already has it: tables with user_id are
+  // scoped to the signed-in user
+  private requestedAuth: boolean;
+  private auth = false;
+  // Read at the start of each run; the single source for existing tables
+  private projectContext: ProjectContext = {
+    dialect: DIALECTS.postgresql,
+    hooks: HOOK_STRATEGIES.plain,
+    auth: false,
+    tables: [],
+    apiRoutes: [],
+    components: [],
+  };
+
+  constructor(options: DatabaseAgentOptions = {}) {
+    super(options.provider);
+    this.dryRun = options.dryRun ?? false;
+    this.skipCommands = options.skipCommands ?? false;
+    this.renames = options.renames ?? [];
+    this.confirmRename = options.confirmRename;
+    this.allowDestructive = options.allowDestructive ?? false;
+    this.confirmMigration = options.confirmMigration;
+    if (options.dialect)
+      this.requestedDialect = resolveDialect(options.dialect);
+    if (options.hooks) this.requestedHooks = resolveHookStrategy(options.hooks);
+    this.requestedAuth = options.auth ?? false;
+    if (options.repairAttempts !== undefined)
+      this.typeChecker.setMaxRepairAttempts(options.repairAttempts);
+  }
 
   async processQuery(query: string) {
     this.log({ type: "thinking", message: "Processing your request..." });
-
-    // Initialize all modules with the Gemini model
-    this.initializeModulesWithModel();
-
-    this.startSpinner("Analyzing project structure...");
-    await this.projectAnalyzer.getProjectContext();
-    this.stopSpinner(true, "Project analysis complete");
+    const changeSet = await this.beginRun();
 
     this.log({
       type: "analyzing",
-      message: "Understanding your requirements using Gemini AI...",
+      message: `Understanding your requirements with ${this.generator}...`,
     });
     const schemaDefinitions = await this.schemaGenerator.parseQueryForSchemas(
       query,
-      this.model
+      this.model,
+      this.projectContext.tables.map((t) => t.definition),
+      this.auth
     );
 
     if (schemaDefinitions.length === 0) {
@@ -53,109 +141,869 @@ export class DatabaseAgent extends BaseAgent {
       return;
     }
 
-    console.log(chalk.green("\n📋 Implementation Plan:"));
-    console.log(
-      chalk.blue(
-        `Creating ${schemaDefinitions.length} database table(s) with migrations and API integration`
+    await this.implementSchemaDefinitions(schemaDefinitions, query, changeSet);
+  }
+
+  // Builds tables from a structured spec instead of a natural language query.
+  // Without a model every file comes from the deterministic templates.
+  async processTableSpec(tables: SchemaDefinition[]) {
+    this.log({ type: "thinking", message: "Processing table spec..." });
+    const changeSet = await this.beginRun();
+
+    const schemaDefinitions = tables.map((table) =>
+      table.alter ? table : this.schemaGenerator.withRequiredFields(table)
+    );
+    // Table names double as the query for UI section matching and the journal
+    const description = schemaDefinitions
+      .map((def) => def.tableName.replace(/_/g, " "))
+      .join(", ");
+
+    await this.implementSchemaDefinitions(
+      schemaDefinitions,
+      description,
+      changeSet
+    );
+  }
+
+  private async beginRun(): Promise<ChangeSet> {
+    // Initialize all modules with the configured model
+    this.initializeModulesWithModel();
+
+    // Every file write for this run goes through one change set
+    const changeSet = new ChangeSet(this.dryRun, this.skipCommands);
+    this.initializeModulesWithChangeSet(changeSet);
+    if (this.dryRun) {
+      this.log({
+        type: "thinking",
+        message:
+          "Dry run: no files, migrations or seed scripts will be touched",
+      });
+    }
+
+    this.startSpinner("Analyzing project structure...");
+    this.projectContext = await this.projectAnalyzer.getProjectContext();
+    this.stopSpinner(
+      true,
+      `Project analysis complete (${this.projectContext.tables.length} existing table(s), ${this.projectContext.dialect.label})`
+    );
+    this.approvedRisk = "additive";
+    this.initializeModulesWithDialect(
+      this.requestedDialect ?? this.projectContext.dialect
+    );
+    this.initializeModulesWithHooks(
+      this.requestedHooks ?? this.projectContext.hooks
+    );
+    this.auth = this.requestedAuth || this.projectContext.auth;
+
+    return changeSet;
+  }
+
+  private async implementSchemaDefinitions(
+    requestedDefinitions: SchemaDefinition[],
+    query: string,
+    changeSet: ChangeSet
+  ) {
+    // Tables that already exist are altered in place instead of recreated
+    const existingTables = this.projectContext.tables;
+    const planned = await this.planAlterations(
+      resolveRelationships(requestedDefinitions),
+      existingTables
+    );
+    if (!planned) return;
+
+    // Relationships add foreign keys and join tables; parents come first so
+    // their seeds run before the rows that point at them
+    const scope = (def: SchemaDefinition) => (this.auth ? withOwner(def) : def);
+    const schemaDefinitions = sortByDependencies(
+      planned.creates.map((def) =>
+        scope(this.schemaGenerator.withRequiredFields(withPlayHistory(def)))
       )
     );
+    const alterations = planned.alterations.map((a) => ({
+      ...a,
+      altered: scope(a.altered),
+    }));
+    const policies = planned.policies.map(scope);
+    const changedTables = [
+      ...schemaDefinitions,
+      ...alterations.map((a) => a.altered),
+      ...policies,
+    ];
+
+    // Roles come with the users table of --auth
+    if (!this.auth && changedTables.some((def) => def.access)) {
+      console.log(
+        chalk.red(
+          "❌ Access policies check the signed-in user's role; run with --auth"
+        )
+      );
+      return;
+    }
+    const accessErrors = changedTables.flatMap(accessProblems);
+    if (accessErrors.length) {
+      console.log(chalk.red("❌ Invalid access policy:"));
+      accessErrors.forEach((e) => console.log(chalk.red(`   - ${e}`)));
+      return;
+    }
+
+    // The first --auth run adds the users and sessions tables
+    const authTables =
+      this.auth && !this.projectContext.auth
+        ? this.authGenerator.authTables(this.schemaGenerator)
+        : [];
+    const taken = authTables.length
+      ? [
+          ...existingTables.map((t) => t.definition.tableName),
+          ...schemaDefinitions.map((d) => d.tableName),
+        ].filter(isAuthTable)
+      : [];
+    if (taken.length) {
+      console.log(
+        chalk.red(
+          `❌ --auth adds its own ${taken.join(
+            " and "
+          )} table(s); rename the existing one(s) first`
+        )
+      );
+      return;
+    }
+
+    if (
+      schemaDefinitions.length === 0 &&
+      alterations.length === 0 &&
+      policies.length === 0 &&
+      authTables.length === 0
+    ) {
+      console.log(
+        chalk.yellow("⚠️  The requested tables are already up to date.")
+      );
+      return;
+    }
+    const allDefinitions = [
+      ...existingTables.map(
+        (t) =>
+          alterations.find((a) => a.table === t)?.altered ??
+          policies.find((p) => p.tableName === t.definition.tableName) ??
+          scope(t.definition)
+      ),
+      ...authTables,
+      ...schemaDefinitions,
+    ];
+
+    const switching = this.dialect !== this.projectContext.dialect;
+    if (switching && alterations.length) {
+      console.log(
+        chalk.red(
+          `❌ Switch to ${this.dialect.label} in a run that only creates tables, then alter them`
+        )
+      );
+      return;
+    }
+
+    console.log(chalk.green("\n📋 Implementation Plan:"));
+    if (switching)
+      console.log(
+        chalk.blue(
+          `Switching from ${this.projectContext.dialect.label} to ${this.dialect.label}: drizzle.config.ts, src/db/connection.ts and ${existingTables.length} existing schema file(s) are rewritten, and the new database starts empty`
+        )
+      );
+    if (alterations.length)
+      console.log(
+        chalk.blue(
+          `Altering ${alterations.length} existing table(s) in place, keeping their data`
+        )
+      );
+    for (const { table, changes } of alterations) {
+      for (const change of changes)
+        console.log(
+          chalk.gray(
+            `   ✏️  ${table.definition.tableName}: ${describeChange(change)}`
+          )
+        );
+    }
+    if (schemaDefinitions.length)
+      console.log(
+        chalk.blue(
+          `Creating ${schemaDefinitions.length} database table(s) with migrations and API integration`
+        )
+      );
+    if (authTables.length)
+      console.log(
+        chalk.blue(
+          "Adding users and sessions tables, credentials routes under /api/auth and a login page"
+        )
+      );
+    if (policies.length)
+      console.log(
+        chalk.blue(
+          `Updating the access policy of ${policies.length} table(s) and regenerating their routes`
+        )
+      );
+    for (const def of changedTables) {
+      const before = existingTables.find(
+        (t) => t.definition.tableName === def.tableName
+      )?.definition.access;
+      if (def.access && !sameAccess(def.access, before))
+        console.log(
+          chalk.gray(`   🛡️  ${def.tableName}: ${describeAccess(def.access)}`)
+        );
+    }
+    for (const def of [
+      ...alterations.map((a) => a.altered),
+      ...schemaDefinitions,
+    ]) {
+      if (def.owner)
+        console.log(
+          chalk.gray(
+            `   🔐 ${def.tableName}: rows scoped to the signed-in user by ${def.owner}`
+          )
+        );
+    }
+    for (const def of schemaDefinitions.filter(isHistoryTable)) {
+      console.log(
+        chalk.gray(
+          `   🎧 ${def.tableName}: the player records plays of 30s or half a track`
+        )
+      );
+    }
+    for (const def of schemaDefinitions) {
+      for (const f of def.fields.filter((f) => f.references)) {
+        const { table, column, onDelete } = f.references!;
+        console.log(
+          chalk.gray(
+            `   🔗 ${def.tableName}.${f.name} -> ${table}.${column}${
+              onDelete ? ` (on delete ${onDelete})` : ""
+            }`
+          )
+        );
+      }
+    }
+
+    // New tables start empty; the SQL altering existing ones is known now,
+    // so it is classified and approved before anything is written
+    const migrationReport = analyzeMigration(
+      alterations.flatMap((a) => alterTableSql(a.table, a.changes)),
+      existingColumns(existingTables)
+    );
+    if (alterations.length) {
+      formatMigrationReport(migrationReport).forEach((line, i) =>
+        console.log(
+          i === 0 && migrationReport.risk === "additive"
+            ? chalk.blue(line)
+            : chalk.yellow(line)
+        )
+      );
+    } else {
+      console.log(chalk.blue("Migration safety: additive (new tables only)"));
+    }
     console.log();
+    if (!(await this.approveMigration(migrationReport))) return;
 
     // Validate schemas
     const schemasValid = await this.databaseWorkflow.validateSchemas(
       schemaDefinitions,
-      this.schemaValidator
+      this.schemaValidator,
+      alterations,
+      allDefinitions
     );
     if (!schemasValid) return;
 
-    // Implement schemas using Gemini-generated code
-    for (const schemaDef of schemaDefinitions) {
-      await this.databaseWorkflow.implementSchema(
-        schemaDef,
-        this.schemaGenerator
+    // Stage every write; only commit once all steps have succeeded
+    let completed = false;
+    try {
+      completed = await this.implementChanges(
+        schemaDefinitions,
+        authTables,
+        alterations,
+        policies,
+        existingTables,
+        allDefinitions,
+        query,
+        changeSet
       );
+    } finally {
+      if (!completed) this.rollbackChanges(changeSet, query);
     }
-    await this.databaseWorkflow.updateSchemaIndex(
-      schemaDefinitions,
-      this.schemaGenerator
+    if (!completed) return;
+
+    if (this.dryRun) {
+      changeSet.printSummary();
+      console.log(
+        chalk.cyan("\n🔎 Dry run complete. Re-run without --dry-run to apply.")
+      );
+      return;
+    }
+
+    changeSet.commit();
+    const run = this.runJournal.record(
+      query,
+      changeSet.getChanges(),
+      changeSet.getWatchedChanges(),
+      changeSet.getExecutedCommands()
     );
 
-    // Validate generated schemas
-    const generatedSchemasValid =
-      await this.databaseWorkflow.validateGeneratedSchemas(
-        schemaDefinitions,
-        this.schemaValidator
+    console.log(chalk.green("\n✅ Database implementation complete!"));
+    console.log(
+      chalk.cyan(
+        "🚀 Your new database tables are ready with API endpoints and sample data."
+      )
+    );
+    console.log(
+      chalk.cyan(
+        this.model
+          ? `🤖 Code was generated with ${this.generator}.`
+          : "📋 All code was generated from deterministic templates (no LLM used)."
+      )
+    );
+    console.log(
+      chalk.gray(
+        `   Run ${run.id} recorded - use "undo ${run.id}" to revert it`
+      )
+    );
+
+    const skipped = changeSet.getSkippedCommands();
+    if (skipped.length) {
+      console.log(chalk.yellow("\n⏭️  Skipped commands - run them yourself:"));
+      skipped.forEach((c) => console.log(chalk.gray(`   $ ${c}`)));
+    }
+  }
+
+  // Splits the requested tables into new ones and alterations of existing
+  // ones. Returns null when the run must stop, e.g. for an unconfirmed rename.
+  private async planAlterations(
+    requestedDefinitions: SchemaDefinition[],
+    existingTables: ParsedTable[]
+  ): Promise<{
+    creates: SchemaDefinition[];
+    alterations: PlannedAlteration[];
+    // Existing tables whose only change is a new access policy
+    policies: SchemaDefinition[];
+  } | null> {
+    const creates: SchemaDefinition[] = [];
+    const alterations: PlannedAlteration[] = [];
+    const policies: SchemaDefinition[] = [];
+
+    for (const def of requestedDefinitions) {
+      const table = existingTables.find(
+        (t) => t.definition.tableName === def.tableName
       );
-    if (!generatedSchemasValid) return;
+      if (!table) {
+        if (def.alter) {
+          console.log(
+            chalk.red(
+              `❌ Cannot alter ${def.tableName}: no such table in src/db/schema`
+            )
+          );
+          return null;
+        }
+        creates.push(def);
+        continue;
+      }
+
+      const requested =
+        def.alter ??
+        diffSchemas(
+          table.definition,
+          this.schemaGenerator.withRequiredFields(def)
+        );
+      const changes = await this.confirmRenames(table, requested);
+      if (!changes) return null;
+      const access =
+        def.access && !sameAccess(def.access, table.definition.access)
+          ? { access: def.access }
+          : {};
+      if (changes.length === 0) {
+        if (access.access) policies.push({ ...table.definition, ...access });
+        continue;
+      }
+      alterations.push({
+        table,
+        changes,
+        altered: { ...applyChanges(table.definition, changes), ...access },
+      });
+    }
+
+    return { creates, alterations, policies };
+  }
+
+  // Renames keep a column's data, so they only happen when approved with
+  // --rename or confirmed interactively; a declined rename becomes a drop
+  // and an add
+  private async confirmRenames(
+    table: ParsedTable,
+    changes: SchemaChange[]
+  ): Promise<SchemaChange[] | null> {
+    const tableName = table.definition.tableName;
+    const confirmed: SchemaChange[] = [];
+
+    for (const change of changes) {
+      if (change.action !== "rename") {
+        confirmed.push(change);
+        continue;
+      }
+      const approval = `${tableName}.${change.field}:${change.to}`;
+      if (this.renames.includes(approval)) {
+        confirmed.push(change);
+      } else if (this.confirmRename) {
+        if (await this.confirmRename(tableName, change.field, change.to)) {
+          confirmed.push(change);
+        } else {
+          const field = table.definition.fields.find(
+            (f) => f.name === change.field
+          );
+          confirmed.push({ action: "drop", field: change.field });
+          if (field)
+            confirmed.push({
+              action: "add",
+              field: { ...field, name: change.to },
+            });
+        }
+      } else {
+        console.log(
+          chalk.red(
+            `❌ Renaming ${tableName}.${change.field} to ${change.to} needs confirmation`
+          )
+        );
+        console.log(
+          chalk.gray(
+            `   Re-run with --rename ${approval} to rename it and keep its data`
+          )
+        );
+        return null;
+      }
+    }
+
+    return confirmed;
+  }
+
+  // Locking and destructive migrations need --allow-destructive or an
+  // interactive confirmation; a dry run only reports them
+  private async approveMigration(report: MigrationReport): Promise<boolean> {
+    if (report.risk === "additive") return true;
+    // A migration no worse than one already approved in this run
+    if (
+      RISK_ORDER.indexOf(report.risk) <= RISK_ORDER.indexOf(this.approvedRisk)
+    )
+      return true;
+    if (this.dryRun) {
+      console.log(
+        chalk.gray(
+          `   Dry run: applying this ${report.risk} migration needs confirmation or --allow-destructive`
+        )
+      );
+      return true;
+    }
+    if (this.allowDestructive) {
+      console.log(
+        chalk.yellow(
+          `⚠️  Running a ${report.risk} migration (--allow-destructive)`
+        )
+      );
+      this.approvedRisk = report.risk;
+      return true;
+    }
+    if (this.confirmMigration && (await this.confirmMigration(report.risk))) {
+      this.approvedRisk = report.risk;
+      return true;
+    }
+
+    console.log(
+      chalk.red(
+        `❌ Stopped before a ${report.risk} migration; nothing was applied`
+      )
+    );
+    console.log(
+      chalk.gray("   Re-run with --allow-destructive to apply it anyway")
+    );
+    return false;
+  }
 
-    // Run migrations
-    await this.databaseWorkflow.runMigrations();
+  async undoRun(runId?: string, force: boolean = false): Promise<boolean> {
+    const run = this.runJournal.load(runId);
+    if (!run) {
+      console.log(
+        chalk.yellow(
+          runId
+            ? `⚠️  No agent run found with id ${runId}`
+            : "⚠️  No agent runs to undo"
+        )
+      );
+      return false;
+    }
+    if (run.undoneAt) {
+      console.log(
+        chalk.yellow(`⚠️  Run ${run.id} was already undone at ${run.undoneAt}`)
+      );
+      return false;
+    }
 
-    // Generate API routes using Gemini
     this.log({
-      type: "creating",
-      message: "Generating API routes with Gemini AI...",
+      type: "editing",
+      message: `Reverting run ${run.id}: "${run.query}"`,
     });
-    for (const schemaDef of schemaDefinitions) {
-      await this.apiGenerator.generateApiRoute(schemaDef);
+
+    const changeSet = new ChangeSet(this.dryRun, this.skipCommands);
+    this.initializeModulesWithChangeSet(changeSet);
+    this.approvedRisk = "additive";
+
+    let restored = 0;
+    for (const file of run.files) {
+      const filePath = path.resolve(file.path);
+      const current = fs.existsSync(filePath)
+        ? fs.readFileSync(filePath, "utf8")
+        : null;
+      if (current !== file.after && !force) {
+        console.log(
+          chalk.yellow(
+            `   ⚠️  Skipped ${file.path}: modified since the run (use --force to restore anyway)`
+          )
+        );
+        continue;
+      }
+      if (file.before === null) {
+        changeSet.deleteFile(filePath);
+        console.log(chalk.gray(`   🗑️  Removed: ${file.path}`));
+      } else {
+        changeSet.writeFile(filePath, file.before);
+        console.log(chalk.gray(`   ↩️  Restored: ${file.path}`));
+      }
+      restored++;
     }
 
-    // Generate seed data using Gemini
+    // Other runs may have added exports since, so rebuild the indexes
+    // from what is actually on disk instead of trusting the old content
+    await this.databaseWorkflow.rebuildSchemaIndex(this.schemaGenerator);
+    this.validationGenerator.updateValidationIndex();
+    const context = await this.projectAnalyzer.getProjectContext();
+    const remainingTables = loadSchemaTables(changeSet).map((t) =>
+      context.auth ? withOwner(t.definition) : t.definition
+    );
+    await this.openApiGenerator.updateOpenApiSpec(remainingTables);
+    await this.apiClientGenerator.updateApiClient(remainingTables);
+    this.authGenerator.updateMiddleware(remainingTables);
+    this.initializeModulesWithHooks(context.hooks);
+    await this.frontendIntegrator.updateQueryCache(remainingTables);
+    const hooksIndexPath = path.join(process.cwd(), "src", "hooks", "index.ts");
+    if (changeSet.exists(hooksIndexPath)) {
+      await this.frontendIntegrator.updateHooksIndex();
+    }
+
+    let completed = false;
+    try {
+      completed =
+        !run.commands.includes("npx drizzle-kit migrate") ||
+        (await this.databaseWorkflow.runMigrations(`undo_${run.id}`));
+    } finally {
+      if (!completed) this.rollbackChanges(changeSet);
+    }
+    if (!completed) return false;
+
+    if (this.dryRun) {
+      changeSet.printSummary();
+      return true;
+    }
+
+    changeSet.commit();
+    this.runJournal.save({ ...run, undoneAt: new Date().toISOString() });
+    console.log(
+      chalk.green(`\n✅ Reverted run ${run.id} (${restored} file(s) restored)`)
+    );
+    return true;
+  }
+
+  private async implementChanges(
+    schemaDefinitions: SchemaDefinition[],
+    authTables: SchemaDefinition[],
+    alterations: PlannedAlteration[],
+    policies: SchemaDefinition[],
+    existingTables: ParsedTable[],
+    allDefinitions: SchemaDefinition[],
+    query: string,
+    changeSet: ChangeSet
+  ): Promise<boolean> {
+    if (this.dialect !== this.projectContext.dialect) {
+      const switched = await this.databaseWorkflow.switchDialect(
+        this.dialect,
+        existingTables,
+        this.schemaGenerator
+      );
+      if (!switched) return false;
+      const schemasCompile = await this.databaseWorkflow.typecheckFiles(
+        existingTables.map((t) => t.filePath),
+        this.typeChecker
+      );
+      if (!schemasCompile) return false;
+    }
+
+    // Existing tables first: patch their files, then migrate them with SQL
+    // that keeps the rows they hold
+    if (alterations.length) {
+      const patched: string[] = [];
+      for (const alteration of alterations) {
+        patched.push(
+          ...(await this.databaseWorkflow.alterSchema(
+            alteration,
+            this.schemaGenerator,
+            existingTables
+          ))
+        );
+      }
+      const patchedCompile = await this.databaseWorkflow.typecheckFiles(
+        patched,
+        this.typeChecker
+      );
+      if (!patchedCompile) return false;
+
+      // The hand-written SQL is PostgreSQL; other dialects let drizzle-kit
+      // diff the patched schema files
+      const migrationName = `alter_${alterations
+        .map((a) => a.table.definition.tableName)
+        .join("_")}`;
+      const altered =
+        this.dialect.name === "postgresql"
+          ? await this.databaseWorkflow.runAlterMigration(
+              migrationName,
+              alterations.flatMap((a) => alterTableSql(a.table, a.changes))
+            )
+          : await this.databaseWorkflow.runMigrations(
+              migrationName,
+              existingColumns(existingTables)
+            );
+      if (!altered) return false;
+    }
+
+    const createdTables = [...authTables, ...schemaDefinitions];
+    if (createdTables.length) {
+      this.authGenerator.writeSchemas(authTables, this.schemaGenerator);
+      // Implement schemas with model-generated code
+      for (const schemaDef of schemaDefinitions) {
+        await this.databaseWorkflow.implementSchema(
+          schemaDef,
+          this.schemaGenerator,
+          allDefinitions
+        );
+      }
+      await this.databaseWorkflow.updateSchemaIndex(
+        createdTables,
+        this.schemaGenerator
+      );
+
+      // Validate generated schemas
+      const generatedSchemasValid =
+        await this.databaseWorkflow.validateGeneratedSchemas(
+          createdTables,
+          this.schemaValidator
+        );
+      if (!generatedSchemasValid) return false;
+
+      // drizzle-kit reads the schema files, so they must compile first
+      const schemasCompile = await this.databaseWorkflow.typecheckFiles(
+        [...createdTables.map((d) => d.fileName), "index.ts"].map((f) =>
+          path.join(process.cwd(), "src", "db", "schema", f)
+        ),
+        this.typeChecker
+      );
+      if (!schemasCompile) return false;
+
+      // Run migrations
+      const migrated = await this.databaseWorkflow.runMigrations(
+        undefined,
+        existingColumns(existingTables)
+      );
+      if (!migrated) return false;
+    }
+
+    // Routes and hooks of altered tables are regenerated for their new columns
+    const generatedDefinitions = [
+      ...alterations.map((a) => a.altered),
+      ...schemaDefinitions,
+    ];
+
+    // Policies are stored before the routes importing them are written
+    this.authGenerator.writePolicies([...generatedDefinitions, ...policies]);
+
+    // Request body schemas, shared by the routes and the hooks
+    for (const schemaDef of generatedDefinitions) {
+      await this.validationGenerator.generateValidationSchema(schemaDef);
+    }
+
+    // Generate API routes with the model
     this.log({
       type: "creating",
-      message: "Generating realistic seed data with Gemini AI...",
+      message: `Generating API routes with ${this.generator}...`,
     });
-    for (const schemaDef of schemaDefinitions) {
-      await this.seedGenerator.generateSeedData(schemaDef);
+    for (const schemaDef of [...generatedDefinitions, ...policies]) {
+      await this.apiGenerator.generateApiRoute(schemaDef, allDefinitions);
     }
+    // Both cover every table with routes, not just this run's; the hooks
+    // are generated on top of the client
+    await this.openApiGenerator.updateOpenApiSpec(allDefinitions);
+    await this.apiClientGenerator.updateApiClient(allDefinitions);
+    // getCurrentUser() and the credentials routes the scoped routes rely on
+    if (this.auth) await this.authGenerator.updateAuth(allDefinitions);
 
-    // Generate frontend integration using Gemini
-    await this.generateFrontendIntegration(schemaDefinitions, query);
+    // Generate seed data with the model; altered tables keep their rows
+    if (schemaDefinitions.length) {
+      this.log({
+        type: "creating",
+        message: `Generating realistic seed data with ${this.generator}...`,
+      });
+      for (const schemaDef of schemaDefinitions) {
+        await this.seedGenerator.generateSeedData(schemaDef, allDefinitions);
+      }
+    }
 
-    console.log(chalk.green("\n✅ Database implementation complete!"));
-    console.log(
-      chalk.cyan(
-        "🚀 Your new database tables are ready with API endpoints and sample data."
-      )
+    // Generate frontend integration with the model; new policies alone leave
+    // the hooks and components as they are
+    if (generatedDefinitions.length)
+      await this.generateFrontendIntegration(generatedDefinitions, query);
+    const cacheReady = await this.frontendIntegrator.updateQueryCache(
+      allDefinitions,
+      this.projectContext.hooks,
+      generatedDefinitions
+    );
+    if (!cacheReady) return false;
+
+    // Typecheck everything this run wrote, repairing or reverting what fails;
+    // new files that still fail can't be reverted, so the run is
+    const generatedCompiles = await this.databaseWorkflow.typecheckFiles(
+      changeSet
+        .getChanges()
+        .filter((c) => c.after !== null)
+        .map((c) => c.path),
+      this.typeChecker
+    );
+    if (!generatedCompiles) {
+      console.log(
+        chalk.red(
+          "\n❌ New files still have type errors - rolling back the run"
+        )
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  // Files a migration already applied to the database are kept; a failed
+  // run's `query` then records them as a partial run that undo can revert
+  private rollbackChanges(changeSet: ChangeSet, query?: string) {
+    if (changeSet.isDryRun) return;
+    const kept = changeSet.getSettledChanges();
+    const commands = changeSet.getExecutedCommands();
+    this.startSpinner("Rolling back file changes...");
+    try {
+      changeSet.rollback();
+    } catch (e: any) {
+      this.stopSpinner(false, `Rollback failed: ${e.message}`);
+      return;
+    }
+    if (kept.files.length === 0 && kept.generatedFiles.length === 0) {
+      this.stopSpinner(true, "Restored all files to their original state");
+      return;
+    }
+
+    this.stopSpinner(true, "Restored the files the database doesn't depend on");
+    for (const change of [...kept.files, ...kept.generatedFiles]) {
+      console.log(
+        chalk.yellow(
+          `   Kept ${path.relative(
+            process.cwd(),
+            change.path
+          )}: the database already has its migrations`
+        )
+      );
+    }
+    if (query === undefined) return;
+    const run = this.runJournal.record(
+      query,
+      kept.files,
+      kept.generatedFiles,
+      commands,
+      true
     );
     console.log(
-      chalk.cyan(
-        "🤖 All code was generated using Gemini AI for maximum relevance and quality."
+      chalk.yellow(
+        `⚠️  Run ${run.id} was partially applied - use "undo ${run.id}" to revert it`
       )
     );
   }
 
   private initializeModulesWithModel() {
-    // Pass the Gemini model to all modules that need it
+    // Pass the configured LLM provider to all modules that need it
     this.schemaGenerator.setModel(this.model);
     this.apiGenerator.setModel(this.model);
     this.seedGenerator.setModel(this.model);
     this.frontendIntegrator.setModel(this.model);
     this.uiIntegrator.setModel(this.model);
+    this.typeChecker.setModel(this.model);
 
     this.log({
       type: "thinking",
-      message:
-        "Initialized all modules with Gemini AI model for dynamic code generation",
+      message: `Initialized all modules with ${this.generator}`,
     });
   }
 
+  // Everything generated targets `dialect`; the workflow keeps the project's
+  // current one until the run switches it
+  private initializeModulesWithDialect(dialect: Dialect) {
+    this.dialect = dialect;
+    this.schemaGenerator.setDialect(dialect);
+    this.schemaValidator.setDialect(dialect);
+    this.apiGenerator.setDialect(dialect);
+    this.authGenerator.setDialect(dialect);
+    this.seedGenerator.setDialect(dialect);
+    this.databaseWorkflow.setDialect(this.projectContext.dialect);
+    if (
+      process.env.DATABASE_DRIVER === "pglite" &&
+      dialect.name !== "postgresql"
+    )
+      console.log(
+        chalk.yellow(
+          `⚠️  DATABASE_DRIVER=pglite only applies to PostgreSQL; ${dialect.label} uses DATABASE_URL`
+        )
+      );
+  }
+
+  private initializeModulesWithHooks(strategy: HookStrategy) {
+    this.frontendIntegrator.setHookStrategy(strategy);
+    this.uiIntegrator.setHookStrategy(strategy);
+  }
+
+  private initializeModulesWithChangeSet(changeSet: ChangeSet) {
+    this.projectAnalyzer.setChangeSet(changeSet);
+    this.databaseWorkflow.setChangeSet(changeSet);
+    this.databaseWorkflow.setMigrationApproval((report) =>
+      this.approveMigration(report)
+    );
+    this.schemaValidator.setChangeSet(changeSet);
+    this.apiGenerator.setChangeSet(changeSet);
+    this.validationGenerator.setChangeSet(changeSet);
+    this.openApiGenerator.setChangeSet(changeSet);
+    this.apiClientGenerator.setChangeSet(changeSet);
+    this.authGenerator.setChangeSet(changeSet);
+    this.seedGenerator.setChangeSet(changeSet);
+    this.frontendIntegrator.setChangeSet(changeSet);
+    this.uiIntegrator.setChangeSet(changeSet);
+    this.typeChecker.setChangeSet(changeSet);
+  }
+
   private async generateFrontendIntegration(
     schemaDefinitions: SchemaDefinition[],
     query: string
   ) {
     this.log({
       type: "integrating",
-      message: "Generating frontend integration with Gemini AI...",
+      message: `Generating frontend integration with ${this.generator}...`,
     });
 
-    // Generate React hooks and display API info using Gemini
+    // Generate React hooks and display API info with the model
     await this.frontendIntegrator.generateFrontendIntegration(
       schemaDefinitions,
       query
     );
 
-    // Integrate into Spotify components using Gemini
+    // Integrate into Spotify components with the model
     await this.integrateIntoSpotifyComponents(schemaDefinitions, query);
   }
 
@@ -165,8 +1013,7 @@ export class DatabaseAgent extends BaseAgent {
   ) {
     this.log({
       type: "integrating",
-      message:
-        "Integrating database hooks into Spotify components with Gemini AI...",
+      message: `Integrating database hooks into Spotify components with ${this.generator}...`,
     });
 
     // Analyze query to determine which UI sections to update
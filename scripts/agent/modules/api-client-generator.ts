@@ -0,0 +1,305 @@
+import * as path from "path";
+import chalk from "chalk";
+import { ChangeSet } from "../core/change-set";
+import {
+  columnTsType,
+  isNullableField,
+  parseColumnType,
+} from "../core/column-types";
+import { listFields } from "../core/list-query";
+import { isHistoryTable, playsClientName } from "../core/play-history";
+import { SchemaDefinition, SchemaField } from "../types";
+import { columnKey, tableExportName, toPascalCase } from "../utils";
+import { apiEndpoint, tablesWithRoutes } from "./api-generator";
+import { validationNames } from "./validation-generator";
+
+export const API_CLIENT_FILE = "src/lib/api-client.ts";
+
+// Exports of src/lib/api-client.ts for a table
+export function apiClientNames(schemaDef: SchemaDefinition) {
+  const className = toPascalCase(schemaDef.tableName);
+  return {
+    client: tableExportName(schemaDef),
+    recordType: `${className}Record`,
+    listParamsType: `${className}ListParams`,
+  };
+}
+
+// The /plays route of a listening history table
+const PLAYS_CLIENT = `
+// A play the player records; playedAt is when listening started and
+// defaults to when the route receives it
+export interface PlayInput {
+  track: Track;
+  context: PlayContext | null;
+  device: string;
+  playedAt?: string;
+}
+
+// An album, playlist or shelf of the history with the last track played
+// from it; plays without a context stand on their own
+export interface RecentContext {
+  context: PlayContext | null;
+  track: Track;
+  playedAt: string;
+  plays: number;
+}
+
+function plays(request: Request, endpoint: string) {
+  return {
+    // Resolves to false when the route took the play for a duplicate
+    async record(play: PlayInput): Promise<boolean> {
+      const body = JSON.stringify(play);
+      return (await request<{ recorded: boolean }>(endpoint, { method: "POST", body })).recorded;
+    },
+    async recentContexts(limit = 10): Promise<RecentContext[]> {
+      return (await request<{ data: RecentContext[] }>(\`\${endpoint}?limit=\${limit}\`)).data;
+    },
+  };
+}
+`;
+
+// Writes src/lib/api-client.ts: typed list, get, create, update and delete
+// functions for every table with routes. The hooks call it instead of
+// fetch, and server code can create a client with a base URL.
+export class ApiClientGenerator {
+  private changeSet = new ChangeSet();
+
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  async updateApiClient(allDefinitions: SchemaDefinition[]) {
+    const filePath = path.join(process.cwd(), API_CLIENT_FILE);
+    const tables = tablesWithRoutes(this.changeSet, allDefinitions);
+    if (tables.length === 0) {
+      // Undo removed the last routes
+      if (this.changeSet.exists(filePath)) this.changeSet.deleteFile(filePath);
+      return;
+    }
+    const content = this.generateClientContent(tables);
+    if (
+      this.changeSet.exists(filePath) &&
+      this.changeSet.readFile(filePath) === content
+    )
+      return;
+    this.changeSet.writeFile(filePath, content);
+    console.log(
+      chalk.gray(`   📁 Updated: lib/api-client.ts (${tables.length} table(s))`)
+    );
+  }
+
+  generateClientContent(tables: SchemaDefinition[]): string {
+    const histories = tables.filter(isHistoryTable);
+    const validation = tables.flatMap((def) => {
+      const names = validationNames(def);
+      return [
+        names.insertSchema,
+        names.updateSchema,
+        `type ${names.insertType}`,
+        `type ${names.updateType}`,
+      ];
+    });
+
+    return `import type { ZodIssue, ZodTypeAny } from "zod";
+import type { ${tables
+      .map((def) => toPascalCase(def.tableName))
+      .join(", ")} } from "@/db/schema";
+import {
+${validation.map((name) => `  ${name},`).join("\n")}
+} from "@/db/validation";
+import {
+  listSearchParams,
+  type Filter,
+  type ListParams,
+  type Pagination,
+} from "@/lib/list-params";${
+      histories.length
+        ? `
+import type { PlayContext } from "@/lib/play-queue";
+import type { Track } from "@/lib/track";`
+        : ""
+    }
+
+// Every failure of a call: a response that isn't a success, input the
+// validation schemas reject before sending (400, as the route would
+// answer) or a network error (status 0)
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly issues: ZodIssue[] = []
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export interface Page<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+export interface ApiClientOptions {
+  // Prepended to /api/...; server code needs the app's origin
+  baseUrl?: string;
+  headers?: HeadersInit;
+  fetch?: typeof fetch;
+}
+
+type Request = <T>(path: string, init?: RequestInit) => Promise<T>;
+
+function issueMessage(issues: ZodIssue[]): string {
+  return issues
+    .map((issue) => (issue.path.length ? \`\${issue.path.join(".")}: \${issue.message}\` : issue.message))
+    .join("; ");
+}
+
+function createRequest({ baseUrl = "", headers, fetch: fetchImpl }: ApiClientOptions): Request {
+  return async <T>(path: string, init: RequestInit = {}) => {
+    const merged = new Headers(headers);
+    new Headers(init.headers).forEach((value, key) => merged.set(key, value));
+    if (init.body) merged.set("Content-Type", "application/json");
+
+    let response: Response;
+    try {
+      response = await (fetchImpl ?? fetch)(\`\${baseUrl}\${path}\`, { ...init, headers: merged });
+    } catch (error) {
+      throw new ApiError(error instanceof Error ? error.message : "Network error", 0);
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body?.success) {
+      throw new ApiError(
+        body?.error ?? \`Request failed with status \${response.status}\`,
+        response.status,
+        body?.issues ?? []
+      );
+    }
+    return body as T;
+  };
+}
+
+function validate(schema: ZodTypeAny, data: unknown): unknown {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw new ApiError(issueMessage(parsed.error.issues), 400, parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+// The five operations of one table's routes
+function resource<Row, Insert, Update, Params extends ListParams<object, string>>(
+  request: Request,
+  endpoint: string,
+  insertSchema: ZodTypeAny,
+  updateSchema: ZodTypeAny
+) {
+  const send = (method: string, data: unknown) => ({ method, body: JSON.stringify(data) });
+  return {
+    async list(params?: Params): Promise<Page<Row>> {
+      const query = listSearchParams(params).toString();
+      const { data, pagination } = await request<Page<Row>>(query ? \`\${endpoint}?\${query}\` : endpoint);
+      return { data, pagination };
+    },
+    async get(id: number): Promise<Row> {
+      return (await request<{ data: Row }>(\`\${endpoint}/\${id}\`)).data;
+    },
+    async create(data: Insert): Promise<Row> {
+      const body = validate(insertSchema, data);
+      return (await request<{ data: Row }>(endpoint, send("POST", body))).data;
+    },
+    async update(id: number, data: Update): Promise<Row> {
+      const body = validate(updateSchema, data);
+      return (await request<{ data: Row }>(\`\${endpoint}/\${id}\`, send("PUT", body))).data;
+    },
+    // Resolves to the deleted row
+    async delete(id: number): Promise<Row> {
+      return (await request<{ data: Row }>(\`\${endpoint}/\${id}\`, { method: "DELETE" })).data;
+    },
+  };
+}
+${histories.length ? PLAYS_CLIENT : ""}${tables
+      .map((def) => this.tableTypes(def))
+      .join("")}
+export function createApiClient(options: ApiClientOptions = {}) {
+  const request = createRequest(options);
+  return {
+${tables.map((def) => this.tableResource(def)).join("\n")}${histories
+      .map(
+        (def) =>
+          `\n    ${playsClientName(def)}: plays(request, "${apiEndpoint(
+            def
+          )}/plays"),`
+      )
+      .join("")}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Same-origin client for components and hooks
+export const api = createApiClient();
+export const { ${[
+      ...tables.map((def) => apiClientNames(def).client),
+      ...histories.map(playsClientName),
+    ].join(", ")} } = api;
+`;
+  }
+
+  private tableResource(def: SchemaDefinition): string {
+    const names = apiClientNames(def);
+    const validation = validationNames(def);
+    return `    ${names.client}: resource<${names.recordType}, ${
+      validation.insertType
+    }, ${validation.updateType}, ${names.listParamsType}>(
+      request,
+      "${apiEndpoint(def)}",
+      ${validation.insertSchema},
+      ${validation.updateSchema}
+    ),`;
+  }
+
+  private tableTypes(def: SchemaDefinition): string {
+    const names = apiClientNames(def);
+    const fields = listFields(def);
+    return `
+${this.recordType(def)}
+
+export type ${names.listParamsType} = ListParams<
+  {
+${fields.map((f) => `    ${f.key}?: Filter<${f.type}>;`).join("\n")}
+  },
+  ${fields.map((f) => `"${f.key}"`).join(" | ")}
+>;
+`;
+  }
+
+  // $inferSelect as the API returns it: JSON turns Date columns into strings
+  private recordType(def: SchemaDefinition): string {
+    const className = toPascalCase(def.tableName);
+    const { recordType } = apiClientNames(def);
+    const dateFields = def.fields.filter(
+      (f) => parseColumnType(f.type)?.kind === "date"
+    );
+    if (dateFields.length === 0) {
+      return `export type ${recordType} = ${className};`;
+    }
+
+    return `// ${className} with dates as ISO strings
+export type ${recordType} = Omit<${className}, ${dateFields
+      .map((f) => `"${columnKey(def, f.name)}"`)
+      .join(" | ")}> & {
+${dateFields
+  .map((f) => `  ${columnKey(def, f.name)}: ${jsonFieldType(f)};`)
+  .join("\n")}
+};`;
+  }
+}
+
+// TypeScript type of a field in a JSON response
+export function jsonFieldType(field: SchemaField): string {
+  const column = parseColumnType(field.type);
+  if (!column) return "unknown";
+  const type = columnTsType(column, true);
+  return isNullableField(field) ? `${type} | null` : type;
+}
@@ -1,76 +1,172 @@
-import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
 import chalk from "chalk";
-import { SchemaDefinition } from "../types";
-import { toPascalCase } from "../utils";
+import {
+  AccessOperation,
+  accessExportName,
+  hiddenKeys,
+} from "../core/access-policy";
+import { ownerKey } from "../core/auth-files";
+import { ChangeSet } from "../core/change-set";
+import { DIALECTS, Dialect } from "../core/dialects";
+import { isHistoryTable, trackColumns } from "../core/play-history";
+import {
+  LIST_PARAMS_FILE,
+  LIST_QUERY_FILE,
+  listParamsSource,
+  listQuerySource,
+} from "../core/list-query";
+import { TableRelation, tableRelations } from "../core/relationships";
+import { LLMProvider, SchemaDefinition } from "../types";
+import {
+  columnKey,
+  describeTables,
+  tableExportName,
+  toPascalCase,
+} from "../utils";
+import { validationNames } from "./validation-generator";
+
+// Path of a table's list route, e.g. /api/recently-played
+export function apiEndpoint(schemaDef: SchemaDefinition): string {
+  return `/api/${schemaDef.tableName.replace(/_/g, "-")}`;
+}
+
+// Tables whose routes exist, sorted by name. The OpenAPI document and the
+// API client cover all of them, not only the tables of the current run.
+export function tablesWithRoutes(
+  changeSet: ChangeSet,
+  allDefinitions: SchemaDefinition[]
+): SchemaDefinition[] {
+  return allDefinitions
+    .filter((def) =>
+      changeSet.exists(
+        path.join(process.cwd(), "src", "app", apiEndpoint(def), "route.ts")
+      )
+    )
+    .sort((a, b) => a.tableName.localeCompare(b.tableName));
+}
 
 export class ApiGenerator {
-  private model: any;
+  private model: LLMProvider | null;
+  private changeSet = new ChangeSet();
+  private dialect: Dialect = DIALECTS.postgresql;
 
-  constructor(model?: any) {
-    this.model = model;
+  constructor(model?: LLMProvider) {
+    this.model = model ?? null;
   }
 
-  setModel(model: any) {
+  setModel(model: LLMProvider | null) {
     this.model = model;
   }
 
-  // Add method to read database schema context
-  private async getSchemaContext(): Promise<string> {
-    const schemaDir = path.join(process.cwd(), "src", "db", "schema");
-    const dbIndexPath = path.join(process.cwd(), "src", "db", "index.ts");
-
-    let schemaContext = "";
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
 
-    // Read main db index file
-    if (fs.existsSync(dbIndexPath)) {
-      const dbIndexContent = fs.readFileSync(dbIndexPath, "utf-8");
-      schemaContext += `\n// Database configuration (src/db/index.ts):\n${dbIndexContent}\n`;
-    }
+  setDialect(dialect: Dialect) {
+    this.dialect = dialect;
+  }
 
-    // Read schema index file
-    const schemaIndexPath = path.join(schemaDir, "index.ts");
-    if (fs.existsSync(schemaIndexPath)) {
-      const schemaIndexContent = fs.readFileSync(schemaIndexPath, "utf-8");
-      schemaContext += `\n// Schema exports (src/db/schema/index.ts):\n${schemaIndexContent}\n`;
+  // The tables as the routes see them: how to import each one and the key
+  // every column has on rows, so prompts never need the schema file text
+  private schemaContext(allDefinitions: SchemaDefinition[]): string {
+    return `Database client: import { db } from "@/db" (Drizzle for ${
+      this.dialect.label
+    }, created with the full schema so db.query.<table> works)${
+      this.dialect.supportsReturning
+        ? ""
+        : "\nThere is no .returning(): insert with .$returningId() and select rows again after updates, and before deletes"
     }
+Tables, each exported from "@/db/schema" (columns as key ("sql name"): type constraints):
+${describeTables(allDefinitions)}`;
+  }
 
-    // Read all schema files
-    if (fs.existsSync(schemaDir)) {
-      const schemaFiles = fs
-        .readdirSync(schemaDir)
-        .filter((file) => file.endsWith(".ts") && file !== "index.ts");
-
-      for (const file of schemaFiles) {
-        const filePath = path.join(schemaDir, file);
-        const content = fs.readFileSync(filePath, "utf-8");
-        schemaContext += `\n// Schema file (src/db/schema/${file}):\n${content}\n`;
-      }
-    }
+  // allDefinitions are the tables of the run; their relations to this one
+  // can be loaded with GET ?include=
+  async generateApiRoute(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ) {
+    const relations = tableRelations(schemaDef, allDefinitions);
+    this.writeListQueryModules();
+    // Generate both the main route and the dynamic [id] route
+    await this.generateMainApiRoute(schemaDef, relations, allDefinitions);
+    await this.generateDynamicApiRoute(schemaDef, relations, allDefinitions);
+    if (isHistoryTable(schemaDef)) this.writePlaysRoute(schemaDef);
+  }
 
-    return schemaContext;
+  // Always the template: the player's recorder and the Recently Played
+  // shelf rely on its exact request and response shapes
+  private writePlaysRoute(schemaDef: SchemaDefinition) {
+    const endpoint = schemaDef.tableName.replace(/_/g, "-");
+    this.changeSet.writeFile(
+      path.join(
+        process.cwd(),
+        "src",
+        "app",
+        "api",
+        endpoint,
+        "plays",
+        "route.ts"
+      ),
+      this.generatePlaysRouteTemplate(schemaDef)
+    );
+    console.log(chalk.gray(`   📁 Created: api/${endpoint}/plays/route.ts`));
   }
 
-  async generateApiRoute(schemaDef: SchemaDefinition) {
-    if (!this.model) {
-      throw new Error(
-        "Model is required for API generation. No fallback available."
-      );
+  // The list routes import parseListQuery; rewritten when the dialect changes
+  private writeListQueryModules() {
+    const sources = [
+      [LIST_PARAMS_FILE, listParamsSource()],
+      [LIST_QUERY_FILE, listQuerySource(this.dialect)],
+    ];
+    for (const [file, source] of sources) {
+      const filePath = path.join(process.cwd(), file);
+      if (
+        this.changeSet.exists(filePath) &&
+        this.changeSet.readFile(filePath) === source
+      )
+        continue;
+      this.changeSet.writeFile(filePath, source);
+      console.log(chalk.gray(`   📁 Created: ${file.replace(/^src\//, "")}`));
     }
+  }
 
-    // Generate both the main route and the dynamic [id] route
-    await this.generateMainApiRoute(schemaDef);
-    await this.generateDynamicApiRoute(schemaDef);
+  // Routes of user-scoped tables and tables with an access policy always
+  // come from the templates: the ownership checks, authorize() calls and
+  // hidden columns are what keeps users out of rows and columns that aren't
+  // theirs, so they are never left to a model following prompt text
+  private modelWrites(schemaDef: SchemaDefinition): boolean {
+    return this.model !== null && !ownerKey(schemaDef) && !schemaDef.access;
   }
 
-  private async generateMainApiRoute(schemaDef: SchemaDefinition) {
-    const apiContent = await this.generateMainRouteContent(schemaDef);
+  private async generateMainApiRoute(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[],
+    allDefinitions: SchemaDefinition[]
+  ) {
+    const apiContent = this.modelWrites(schemaDef)
+      ? await this.generateMainRouteContent(
+          schemaDef,
+          relations,
+          allDefinitions
+        )
+      : this.generateMainRouteTemplate(schemaDef, relations);
     await this.writeMainApiRoute(schemaDef, apiContent);
   }
 
-  private async generateDynamicApiRoute(schemaDef: SchemaDefinition) {
-    const apiContent = await this.generateDynamicRouteContent(schemaDef);
+  private async generateDynamicApiRoute(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[],
+    allDefinitions: SchemaDefinition[]
+  ) {
+    const apiContent = this.modelWrites(schemaDef)
+      ? await this.generateDynamicRouteContent(
+          schemaDef,
+          relations,
+          allDefinitions
+        )
+      : this.generateDynamicRouteTemplate(schemaDef, relations);
     await this.writeDynamicApiRoute(schemaDef, apiContent);
   }
 
@@ -86,8 +182,7 @@ export class ApiGenerator {
       schemaDef.tableName.replace(/_/g, "-"),
       "route.ts"
     );
-    fs.mkdirSync(path.dirname(apiPath), { recursive: true });
-    fs.writeFileSync(apiPath, content);
+    this.changeSet.writeFile(apiPath, content);
     console.log(
       chalk.gray(
         `   📁 Created: api/${schemaDef.tableName.replace(/_/g, "-")}/route.ts`
@@ -108,8 +203,7 @@ export class ApiGenerator {
       "[id]",
       "route.ts"
     );
-    fs.mkdirSync(path.dirname(apiPath), { recursive: true });
-    fs.writeFileSync(apiPath, content);
+    this.changeSet.writeFile(apiPath, content);
     console.log(
       chalk.gray(
         `   📁 Created: api/${schemaDef.tableName.replace(
@@ -121,16 +215,18 @@ export class ApiGenerator {
   }
 
   private async generateMainRouteContent(
-    schemaDef: SchemaDefinition
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[],
+    allDefinitions: SchemaDefinition[]
   ): Promise<string> {
     const tableName = schemaDef.tableName;
     const className = toPascalCase(tableName);
-    const hasUserId = schemaDef.fields.some((f) => f.name === "user_id");
 
     const fieldsInfo = schemaDef.fields
       .filter((f) => !["id", "created_at", "updated_at"].includes(f.name))
       .map((f) => ({
         name: f.name,
+        key: columnKey(schemaDef, f.name),
         type: f.type,
         isRequired: f.constraints?.includes("notNull()"),
       }));
@@ -139,36 +235,47 @@ export class ApiGenerator {
       .filter((f) => f.isRequired)
       .map((f) => f.name);
 
-    // Get database schema context
-    const schemaContext = await this.getSchemaContext();
+    const schemaContext = this.schemaContext(allDefinitions);
 
-    const apiPrompt = `You are generating a Next.js API route for a PostgreSQL database with Drizzle ORM.
+    const apiPrompt = `You are generating a Next.js API route for a ${
+      this.dialect.label
+    } database with Drizzle ORM.
 
 DATABASE SCHEMA CONTEXT:
 ${schemaContext}
 
 TARGET TABLE INFORMATION:
-- Table: ${tableName}
+- Table: ${tableName}, exported as ${tableExportName(schemaDef)}
 - Type: ${className}
 - Required fields: ${requiredFields.join(", ")}
-- Has user_id: ${hasUserId}
 - All fields: ${JSON.stringify(fieldsInfo, null, 2)}
+- Request body schema: ${
+      validationNames(schemaDef).insertSchema
+    } from "@/db/validation" (Zod)
 
 Generate a Next.js API route for the main CRUD operations (GET all, POST create) following this exact pattern:
 
 CRITICAL REQUIREMENTS:
-1. Use camelCase for table imports (e.g., import { recentlyPlayedSongs } from '@/db/schema')
-2. Use the correct table export name from the schema files above
+1. Import the table by its export name above (e.g., import { recentlyPlayedSongs } from '@/db/schema')
+2. Rows, request bodies and column accesses use the column keys listed above, not the SQL names
 3. Ensure field names match the actual schema definition
-4. Include proper error handling and validation
+4. Validate the POST body with the request body schema's safeParse and insert parsed.data; invalid bodies get a 400 with { success: false, error, issues: parsed.error.issues }
 5. Use NextRequest/NextResponse types
-6. Follow Drizzle ORM patterns shown in the schema context
-
+6. Follow standard Drizzle ORM query patterns
+7. GET implements the shared list-query contract (filters, sort, q, offset or cursor pagination) and nothing else:
+   const query = parseListQuery(${tableExportName(schemaDef)}, searchParams${
+      relations.length ? ', ["include"]' : ""
+    }); // from "@/lib/list-query"
+   if ("error" in query) -> 400 with { success: false, error: query.error, issues: [] }
+   rows: .where(query.pageWhere).orderBy(...query.orderBy).limit(query.take).offset(query.offset)
+   total: db.select({ total: count() }).from(table).where(query.where)
+   respond with NextResponse.json({ success: true, ...query.page(rows, total) })
+${this.includeRequirement(schemaDef, relations, 8)}
 Generate ONLY the TypeScript code, no markdown blocks or explanations.`;
 
     try {
-      const result = await this.model.generateContent(apiPrompt);
-      let generatedCode = result.response.text().trim();
+      if (!this.model) throw new Error("Model not set. Call setModel() first.");
+      let generatedCode = (await this.model.generateText(apiPrompt)).trim();
 
       // Clean the response
       generatedCode = generatedCode
@@ -183,7 +290,9 @@ Generate ONLY the TypeScript code, no markdown blocks or explanations.`;
   }
 
   private async generateDynamicRouteContent(
-    schemaDef: SchemaDefinition
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[],
+    allDefinitions: SchemaDefinition[]
   ): Promise<string> {
     const tableName = schemaDef.tableName;
     const className = toPascalCase(tableName);
@@ -192,39 +301,45 @@ Generate ONLY the TypeScript code, no markdown blocks or explanations.`;
       .filter((f) => !["id", "created_at", "updated_at"].includes(f.name))
       .map((f) => ({
         name: f.name,
+        key: columnKey(schemaDef, f.name),
         type: f.type,
         isRequired: f.constraints?.includes("notNull()"),
       }));
 
-    // Get database schema context
-    const schemaContext = await this.getSchemaContext();
+    const schemaContext = this.schemaContext(allDefinitions);
 
-    const apiPrompt = `You are generating a Next.js dynamic API route for individual operations with PostgreSQL and Drizzle ORM.
+    const apiPrompt = `You are generating a Next.js dynamic API route for individual operations with ${
+      this.dialect.label
+    } and Drizzle ORM.
 
 DATABASE SCHEMA CONTEXT:
 ${schemaContext}
 
 TARGET TABLE INFORMATION:
-- Table: ${tableName}
+- Table: ${tableName}, exported as ${tableExportName(schemaDef)}
 - Type: ${className}
 - All fields: ${JSON.stringify(fieldsInfo, null, 2)}
+- Request body schema: ${
+      validationNames(schemaDef).updateSchema
+    } from "@/db/validation" (Zod)
 
 Generate a Next.js dynamic API route for individual operations (GET by ID, PUT update, DELETE) with these requirements:
 
 CRITICAL REQUIREMENTS:
-1. Use camelCase for table imports matching the schema files above
-2. Use the correct table export name from the schema context
-3. Import from '@/db' and '@/db/schema' as shown in the schema context
+1. Import the table by its export name above
+2. Rows, request bodies and column accesses use the column keys listed above, not the SQL names
+3. Import from '@/db' and '@/db/schema' as described in the schema context
 4. Include proper error handling for all operations
 5. Use eq from 'drizzle-orm' for WHERE clauses
 6. Follow the exact field names from the schema definition
 7. Include updated_at field handling if it exists in the schema
-
+8. Validate the PUT body with the request body schema's safeParse and update with parsed.data; invalid bodies get a 400 with { success: false, error, issues: parsed.error.issues }
+${this.includeRequirement(schemaDef, relations, 9)}
 Generate ONLY the TypeScript code for GET, PUT, and DELETE operations, no markdown blocks or explanations.`;
 
     try {
-      const result = await this.model.generateContent(apiPrompt);
-      let generatedCode = result.response.text().trim();
+      if (!this.model) throw new Error("Model not set. Call setModel() first.");
+      let generatedCode = (await this.model.generateText(apiPrompt)).trim();
 
       // Clean the response
       generatedCode = generatedCode
@@ -237,4 +352,635 @@ Generate ONLY the TypeScript code for GET, PUT, and DELETE operations, no markdo
       throw new Error(`Failed to generate dynamic API route: ${error}`);
     }
   }
+
+  private includeRequirement(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[],
+    number: number
+  ): string {
+    if (relations.length === 0) return "";
+    const names = relations.map((r) => r.name).join(", ");
+    return `${number}. GET accepts ?include=${names} (comma-separated, any subset; respond 400 for other names) and loads those relations with db.query.${tableExportName(
+      schemaDef
+    )}.findMany/findFirst({ with: { ... } })
+`;
+  }
+
+  // Deterministic templates used in template mode (no LLM configured) and
+  // for the tables modelWrites() keeps from the model.
+  // The main route lists and creates rows; single rows live under [id].
+  private generateMainRouteTemplate(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[]
+  ): string {
+    const { table, className, endpoint } = this.templateContext(schemaDef);
+    const { insertSchema } = validationNames(schemaDef);
+    const owner = ownerKey(schemaDef);
+    const hidden = hiddenKeys(schemaDef).length > 0;
+    const pageWhere = owner ? "and(owned, query.pageWhere)" : "query.pageWhere";
+    const listArgs = [
+      table,
+      "searchParams",
+      ...(relations.length ? ['["include"]'] : hidden ? ["[]"] : []),
+      ...(hidden ? ["hidden"] : []),
+    ];
+    const list = relations.length
+      ? `db.query.${table}.findMany({
+      where: ${pageWhere},
+      with: include,
+      orderBy: query.orderBy,
+      limit: query.take,
+      offset: query.offset,
+    })`
+      : `db
+      .select()
+      .from(${table})
+      .where(${pageWhere})
+      .orderBy(...query.orderBy)
+      .limit(query.take)
+      .offset(query.offset)`;
+
+    const drizzleImports = [
+      ...(owner ? ["and"] : []),
+      "count",
+      ...(owner || !this.dialect.supportsReturning ? ["eq"] : []),
+    ];
+
+    return `${this.templateHeader(
+      schemaDef,
+      drizzleImports,
+      [insertSchema],
+      relations,
+      true
+    )}
+// Lists ${
+      owner ? "the signed-in user's " : ""
+    }rows with the query contract of src/lib/list-query.ts: filters,
+// sort, q, and offset or cursor pagination
+export async function GET(request: NextRequest) {
+  try {
+${this.templateAuth(
+  schemaDef,
+  "read"
+)}    const { searchParams } = new URL(request.url);
+${this.templateInclude(relations)}
+    const query = parseListQuery(${listArgs.join(", ")});
+    if ("error" in query) return badRequest(query.error);
+${
+  owner
+    ? `    const owned = eq(${table}.${owner}, user.id);
+`
+    : ""
+}
+    const records = await ${list};
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(${table})
+      .where(${owner ? "and(owned, query.where)" : "query.where"});
+
+    return NextResponse.json({ success: true, ...query.page(${
+      hidden ? "records.map((record) => omitFields(record, hidden))" : "records"
+    }, total) });
+  } catch (error) {
+    console.error("GET ${endpoint} error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch ${schemaDef.tableName}" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+${this.templateAuth(
+  schemaDef,
+  "create"
+)}    const body = await readBody(request);
+    if (!body) return badRequest("Request body must be a JSON object");
+
+    const parsed = ${insertSchema}.safeParse(body);
+    if (!parsed.success) return invalidBody(parsed.error);
+
+    const values: New${className} = ${
+      owner ? `{ ...parsed.data, ${owner}: user.id }` : "parsed.data"
+    };
+${this.templateInsert(table)}
+
+    return NextResponse.json({ success: true, data: ${this.templateRecord(
+      schemaDef
+    )} }, { status: 201 });
+  } catch (error) {
+    console.error("POST ${endpoint} error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create ${schemaDef.tableName}" },
+      { status: 500 }
+    );
+  }
+}
+`;
+  }
+
+  private generateDynamicRouteTemplate(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[]
+  ): string {
+    const { table, endpoint } = this.templateContext(schemaDef);
+    const owner = ownerKey(schemaDef);
+    const checkOwner = owner
+      ? `    const denied = await checkOwner(id, user.id);
+    if (denied) return denied;
+
+`
+      : "";
+    const handler = (
+      method: string,
+      operation: AccessOperation,
+      body: string,
+      action: string
+    ) => `
+export async function ${method}(request: NextRequest, { params }: RouteContext) {
+  try {
+${this.templateAuth(
+  schemaDef,
+  operation
+)}    const id = parseId((await params).id);
+    if (id === null) return badRequest("A valid numeric id is required");
+
+${checkOwner}${body}
+  } catch (error) {
+    console.error("${method} ${endpoint}/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to ${action} ${schemaDef.tableName}" },
+      { status: 500 }
+    );
+  }
+}
+`;
+
+    const find = relations.length
+      ? `    const { searchParams } = new URL(request.url);
+${this.templateInclude(relations)}
+${this.templateFindById(schemaDef, relations)}`
+      : this.templateFindById(schemaDef, relations);
+
+    return `${this.templateHeader(
+      schemaDef,
+      ["eq"],
+      [validationNames(schemaDef).updateSchema],
+      relations
+    )}
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseId(value: string | null): number | null {
+  const id = Number(value);
+  return value && Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: "${schemaDef.tableName} record not found" },
+    { status: 404 }
+  );
+}
+${
+  owner
+    ? `
+// 404 when the row doesn't exist, 403 when it belongs to another user
+async function checkOwner(id: number, userId: number) {
+  const [row] = await db
+    .select({ owner: ${table}.${owner} })
+    .from(${table})
+    .where(eq(${table}.id, id));
+  if (!row) return notFound();
+  return row.owner === userId ? null : forbidden();
+}
+`
+    : ""
+}${handler("GET", "read", find, "fetch")}${handler(
+      "PUT",
+      "update",
+      this.templateUpdate(schemaDef),
+      "update"
+    )}${handler("DELETE", "delete", this.templateDelete(schemaDef), "delete")}`;
+  }
+
+  // POST records a play of the player, GET aggregates the history into the
+  // contexts played from most recently
+  private generatePlaysRouteTemplate(schemaDef: SchemaDefinition): string {
+    const { table, className, endpoint } = this.templateContext(schemaDef);
+    const { insertSchema } = validationNames(schemaDef);
+    const owner = ownerKey(schemaDef);
+    const hidden = hiddenKeys(schemaDef).length > 0;
+    const key = (column: string) => columnKey(schemaDef, column);
+    const columns = trackColumns(schemaDef);
+    const fallbacks: Record<string, string> = {
+      title: `row.${key("track_id")}`,
+      artist: '""',
+      album: '""',
+      albumArt: '""',
+      duration: "0",
+      audioUrl: "undefined",
+    };
+    const trackProperty = (property: string) => {
+      const column = columns[property];
+      if (!column) return fallbacks[property];
+      return column.nullable
+        ? `row.${column.key} ?? ${fallbacks[property]}`
+        : `row.${column.key}`;
+    };
+    // The track's own columns of a new row; audioUrl is optional on tracks
+    const trackValues = Object.entries(columns).map(
+      ([property, column]) =>
+        `      ${column.key}: track.${property}${
+          property === "audioUrl" && !column.nullable ? ' ?? ""' : ""
+        },`
+    );
+    const ownedBy = owner ? `eq(${table}.${owner}, user.id)` : null;
+    const assign = (column: string, value: string) =>
+      key(column) === value ? `${value},` : `${key(column)}: ${value},`;
+
+    return `import { NextRequest, NextResponse } from "next/server";
+import { and, between, desc, eq } from "drizzle-orm";
+import { z, type ZodError, type ZodIssue } from "zod";
+import { db } from "@/db";
+import { ${table}, type ${className}, type New${className} } from "@/db/schema";
+import { ${insertSchema} } from "@/db/validation";${
+      schemaDef.access
+        ? `\nimport { ${accessExportName(schemaDef)} } from "@/db/access";
+import { authorize${
+            hidden ? ", hiddenFields, omitFields" : ""
+          } } from "@/lib/access";`
+        : ""
+    }${
+      owner
+        ? `\nimport { ${
+            schemaDef.access ? "" : "getCurrentUser, "
+          }unauthorized } from "@/lib/auth";`
+        : ""
+    }
+import type { PlayContext } from "@/lib/play-queue";
+import type { Track } from "@/lib/track";
+${this.templateBodyHelpers()}
+// A play of the same track on the same device within this window is the
+// one already recorded, sent again by a retry or a quick skip back
+const DUPLICATE_WINDOW_MS = 30_000;
+// How many of the latest plays GET aggregates
+const HISTORY_DEPTH = 500;
+
+const playSchema = z.object({
+  track: z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    artist: z.string(),
+    album: z.string(),
+    albumArt: z.string(),
+    duration: z.number().nonnegative(),
+    audioUrl: z.string().optional(),
+  }),
+  context: z
+    .object({
+      type: z.enum(["album", "playlist", "shelf"]),
+      id: z.string().min(1),
+      name: z.string(),
+    })
+    .nullable()
+    .default(null),
+  device: z.string().min(1).max(100),
+  playedAt: z.coerce.date().optional(),
+});
+
+// An album, playlist or shelf of the history with the last track played
+// from it; plays without a context stand on their own
+interface RecentContext {
+  context: PlayContext | null;
+  track: Track;
+  playedAt: Date;
+  plays: number;
+}
+
+function toTrack(row: ${className}): Track {
+  return {
+    id: row.${key("track_id")},
+    title: ${trackProperty("title")},
+    artist: ${trackProperty("artist")},
+    album: ${trackProperty("album")},
+    albumArt: ${trackProperty("albumArt")},
+    duration: ${trackProperty("duration")},
+    audioUrl: ${trackProperty("audioUrl")},
+  };
+}
+
+function toContext(row: ${className}): PlayContext | null {
+  if (!row.${key("context_type")} || !row.${key("context_id")}) return null;
+  return {
+    type: row.${key("context_type")} as PlayContext["type"],
+    id: row.${key("context_id")},
+    name: row.${key("context_name")} ?? "",
+  };
+}
+
+// The contexts played from most recently, newest first; ?limit= takes 1 to
+// 50 of them (10 by default)
+export async function GET(request: NextRequest) {
+  try {
+${this.templateAuth(
+  schemaDef,
+  "read"
+)}    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get("limit") ?? 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+      return badRequest("limit must be an integer from 1 to 50");
+    }
+
+    const records = await db
+      .select()
+      .from(${table})${ownedBy ? `\n      .where(${ownedBy})` : ""}
+      .orderBy(desc(${table}.${key("played_at")}))
+      .limit(HISTORY_DEPTH);
+
+    const contexts = new Map<string, RecentContext>();
+    for (const ${hidden ? "record" : "row"} of records) {${
+      hidden ? "\n      const row = omitFields(record, hidden);" : ""
+    }
+      const context = toContext(row);
+      const id = context ? \`\${context.type}:\${context.id}\` : \`track:\${row.${key(
+        "track_id"
+      )}}\`;
+      const entry = contexts.get(id);
+      if (entry) entry.plays++;
+      else contexts.set(id, { context, track: toTrack(row), playedAt: row.${key(
+        "played_at"
+      )}, plays: 1 });
+    }
+
+    return NextResponse.json({ success: true, data: [...contexts.values()].slice(0, limit) });
+  } catch (error) {
+    console.error("GET ${endpoint}/plays error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch the listening history" },
+      { status: 500 }
+    );
+  }
+}
+
+// Records a play; recorded is false when it duplicates one the device
+// already sent
+export async function POST(request: NextRequest) {
+  try {
+${this.templateAuth(
+  schemaDef,
+  "create"
+)}    const body = await readBody(request);
+    if (!body) return badRequest("Request body must be a JSON object");
+
+    const play = playSchema.safeParse(body);
+    if (!play.success) return invalidBody(play.error);
+    const { track, context, device, playedAt = new Date() } = play.data;
+
+    const [duplicate] = await db
+      .select({ id: ${table}.id })
+      .from(${table})
+      .where(
+        and(${ownedBy ? `\n          ${ownedBy},` : ""}
+          eq(${table}.${key("track_id")}, track.id),
+          eq(${table}.${key("device")}, device),
+          between(
+            ${table}.${key("played_at")},
+            new Date(playedAt.getTime() - DUPLICATE_WINDOW_MS),
+            new Date(playedAt.getTime() + DUPLICATE_WINDOW_MS)
+          )
+        )
+      )
+      .limit(1);
+    if (duplicate) return NextResponse.json({ success: true, recorded: false });
+
+    const parsed = ${insertSchema}.safeParse({
+      ${key("track_id")}: track.id,
+${trackValues.join("\n")}
+      ${key("context_type")}: context?.type ?? null,
+      ${key("context_id")}: context?.id ?? null,
+      ${key("context_name")}: context?.name ?? null,
+      ${assign("device", "device")}
+      ${assign("played_at", "playedAt")}
+    });
+    if (!parsed.success) return invalidBody(parsed.error);
+
+    const values: New${className} = ${
+      owner ? `{ ...parsed.data, ${owner}: user.id }` : "parsed.data"
+    };
+    await db.insert(${table}).values(values);
+
+    return NextResponse.json({ success: true, recorded: true }, { status: 201 });
+  } catch (error) {
+    console.error("POST ${endpoint}/plays error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to record the play" },
+      { status: 500 }
+    );
+  }
+}
+`;
+  }
+
+  private templateContext(schemaDef: SchemaDefinition) {
+    return {
+      table: tableExportName(schemaDef),
+      className: toPascalCase(schemaDef.tableName),
+      endpoint: apiEndpoint(schemaDef),
+    };
+  }
+
+  private templateHeader(
+    schemaDef: SchemaDefinition,
+    drizzleImports: string[],
+    bodySchemas: string[],
+    relations: TableRelation[],
+    lists = false
+  ): string {
+    const { table, className } = this.templateContext(schemaDef);
+    const include = relations.length
+      ? `
+const RELATIONS = [${relations.map((r) => `"${r.name}"`).join(", ")}] as const;
+type Relation = (typeof RELATIONS)[number];
+
+// ?include=${relations
+          .map((r) => r.name)
+          .join(",")} -> the \`with\` option of a relational query
+function parseInclude(value: string | null): Partial<Record<Relation, true>> | null {
+  const include: Partial<Record<Relation, true>> = {};
+  for (const name of (value ?? "").split(",").map((n) => n.trim())) {
+    if (!name) continue;
+    if (!RELATIONS.includes(name as Relation)) return null;
+    include[name as Relation] = true;
+  }
+  return include;
+}
+`
+      : "";
+    return `import { NextRequest, NextResponse } from "next/server";
+import { ${drizzleImports.join(", ")} } from "drizzle-orm";
+import type { ZodError, ZodIssue } from "zod";
+import { db } from "@/db";
+import { ${table}, type New${className} } from "@/db/schema";
+import { ${bodySchemas.join(", ")} } from "@/db/validation";${
+      schemaDef.access
+        ? `\nimport { ${accessExportName(schemaDef)} } from "@/db/access";`
+        : ""
+    }${
+      schemaDef.access
+        ? `\nimport { authorize${
+            hiddenKeys(schemaDef).length ? ", hiddenFields, omitFields" : ""
+          } } from "@/lib/access";`
+        : ""
+    }${
+      schemaDef.owner
+        ? `\nimport { ${lists ? "" : "forbidden, "}${
+            schemaDef.access ? "" : "getCurrentUser, "
+          }unauthorized } from "@/lib/auth";`
+        : ""
+    }${lists ? '\nimport { parseListQuery } from "@/lib/list-query";' : ""}
+${this.templateBodyHelpers()}${include}`;
+  }
+
+  // readBody() and the 400 responses every route answers with
+  private templateBodyHelpers(): string {
+    return `
+async function readBody(request: NextRequest): Promise<Record<string, any> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Every 400 has the same shape; issues lists the fields that failed validation
+function badRequest(error: string, issues: ZodIssue[] = []) {
+  return NextResponse.json({ success: false, error, issues }, { status: 400 });
+}
+
+function invalidBody(error: ZodError) {
+  const message = error.issues
+    .map((issue) => (issue.path.length ? \`\${issue.path.join(".")}: \${issue.message}\` : issue.message))
+    .join("; ");
+  return badRequest(message, error.issues);
+}
+`;
+  }
+
+  // Handlers of user-scoped tables start by loading the signed-in user.
+  // With a policy, authorize() loads it and answers the 401 or 403 of the
+  // operation; \`hidden\` lists the columns the user may not see.
+  private templateAuth(
+    schemaDef: SchemaDefinition,
+    operation: AccessOperation
+  ): string {
+    if (schemaDef.access) {
+      const policy = accessExportName(schemaDef);
+      const hidden = hiddenKeys(schemaDef).length > 0;
+      return `    const access = await authorize(${policy}, "${operation}");
+    if ("error" in access) return access.error;
+${schemaDef.owner || hidden ? "    const { user } = access;\n" : ""}${
+        schemaDef.owner ? "    if (!user) return unauthorized();\n" : ""
+      }${hidden ? `    const hidden = hiddenFields(${policy}, user);\n` : ""}
+`;
+    }
+    if (!schemaDef.owner) return "";
+    return `    const user = await getCurrentUser();
+    if (!user) return unauthorized();
+
+`;
+  }
+
+  // Reads ?include= into `include`, rejecting unknown relation names
+  private templateInclude(relations: TableRelation[]): string {
+    if (relations.length === 0) return "";
+    return `    const include = parseInclude(searchParams.get("include"));
+    if (!include) {
+      return badRequest(\`include accepts: \${RELATIONS.join(", ")}\`);
+    }
+`;
+  }
+
+  // A record as responses show it
+  private templateRecord(schemaDef: SchemaDefinition): string {
+    return hiddenKeys(schemaDef).length
+      ? "omitFields(record, hidden)"
+      : "record";
+  }
+
+  private templateFindById(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[]
+  ): string {
+    const table = tableExportName(schemaDef);
+    const find = relations.length
+      ? `const record = await db.query.${table}.findFirst({
+      where: eq(${table}.id, id),
+      with: include,
+    });`
+      : `const [record] = await db.select().from(${table}).where(eq(${table}.id, id));`;
+    return `    ${find}
+    if (!record) return notFound();
+
+    return NextResponse.json({ success: true, data: ${this.templateRecord(
+      schemaDef
+    )} });`;
+  }
+
+  private templateUpdate(schemaDef: SchemaDefinition): string {
+    const { table, className } = this.templateContext(schemaDef);
+    const { updateSchema } = validationNames(schemaDef);
+    const touch = schemaDef.fields.some((f) => f.name === "updated_at")
+      ? `\n    updates.${columnKey(schemaDef, "updated_at")} = new Date();`
+      : "";
+
+    return `    const body = await readBody(request);
+    if (!body) return badRequest("Request body must be a JSON object");
+
+    const parsed = ${updateSchema}.safeParse(body);
+    if (!parsed.success) return invalidBody(parsed.error);
+
+    const updates: Partial<New${className}> = parsed.data;${touch}
+
+${
+  this.dialect.supportsReturning
+    ? `    const [record] = await db
+      .update(${table})
+      .set(updates)
+      .where(eq(${table}.id, id))
+      .returning();`
+    : `    await db.update(${table}).set(updates).where(eq(${table}.id, id));
+    const [record] = await db.select().from(${table}).where(eq(${table}.id, id));`
+}
+    if (!record) return notFound();
+
+    return NextResponse.json({ success: true, data: ${this.templateRecord(
+      schemaDef
+    )} });`;
+  }
+
+  private templateDelete(schemaDef: SchemaDefinition): string {
+    const table = tableExportName(schemaDef);
+    const remove = this.dialect.supportsReturning
+      ? `    const [record] = await db.delete(${table}).where(eq(${table}.id, id)).returning();`
+      : `    const [record] = await db.select().from(${table}).where(eq(${table}.id, id));
+    if (record) await db.delete(${table}).where(eq(${table}.id, id));`;
+    return `${remove}
+    if (!record) return notFound();
+
+    return NextResponse.json({ success: true, data: ${this.templateRecord(
+      schemaDef
+    )} });`;
+  }
+
+  // MySQL has no RETURNING, so the new row is read back by its id
+  private templateInsert(table: string): string {
+    if (this.dialect.supportsReturning)
+      return `    const [record] = await db.insert(${table}).values(values).returning();`;
+    return `    const [{ id }] = await db.insert(${table}).values(values).$returningId();
+    const [record] = await db.select().from(${table}).where(eq(${table}.id, id));`;
+  }
 }
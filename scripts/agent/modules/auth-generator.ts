@@ -0,0 +1,142 @@
+import * as path from "path";
+import chalk from "chalk";
+import { ACCESS_DIR, accessFileSource } from "../core/access-policy";
+import {
+  AUTH_FILE,
+  AUTH_TABLES,
+  MIDDLEWARE_FILE,
+  PAGE_FILE,
+  authFiles,
+  integrateLogout,
+  isGeneratedMiddleware,
+  middlewareSource,
+} from "../core/auth-files";
+import { ChangeSet } from "../core/change-set";
+import { DIALECTS, Dialect } from "../core/dialects";
+import { SchemaDefinition } from "../types";
+import { apiEndpoint, tablesWithRoutes } from "./api-generator";
+
+// Writes the auth subsystem of --auth: the users and sessions schemas once,
+// then the helpers, credentials routes and login page, a middleware
+// matching the routes of the tables scoped to users, and the access
+// policies of tables that declare one
+export class AuthGenerator {
+  private changeSet = new ChangeSet();
+  private dialect: Dialect = DIALECTS.postgresql;
+
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  setDialect(dialect: Dialect) {
+    this.dialect = dialect;
+  }
+
+  // The definitions of the users and sessions tables, as the schema files
+  // will have them
+  authTables(schemaGenerator: any): SchemaDefinition[] {
+    return AUTH_TABLES.map((def) => schemaGenerator.withRequiredFields(def));
+  }
+
+  // Schema files are always templates, so every project gets the columns
+  // src/lib/auth.ts reads. Each table only sees the ones before it: sessions
+  // relates to users, but users.ts doesn't import sessions back.
+  writeSchemas(tables: SchemaDefinition[], schemaGenerator: any) {
+    tables.forEach((def, i) => {
+      this.changeSet.writeFile(
+        path.join(process.cwd(), "src", "db", "schema", def.fileName),
+        schemaGenerator.generateBasicSchemaContent(def, tables.slice(0, i + 1))
+      );
+      console.log(chalk.gray(`   📁 Created: ${def.fileName}`));
+    });
+  }
+
+  // Rewritten when they differ, e.g. after a dialect switch
+  async updateAuth(allDefinitions: SchemaDefinition[]) {
+    for (const [file, source] of Object.entries(authFiles(this.dialect))) {
+      this.writeIfChanged(file, source);
+    }
+    this.updateMiddleware(allDefinitions);
+
+    const pagePath = path.join(process.cwd(), PAGE_FILE);
+    const page = this.changeSet.exists(pagePath)
+      ? integrateLogout(this.changeSet.readFile(pagePath))
+      : null;
+    if (page) {
+      this.changeSet.writeFile(pagePath, page);
+      console.log(
+        chalk.cyan("   🔐 SpotifyHeader's logout now ends the session")
+      );
+    }
+  }
+
+  // src/db/access/<table>.ts per policy, and the index the routes import
+  // them from, rebuilt from the files like the validation index
+  writePolicies(definitions: SchemaDefinition[]) {
+    for (const def of definitions) {
+      if (def.access)
+        this.writeIfChanged(
+          path.join(ACCESS_DIR, def.fileName),
+          accessFileSource(def)
+        );
+    }
+
+    const dir = path.join(process.cwd(), ACCESS_DIR);
+    if (!this.changeSet.exists(dir)) return;
+    const files = this.changeSet
+      .readDir(dir)
+      .filter((f) => f.endsWith(".ts") && f !== "index.ts")
+      .sort();
+    const index = files
+      .map((f) => `export * from "./${f.replace(/\.ts$/, "")}";\n`)
+      .join("");
+    if (files.length)
+      this.changeSet.writeFile(path.join(dir, "index.ts"), index);
+  }
+
+  // Follows the scoped tables; removed with the last of them, or once undo
+  // removed src/lib/auth.ts
+  updateMiddleware(allDefinitions: SchemaDefinition[]) {
+    const filePath = path.join(process.cwd(), MIDDLEWARE_FILE);
+    const existing = this.changeSet.exists(filePath)
+      ? this.changeSet.readFile(filePath)
+      : null;
+    if (existing !== null && !isGeneratedMiddleware(existing)) {
+      console.log(
+        chalk.yellow(
+          `   ⚠️  ${MIDDLEWARE_FILE} was not generated; the scoped routes still check the session themselves`
+        )
+      );
+      return;
+    }
+
+    const scoped = this.changeSet.exists(path.join(process.cwd(), AUTH_FILE))
+      ? tablesWithRoutes(this.changeSet, allDefinitions).filter(
+          (def) => def.owner
+        )
+      : [];
+    const source = middlewareSource(scoped.map(apiEndpoint));
+    if (source === null) {
+      if (existing !== null) this.changeSet.deleteFile(filePath);
+      return;
+    }
+    if (this.writeIfChanged(MIDDLEWARE_FILE, source))
+      console.log(
+        chalk.gray(
+          `   🔐 Middleware: ${scoped.length} table(s) scoped to the signed-in user`
+        )
+      );
+  }
+
+  private writeIfChanged(file: string, source: string): boolean {
+    const filePath = path.join(process.cwd(), file);
+    if (
+      this.changeSet.exists(filePath) &&
+      this.changeSet.readFile(filePath) === source
+    )
+      return false;
+    this.changeSet.writeFile(filePath, source);
+    console.log(chalk.gray(`   📁 Created: ${file.replace(/^src\//, "")}`));
+    return true;
+  }
+}
@@ -1,20 +1,53 @@
-import * as fs from "fs";
 import * as path from "path";
+import { execSync } from "child_process";
 import chalk from "chalk";
-import { SchemaDefinition } from "../types";
-import { toPascalCase } from "../utils";
+import { ChangeSet } from "../core/change-set";
+import { HOOK_STRATEGIES, HookStrategy } from "../core/hook-strategies";
+import { PAGE_FILE } from "../core/auth-files";
+import { listFields } from "../core/list-query";
+import {
+  PLAY_HISTORY_HOOK_FILE,
+  integratePlayRecorder,
+  isHistoryTable,
+  playHistoryHookSource,
+  playsClientName,
+} from "../core/play-history";
+import {
+  HYDRATION_FILE,
+  LAYOUT_FILE,
+  queryCacheFiles,
+  queryCacheSource,
+  unwrapLayoutChildren,
+  wrapLayoutChildren,
+} from "../core/query-cache-files";
+import { LLMProvider, SchemaDefinition } from "../types";
+import { columnKey, toPascalCase } from "../utils";
+import { apiClientNames, jsonFieldType } from "./api-client-generator";
+import { tablesWithRoutes } from "./api-generator";
+import { UIIntegrator } from "./ui-integrator";
+import { validationNames } from "./validation-generator";
 
 export class FrontendIntegrator {
-  private model: any;
+  private model: LLMProvider | null;
+  private changeSet = new ChangeSet();
+  private hookStrategy: HookStrategy = HOOK_STRATEGIES.plain;
 
-  constructor(model?: any) {
-    this.model = model;
+  constructor(model?: LLMProvider) {
+    this.model = model ?? null;
   }
 
-  setModel(model: any) {
+  setModel(model: LLMProvider | null) {
     this.model = model;
   }
 
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  setHookStrategy(strategy: HookStrategy) {
+    this.hookStrategy = strategy;
+  }
+
   async generateFrontendIntegration(
     schemaDefinitions: SchemaDefinition[],
     query: string
@@ -26,50 +59,41 @@ export class FrontendIntegrator {
       const hookName = `use${toPascalCase(def.tableName)}`;
 
       console.log(chalk.blue(`\n📡 API Endpoint: ${apiEndpoint}`));
-      console.log(
-        chalk.gray(
-          `   GET    ${apiEndpoint}                    - Fetch all records`
-        )
-      );
-      console.log(
-        chalk.gray(
-          `   GET    ${apiEndpoint}?id=123             - Fetch specific record`
-        )
-      );
-      console.log(
-        chalk.gray(
-          `   GET    ${apiEndpoint}?limit=10&offset=0  - Paginated fetch`
-        )
-      );
-
-      if (def.fields.some((f) => f.name === "user_id")) {
-        console.log(
-          chalk.gray(
-            `   GET    ${apiEndpoint}?user_id=abc       - Filter by user`
-          )
-        );
+      const example = this.listQueryExample(def);
+      const routes = [
+        [
+          `GET    ${apiEndpoint}`,
+          "List records (filters, sort, q, pagination)",
+        ],
+        [`GET    ${apiEndpoint}?${example}`, "Example list query"],
+        [`GET    ${apiEndpoint}/123`, "Fetch specific record"],
+        [`POST   ${apiEndpoint}`, "Create new record"],
+        [`PUT    ${apiEndpoint}/123`, "Update record"],
+        [`DELETE ${apiEndpoint}/123`, "Delete record"],
+      ];
+      const width = Math.max(...routes.map(([route]) => route.length));
+      for (const [route, description] of routes) {
+        console.log(chalk.gray(`   ${route.padEnd(width)}  - ${description}`));
       }
 
       console.log(
-        chalk.gray(
-          `   POST   ${apiEndpoint}                    - Create new record`
-        )
-      );
-      console.log(
-        chalk.gray(
-          `   PUT    ${apiEndpoint}?id=123             - Update record`
-        )
-      );
-      console.log(
-        chalk.gray(
-          `   DELETE ${apiEndpoint}?id=123             - Delete record`
+        chalk.cyan(
+          `   🧰 API Client: ${
+            apiClientNames(def).client
+          }.list/get/create/update/delete (lib/api-client.ts)`
         )
       );
-
       await this.generateReactHook(def);
+      const cache =
+        this.hookStrategy.name === "plain"
+          ? ""
+          : `, cached with ${this.hookStrategy.label}`;
       console.log(
-        chalk.cyan(`   🪝 React Hook: ${hookName} (generated in hooks/)`)
+        chalk.cyan(
+          `   🪝 React Hook: ${hookName} (generated in hooks/${cache})`
+        )
       );
+      if (isHistoryTable(def)) await this.integratePlayHistory(def);
     }
 
     await this.integrateIntoSpotifyComponents(schemaDefinitions, query);
@@ -77,6 +101,17 @@ export class FrontendIntegrator {
   }
 
   private async generateReactHook(schemaDef: SchemaDefinition) {
+    // The cached hooks come from templates: they have to agree with the
+    // query keys and the provider
+    if (this.hookStrategy.name !== "plain") {
+      const hookContent =
+        this.hookStrategy.name === "swr"
+          ? this.generateSwrHook(schemaDef)
+          : this.generateReactQueryHook(schemaDef);
+      await this.writeHookFile(schemaDef, hookContent);
+      return;
+    }
+
     if (!this.model) {
       console.log(
         chalk.yellow("⚠️  No model set, using fallback hook template")
@@ -98,10 +133,46 @@ export class FrontendIntegrator {
     const hooksDir = path.join(process.cwd(), "src", "hooks");
     const hookPath = path.join(hooksDir, `${hookName}.ts`);
 
-    fs.mkdirSync(hooksDir, { recursive: true });
-    fs.writeFileSync(hookPath, content);
+    this.changeSet.writeFile(hookPath, content);
+
+    await this.updateHooksIndex();
+  }
 
+  // The player records its plays into the history through /plays, which
+  // the Recently Played shelf reads back by context
+  private async integratePlayHistory(schemaDef: SchemaDefinition) {
+    const endpoint = `/api/${schemaDef.tableName.replace(/_/g, "-")}/plays`;
+    console.log(
+      chalk.gray(
+        `   POST   ${endpoint}  - Record a play (30s or half the track)`
+      )
+    );
+    console.log(
+      chalk.gray(`   GET    ${endpoint}  - Contexts played from most recently`)
+    );
+    this.changeSet.writeFile(
+      path.join(process.cwd(), PLAY_HISTORY_HOOK_FILE),
+      playHistoryHookSource(schemaDef)
+    );
     await this.updateHooksIndex();
+    console.log(
+      chalk.cyan(
+        `   🎧 Play history: ${playsClientName(
+          schemaDef
+        )}.record/recentContexts, usePlayRecorder and useRecentContexts (hooks/usePlayHistory.ts)`
+      )
+    );
+
+    const pagePath = path.join(process.cwd(), PAGE_FILE);
+    const page = this.changeSet.exists(pagePath)
+      ? integratePlayRecorder(this.changeSet.readFile(pagePath))
+      : null;
+    if (page) {
+      this.changeSet.writeFile(pagePath, page);
+      console.log(
+        chalk.cyan("   🎧 SpotifyApp now records what the player plays")
+      );
+    }
   }
 
   private async generateReactHookContent(
@@ -111,11 +182,13 @@ export class FrontendIntegrator {
     const className = toPascalCase(tableName);
     const hookName = `use${className}`;
     const apiEndpoint = `/api/${tableName.replace(/_/g, "-")}`;
-    const hasUserId = schemaDef.fields.some((f) => f.name === "user_id");
+    const validation = validationNames(schemaDef);
+    const client = apiClientNames(schemaDef);
 
     const fieldsInfo = schemaDef.fields.map((f) => ({
       name: f.name,
       type: f.type,
+      jsonType: jsonFieldType(f),
       isRequired:
         f.constraints?.includes("notNull()") &&
         !["id", "created_at", "updated_at"].includes(f.name),
@@ -127,51 +200,76 @@ Table Information:
 - Table name: ${tableName}
 - Class name: ${className}
 - Hook name: ${hookName}
-- API endpoint: ${apiEndpoint}
-- Has user_id field: ${hasUserId}
+- API endpoint: ${apiEndpoint} (single records at ${apiEndpoint}/<id>)
 - Fields: ${JSON.stringify(fieldsInfo, null, 2)}
+- Input types: ${validation.insertType} and ${
+      validation.updateType
+    }, exported from "@/db/validation"
+
+API client (import from "@/lib/api-client"; do not call fetch directly):
+\`\`\`typescript
+export class ApiError extends Error {
+  status: number;
+  issues: ZodIssue[];
+}
+export type ${client.recordType};
+export type ${client.listParamsType};
+export const ${client.client}: {
+  list(params?: ${client.listParamsType}): Promise<{ data: ${
+      client.recordType
+    }[]; pagination: Pagination }>;
+  get(id: number): Promise<${client.recordType}>;
+  create(data: ${validation.insertType}): Promise<${client.recordType}>;
+  update(id: number, data: ${validation.updateType}): Promise<${
+      client.recordType
+    }>;
+  delete(id: number): Promise<${client.recordType}>;
+};
+\`\`\`
+Every call throws ApiError on failure. create and update validate their input first and throw ApiError with the failing issues without sending a request.
 
 Requirements:
 1. Use React 18+ with modern hooks (useState, useCallback, useEffect)
 2. TypeScript with proper type definitions
-3. State management for records, loading, error, pagination
-4. CRUD operations: fetchAll, fetchById, create, update, delete
-5. Error handling and loading states
-6. Pagination support
-7. User filtering if user_id field exists
-8. Return interface with data and actions
-9. Use fetch API with proper error handling
-10. NO COMMENTS in the generated code
+3. State management for records, loading, error, issues, pagination (Pagination from "@/lib/list-params")
+4. CRUD operations: fetchAll, fetchById, create, update, delete, each calling ${
+      client.client
+    }
+5. Catch errors in one place: set error to the message, and issues to error.issues when it is an ApiError
+6. Re-export ${client.recordType} and ${
+      client.listParamsType
+    } from "@/lib/api-client" as types
+7. Return interface with data and actions
+8. NO COMMENTS in the generated code
 
 Hook interface should include:
 - data: array of records with pagination info
 - loading: boolean
 - error: string | null
-- fetchAll: (params?) => Promise<void>
-- fetchById: (id) => Promise<T | null>
-- create: (data) => Promise<T | null>
-- update: (id, data) => Promise<T | null>
+- issues: ZodIssue[] (fields that failed validation)
+- fetchAll: (params?: ${client.listParamsType}) => Promise<void>
+- fetchById: (id) => Promise<${client.recordType} | null>
+- create: (data: ${validation.insertType}) => Promise<${
+      client.recordType
+    } | null>
+- update: (id, data: ${validation.updateType}) => Promise<${
+      client.recordType
+    } | null>
 - delete: (id) => Promise<boolean>
 - clearError: () => void
 
-API Response format:
-\`\`\`typescript
-// Success: { success: true, data: T | T[], pagination?: {...} }
-// Error: { success: false, error: string }
-\`\`\`
-
 Generate a complete, production-ready React hook with modern TypeScript patterns.
 
 Generate ONLY the TypeScript code, no explanation or markdown formatting. Do not include any comments in the code.`;
 
     try {
-      const result = await this.model.generateContent(hookPrompt);
-      let generatedCode = result.response.text().trim();
+      if (!this.model) throw new Error("Model not set. Call setModel() first.");
+      let generatedCode = (await this.model.generateText(hookPrompt)).trim();
 
       generatedCode = generatedCode
         .replace(/```typescript\n?/g, "")
         .replace(/```\n?/g, "")
-        .replace(/\/\/[^\n]*\n/g, "")
+        .replace(/^[ \t]*\/\/[^\n]*\n/gm, "")
         .replace(/\/\*[\s\S]*?\*\//g, "");
 
       return generatedCode;
@@ -182,203 +280,127 @@ Generate ONLY the TypeScript code, no explanation or markdown formatting. Do not
   }
 
   private generateReactHookFallback(schemaDef: SchemaDefinition): string {
-    const tableName = schemaDef.tableName;
-    const className = toPascalCase(tableName);
+    const className = toPascalCase(schemaDef.tableName);
     const hookName = `use${className}`;
-    const apiEndpoint = `/api/${tableName.replace(/_/g, "-")}`;
+    const validation = validationNames(schemaDef);
+    const { client, recordType, listParamsType } = apiClientNames(schemaDef);
 
     return `import { useState, useCallback } from 'react';
-import { ${className}, New${className} } from '@/db/schema';
-
-interface ${className}State {
-  records: ${className}[];
-  loading: boolean;
-  error: string | null;
-  pagination: {
-    limit: number;
-    offset: number;
-    total: number;
-    hasMore: boolean;
-  } | null;
-}
-
-interface ${className}Actions {
-  fetchAll: (params?: { limit?: number; offset?: number; user_id?: string }) => Promise<void>;
-  fetchById: (id: number) => Promise<${className} | null>;
-  create: (data: New${className}) => Promise<${className} | null>;
-  update: (id: number, data: Partial<New${className}>) => Promise<${className} | null>;
-  delete: (id: number) => Promise<boolean>;
-  clearError: () => void;
-}
+import type { ZodIssue } from 'zod';
+import type { ${validation.insertType}, ${
+      validation.updateType
+    } } from '@/db/validation';
+import {
+  ApiError,
+  ${client},
+  type ${recordType},
+  type ${listParamsType},
+} from '@/lib/api-client';
+import type { Pagination } from '@/lib/list-params';
+
+export type { ${recordType}, ${listParamsType} } from '@/lib/api-client';
+
+${this.hookTypes(schemaDef)}
 
 export function ${hookName}() {
   const [state, setState] = useState<${className}State>({
     records: [],
     loading: false,
     error: null,
+    issues: [],
     pagination: null,
   });
 
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
+    setState(prev => ({ ...prev, error: null, issues: [] }));
   }, []);
 
-  const fetchAll = useCallback(async (params?: { limit?: number; offset?: number; user_id?: string }) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-
-    try {
-      const searchParams = new URLSearchParams();
-      if (params?.limit) searchParams.set('limit', params.limit.toString());
-      if (params?.offset) searchParams.set('offset', params.offset.toString());
-      if (params?.user_id) searchParams.set('user_id', params.user_id);
-
-      const response = await fetch(\`${apiEndpoint}?\${searchParams}\`);
-      const result = await response.json();
+  const start = useCallback(() => {
+    setState(prev => ({ ...prev, loading: true, error: null, issues: [] }));
+  }, []);
 
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to fetch ${tableName}');
-      }
+  const fail = useCallback((error: unknown) => {
+    setState(prev => ({
+      ...prev,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      issues: error instanceof ApiError ? error.issues : [],
+      loading: false,
+    }));
+  }, []);
 
-      setState(prev => ({
-        ...prev,
-        records: result.data,
-        pagination: result.pagination,
-        loading: false,
-      }));
+  const fetchAll = useCallback(async (params?: ${listParamsType}) => {
+    start();
+    try {
+      const { data, pagination } = await ${client}.list(params);
+      setState(prev => ({ ...prev, records: data, pagination, loading: false }));
     } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        loading: false,
-      }));
+      fail(error);
     }
-  }, []);
-
-  const fetchById = useCallback(async (id: number): Promise<${className} | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+  }, [start, fail]);
 
+  const fetchById = useCallback(async (id: number): Promise<${recordType} | null> => {
+    start();
     try {
-      const response = await fetch(\`${apiEndpoint}?id=\${id}\`);
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to fetch ${tableName}');
-      }
-
+      const record = await ${client}.get(id);
       setState(prev => ({ ...prev, loading: false }));
-      return result.data;
+      return record;
     } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        loading: false,
-      }));
+      fail(error);
       return null;
     }
-  }, []);
-
-  const create = useCallback(async (data: New${className}): Promise<${className} | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+  }, [start, fail]);
 
+  const create = useCallback(async (data: ${
+    validation.insertType
+  }): Promise<${recordType} | null> => {
+    start();
     try {
-      const response = await fetch('${apiEndpoint}', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to create ${tableName}');
-      }
-
+      const record = await ${client}.create(data);
       setState(prev => ({
         ...prev,
-        records: [result.data, ...prev.records],
+        records: [record, ...prev.records],
         loading: false,
       }));
-
-      return result.data;
+      return record;
     } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        loading: false,
-      }));
+      fail(error);
       return null;
     }
-  }, []);
-
-  const update = useCallback(async (id: number, data: Partial<New${className}>): Promise<${className} | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+  }, [start, fail]);
 
+  const update = useCallback(async (id: number, data: ${
+    validation.updateType
+  }): Promise<${recordType} | null> => {
+    start();
     try {
-      const response = await fetch(\`${apiEndpoint}?id=\${id}\`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to update ${tableName}');
-      }
-
+      const record = await ${client}.update(id, data);
       setState(prev => ({
         ...prev,
-        records: prev.records.map(record =>
-          record.id === id ? result.data : record
-        ),
+        records: prev.records.map(existing => (existing.id === id ? record : existing)),
         loading: false,
       }));
-
-      return result.data;
+      return record;
     } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        loading: false,
-      }));
+      fail(error);
       return null;
     }
-  }, []);
+  }, [start, fail]);
 
   const deleteRecord = useCallback(async (id: number): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-
+    start();
     try {
-      const response = await fetch(\`${apiEndpoint}?id=\${id}\`, {
-        method: 'DELETE',
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to delete ${tableName}');
-      }
-
+      await ${client}.delete(id);
       setState(prev => ({
         ...prev,
         records: prev.records.filter(record => record.id !== id),
         loading: false,
       }));
-
       return true;
     } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        loading: false,
-      }));
+      fail(error);
       return false;
     }
-  }, []);
+  }, [start, fail]);
 
   const actions: ${className}Actions = {
     fetchAll,
@@ -393,196 +415,528 @@ export function ${hookName}() {
     data: state,
     loading: state.loading,
     error: state.error,
+    issues: state.issues,
     ...actions,
   };
 }
 `;
   }
 
-  private async integrateIntoSpotifyComponents(
-    schemaDefinitions: SchemaDefinition[],
-    query: string
-  ) {
-    const queryAnalysis = this.analyzeQueryForUIIntegration(
-      query,
-      schemaDefinitions
+  // State and actions every hook returns; cached hooks can also refetch
+  // their list
+  private hookTypes(schemaDef: SchemaDefinition): string {
+    const className = toPascalCase(schemaDef.tableName);
+    const validation = validationNames(schemaDef);
+    const { recordType, listParamsType } = apiClientNames(schemaDef);
+    const refresh =
+      this.hookStrategy.name === "plain"
+        ? ""
+        : "\n  refresh: () => Promise<void>;";
+
+    return `interface ${className}State {
+  records: ${recordType}[];
+  loading: boolean;
+  error: string | null;
+  issues: ZodIssue[];
+  pagination: Pagination | null;
+}
+
+interface ${className}Actions {
+  fetchAll: (params?: ${listParamsType}) => Promise<void>;
+  fetchById: (id: number) => Promise<${recordType} | null>;
+  create: (data: ${validation.insertType}) => Promise<${recordType} | null>;
+  update: (id: number, data: ${validation.updateType}) => Promise<${recordType} | null>;
+  delete: (id: number) => Promise<boolean>;
+  clearError: () => void;${refresh}
+}`;
+  }
+
+  // Imports, types and helpers the SWR and TanStack Query hooks share
+  private cachedHookHeader(
+    schemaDef: SchemaDefinition,
+    libraryImports: string
+  ): string {
+    const validation = validationNames(schemaDef);
+    const { client, recordType, listParamsType } = apiClientNames(schemaDef);
+
+    return `import { useCallback, useState } from 'react';
+${libraryImports}
+import type { ZodIssue } from 'zod';
+import type { ${validation.insertType}, ${
+      validation.updateType
+    } } from '@/db/validation';
+import {
+  ApiError,
+  ${client},
+  type Page,
+  type ${recordType},
+  type ${listParamsType},
+} from '@/lib/api-client';
+import type { Pagination } from '@/lib/list-params';
+${
+  this.hookStrategy.name === "swr"
+    ? "import { matchesKey, queryKeys } from '@/lib/query-keys';"
+    : "import { queryKeys } from '@/lib/query-keys';"
+}
+
+export type { ${recordType}, ${listParamsType} } from '@/lib/api-client';
+
+${this.hookTypes(schemaDef)}
+
+const keys = queryKeys.${client};
+
+// The record with the changes applied the way the API returns it (JSON
+// turns dates into strings)
+function withChanges(record: ${recordType}, data: ${
+      validation.updateType
+    }): ${recordType} {
+  return { ...record, ...JSON.parse(JSON.stringify(data)) };
+}
+
+function errorMessage(error: unknown): string | null {
+  if (!error) return null;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+`;
+  }
+
+  // TanStack Query: every list of the table shares the cache; updates and
+  // deletes show in all of them before the request is sent and are rolled
+  // back when it fails
+  private generateReactQueryHook(schemaDef: SchemaDefinition): string {
+    const className = toPascalCase(schemaDef.tableName);
+    const hookName = `use${className}`;
+    const validation = validationNames(schemaDef);
+    const { client, recordType, listParamsType } = apiClientNames(schemaDef);
+
+    return `${this.cachedHookHeader(
+      schemaDef,
+      `import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';`
+    )}
+export function ${hookName}(initialParams?: ${listParamsType}) {
+  const queryClient = useQueryClient();
+  const [params, setParams] = useState(initialParams);
+  const [mutationError, setMutationError] = useState<unknown>(null);
+
+  const list = useQuery({
+    queryKey: keys.list(params),
+    queryFn: () => ${client}.list(params),
+    placeholderData: keepPreviousData,
+  });
+
+  // Applies a change to every cached list of the table and returns the
+  // pages it replaced, for restore()
+  const patchLists = async (change: (records: ${recordType}[]) => ${recordType}[]) => {
+    await queryClient.cancelQueries({ queryKey: keys.lists() });
+    const previous = queryClient.getQueriesData<Page<${recordType}>>({ queryKey: keys.lists() });
+    queryClient.setQueriesData<Page<${recordType}>>({ queryKey: keys.lists() }, page =>
+      page && { ...page, data: change(page.data) }
     );
+    return previous;
+  };
 
-    if (queryAnalysis.shouldUpdateMainContent) {
-      await this.updateSpotifyMainContent(schemaDefinitions, queryAnalysis);
-      console.log(
-        chalk.cyan("   🎵 Updated SpotifyMainContent to use database data")
-      );
+  const restore = (previous?: Awaited<ReturnType<typeof patchLists>>) => {
+    previous?.forEach(([key, page]) => queryClient.setQueryData(key, page));
+  };
+
+  // Once a change settles, every list and record of the table is refetched
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: keys.all });
+
+  const createMutation = useMutation({
+    mutationFn: (data: ${validation.insertType}) => ${client}.create(data),
+    onSuccess: record => queryClient.setQueryData(keys.detail(record.id), record),
+    onSettled: invalidate,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: ${
+      validation.updateType
+    } }) => ${client}.update(id, data),
+    onMutate: ({ id, data }) =>
+      patchLists(records =>
+        records.map(record => (record.id === id ? withChanges(record, data) : record))
+      ),
+    onError: (_error, _variables, previous) => restore(previous),
+    onSuccess: record => queryClient.setQueryData(keys.detail(record.id), record),
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => ${client}.delete(id),
+    onMutate: id => patchLists(records => records.filter(record => record.id !== id)),
+    onError: (_error, _id, previous) => restore(previous),
+    onSuccess: (_record, id) => queryClient.removeQueries({ queryKey: keys.detail(id) }),
+    onSettled: invalidate,
+  });
+
+  // Runs an action, keeping its error in state instead of throwing
+  const run = useCallback(async <T>(action: () => Promise<T>): Promise<T | null> => {
+    setMutationError(null);
+    try {
+      return await action();
+    } catch (error) {
+      setMutationError(error);
+      return null;
     }
+  }, []);
 
-    if (queryAnalysis.shouldUpdateSidebar) {
-      await this.updateSpotifySidebar(schemaDefinitions, queryAnalysis);
-      console.log(
-        chalk.cyan("   📱 Updated SpotifySidebar to use database data")
-      );
+  // Switches the list to \`next\`; a list that is already showing refetches
+  const fetchAll = useCallback(async (next?: ${listParamsType}) => {
+    setParams(next);
+    await queryClient.refetchQueries({ queryKey: keys.list(next), exact: true });
+  }, [queryClient]);
+
+  const fetchById = useCallback((id: number) => run(() =>
+    queryClient.fetchQuery({ queryKey: keys.detail(id), queryFn: () => ${client}.get(id) })
+  ), [queryClient, run]);
+
+  const create = useCallback((data: ${validation.insertType}) =>
+    run(() => createMutation.mutateAsync(data)), [createMutation.mutateAsync, run]);
+
+  const update = useCallback((id: number, data: ${validation.updateType}) =>
+    run(() => updateMutation.mutateAsync({ id, data })), [updateMutation.mutateAsync, run]);
+
+  const deleteRecord = useCallback(async (id: number) =>
+    (await run(() => deleteMutation.mutateAsync(id))) !== null, [deleteMutation.mutateAsync, run]);
+
+  const clearError = useCallback(() => setMutationError(null), []);
+
+  const { refetch } = list;
+  const refresh = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+
+  const error = mutationError ?? list.error;
+  const state: ${className}State = {
+    records: list.data?.data ?? [],
+    loading:
+      list.isLoading ||
+      createMutation.isPending ||
+      updateMutation.isPending ||
+      deleteMutation.isPending,
+    error: errorMessage(error),
+    issues: error instanceof ApiError ? error.issues : [],
+    pagination: list.data?.pagination ?? null,
+  };
+
+  const actions: ${className}Actions = {
+    fetchAll,
+    fetchById,
+    create,
+    update,
+    delete: deleteRecord,
+    clearError,
+    refresh,
+  };
+
+  return {
+    data: state,
+    loading: state.loading,
+    error: state.error,
+    issues: state.issues,
+    ...actions,
+  };
+}
+`;
+  }
+
+  // SWR: lists share the cache by key. Updates and deletes show in this
+  // hook's list while the request runs, SWR rolls them back when it fails,
+  // and every list and record of the table revalidates afterwards.
+  private generateSwrHook(schemaDef: SchemaDefinition): string {
+    const className = toPascalCase(schemaDef.tableName);
+    const hookName = `use${className}`;
+    const validation = validationNames(schemaDef);
+    const { client, recordType, listParamsType } = apiClientNames(schemaDef);
+
+    return `${this.cachedHookHeader(
+      schemaDef,
+      "import useSWR, { useSWRConfig } from 'swr';"
+    )}
+export function ${hookName}(initialParams?: ${listParamsType}) {
+  const { mutate } = useSWRConfig();
+  const [params, setParams] = useState(initialParams);
+  const [mutationError, setMutationError] = useState<unknown>(null);
+  const [pending, setPending] = useState(0);
+
+  const list = useSWR(keys.list(params), () => ${client}.list(params));
+  const { data: page, mutate: mutateList } = list;
+
+  // Runs an action, keeping its error in state instead of throwing.
+  // Changes revalidate every cached list and record of the table.
+  const run = useCallback(async <T>(action: () => Promise<T>, changes = false): Promise<T | null> => {
+    setMutationError(null);
+    setPending(count => count + 1);
+    try {
+      return await action();
+    } catch (error) {
+      setMutationError(error);
+      return null;
+    } finally {
+      setPending(count => count - 1);
+      if (changes) await mutate(matchesKey(keys.all));
     }
+  }, [mutate]);
+
+  // Shows \`change\` in the list while the request runs
+  const optimistic = useCallback(<T>(
+    request: () => Promise<T>,
+    change: (records: ${recordType}[]) => ${recordType}[]
+  ) => {
+    if (!page) return run(request, true);
+    const apply = (current: Page<${recordType}> = page) => ({
+      ...current,
+      data: change(current.data),
+    });
+    return run(async () => {
+      let result: T | undefined;
+      await mutateList(async current => {
+        result = await request();
+        return apply(current);
+      }, {
+        optimisticData: current => apply(current),
+        rollbackOnError: true,
+        revalidate: false,
+      });
+      return result as T;
+    }, true);
+  }, [page, mutateList, run]);
+
+  // Switches the list to \`next\`; a list that is already showing revalidates
+  const fetchAll = useCallback(async (next?: ${listParamsType}) => {
+    setParams(next);
+    await mutate(keys.list(next));
+  }, [mutate]);
+
+  const fetchById = useCallback((id: number) => run(async () => {
+    const record = await ${client}.get(id);
+    await mutate(keys.detail(id), record, { revalidate: false });
+    return record;
+  }), [mutate, run]);
+
+  const create = useCallback((data: ${validation.insertType}) =>
+    run(() => ${client}.create(data), true), [run]);
+
+  const update = useCallback((id: number, data: ${validation.updateType}) =>
+    optimistic(() => ${client}.update(id, data), records =>
+      records.map(record => (record.id === id ? withChanges(record, data) : record))
+    ), [optimistic]);
+
+  const deleteRecord = useCallback(async (id: number) =>
+    (await optimistic(() => ${client}.delete(id), records =>
+      records.filter(record => record.id !== id)
+    )) !== null, [optimistic]);
+
+  const clearError = useCallback(() => setMutationError(null), []);
+
+  const refresh = useCallback(async () => {
+    await mutateList();
+  }, [mutateList]);
+
+  const error = mutationError ?? list.error;
+  const state: ${className}State = {
+    records: page?.data ?? [],
+    loading: list.isLoading || pending > 0,
+    error: errorMessage(error),
+    issues: error instanceof ApiError ? error.issues : [],
+    pagination: page?.pagination ?? null,
+  };
 
-    await this.updateHooksIndex();
-    console.log(chalk.cyan("   📦 Updated hooks index"));
+  const actions: ${className}Actions = {
+    fetchAll,
+    fetchById,
+    create,
+    update,
+    delete: deleteRecord,
+    clearError,
+    refresh,
+  };
+
+  return {
+    data: state,
+    loading: state.loading,
+    error: state.error,
+    issues: state.issues,
+    ...actions,
+  };
+}
+`;
   }
 
-  private analyzeQueryForUIIntegration(
-    query: string,
-    schemaDefinitions: SchemaDefinition[]
+  // Query keys, the provider and the hydration helpers for every table with
+  // routes, and <Providers> in the root layout. A project that used
+  // `previous` before this run gets the hooks it generated rewritten, and
+  // loses the files only that strategy needed.
+  async updateQueryCache(
+    allDefinitions: SchemaDefinition[],
+    previous: HookStrategy = this.hookStrategy,
+    generated: SchemaDefinition[] = []
   ) {
-    const lowerQuery = query.toLowerCase();
-    const analysis = {
-      shouldUpdateMainContent: false,
-      shouldUpdateSidebar: false,
-      sections: [] as Array<{
-        sectionName: string;
-        targetArray: string;
-        schema: SchemaDefinition;
-        hookName: string;
-      }>,
-    };
-
-    const uiMappings = [
-      {
-        keywords: ["recently played", "recent", "history", "last played"],
-        sectionName: "Recently Played",
-        targetArray: "recentlyPlayed",
-        component: "main",
-      },
-      {
-        keywords: ["made for you", "curated", "recommendations", "suggested"],
-        sectionName: "Made For You",
-        targetArray: "madeForYou",
-        component: "main",
-      },
-      {
-        keywords: [
-          "popular albums",
-          "popular",
-          "trending albums",
-          "top albums",
-        ],
-        sectionName: "Popular Albums",
-        targetArray: "popularAlbums",
-        component: "main",
-      },
-      {
-        keywords: ["playlist", "playlists", "user playlist", "my playlist"],
-        sectionName: "Playlists",
-        targetArray: "recentlyPlayed",
-        component: "sidebar",
-      },
-      {
-        keywords: ["liked songs", "favorites", "saved songs", "hearted"],
-        sectionName: "Liked Songs",
-        targetArray: "recentlyPlayed",
-        component: "sidebar",
-      },
-    ];
-
-    for (const schema of schemaDefinitions) {
-      const tableName = schema.tableName.toLowerCase();
-      const schemaKeywords = tableName.split("_").concat(tableName.split("-"));
-
-      const matchingMapping = uiMappings.find((mapping) => {
-        const queryMatches = mapping.keywords.some((keyword) =>
-          lowerQuery.includes(keyword)
+    const tables = tablesWithRoutes(this.changeSet, allDefinitions);
+    // Undo removed the last routes: nothing is left to cache
+    const strategy = tables.length ? this.hookStrategy : HOOK_STRATEGIES.plain;
+    const wanted = queryCacheFiles(strategy);
+
+    for (const file of queryCacheFiles(previous)) {
+      const filePath = path.join(process.cwd(), file);
+      if (wanted.includes(file) || !this.changeSet.exists(filePath)) continue;
+      this.changeSet.deleteFile(filePath);
+      console.log(chalk.gray(`   🗑️  Removed: ${file.replace("src/", "")}`));
+    }
+    for (const file of wanted) {
+      const filePath = path.join(process.cwd(), file);
+      const content = queryCacheSource(file, strategy, tables);
+      if (
+        this.changeSet.exists(filePath) &&
+        this.changeSet.readFile(filePath) === content
+      )
+        continue;
+      this.changeSet.writeFile(filePath, content);
+      console.log(
+        chalk.gray(
+          `   📁 Updated: ${file.replace("src/", "")}${
+            file === HYDRATION_FILE ? ` (${tables.length} table(s))` : ""
+          }`
+        )
+      );
+    }
+    this.updateLayout(strategy);
+
+    if (strategy !== previous) {
+      const hooksDir = path.join(process.cwd(), "src", "hooks");
+      for (const def of tables) {
+        const hookPath = path.join(
+          hooksDir,
+          `use${toPascalCase(def.tableName)}.ts`
         );
-
-        const schemaMatches = mapping.keywords.some((keyword) =>
-          keyword
-            .split(" ")
-            .every((word) =>
-              schemaKeywords.some(
-                (schemaWord) =>
-                  schemaWord.includes(word) || word.includes(schemaWord)
-              )
-            )
+        if (
+          generated.some((g) => g.tableName === def.tableName) ||
+          !this.changeSet.exists(hookPath)
+        )
+          continue;
+        await this.generateReactHook(def);
+        console.log(
+          chalk.gray(
+            `   🪝 Rewrote for ${strategy.label}: ${path.basename(hookPath)}`
+          )
         );
-
-        return queryMatches || schemaMatches;
-      });
-
-      if (matchingMapping) {
-        const hookName = `use${toPascalCase(schema.tableName)}`;
-
-        analysis.sections.push({
-          sectionName: matchingMapping.sectionName,
-          targetArray: matchingMapping.targetArray,
-          schema,
-          hookName,
-        });
-
-        if (matchingMapping.component === "main") {
-          analysis.shouldUpdateMainContent = true;
-        } else if (matchingMapping.component === "sidebar") {
-          analysis.shouldUpdateSidebar = true;
-        }
       }
     }
 
-    if (analysis.sections.length === 0) {
-      for (const schema of schemaDefinitions) {
-        const hookName = `use${toPascalCase(schema.tableName)}`;
+    return this.installPackages(strategy);
+  }
 
-        const hasTitle = schema.fields.some((f) =>
-          ["title", "name", "song_title", "track_title"].includes(
-            f.name.toLowerCase()
+  private updateLayout(strategy: HookStrategy) {
+    const layoutPath = path.join(process.cwd(), LAYOUT_FILE);
+    if (!this.changeSet.exists(layoutPath)) {
+      if (strategy.name !== "plain")
+        console.log(
+          chalk.yellow(
+            "   ⚠️  No src/app/layout.tsx: wrap the app in <Providers> from src/app/providers.tsx"
           )
         );
-        const hasArtist = schema.fields.some((f) =>
-          ["artist", "artist_name", "creator"].includes(f.name.toLowerCase())
-        );
+      return;
+    }
+    const layout = this.changeSet.readFile(layoutPath);
+    const updated =
+      strategy.name === "plain"
+        ? unwrapLayoutChildren(layout)
+        : wrapLayoutChildren(layout);
+    if (updated === null) return;
+    this.changeSet.writeFile(layoutPath, updated);
+    console.log(chalk.gray("   📁 Updated: app/layout.tsx"));
+  }
 
-        if (hasTitle && hasArtist) {
-          analysis.sections.push({
-            sectionName: `${toPascalCase(schema.tableName)} Collection`,
-            targetArray: "recentlyPlayed",
-            schema,
-            hookName,
-          });
-          analysis.shouldUpdateMainContent = true;
-        } else {
-          console.log(
-            chalk.yellow(
-              `   ⚠️  Schema ${schema.tableName} doesn't match known UI patterns`
-            )
-          );
-        }
-      }
+  // Installs the packages the strategy imports that package.json lacks
+  private installPackages(strategy: HookStrategy): boolean {
+    const packageJson = path.join(process.cwd(), "package.json");
+    const manifest = this.changeSet.exists(packageJson)
+      ? JSON.parse(this.changeSet.readFile(packageJson))
+      : {};
+    const installed = {
+      ...manifest.dependencies,
+      ...manifest.devDependencies,
+    };
+    const missing = strategy.packages.filter((p) => !installed[p]);
+    if (missing.length === 0) return true;
+
+    const install = `npm install ${missing.join(" ")}`;
+    if (!this.changeSet.runCommand(install)) return true;
+    console.log(chalk.gray(`   📦 Installing ${missing.join(", ")}...`));
+    try {
+      execSync(install, { stdio: "pipe", cwd: process.cwd() });
+      return true;
+    } catch (e: any) {
+      console.log(
+        chalk.red(`❌ Installing ${missing.join(", ")} failed: ${e.message}`)
+      );
+      return false;
     }
+  }
 
-    return analysis;
+  // A GET query for the console, e.g. durationSeconds[gte]=1&sort=-createdAt
+  private listQueryExample(schemaDef: SchemaDefinition): string {
+    const fields = listFields(schemaDef);
+    const number = fields.find((f) => f.type === "number" && f.key !== "id");
+    const sort = fields.some(
+      (f) => f.key === columnKey(schemaDef, "created_at")
+    )
+      ? columnKey(schemaDef, "created_at")
+      : "id";
+    return [
+      ...(number ? [`${number.key}[gte]=1`] : []),
+      `sort=-${sort}`,
+      "limit=20",
+    ].join("&");
   }
 
-  private async updateSpotifyMainContent(
+  private async integrateIntoSpotifyComponents(
     schemaDefinitions: SchemaDefinition[],
-    queryAnalysis: any
+    query: string
   ) {
-    const uiIntegrator = new (await import("./ui-integrator")).UIIntegrator();
+    const uiIntegrator = new UIIntegrator();
     uiIntegrator.setModel(this.model);
-    await uiIntegrator.updateSpotifyMainContent(
-      schemaDefinitions,
-      queryAnalysis
+    uiIntegrator.setChangeSet(this.changeSet);
+    uiIntegrator.setHookStrategy(this.hookStrategy);
+
+    const queryAnalysis = uiIntegrator.analyzeQueryForUIIntegration(
+      query,
+      schemaDefinitions
     );
-  }
 
-  private async updateSpotifySidebar(
-    schemaDefinitions: SchemaDefinition[],
-    queryAnalysis: any
-  ) {
-    const uiIntegrator = new (await import("./ui-integrator")).UIIntegrator();
-    uiIntegrator.setModel(this.model);
-    await uiIntegrator.updateSpotifySidebar(schemaDefinitions, queryAnalysis);
+    if (queryAnalysis.shouldUpdateMainContent) {
+      await uiIntegrator.updateSpotifyMainContent(
+        schemaDefinitions,
+        queryAnalysis
+      );
+      console.log(
+        chalk.cyan("   🎵 Updated SpotifyMainContent to use database data")
+      );
+    }
+
+    if (queryAnalysis.shouldUpdateSidebar) {
+      await uiIntegrator.updateSpotifySidebar(schemaDefinitions, queryAnalysis);
+      console.log(
+        chalk.cyan("   📱 Updated SpotifySidebar to use database data")
+      );
+    }
+
+    await this.updateHooksIndex();
+    console.log(chalk.cyan("   📦 Updated hooks index"));
   }
 
-  private async updateHooksIndex() {
+  async updateHooksIndex() {
     const hooksDir = path.join(process.cwd(), "src", "hooks");
     const indexPath = path.join(hooksDir, "index.ts");
 
-    if (fs.existsSync(hooksDir)) {
-      const hookFiles = fs
-        .readdirSync(hooksDir)
+    if (this.changeSet.exists(hooksDir)) {
+      const hookFiles = this.changeSet
+        .readDir(hooksDir)
         .filter((f) => f.endsWith(".ts") && f !== "index.ts")
         .map((f) => f.replace(".ts", ""));
 
@@ -591,7 +945,7 @@ export function ${hookName}() {
         .join("\n")}
 `;
 
-      fs.writeFileSync(indexPath, indexContent);
+      this.changeSet.writeFile(indexPath, indexContent);
     }
   }
 
@@ -627,7 +981,28 @@ function MyComponent() {
     </div>
   );
 }
-    `)
+
+// Or call the API client, e.g. from server code with the app's origin:
+import { createApiClient } from '@/lib/api-client';
+
+const api = createApiClient({ baseUrl: process.env.APP_URL });
+const { data, pagination } = await api.${
+        apiClientNames(schemaDefinitions[0]).client
+      }.list({ limit: 10 });
+${
+  this.hookStrategy.name === "plain"
+    ? ""
+    : `
+// Prefetch in a server component so the hook starts with data:
+import { Hydrate, prefetch } from '@/lib/hydration';
+
+<Hydrate queries={[prefetch.${
+        apiClientNames(schemaDefinitions[0]).client
+      }.list({ limit: 20 })]}>
+  <MyComponent />
+</Hydrate>
+`
+}    `)
     );
   }
 }
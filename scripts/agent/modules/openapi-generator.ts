@@ -0,0 +1,678 @@
+import * as path from "path";
+import chalk from "chalk";
+import {
+  ACCESS_OPERATIONS,
+  AccessOperation,
+  isPublicRule,
+} from "../core/access-policy";
+import { SESSION_COOKIE } from "../core/auth-files";
+import { ChangeSet } from "../core/change-set";
+import {
+  ColumnType,
+  isNullableField,
+  parseColumnType,
+} from "../core/column-types";
+import { listFields } from "../core/list-query";
+import { TableRelation, tableRelations } from "../core/relationships";
+import { AccessPolicy, SchemaDefinition } from "../types";
+import { columnKey, toPascalCase } from "../utils";
+import { apiEndpoint, tablesWithRoutes } from "./api-generator";
+import { bodyFields } from "./validation-generator";
+
+// The OpenAPI document of the generated routes, the route serving it and a
+// page rendering it. Only the document depends on the tables.
+export const OPENAPI_SPEC_FILE = "src/lib/openapi.json";
+const OPENAPI_ROUTE_FILE = "src/app/api/openapi.json/route.ts";
+const API_DOCS_PAGE = "src/app/api-docs/page.tsx";
+
+type JsonSchema = Record<string, any>;
+
+const INTEGER_BUILDERS = [
+  "serial",
+  "smallserial",
+  "bigserial",
+  "integer",
+  "smallint",
+  "bigint",
+];
+
+// Regenerates openapi.json from the definitions of every table that has
+// routes under src/app/api
+export class OpenApiGenerator {
+  private changeSet = new ChangeSet();
+
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  async updateOpenApiSpec(allDefinitions: SchemaDefinition[]) {
+    const documented = tablesWithRoutes(this.changeSet, allDefinitions);
+    const files = [
+      [OPENAPI_SPEC_FILE, null],
+      [OPENAPI_ROUTE_FILE, OPENAPI_ROUTE_SOURCE],
+      [API_DOCS_PAGE, API_DOCS_SOURCE],
+    ] as const;
+
+    if (documented.length === 0) {
+      // Undo removed the last routes
+      for (const [file] of files) {
+        const filePath = path.join(process.cwd(), file);
+        if (this.changeSet.exists(filePath))
+          this.changeSet.deleteFile(filePath);
+      }
+      return;
+    }
+
+    const spec = `${JSON.stringify(
+      this.generateSpec(documented, allDefinitions),
+      null,
+      2
+    )}\n`;
+    for (const [file, source] of files) {
+      const filePath = path.join(process.cwd(), file);
+      const content = source ?? spec;
+      if (
+        this.changeSet.exists(filePath) &&
+        this.changeSet.readFile(filePath) === content
+      )
+        continue;
+      this.changeSet.writeFile(filePath, content);
+    }
+    console.log(
+      chalk.gray(
+        `   📘 OpenAPI: ${documented.length} table(s) at /api/openapi.json, docs at /api-docs`
+      )
+    );
+  }
+
+  // OpenAPI 3.1 document of the list, create, get, update and delete
+  // operations of each table
+  generateSpec(
+    documented: SchemaDefinition[],
+    allDefinitions: SchemaDefinition[] = documented
+  ): JsonSchema {
+    const schemas: JsonSchema = {
+      Error: ERROR_SCHEMA,
+      Pagination: PAGINATION_SCHEMA,
+    };
+    const paths: JsonSchema = {};
+
+    for (const def of documented) {
+      const name = toPascalCase(def.tableName);
+      const relations = tableRelations(def, allDefinitions);
+      schemas[name] = this.recordSchema(def, relations, documented);
+      schemas[`${name}Insert`] = this.bodySchema(def, true);
+      schemas[`${name}Update`] = this.bodySchema(def, false);
+
+      const endpoint = apiEndpoint(def);
+      const tags = [def.tableName];
+      const include = relations.length
+        ? [
+            {
+              name: "include",
+              in: "query",
+              description: `Comma-separated relations to load: ${relations
+                .map((r) => r.name)
+                .join(", ")}`,
+              schema: { type: "string" },
+            },
+          ]
+        : [];
+      const id = {
+        name: "id",
+        in: "path",
+        required: true,
+        schema: { type: "integer", minimum: 1 },
+      };
+
+      paths[endpoint] = {
+        get: {
+          operationId: `list${name}`,
+          tags,
+          summary: `List ${def.tableName}`,
+          description: LIST_DESCRIPTION,
+          parameters: [...this.listParameters(def), ...include],
+          responses: {
+            200: json("A page of records", {
+              type: "object",
+              required: ["success", "data", "pagination"],
+              properties: {
+                success: { const: true },
+                data: { type: "array", items: ref(name) },
+                pagination: ref("Pagination"),
+              },
+            }),
+            400: ERROR_RESPONSES[400],
+            500: ERROR_RESPONSES[500],
+          },
+        },
+        post: {
+          operationId: `create${name}`,
+          tags,
+          summary: `Create a ${def.tableName} record`,
+          requestBody: body(`${name}Insert`),
+          responses: {
+            201: json("The created record", data(name)),
+            400: ERROR_RESPONSES[400],
+            500: ERROR_RESPONSES[500],
+          },
+        },
+      };
+      paths[`${endpoint}/{id}`] = {
+        parameters: [id],
+        get: {
+          operationId: `get${name}`,
+          tags,
+          summary: `Get a ${def.tableName} record`,
+          ...(include.length ? { parameters: include } : {}),
+          responses: {
+            200: json("The record", data(name)),
+            ...ERROR_RESPONSES,
+          },
+        },
+        put: {
+          operationId: `update${name}`,
+          tags,
+          summary: `Update a ${def.tableName} record`,
+          requestBody: body(`${name}Update`),
+          responses: {
+            200: json("The updated record", data(name)),
+            ...ERROR_RESPONSES,
+          },
+        },
+        delete: {
+          operationId: `delete${name}`,
+          tags,
+          summary: `Delete a ${def.tableName} record`,
+          responses: {
+            200: json("The deleted record", data(name)),
+            ...ERROR_RESPONSES,
+          },
+        },
+      };
+      if (def.owner) {
+        requireSession(paths[endpoint], false);
+        requireSession(paths[`${endpoint}/{id}`], true);
+      }
+      if (def.access) {
+        requireAccess(paths[endpoint], def.access, {
+          get: "read",
+          post: "create",
+        });
+        requireAccess(paths[`${endpoint}/{id}`], def.access, {
+          get: "read",
+          put: "update",
+          delete: "delete",
+        });
+      }
+    }
+
+    const scoped = documented.some(
+      (def) =>
+        def.owner ||
+        ACCESS_OPERATIONS.some((op) => !isPublicRule(def.access?.[op]))
+    );
+    return {
+      openapi: "3.1.0",
+      info: this.info(),
+      servers: [{ url: "/" }],
+      tags: documented.map((def) => ({ name: def.tableName })),
+      paths,
+      components: {
+        schemas,
+        ...(scoped ? { securitySchemes: SECURITY_SCHEMES } : {}),
+      },
+    };
+  }
+
+  private info() {
+    const packagePath = path.join(process.cwd(), "package.json");
+    const pkg = this.changeSet.exists(packagePath)
+      ? JSON.parse(this.changeSet.readFile(packagePath))
+      : {};
+    return {
+      title: "Spotify Clone API",
+      version: pkg.version ?? "0.1.0",
+      description:
+        "Routes generated by the database agent. Regenerated with them; don't edit by hand.",
+    };
+  }
+
+  // A row as the API returns it; relations appear when ?include asks for them
+  private recordSchema(
+    def: SchemaDefinition,
+    relations: TableRelation[],
+    documented: SchemaDefinition[]
+  ): JsonSchema {
+    const properties: JsonSchema = {};
+    const hidden = def.access?.hidden ?? {};
+    for (const field of def.fields) {
+      const column = parseColumnType(field.type);
+      const schema = column ? this.columnSchema(column, false) : {};
+      const property = isNullableField(field) ? nullable(schema) : schema;
+      properties[columnKey(def, field.name)] = hidden[field.name]
+        ? {
+            ...property,
+            description: "Left out for users the access policy hides it from",
+          }
+        : property;
+    }
+    for (const relation of relations) {
+      const target = documented.find((d) => d.tableName === relation.table);
+      const item = target
+        ? ref(toPascalCase(target.tableName))
+        : { type: "object" };
+      properties[relation.name] = {
+        ...(relation.kind === "many"
+          ? { type: "array", items: item }
+          : { anyOf: [item, { type: "null" }] }),
+        description: `Loaded with ?include=${relation.name}`,
+      };
+    }
+    return {
+      type: "object",
+      required: def.fields
+        .filter((f) => !hidden[f.name])
+        .map((f) => columnKey(def, f.name)),
+      properties,
+    };
+  }
+
+  // The rules of the Zod body schemas in src/db/validation
+  private bodySchema(def: SchemaDefinition, insert: boolean): JsonSchema {
+    const fields = bodyFields(def);
+    const properties: JsonSchema = {};
+    for (const { column, required, nullable: canBeNull, key } of fields) {
+      const schema = column
+        ? this.columnSchema(column, true, insert && required)
+        : {};
+      properties[key] = canBeNull ? nullable(schema) : schema;
+    }
+    return insert
+      ? {
+          type: "object",
+          required: fields.filter((f) => f.required).map((f) => f.key),
+          properties,
+        }
+      : { type: "object", minProperties: 1, properties };
+  }
+
+  private columnSchema(
+    column: ColumnType,
+    body: boolean,
+    nonEmpty = false
+  ): JsonSchema {
+    const value = this.valueSchema(column, body, nonEmpty && !column.isArray);
+    return column.isArray ? { type: "array", items: value } : value;
+  }
+
+  private valueSchema(
+    column: ColumnType,
+    body: boolean,
+    nonEmpty: boolean
+  ): JsonSchema {
+    if (column.kind === "enum")
+      return { type: "string", enum: column.enumValues };
+    if (INTEGER_BUILDERS.includes(column.builder)) return { type: "integer" };
+    switch (column.builder) {
+      case "real":
+      case "doublePrecision":
+        return { type: "number" };
+      // Read as a string to keep its precision; bodies may send a number
+      case "numeric":
+        return {
+          type: body ? ["string", "number"] : "string",
+          pattern: "^-?\\d+(\\.\\d+)?$",
+        };
+      case "boolean":
+        return { type: "boolean" };
+      case "json":
+      case "jsonb":
+        return {};
+      case "uuid":
+        return { type: "string", format: "uuid" };
+      case "date":
+        return { type: "string", format: "date" };
+      case "time":
+        return { type: "string", format: "time" };
+      case "timestamp":
+        return { type: "string", format: "date-time" };
+      case "varchar":
+      case "char":
+        return {
+          type: "string",
+          ...(nonEmpty ? { minLength: 1 } : {}),
+          maxLength: column.length,
+        };
+      default:
+        return { type: "string", ...(nonEmpty ? { minLength: 1 } : {}) };
+    }
+  }
+
+  // The list-query contract of src/lib/list-query.ts. Filters are listed
+  // as the eq form; the description covers the other operators.
+  private listParameters(def: SchemaDefinition): JsonSchema[] {
+    const filters = listFields(def);
+    return [
+      ...filters.map(({ key, column }) => ({
+        name: key,
+        in: "query",
+        description: `Filter on ${key}; also ${key}[ne|gt|gte|lt|lte|in${
+          column.kind === "string" && !column.enumValues.length ? "|ilike" : ""
+        }]`,
+        schema: this.valueSchema(column, false, false),
+      })),
+      {
+        name: "sort",
+        in: "query",
+        description: `Comma-separated fields, - for descending: ${filters
+          .map((f) => f.key)
+          .join(", ")}`,
+        schema: { type: "string" },
+      },
+      {
+        name: "q",
+        in: "query",
+        description: "Words that must each appear in a text field",
+        schema: { type: "string" },
+      },
+      {
+        name: "limit",
+        in: "query",
+        schema: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+      },
+      {
+        name: "offset",
+        in: "query",
+        schema: { type: "integer", minimum: 0 },
+      },
+      {
+        name: "cursor",
+        in: "query",
+        description: "pagination.nextCursor of the previous page",
+        schema: { type: "string" },
+      },
+    ];
+  }
+}
+
+// Operations of a user-scoped table: a session is required, and single
+// records of other users are a 403
+function requireSession(pathItem: JsonSchema, ownsRecord: boolean) {
+  for (const method of ["get", "post", "put", "delete"]) {
+    const operation = pathItem[method];
+    if (!operation) continue;
+    operation.security = [{ session: [] }];
+    operation.responses = {
+      ...operation.responses,
+      401: json("No valid session", ref("Error")),
+      ...(ownsRecord
+        ? { 403: json("The record belongs to another user", ref("Error")) }
+        : {}),
+    };
+  }
+}
+
+// Operations of a table with an access policy: those that aren't public need
+// a session, and those limited to roles are a 403 for everyone else
+function requireAccess(
+  pathItem: JsonSchema,
+  policy: AccessPolicy,
+  operations: Record<string, AccessOperation>
+) {
+  for (const [method, name] of Object.entries(operations)) {
+    const rule = policy[name];
+    const operation = pathItem[method];
+    if (!operation || isPublicRule(rule)) continue;
+    operation.security = [{ session: [] }];
+    operation.responses = {
+      ...operation.responses,
+      401: json("No valid session", ref("Error")),
+      ...(Array.isArray(rule) && !operation.responses[403]
+        ? {
+            403: json(
+              `Only for ${rule.length ? rule.join(" or ") : "admin"} users`,
+              ref("Error")
+            ),
+          }
+        : {}),
+    };
+  }
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  if (!("type" in schema)) return schema;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return {
+    ...schema,
+    type: [...types, "null"],
+    ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+  };
+}
+
+function json(description: string, schema: JsonSchema): JsonSchema {
+  return { description, content: { "application/json": { schema } } };
+}
+
+function body(name: string): JsonSchema {
+  return {
+    required: true,
+    content: { "application/json": { schema: ref(name) } },
+  };
+}
+
+function data(name: string): JsonSchema {
+  return {
+    type: "object",
+    required: ["success", "data"],
+    properties: { success: { const: true }, data: ref(name) },
+  };
+}
+
+const LIST_DESCRIPTION =
+  "Filter with field=value or field[op]=value, sort with sort=-field,other, " +
+  "search text fields with q, and page with limit plus offset or cursor. " +
+  "Parameters outside this contract are a 400.";
+
+const ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["success", "error"],
+  properties: {
+    success: { const: false },
+    error: { type: "string" },
+    // Set on 400s; the fields that failed validation
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["path", "message"],
+        properties: {
+          path: { type: "array", items: { type: ["string", "integer"] } },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const PAGINATION_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["limit", "offset", "total", "hasMore", "nextCursor"],
+  properties: {
+    limit: { type: "integer" },
+    // null when the page was requested by cursor
+    offset: { type: ["integer", "null"] },
+    total: { type: "integer" },
+    hasMore: { type: "boolean" },
+    nextCursor: { type: ["string", "null"] },
+  },
+};
+
+const ERROR_RESPONSES = {
+  400: json("Invalid parameters or body", ref("Error")),
+  404: json("No record with this id", ref("Error")),
+  500: json("Server error", ref("Error")),
+};
+
+const SECURITY_SCHEMES: JsonSchema = {
+  session: {
+    type: "apiKey",
+    in: "cookie",
+    name: SESSION_COOKIE,
+    description: "Set by POST /api/auth/login or /api/auth/signup",
+  },
+};
+
+const OPENAPI_ROUTE_SOURCE = `import { NextResponse } from "next/server";
+import spec from "@/lib/openapi.json";
+
+// Written by the database agent from the generated routes
+export const dynamic = "force-static";
+
+export function GET() {
+  return NextResponse.json(spec);
+}
+`;
+
+const API_DOCS_SOURCE = `import type { Metadata } from "next";
+import spec from "@/lib/openapi.json";
+
+export const metadata: Metadata = {
+  title: "API Reference",
+};
+
+interface Schema {
+  $ref?: string;
+  type?: string | string[];
+  items?: Schema;
+  enum?: unknown[];
+  format?: string;
+  anyOf?: Schema[];
+  required?: string[];
+  properties?: Record<string, Schema>;
+  description?: string;
+}
+
+interface Operation {
+  summary: string;
+  description?: string;
+  parameters?: { name: string; in: string; description?: string; schema: Schema }[];
+  requestBody?: { content: Record<string, { schema: Schema }> };
+  responses: Record<string, { description: string }>;
+}
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-sky-500/20 text-sky-300",
+  post: "bg-green-500/20 text-green-300",
+  put: "bg-amber-500/20 text-amber-300",
+  delete: "bg-red-500/20 text-red-300",
+};
+
+const paths = spec.paths as unknown as Record<string, Record<string, Operation | Operation["parameters"]>>;
+const schemas = spec.components.schemas as unknown as Record<string, Schema>;
+
+function refName(ref: string) {
+  return ref.split("/").pop()!;
+}
+
+function typeLabel(schema: Schema): string {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) return schema.anyOf.map(typeLabel).join(" | ");
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+  if (schema.items) return \`\${typeLabel(schema.items)}[]\`;
+  const types = [schema.type ?? "any"].flat().join(" | ");
+  return schema.format ? \`\${types} (\${schema.format})\` : types;
+}
+
+function SchemaTable({ name }: { name: string }) {
+  const schema = schemas[name];
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {Object.entries(schema.properties ?? {}).map(([field, property]) => (
+          <tr key={field} className="border-t border-white/10">
+            <td className="py-1 pr-4 font-mono">
+              {field}
+              {schema.required?.includes(field) && <span className="text-red-400">*</span>}
+            </td>
+            <td className="py-1 pr-4 font-mono text-gray-400">{typeLabel(property)}</td>
+            <td className="py-1 text-gray-400">{property.description}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ApiDocsPage() {
+  return (
+    <main className="mx-auto max-w-5xl space-y-10 p-8">
+      <header className="space-y-2">
+        <h1 className="text-3xl font-bold">{spec.info.title}</h1>
+        <p className="text-gray-400">{spec.info.description}</p>
+        <a href="/api/openapi.json" className="text-green-400 hover:underline">
+          /api/openapi.json
+        </a>
+      </header>
+
+      {Object.entries(paths).map(([route, item]) =>
+        Object.entries(item).flatMap(([method, value]) => {
+          if (!METHOD_STYLES[method]) return [];
+          const operation = value as Operation;
+          const body = operation.requestBody?.content["application/json"].schema.$ref;
+          return (
+            <section key={\`\${method} \${route}\`} className="space-y-3 rounded-lg bg-[#181818] p-5">
+              <h2 className="flex items-center gap-3 font-mono">
+                <span className={\`rounded px-2 py-0.5 text-xs uppercase \${METHOD_STYLES[method]}\`}>
+                  {method}
+                </span>
+                {route}
+              </h2>
+              <p>{operation.summary}</p>
+              {operation.description && <p className="text-sm text-gray-400">{operation.description}</p>}
+              {operation.parameters && (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {operation.parameters.map((parameter) => (
+                      <tr key={parameter.name} className="border-t border-white/10">
+                        <td className="py-1 pr-4 font-mono">{parameter.name}</td>
+                        <td className="py-1 pr-4 font-mono text-gray-400">{typeLabel(parameter.schema)}</td>
+                        <td className="py-1 text-gray-400">{parameter.description}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {body && (
+                <div>
+                  <h3 className="mb-1 text-sm font-semibold">Body: {refName(body)}</h3>
+                  <SchemaTable name={refName(body)} />
+                </div>
+              )}
+              <p className="text-sm text-gray-400">
+                {Object.entries(operation.responses)
+                  .map(([status, response]) => \`\${status} \${response.description}\`)
+                  .join(" · ")}
+              </p>
+            </section>
+          );
+        })
+      )}
+
+      <section className="space-y-6">
+        <h2 className="text-2xl font-bold">Schemas</h2>
+        {Object.keys(schemas).map((name) => (
+          <div key={name}>
+            <h3 className="mb-1 font-mono font-semibold">{name}</h3>
+            <SchemaTable name={name} />
+          </div>
+        ))}
+      </section>
+    </main>
+  );
+}
+`;
@@ -1,25 +1,88 @@
 import chalk from "chalk";
-import { SchemaDefinition } from "../types";
-import { toPascalCase } from "../utils";
+import {
+  COLUMN_CONSTRAINTS,
+  constraintArgument,
+  formatDefaultValue,
+  parseColumnType,
+} from "../core/column-types";
+import {
+  DIALECTS,
+  Dialect,
+  builderGuide,
+  dialectColumn,
+  dialectColumnTypes,
+  dialectConstraint,
+} from "../core/dialects";
+import {
+  ON_DELETE_ACTIONS,
+  TableRelation,
+  tableRelations,
+} from "../core/relationships";
+import { parseAccessPolicy } from "../core/access-policy";
+import { parseSchemaChange } from "../core/table-spec";
+import {
+  LLMProvider,
+  SchemaDefinition,
+  SchemaField,
+  SchemaReference,
+} from "../types";
+import {
+  columnKey,
+  describeTables,
+  exportNameFor,
+  tableExportName,
+  toCamelCase,
+  toPascalCase,
+} from "../utils";
+
+// Prompt section on access policies, for projects with --auth
+const ACCESS_SECTION = `
+When only some users may change a table, or some columns are private, add "access" to it. Rules are "public", "authenticated" (any signed-in user) or a list of roles; admins pass every rule and operations without a rule are public:
+- {"read": "public", "write": ["curator"], "delete": ["admin"]} on editorial tables like "made_for_you": everyone reads them, curators create and update rows, admins delete them ("write" sets create and update)
+- "hidden": {"internal_notes": ["curator"]} leaves a column out of responses for everyone the rule doesn't admit
+An existing table can get a new policy with {"tableName": "...", "access": {...}} alone.
+`;
+
+export interface ColumnDefinition {
+  // `text("title").notNull()`
+  code: string;
+  imports: string[];
+  enumDeclaration?: string;
+  check?: string;
+}
 
 export class SchemaGenerator {
-  private model: any;
+  private model: LLMProvider | null;
+  private dialect: Dialect = DIALECTS.postgresql;
 
-  constructor(model?: any) {
-    this.model = model;
+  constructor(model?: LLMProvider) {
+    this.model = model ?? null;
   }
 
-  setModel(model: any) {
+  setModel(model: LLMProvider | null) {
     this.model = model;
   }
 
+  setDialect(dialect: Dialect) {
+    this.dialect = dialect;
+  }
+
+  // existingTables are the tables already in src/db/schema, which the model
+  // alters instead of recreating
   async parseQueryForSchemas(
     query: string,
-    model: any
+    model: LLMProvider | null,
+    existingTables: SchemaDefinition[] = [],
+    // Whether the project has users with roles to write policies for
+    withAccess = false
   ): Promise<SchemaDefinition[]> {
     this.model = model;
     try {
-      const schemaPrompt = `You are a database schema expert for PostgreSQL with Drizzle ORM.
+      if (!model) throw new Error("No LLM provider configured");
+
+      const schemaPrompt = `You are a database schema expert for ${
+        this.dialect.label
+      } with Drizzle ORM.
 
 Analyze this user query and generate VALID schema definitions for a Next.js project with TypeScript.
 
@@ -30,13 +93,21 @@ Return ONLY a JSON array with schema definitions. Each schema should have:
 - fileName: the TypeScript file name (e.g., "recently_played.ts")
 - fields: array of field objects with name, type, and constraints
 
-Available Drizzle field types: serial, text, varchar, integer, boolean, timestamp, uuid, json
-Available constraints: primaryKey(), notNull(), unique(), defaultNow(), default(value)
+Available Drizzle field types: ${dialectColumnTypes(this.dialect).join(", ")}
+Any type can end with [] for an array column (e.g. "text[]"). Use enum(a|b|c) for a fixed set of values.
+Available constraints: ${COLUMN_CONSTRAINTS.join(", ")}
 
 Ensure each table has:
 - id field as serial primaryKey()
 - created_at and updated_at timestamp fields with defaultNow() and notNull()
 
+When tables relate to each other, add "relationships" to the table that holds the foreign key instead of writing the foreign key field yourself:
+- {"type": "one-to-many", "table": "artists", "onDelete": "cascade"} on "tracks": each artist has many tracks, linked by tracks.artist_id
+- {"type": "many-to-many", "table": "tracks"} on "playlists": a playlists_tracks join table is generated
+- Optional keys: "column" (foreign key name, default "<singular table>_id"), "through" (join table name), "onDelete" (${ON_DELETE_ACTIONS.join(
+        ", "
+      )})
+${withAccess ? ACCESS_SECTION : ""}${this.existingTablesSection(existingTables)}
 Example format:
 [
   {
@@ -54,50 +125,40 @@ Example format:
 
 Return ONLY the JSON array, no explanation.`;
 
-      const result = await model.generateContent(schemaPrompt);
-      const text = result.response.text();
+      const text = await model.generateText(schemaPrompt);
       const jsonMatch = text.match(/\[[\s\S]*\]/);
       if (!jsonMatch) return [];
 
       const aiSchemas = JSON.parse(jsonMatch[0]);
-      return aiSchemas.map((schema: any) => {
-        const processed: SchemaDefinition = {
-          tableName: schema.tableName?.toLowerCase() || "unknown_table",
-          fileName:
-            schema.fileName ||
-            `${schema.tableName?.toLowerCase() || "unknown"}.ts`,
-          fields: schema.fields || [],
-        };
-
-        // Ensure required fields exist
-        const hasValidId = processed.fields.some(
-          (f: any) =>
-            f.name === "id" &&
-            f.type === "serial" &&
-            f.constraints?.includes("primaryKey()")
-        );
-        if (!hasValidId)
-          processed.fields.unshift({
-            name: "id",
-            type: "serial",
-            constraints: ["primaryKey()"],
-          });
-
-        if (!processed.fields.some((f) => f.name === "created_at"))
-          processed.fields.push({
-            name: "created_at",
-            type: "timestamp",
-            constraints: ["defaultNow()", "notNull()"],
-          });
-
-        if (!processed.fields.some((f) => f.name === "updated_at"))
-          processed.fields.push({
-            name: "updated_at",
-            type: "timestamp",
-            constraints: ["defaultNow()", "notNull()"],
-          });
-
-        return processed;
+      return aiSchemas.map((schema: any): SchemaDefinition => {
+        const access =
+          withAccess && schema.access
+            ? { access: parseAccessPolicy(schema.tableName, schema.access) }
+            : {};
+        // A table listed with only a policy keeps its columns
+        return Array.isArray(schema.alter) ||
+          (access.access && !Array.isArray(schema.fields))
+          ? {
+              tableName: schema.tableName,
+              fileName: schema.fileName || `${schema.tableName}.ts`,
+              fields: [],
+              alter: (schema.alter ?? []).map((c: any) =>
+                parseSchemaChange(schema.tableName, c)
+              ),
+              ...access,
+            }
+          : this.withRequiredFields({
+              tableName: schema.tableName?.toLowerCase() || "unknown_table",
+              fileName:
+                schema.fileName ||
+                `${schema.tableName?.toLowerCase() || "unknown"}.ts`,
+              fields: schema.fields || [],
+              ...(Array.isArray(schema.relationships) &&
+              schema.relationships.length
+                ? { relationships: schema.relationships }
+                : {}),
+              ...access,
+            });
       });
     } catch (e: any) {
       console.log(chalk.red(`❌ Error analyzing query: ${e.message}`));
@@ -105,63 +166,108 @@ Return ONLY the JSON array, no explanation.`;
     }
   }
 
-  async generateSchemaContent(schemaDef: SchemaDefinition): Promise<string> {
-    if (!this.model) {
-      throw new Error("Model not set. Call setModel() first.");
-    }
+  // Prompt section listing the existing tables and how to change them
+  private existingTablesSection(existingTables: SchemaDefinition[]): string {
+    if (existingTables.length === 0) return "";
+    return `
+These tables already exist. Never recreate them; to change one, return {"tableName": "...", "alter": [...]} instead of fields:
+${describeTables(existingTables)}
+Alter actions:
+- {"action": "add", "field": {"name": "genre", "type": "text", "constraints": []}} (NOT NULL columns need a default for the existing rows)
+- {"action": "rename", "field": "name", "to": "title"} (keeps the data; only when the user asks to rename)
+- {"action": "drop", "field": "description"}
+- {"action": "retype", "field": "duration", "type": "integer", "constraints": ["notNull()"]} (constraints replace the current ones)
+`;
+  }
+
+  // Ensure the id, created_at and updated_at columns every table relies on
+  withRequiredFields(schemaDef: SchemaDefinition): SchemaDefinition {
+    const processed = { ...schemaDef, fields: [...schemaDef.fields] };
+
+    const hasValidId = processed.fields.some(
+      (f) =>
+        f.name === "id" &&
+        f.type === "serial" &&
+        f.constraints?.includes("primaryKey()")
+    );
+    if (!hasValidId)
+      processed.fields.unshift({
+        name: "id",
+        type: "serial",
+        constraints: ["primaryKey()"],
+      });
+
+    if (!processed.fields.some((f) => f.name === "created_at"))
+      processed.fields.push({
+        name: "created_at",
+        type: "timestamp",
+        constraints: ["defaultNow()", "notNull()"],
+      });
+
+    if (!processed.fields.some((f) => f.name === "updated_at"))
+      processed.fields.push({
+        name: "updated_at",
+        type: "timestamp",
+        constraints: ["defaultNow()", "notNull()"],
+      });
+
+    return processed;
+  }
+
+  // allDefinitions holds every table of the run, so relations to tables
+  // created alongside this one can be emitted
+  async generateSchemaContent(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ): Promise<string> {
+    // Template mode: no LLM configured
+    if (!this.model)
+      return this.generateBasicSchemaContent(schemaDef, allDefinitions);
 
-    const schemaPrompt = `Generate a Drizzle ORM schema file for PostgreSQL with TypeScript.
+    const { label, coreModule, tableFunction, commonBuilders } = this.dialect;
+    const schemaPrompt = `Generate a Drizzle ORM schema file for ${label} with TypeScript.
 
 Table Definition:
 - Table name: ${schemaDef.tableName}
 - Fields: ${JSON.stringify(schemaDef.fields, null, 2)}
 
 Requirements:
-1. Import necessary types from "drizzle-orm/pg-core" (pgTable, serial, text, timestamp, integer, boolean, uuid, etc.)
-2. Create the table using pgTable()
+1. Import necessary types from "${coreModule}" (${commonBuilders.join(
+      ", "
+    )}, etc.)
+2. Create the table using ${tableFunction}()
 3. Export the table and TypeScript types
 4. Use proper Drizzle ORM syntax
 5. Include inferSelect and inferInsert types
 6. NO COMMENTS in the generated code
-
+7. ${builderGuide(this.dialect)}
+8. check(expr) constraints become table checks: ${tableFunction}("name", { ... }, (table) => [check("<table>_<column>_check", sql\`expr\`)]) with sql imported from "drizzle-orm"
+${this.relationshipRequirements(schemaDef, allDefinitions)}
 Example structure:
 \`\`\`typescript
-import { pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
-
-export const tableName = pgTable("table_name", {
-  id: serial("id").primaryKey(),
-  field_name: text("field_name").notNull(),
-  created_at: timestamp("created_at").defaultNow().notNull(),
-  updated_at: timestamp("updated_at").defaultNow().notNull(),
-});
-
-export type TableName = typeof tableName.$inferSelect;
-export type NewTableName = typeof tableName.$inferInsert;
+${this.exampleSchema()}
 \`\`\`
 
 Generate ONLY the TypeScript code, no explanation or markdown formatting. Do not include any comments in the code.`;
 
     try {
-      const result = await this.model.generateContent(schemaPrompt);
-      let generatedCode = result.response.text().trim();
+      let generatedCode = (await this.model.generateText(schemaPrompt)).trim();
 
       generatedCode = generatedCode
         .replace(/```typescript\n?/g, "")
         .replace(/```\n?/g, "")
-        .replace(/\/\/[^\n]*\n/g, "")
+        .replace(/^[ \t]*\/\/[^\n]*\n/gm, "")
         .replace(/\/\*[\s\S]*?\*\//g, "");
 
       return generatedCode;
     } catch (error) {
       console.log(chalk.red(`❌ Error generating schema content: ${error}`));
-      return this.generateBasicSchemaContent(schemaDef);
+      return this.generateBasicSchemaContent(schemaDef, allDefinitions);
     }
   }
 
   async generateSchemaIndexContent(schemaFiles: string[]): Promise<string> {
-    if (!this.model) {
-      throw new Error("Model not set. Call setModel() first.");
-    }
+    if (!this.model) return this.generateBasicSchemaIndexContent(schemaFiles);
 
     const indexPrompt = `Generate a TypeScript index file that exports all schema files.
 
@@ -182,89 +288,311 @@ export * from "./schema2";
 Generate ONLY the TypeScript code, no explanation or markdown formatting. Do not include any comments in the code.`;
 
     try {
-      const result = await this.model.generateContent(indexPrompt);
-      let generatedCode = result.response.text().trim();
+      let generatedCode = (await this.model.generateText(indexPrompt)).trim();
 
       generatedCode = generatedCode
         .replace(/```typescript\n?/g, "")
         .replace(/```\n?/g, "")
-        .replace(/\/\/[^\n]*\n/g, "")
+        .replace(/^[ \t]*\/\/[^\n]*\n/gm, "")
         .replace(/\/\*[\s\S]*?\*\//g, "");
 
       return generatedCode;
     } catch (error) {
       console.log(chalk.red(`❌ Error generating index content: ${error}`));
-      return schemaFiles
-        .map((f) => `export * from "./${f.replace(".ts", "")}";`)
-        .join("\n");
+      return this.generateBasicSchemaIndexContent(schemaFiles);
     }
   }
 
-  // Fallback method for basic schema generation
-  private generateBasicSchemaContent(schemaDef: SchemaDefinition): string {
-    const imports = new Set(["pgTable"]);
-    schemaDef.fields.forEach((f) => {
-      // Handle varchar types with length specifications
-      if (f.type.startsWith("varchar(")) {
-        imports.add("varchar");
-      } else {
-        switch (f.type) {
-          case "serial":
-            imports.add("serial");
-            break;
-          case "text":
-            imports.add("text");
-            break;
-          case "timestamp":
-            imports.add("timestamp");
-            break;
-          case "integer":
-            imports.add("integer");
-            break;
-          case "boolean":
-            imports.add("boolean");
-            break;
-          case "uuid":
-            imports.add("uuid");
-            break;
-        }
-      }
+  // The example table of the schema prompt, written in the dialect
+  private exampleSchema(): string {
+    const example: SchemaDefinition = {
+      tableName: "table_name",
+      fileName: "table_name.ts",
+      fields: [
+        { name: "id", type: "serial", constraints: ["primaryKey()"] },
+        { name: "field_name", type: "text", constraints: ["notNull()"] },
+        ...["created_at", "updated_at"].map((name) => ({
+          name,
+          type: "timestamp",
+          constraints: ["defaultNow()", "notNull()"],
+        })),
+      ],
+    };
+    const imports = new Set([this.dialect.tableFunction]);
+    const columns = example.fields.map((f) => {
+      const column = this.columnDefinition(example, f);
+      column.imports.forEach((i) => imports.add(i));
+      return `  ${f.name}: ${column.code},`;
     });
+    const sql = imports.delete("sql")
+      ? 'import { sql } from "drizzle-orm";\n'
+      : "";
+
+    return `${sql}import { ${[...imports].join(", ")} } from "${
+      this.dialect.coreModule
+    }";
+
+export const tableName = ${this.dialect.tableFunction}("table_name", {
+${columns.join("\n")}
+});
+
+export type TableName = typeof tableName.$inferSelect;
+export type NewTableName = typeof tableName.$inferInsert;`;
+  }
+
+  generateBasicSchemaIndexContent(schemaFiles: string[]): string {
+    return schemaFiles
+      .map((f) => `export * from "./${f.replace(".ts", "")}";`)
+      .join("\n");
+  }
+
+  // Prompt lines describing the foreign keys and relations to emit
+  private relationshipRequirements(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[]
+  ): string {
+    const exportName = tableExportName(schemaDef);
+    const foreignKeys = schemaDef.fields.filter((f) => f.references);
+    const relations = tableRelations(schemaDef, allDefinitions);
+    const related = this.relatedTables(schemaDef, relations);
+
+    const lines: string[] = [];
+    if (foreignKeys.length)
+      lines.push(
+        `Foreign keys use .references(): ${foreignKeys
+          .map(
+            (f) =>
+              `${f.name} -> ${this.referenceCall(
+                schemaDef,
+                f.references!,
+                allDefinitions
+              )}`
+          )
+          .join("; ")}. A column referencing its own table is typed with (): ${
+          this.dialect.anyColumn
+        } => from "${this.dialect.coreModule}"`
+      );
+    if (related.length)
+      lines.push(
+        `Import related tables from their schema files: ${related
+          .map((t) => this.relatedImport(t, allDefinitions))
+          .join(" ")}`
+      );
+    if (relations.length)
+      lines.push(
+        `Export ${exportName}Relations = relations(${exportName}, ...) with relations imported from "drizzle-orm", declaring exactly: ${relations
+          .map((r) =>
+            this.relationEntry(schemaDef, r, allDefinitions).replace(
+              /\s+/g,
+              " "
+            )
+          )
+          .join(" ")}`
+      );
+    return lines.map((line, i) => `${i + 9}. ${line}\n`).join("");
+  }
+
+  // Other tables this schema file imports
+  private relatedTables(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[]
+  ): string[] {
+    return [
+      ...schemaDef.fields.map((f) => f.references?.table),
+      ...relations.map((r) => r.table),
+    ].filter(
+      (t, i, all): t is string =>
+        !!t && t !== schemaDef.tableName && all.indexOf(t) === i
+    );
+  }
+
+  private relatedImport(
+    tableName: string,
+    allDefinitions: SchemaDefinition[]
+  ): string {
+    const def = allDefinitions.find((d) => d.tableName === tableName);
+    const moduleName = (def?.fileName ?? tableName).replace(/\.ts$/, "");
+    return `import { ${exportNameFor(
+      tableName,
+      allDefinitions
+    )} } from "./${moduleName}";`;
+  }
+
+  // Existing tables keep the keys they were declared with
+  private columnKeyOf(
+    tableName: string,
+    column: string,
+    allDefinitions: SchemaDefinition[]
+  ): string {
+    const def = allDefinitions.find((d) => d.tableName === tableName);
+    return def ? columnKey(def, column) : toCamelCase(column);
+  }
+
+  // `.references(() => artists.id, { onDelete: "cascade" })`
+  private referenceCall(
+    schemaDef: SchemaDefinition,
+    references: SchemaReference,
+    allDefinitions: SchemaDefinition[]
+  ): string {
+    const target = `${exportNameFor(
+      references.table,
+      allDefinitions
+    )}.${this.columnKeyOf(
+      references.table,
+      references.column,
+      allDefinitions
+    )}`;
+    const fn =
+      references.table === schemaDef.tableName
+        ? `(): ${this.dialect.anyColumn} => ${target}`
+        : `() => ${target}`;
+    const options = references.onDelete
+      ? `, { onDelete: "${references.onDelete}" }`
+      : "";
+    return `.references(${fn}${options})`;
+  }
+
+  // Builder chain of one column plus what it needs elsewhere in the file.
+  // Imports are names from the dialect's core module, except "sql" which
+  // comes from drizzle-orm.
+  columnDefinition(
+    schemaDef: SchemaDefinition,
+    field: SchemaField,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ): ColumnDefinition {
+    const tableName = schemaDef.tableName;
+    // The validator rejects unknown types; fall back to text regardless
+    const column = parseColumnType(field.type) ?? parseColumnType("text")!;
+    const builder = dialectColumn(this.dialect, tableName, field, column);
+    const imports = [...builder.imports];
+    const result: ColumnDefinition = { code: "", imports };
+    if (builder.enumDeclaration)
+      result.enumDeclaration = builder.enumDeclaration;
+
+    let def = builder.call;
+    for (const c of field.constraints ?? []) {
+      const mapped = dialectConstraint(this.dialect, column, c);
+      if (mapped) {
+        imports.push(...mapped.imports);
+        def += mapped.code;
+      } else if (
+        ["primaryKey()", "notNull()", "unique()", "defaultNow()"].includes(c) ||
+        c.startsWith("$onUpdate(")
+      ) {
+        def += `.${c}`;
+      } else if (c === "defaultRandom()" && column.builder === "uuid") {
+        def += `.${c}`;
+      } else if (c.startsWith("default(")) {
+        const value = constraintArgument(c);
+        if (value.startsWith("sql`")) imports.push("sql");
+        def += `.default(${formatDefaultValue(column, value)})`;
+      } else if (c.startsWith("check(")) {
+        imports.push("check", "sql");
+        result.check = `check("${tableName}_${
+          field.name
+        }_check", sql\`${constraintArgument(c).replace(/`/g, "\\`")}\`)`;
+      }
+    }
+    if (field.references) {
+      if (field.references.table === tableName)
+        imports.push(this.dialect.anyColumn);
+      def += this.referenceCall(schemaDef, field.references, allDefinitions);
+    }
+    result.code = def;
+    return result;
+  }
+
+  // Deterministic schema template, used without a model and as a fallback
+  generateBasicSchemaContent(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ): string {
+    const tableName = schemaDef.tableName;
+    const exportName = tableExportName(schemaDef);
+    const className = toPascalCase(tableName);
+
+    const { tableFunction, coreModule, anyColumn } = this.dialect;
+    const imports = new Set([tableFunction]);
+    const enums: string[] = [];
+    const checks: string[] = [];
 
-    const importStmt = `import { ${Array.from(imports).join(
-      ", "
-    )} } from "drizzle-orm/pg-core";`;
     const fields = schemaDef.fields
       .map((f) => {
-        let def;
-        // Handle varchar types with length specifications
-        if (f.type.startsWith("varchar(")) {
-          const lengthMatch = f.type.match(/varchar\((\d+)\)/);
-          const length = lengthMatch ? lengthMatch[1] : "255";
-          def = `varchar("${f.name}", { length: ${length} })`;
-        } else {
-          def = `${f.type}("${f.name}")`;
-        }
-
-        if (f.constraints?.length) {
-          const valid = f.constraints.filter(
-            (c) =>
-              c.startsWith("default(") ||
-              [
-                "primaryKey()",
-                "notNull()",
-                "defaultNow()",
-                "unique()",
-              ].includes(c)
-          );
-          if (valid.length) def += `.${valid.join(".")}`;
-        }
-        return `  ${f.name}: ${def},`;
+        const column = this.columnDefinition(schemaDef, f, allDefinitions);
+        column.imports.forEach((i) => imports.add(i));
+        if (column.enumDeclaration) enums.push(column.enumDeclaration);
+        if (column.check) checks.push(`  ${column.check},`);
+        return `  ${columnKey(schemaDef, f.name)}: ${column.code},`;
       })
       .join("\n");
 
-    const tableName = schemaDef.tableName;
-    const className = toPascalCase(tableName);
-    return `${importStmt}\n\nexport const ${tableName} = pgTable("${tableName}", {\n${fields}\n});\n\nexport type ${className} = typeof ${tableName}.$inferSelect;\nexport type New${className} = typeof ${tableName}.$inferInsert;\n`;
+    const relations = tableRelations(schemaDef, allDefinitions);
+    const related = this.relatedTables(schemaDef, relations);
+
+    const ormImports = [
+      relations.length ? "relations" : "",
+      imports.has("sql") ? "sql" : "",
+    ].filter(Boolean);
+    const coreImports = Array.from(imports)
+      .filter((i) => i !== "sql")
+      .map((i) => (i === anyColumn ? `type ${i}` : i));
+    const importStmt = [
+      ormImports.length
+        ? `import { ${ormImports.join(", ")} } from "drizzle-orm";`
+        : "",
+      `import { ${coreImports.join(", ")} } from "${coreModule}";`,
+      ...related.map((t) => this.relatedImport(t, allDefinitions)),
+    ]
+      .filter(Boolean)
+      .join("\n");
+    const enumBlock = enums.length ? `\n\n${enums.join("\n")}` : "";
+    const table = checks.length
+      ? `${tableFunction}(\n  "${tableName}",\n  {\n${fields.replace(
+          /^/gm,
+          "  "
+        )}\n  },\n  () => [\n${checks.map((c) => `  ${c}`).join("\n")}\n  ]\n)`
+      : `${tableFunction}("${tableName}", {\n${fields}\n})`;
+
+    const relationsBlock = relations.length
+      ? `\n\n${this.relationsExport(schemaDef, relations, allDefinitions)}`
+      : "";
+
+    return `${importStmt}${enumBlock}\n\nexport const ${exportName} = ${table};${relationsBlock}\n\nexport type ${className} = typeof ${exportName}.$inferSelect;\nexport type New${className} = typeof ${exportName}.$inferInsert;\n`;
+  }
+
+  private relationsExport(
+    schemaDef: SchemaDefinition,
+    relations: TableRelation[],
+    allDefinitions: SchemaDefinition[]
+  ): string {
+    const exportName = tableExportName(schemaDef);
+    const helpers = ["one", "many"].filter((kind) =>
+      relations.some((r) => r.kind === kind)
+    );
+    return `export const ${exportName}Relations = relations(${exportName}, ({ ${helpers.join(
+      ", "
+    )} }) => ({\n${relations
+      .map((r) => `  ${this.relationEntry(schemaDef, r, allDefinitions)},`)
+      .join("\n")}\n}));`;
+  }
+
+  // `artist: one(artists, {...})` or `tracks: many(tracks)`
+  private relationEntry(
+    schemaDef: SchemaDefinition,
+    relation: TableRelation,
+    allDefinitions: SchemaDefinition[]
+  ): string {
+    const exportName = tableExportName(schemaDef);
+    const target = exportNameFor(relation.table, allDefinitions);
+    if (relation.kind === "many") return `${relation.name}: many(${target})`;
+    const field = relation.field!;
+    return `${relation.name}: one(${target}, {
+    fields: [${exportName}.${columnKey(schemaDef, field.name)}],
+    references: [${target}.${this.columnKeyOf(
+      relation.table,
+      field.references!.column,
+      allDefinitions
+    )}],
+  })`;
   }
 }
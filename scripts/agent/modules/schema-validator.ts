@@ -1,8 +1,47 @@
 import chalk from "chalk";
-import { SchemaDefinition, ValidationResult } from "../types";
+import { ChangeSet } from "../core/change-set";
+import {
+  COLUMN_CONSTRAINTS,
+  ColumnType,
+  checkDefaultValue,
+  constraintArgument,
+  isNullableField,
+  parseColumnType,
+} from "../core/column-types";
+import {
+  DIALECTS,
+  Dialect,
+  columnTypeNote,
+  dialectColumnTypes,
+  unsupportedColumn,
+} from "../core/dialects";
+import { ON_DELETE_ACTIONS } from "../core/relationships";
+import { applyChanges, describeChange } from "../core/schema-evolution";
+import {
+  SchemaChange,
+  SchemaDefinition,
+  SchemaField,
+  ValidationResult,
+} from "../types";
 
 export class SchemaValidator {
-  async validateSchema(schemaDef: SchemaDefinition): Promise<ValidationResult> {
+  private changeSet = new ChangeSet();
+  private dialect: Dialect = DIALECTS.postgresql;
+
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  setDialect(dialect: Dialect) {
+    this.dialect = dialect;
+  }
+
+  // allDefinitions are the other tables of the run, which foreign keys may
+  // reference besides the tables already in src/db/schema
+  async validateSchema(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ): Promise<ValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -15,12 +54,13 @@ export class SchemaValidator {
     const hasId = schemaDef.fields.some(
       (f) =>
         f.name === "id" &&
-        f.type === "serial" &&
+        parseColumnType(f.type)?.isSerial &&
+        !parseColumnType(f.type)?.isArray &&
         f.constraints?.includes("primaryKey()")
     );
     if (!hasId)
       errors.push(
-        "Schema must have an 'id' field with type 'serial' and primaryKey() constraint"
+        "Schema must have an 'id' field with a serial type and primaryKey() constraint"
       );
 
     schemaDef.fields.forEach((f, i) => {
@@ -29,40 +69,230 @@ export class SchemaValidator {
           `Field ${i + 1}: Name must be snake_case and start with a letter`
         );
 
-      // Updated type validation to include varchar with length specifications
-      const validTypes = [
-        "serial",
-        "text",
-        "timestamp",
-        "integer",
-        "boolean",
-        "uuid",
-      ];
-
-      // Check if it's a basic valid type or a varchar with length specification
-      const isValidType =
-        validTypes.includes(f.type) || /^varchar\(\d+\)$/.test(f.type);
-
-      if (!isValidType)
-        errors.push(`Field '${f.name}': Invalid type '${f.type}'.`);
-
-      if (f.constraints) {
-        if (f.type !== "serial" && f.constraints.includes("primaryKey()"))
+      const column = parseColumnType(f.type);
+      const unsupported = column && unsupportedColumn(this.dialect, column);
+      if (!column || unsupported) {
+        errors.push(
+          `Field '${f.name}': ${
+            unsupported ?? `Invalid type '${f.type}'`
+          }. Supported: ${dialectColumnTypes(this.dialect).join(
+            ", "
+          )} (append [] for arrays)`
+        );
+        return;
+      }
+      const note = columnTypeNote(this.dialect, column);
+      if (note) warnings.push(`Field '${f.name}': ${note}`);
+
+      for (const c of f.constraints ?? []) {
+        const error = this.validateConstraint(column, c);
+        if (error === undefined)
+          warnings.push(
+            `Field '${
+              f.name
+            }': Unsupported constraint '${c}' will be dropped. Supported: ${COLUMN_CONSTRAINTS.join(
+              ", "
+            )}`
+          );
+        else if (error) errors.push(`Field '${f.name}': ${error}`);
+      }
+
+      if (f.references) {
+        const error = this.validateReference(f, column, allDefinitions);
+        if (error) errors.push(`Field '${f.name}': ${error}`);
+      }
+    });
+
+    for (const relationship of schemaDef.relationships ?? []) {
+      if (!["one-to-many", "many-to-many"].includes(relationship.type))
+        errors.push(
+          `Relationship to '${relationship.table}': type must be one-to-many or many-to-many`
+        );
+      if (
+        relationship.onDelete &&
+        !ON_DELETE_ACTIONS.includes(relationship.onDelete)
+      )
+        errors.push(
+          `Relationship to '${
+            relationship.table
+          }': onDelete must be one of ${ON_DELETE_ACTIONS.join(", ")}`
+        );
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  // Changes to a table that already holds rows: the columns they name must
+  // exist, and those rows need a value for every new NOT NULL column. The
+  // altered table must then pass the same checks as a new one.
+  async validateAlteration(
+    existing: SchemaDefinition,
+    changes: SchemaChange[],
+    allDefinitions: SchemaDefinition[] = [existing]
+  ): Promise<ValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let current = existing;
+
+    // Outside PostgreSQL alterations are diffed by drizzle-kit generate,
+    // which stops to ask whether a dropped and an added column are a rename
+    if (this.dialect.name !== "postgresql") {
+      const actions = changes.map((c) => c.action);
+      if (
+        actions.includes("rename") ||
+        (actions.includes("drop") && actions.includes("add"))
+      )
+        errors.push(
+          `${this.dialect.label} alterations cannot rename columns or drop and add columns in one run; drop the old column first, then add the new one`
+        );
+    }
+
+    for (const change of changes) {
+      const label = `'${describeChange(change)}'`;
+      if (change.action === "add") {
+        const field = change.field;
+        if (current.fields.some((f) => f.name === field.name))
+          errors.push(`${label}: column '${field.name}' already exists`);
+        else if (field.constraints?.includes("primaryKey()"))
+          errors.push(
+            `${label}: cannot add a primary key to an existing table`
+          );
+        else if (!isNullableField(field) && !hasDefault(field))
           errors.push(
-            `Field '${f.name}': Only 'serial' fields should have primaryKey()`
+            `${label}: existing rows need a value, add a default(...) or drop notNull()`
           );
+        current = applyChanges(current, [change]);
+        continue;
+      }
 
+      const field = current.fields.find((f) => f.name === change.field);
+      if (!field) {
+        errors.push(
+          `${label}: ${existing.tableName} has no column '${change.field}'`
+        );
+        continue;
+      }
+      if (field.name === "id") {
+        errors.push(`${label}: the id column cannot be changed`);
+        continue;
+      }
+
+      if (change.action === "rename") {
+        if (current.fields.some((f) => f.name === change.to))
+          errors.push(`${label}: column '${change.to}' already exists`);
+      } else if (change.action === "drop") {
+        const dependents = allDefinitions.filter((d) =>
+          d.fields.some(
+            (f) =>
+              f.references?.table === existing.tableName &&
+              f.references.column === field.name
+          )
+        );
+        if (dependents.length)
+          errors.push(
+            `${label}: referenced by ${dependents
+              .map((d) => d.tableName)
+              .join(", ")}`
+          );
+      } else {
+        const next = {
+          ...field,
+          constraints: change.constraints ?? field.constraints,
+        };
         if (
-          f.type !== "timestamp" &&
-          f.constraints.some((c) => c.includes("defaultNow"))
+          isNullableField(field) &&
+          !isNullableField(next) &&
+          !hasDefault(next)
         )
-          errors.push(`Field '${f.name}': defaultNow() only for timestamp`);
+          warnings.push(
+            `${label}: fails if existing rows hold NULL, add a default(...) to fill them`
+          );
       }
-    });
+      current = applyChanges(current, [change]);
+    }
 
+    const result = await this.validateSchema(current, [
+      current,
+      ...allDefinitions.filter((d) => d.tableName !== existing.tableName),
+    ]);
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
     return { isValid: errors.length === 0, errors, warnings };
   }
 
+  private validateReference(
+    field: SchemaField,
+    column: ColumnType,
+    allDefinitions: SchemaDefinition[]
+  ): string | null {
+    const { table, onDelete } = field.references!;
+    const schemaPath = require("path").join(
+      process.cwd(),
+      "src",
+      "db",
+      "schema",
+      `${table}.ts`
+    );
+    if (
+      !allDefinitions.some((d) => d.tableName === table) &&
+      !this.changeSet.exists(schemaPath)
+    )
+      return `references unknown table '${table}'`;
+    if (
+      !["integer", "smallint", "bigint"].includes(column.builder) ||
+      column.isArray
+    )
+      return "foreign keys must be integer columns to match serial ids";
+    if (onDelete && !ON_DELETE_ACTIONS.includes(onDelete))
+      return `onDelete must be one of ${ON_DELETE_ACTIONS.join(", ")}`;
+    if (onDelete === "set null" && field.constraints?.includes("notNull()"))
+      return 'onDelete "set null" needs a nullable column, drop notNull()';
+    return null;
+  }
+
+  // null when valid, undefined for constraints the generator does not know
+  private validateConstraint(
+    column: ColumnType,
+    c: string
+  ): string | null | undefined {
+    const name = c.slice(0, c.indexOf("(") + 1 || undefined);
+    switch (name) {
+      case "notNull(":
+        return null;
+      case "unique(":
+        return this.dialect.name === "mysql" &&
+          column.builder === "text" &&
+          !column.isArray
+          ? "MySQL cannot index text columns, use varchar(n) for unique()"
+          : null;
+      case "primaryKey(":
+        return (column.isSerial || column.builder === "uuid") && !column.isArray
+          ? null
+          : "Only serial or uuid fields should have primaryKey()";
+      case "defaultNow(":
+        return column.kind === "date" ||
+          ["date", "time"].includes(column.builder)
+          ? null
+          : "defaultNow() only for timestamp, date or time";
+      case "defaultRandom(":
+        return column.builder === "uuid"
+          ? null
+          : "defaultRandom() only for uuid";
+      case "default(":
+        return checkDefaultValue(column, constraintArgument(c));
+      case "$onUpdate(":
+        return /=>/.test(c)
+          ? null
+          : "$onUpdate() takes a function, e.g. $onUpdate(() => new Date())";
+      case "check(":
+        return constraintArgument(c)
+          ? null
+          : "check() needs a SQL expression, e.g. check(price >= 0)";
+      default:
+        return undefined;
+    }
+  }
+
   async validateGeneratedSchemas(
     schemaDefinitions: SchemaDefinition[]
   ): Promise<ValidationResult> {
@@ -78,16 +308,26 @@ export class SchemaValidator {
         schemaDef.fileName
       );
 
-      if (!require("fs").existsSync(schemaPath)) {
+      if (!this.changeSet.exists(schemaPath)) {
         errors.push(`Schema file not found: ${schemaDef.fileName}`);
         continue;
       }
 
-      const content = require("fs").readFileSync(schemaPath, "utf-8");
-      if (!content.includes("pgTable"))
-        errors.push(`${schemaDef.fileName}: Missing pgTable definition`);
+      const { tableFunction } = this.dialect;
+      const content = this.changeSet.readFile(schemaPath);
+      if (!content.includes(tableFunction))
+        errors.push(
+          `${schemaDef.fileName}: Missing ${tableFunction} definition`
+        );
     }
 
     return { isValid: errors.length === 0, errors, warnings };
   }
 }
+
+function hasDefault(field: SchemaField): boolean {
+  return (
+    !!parseColumnType(field.type)?.isSerial ||
+    (field.constraints ?? []).some((c) => /^default(Now|Random)?\(/.test(c))
+  );
+}
@@ -1,26 +1,55 @@
-import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
 import chalk from "chalk";
-import { SchemaDefinition } from "../types";
-import { toPascalCase } from "../utils";
+import { ChangeSet } from "../core/change-set";
+import { ColumnType, parseColumnType } from "../core/column-types";
+import { DIALECTS, Dialect } from "../core/dialects";
+import { LLMProvider, SchemaDefinition, SchemaField } from "../types";
+import {
+  columnKey,
+  describeTables,
+  exportNameFor,
+  tableExportName,
+  toPascalCase,
+} from "../utils";
 
 export class SeedGenerator {
-  private model: any;
+  private model: LLMProvider | null;
+  private changeSet = new ChangeSet();
+  private dialect: Dialect = DIALECTS.postgresql;
 
-  constructor(model?: any) {
-    this.model = model;
+  constructor(model?: LLMProvider) {
+    this.model = model ?? null;
   }
 
-  setModel(model: any) {
+  setModel(model: LLMProvider | null) {
     this.model = model;
   }
 
-  async generateSeedData(schemaDef: SchemaDefinition) {
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  setDialect(dialect: Dialect) {
+    this.dialect = dialect;
+  }
+
+  // allDefinitions resolve the export names of the parent tables
+  async generateSeedData(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ) {
     if (!this.model) {
-      throw new Error(
-        "❌ AI model is required for seed generation. Please set a model using setModel() method."
+      console.log(
+        chalk.blue(
+          `📋 Generating template seed data for ${schemaDef.tableName}...`
+        )
       );
+      await this.writeSeedFile(
+        schemaDef,
+        this.generateSeedTemplate(schemaDef, allDefinitions)
+      );
+      return;
     }
 
     console.log(
@@ -28,7 +57,10 @@ export class SeedGenerator {
         `🤖 Generating AI-powered seed data for ${schemaDef.tableName}...`
       )
     );
-    const seedContent = await this.generateSeedContent(schemaDef);
+    const seedContent = await this.generateSeedContent(
+      schemaDef,
+      allDefinitions
+    );
     await this.writeSeedFile(schemaDef, seedContent);
   }
 
@@ -38,12 +70,14 @@ export class SeedGenerator {
       "scripts",
       `seed-${schemaDef.tableName}.ts`
     );
-    fs.mkdirSync(path.dirname(seedPath), { recursive: true });
-    fs.writeFileSync(seedPath, content);
+    this.changeSet.writeFile(seedPath, content);
     console.log(chalk.gray(`   📁 Created: seed-${schemaDef.tableName}.ts`));
 
+    const seedCommand = `npx tsx scripts/seed-${schemaDef.tableName}.ts`;
+    if (!this.changeSet.runCommand(seedCommand)) return;
+
     try {
-      execSync(`npx tsx scripts/seed-${schemaDef.tableName}.ts`, {
+      execSync(seedCommand, {
         stdio: "pipe",
         cwd: process.cwd(),
       });
@@ -57,7 +91,8 @@ export class SeedGenerator {
   }
 
   private async generateSeedContent(
-    schemaDef: SchemaDefinition
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[]
   ): Promise<string> {
     const tableName = schemaDef.tableName;
     const className = toPascalCase(tableName);
@@ -72,13 +107,12 @@ export class SeedGenerator {
         constraints: f.constraints || [],
       }));
 
-    // Convert snake_case field names to camelCase for TypeScript object properties
-    const convertToCamelCase = (str: string) => {
-      return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
-    };
-
-    // Convert snake_case table name to camelCase for export name
-    const tableExportName = convertToCamelCase(tableName);
+    const exportName = tableExportName(schemaDef);
+    const parentTables = allDefinitions.filter((def) =>
+      this.parentForeignKeys(schemaDef).some(
+        (f) => f.references!.table === def.tableName
+      )
+    );
 
     const seedPrompt = `Generate a TypeScript seed file for a database table with realistic sample data.
 
@@ -86,23 +120,27 @@ CRITICAL: You must strictly follow the provided schema definition and naming con
 
 Table Information:
 - Database table name: ${tableName}
-- TypeScript export name: ${tableExportName}
+- TypeScript export name: ${exportName}
 - Class name: ${className}
 - Schema file name: ${schemaDef.fileName}
 - Fields to populate: ${JSON.stringify(
       fieldsInfo.map((f) => ({
         ...f,
-        tsFieldName: convertToCamelCase(f.name),
+        tsFieldName: columnKey(schemaDef, f.name),
       })),
       null,
       2
     )}
-- Full schema fields: ${JSON.stringify(schemaDef.fields, null, 2)}
+- Full schema fields: ${JSON.stringify(schemaDef.fields, null, 2)}${
+      parentTables.length
+        ? `\n- Parent tables:\n${describeTables(parentTables)}`
+        : ""
+    }
 
 CRITICAL NAMING CONVENTION:
-- Import the table as: import { ${tableExportName}, type New${className} } from "@/db/schema";
+- Import the table as: import { ${exportName}, type New${className} } from "@/db/schema";
 - Use camelCase field names in the TypeScript objects: ${fieldsInfo
-      .map((f) => convertToCamelCase(f.name))
+      .map((f) => columnKey(schemaDef, f.name))
       .join(", ")}
 
 Context: This is for a Spotify clone application. Generate music-related data that makes sense for the table structure.
@@ -110,25 +148,35 @@ Context: This is for a Spotify clone application. Generate music-related data th
 STRICT Requirements:
 1. Generate 12-20 realistic sample records
 2. Use proper TypeScript types that match the schema exactly
-3. Import from "@/db/schema" using the correct export name: import { ${tableExportName}, type New${className} } from "@/db/schema";
-4. Include proper database connection setup with SSL handling
+3. Import from "@/db/schema" using the correct export name: import { ${exportName}, type New${className} } from "@/db/schema";
+4. Connect with connectDb() from "@/db/connection"; it opens the project's ${
+      this.dialect.label
+    } database${
+      this.dialect.name === "postgresql" ? " (or the embedded PGlite one)" : ""
+    }
 5. Handle errors appropriately with detailed error messages
 6. Generate contextually appropriate data based on field names and types
 7. DO NOT include id, created_at, updated_at in sample data (these are auto-generated)
 8. Use async/await properly with proper error handling
-9. Handle SSL connections for cloud databases (neon.tech detection)
+9. Always await close() from connectDb() when done, also after errors
 10. NO COMMENTS in the generated code
 11. Use exact TypeScript field names (camelCase) from the schema definition
 12. Ensure all required fields (notNull) have values
 13. Respect field constraints and types exactly
-
+${this.foreignKeyRequirement(schemaDef, allDefinitions)}
 Field Type Mapping Guidelines:
 - text: String values appropriate for the field name
 - integer: Numeric values appropriate for the field name
 - boolean: true/false values
 - uuid: Valid UUID format strings
-- timestamp: ISO date strings or Date objects for user-provided timestamps
-- serial: Never include (auto-generated)
+- timestamp: Date objects (also with { withTimezone: true })
+- bigint, real, doublePrecision: JavaScript numbers
+- numeric(p,s): decimal strings such as "9.99"
+- date: "YYYY-MM-DD" strings; time: "HH:MM:SS" strings; interval: strings such as "3 minutes"
+- json, jsonb: plain objects or arrays
+- enum(a|b|c): one of the listed values as a string
+- type[]: arrays of that type
+- serial, smallserial, bigserial: Never include (auto-generated)
 
 Common field patterns for Spotify clone (use camelCase in TypeScript):
 - songTitle, trackTitle, title: Real song titles
@@ -144,38 +192,26 @@ Common field patterns for Spotify clone (use camelCase in TypeScript):
 
 Database setup template:
 \`\`\`typescript
-import { drizzle } from "drizzle-orm/node-postgres";
-import { Pool } from "pg";
 import dotenv from "dotenv";
-import { ${tableExportName}, type New${className} } from "@/db/schema";
+import { connectDb } from "@/db/connection";
+import { ${exportName}, type New${className} } from "@/db/schema";
 
 dotenv.config();
 
 async function seed() {
-  if (!process.env.DATABASE_URL) {
-    console.error('❌ DATABASE_URL environment variable is not set');
-    console.log('Please ensure your .env file contains a valid DATABASE_URL');
-    process.exit(1);
-  }
-
-  const pool = new Pool({
-    connectionString: process.env.DATABASE_URL,
-    ssl: process.env.DATABASE_URL.includes('neon.tech') ? { rejectUnauthorized: false } : false
-  });
-
-  const db = drizzle(pool);
+  const { db, close } = connectDb();
 
   const sampleData: New${className}[] = [
     // Sample data using camelCase field names
   ];
 
-  // Insert and handle errors
+  // Insert, handle errors and await close() in finally
 }
 \`\`\`
 
 Generate a complete, executable TypeScript seed file with:
 - Proper imports matching the actual schema export names
-- Database connection with SSL handling
+- The connection from connectDb(), closed when done
 - Sample data array with realistic values using camelCase field names
 - Insert operation with error handling
 - Connection cleanup
@@ -186,19 +222,19 @@ use this https://v3.fal.media/files/elephant/N5qDbXOpqAlIcK7kJ4BBp_output.png fo
 IMPORTANT: Generate ONLY the TypeScript code, no explanation or markdown formatting. Do not include any comments in the code. Ensure the generated code uses the correct camelCase field names and table export name.`;
 
     try {
-      const result = await this.model.generateContent(seedPrompt);
-      let generatedCode = result.response.text().trim();
+      if (!this.model) throw new Error("Model not set. Call setModel() first.");
+      let generatedCode = (await this.model.generateText(seedPrompt)).trim();
 
       // Clean up any markdown formatting or comments
       generatedCode = generatedCode
         .replace(/```typescript\n?/g, "")
         .replace(/```\n?/g, "")
-        .replace(/\/\/[^\n]*\n/g, "")
+        .replace(/^[ \t]*\/\/[^\n]*\n/gm, "")
         .replace(/\/\*[\s\S]*?\*\//g, "")
         .trim();
 
       // Validate and fix import statements
-      if (!generatedCode.includes(`import { ${tableExportName}`)) {
+      if (!generatedCode.includes(`import { ${exportName}`)) {
         console.log(
           chalk.yellow(
             `⚠️  Generated code may have incorrect imports. Attempting to fix...`
@@ -207,7 +243,7 @@ IMPORTANT: Generate ONLY the TypeScript code, no explanation or markdown formatt
         // Fix import issues - replace any incorrect table name with the correct one
         generatedCode = generatedCode.replace(
           /import\s*{[^}]+}\s*from\s*["']@\/db\/schema["']/,
-          `import { ${tableExportName}, type New${className} } from "@/db/schema"`
+          `import { ${exportName}, type New${className} } from "@/db/schema"`
         );
       }
 
@@ -215,7 +251,7 @@ IMPORTANT: Generate ONLY the TypeScript code, no explanation or markdown formatt
       if (generatedCode.includes(`db.insert(${tableName})`)) {
         generatedCode = generatedCode.replace(
           new RegExp(`db\\.insert\\(${tableName}\\)`, "g"),
-          `db.insert(${tableExportName})`
+          `db.insert(${exportName})`
         );
       }
 
@@ -225,4 +261,301 @@ IMPORTANT: Generate ONLY the TypeScript code, no explanation or markdown formatt
       throw new Error(`Failed to generate seed content using AI: ${error}`);
     }
   }
+
+  // Foreign keys must point at rows seeded earlier in the run
+  private foreignKeyRequirement(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[]
+  ): string {
+    const foreignKeys = this.parentForeignKeys(schemaDef);
+    if (foreignKeys.length === 0) return "";
+    return `14. Never hardcode foreign keys. Load the existing parent ids before inserting and spread them over the records: ${foreignKeys
+      .map((f) => {
+        const parent = exportNameFor(f.references!.table, allDefinitions);
+        return `${columnKey(
+          schemaDef,
+          f.name
+        )} from await db.select({ id: ${parent}.id }).from(${parent})`;
+      })
+      .join(
+        "; "
+      )}. Import those tables from "@/db/schema" as well and fail with a clear message when a parent table is empty
+`;
+  }
+
+  // Foreign keys to other tables; self references are left empty
+  private parentForeignKeys(schemaDef: SchemaDefinition): SchemaField[] {
+    return schemaDef.fields.filter(
+      (f) => f.references && f.references.table !== schemaDef.tableName
+    );
+  }
+
+  // Deterministic seed file for template mode: values are picked from the
+  // field name and type so the same spec always produces the same data.
+  // Foreign keys are filled at run time from the parent tables' ids.
+  generateSeedTemplate(
+    schemaDef: SchemaDefinition,
+    allDefinitions: SchemaDefinition[] = [schemaDef]
+  ): string {
+    const exportName = tableExportName(schemaDef);
+    const className = toPascalCase(schemaDef.tableName);
+    const foreignKeys = this.parentForeignKeys(schemaDef);
+    const fields = schemaDef.fields.filter(
+      (f) =>
+        !["id", "created_at", "updated_at"].includes(f.name) && !f.references
+    );
+    const parents = [
+      ...new Set(
+        foreignKeys.map((f) =>
+          exportNameFor(f.references!.table, allDefinitions)
+        )
+      ),
+    ];
+
+    const records = SAMPLE_TRACKS.map((_, i) => {
+      const props = fields
+        .map(
+          (f) => `    ${columnKey(schemaDef, f.name)}: ${sampleValue(f, i)},`
+        )
+        .join("\n");
+      return props ? `  {\n${props}\n  },` : "  {},";
+    }).join("\n");
+
+    const rowType = foreignKeys.length
+      ? `Omit<New${className}, ${foreignKeys
+          .map((f) => `"${columnKey(schemaDef, f.name)}"`)
+          .join(" | ")}>`
+      : `New${className}`;
+    const lookups = parents
+      .map(
+        (
+          parent
+        ) => `    const ${parent}Ids = await db.select({ id: ${parent}.id }).from(${parent});
+    if (${parent}Ids.length === 0) {
+      throw new Error("Seed ${parent} before ${schemaDef.tableName}");
+    }
+`
+      )
+      .join("");
+    const insert = foreignKeys.length
+      ? `${lookups}    const rows: New${className}[] = sampleData.map((row, i) => ({
+      ...row,
+${foreignKeys
+  .map((f) => {
+    const parent = exportNameFor(f.references!.table, allDefinitions);
+    return `      ${columnKey(
+      schemaDef,
+      f.name
+    )}: ${parent}Ids[i % ${parent}Ids.length].id,`;
+  })
+  .join("\n")}
+    }));
+    await db.insert(${exportName}).values(rows);`
+      : `    await db.insert(${exportName}).values(sampleData);`;
+
+    return `import dotenv from "dotenv";
+import { connectDb } from "@/db/connection";
+import { ${[exportName, ...parents].join(
+      ", "
+    )}, type New${className} } from "@/db/schema";
+
+dotenv.config();
+
+const sampleData: ${rowType}[] = [
+${records}
+];
+
+async function seed() {
+  const { db, close } = connectDb();
+
+  try {
+    console.log("🌱 Seeding ${schemaDef.tableName}...");
+${insert}
+    console.log(\`✅ Inserted \${sampleData.length} ${
+      schemaDef.tableName
+    } records\`);
+  } catch (error) {
+    console.error("❌ Failed to seed ${schemaDef.tableName}:", error);
+    process.exitCode = 1;
+  } finally {
+    await close();
+  }
+}
+
+seed();
+`;
+  }
+}
+
+const SAMPLE_IMAGE_URL =
+  "https://v3.fal.media/files/elephant/N5qDbXOpqAlIcK7kJ4BBp_output.png";
+
+const SAMPLE_TRACKS = [
+  {
+    title: "Blinding Lights",
+    artist: "The Weeknd",
+    album: "After Hours",
+    duration: 200,
+    genre: "Pop",
+  },
+  {
+    title: "Levitating",
+    artist: "Dua Lipa",
+    album: "Future Nostalgia",
+    duration: 203,
+    genre: "Pop",
+  },
+  {
+    title: "Bad Guy",
+    artist: "Billie Eilish",
+    album: "When We All Fall Asleep, Where Do We Go?",
+    duration: 194,
+    genre: "Electropop",
+  },
+  {
+    title: "Heat Waves",
+    artist: "Glass Animals",
+    album: "Dreamland",
+    duration: 238,
+    genre: "Indie",
+  },
+  {
+    title: "As It Was",
+    artist: "Harry Styles",
+    album: "Harry's House",
+    duration: 167,
+    genre: "Pop",
+  },
+  {
+    title: "Sicko Mode",
+    artist: "Travis Scott",
+    album: "Astroworld",
+    duration: 312,
+    genre: "Hip Hop",
+  },
+  {
+    title: "Good Days",
+    artist: "SZA",
+    album: "SOS",
+    duration: 279,
+    genre: "R&B",
+  },
+  {
+    title: "Midnight City",
+    artist: "M83",
+    album: "Hurry Up, We're Dreaming",
+    duration: 243,
+    genre: "Electronic",
+  },
+  {
+    title: "Do I Wanna Know?",
+    artist: "Arctic Monkeys",
+    album: "AM",
+    duration: 272,
+    genre: "Rock",
+  },
+  {
+    title: "Redbone",
+    artist: "Childish Gambino",
+    album: "Awaken, My Love!",
+    duration: 327,
+    genre: "Funk",
+  },
+  {
+    title: "Dreams",
+    artist: "Fleetwood Mac",
+    album: "Rumours",
+    duration: 257,
+    genre: "Rock",
+  },
+  {
+    title: "Get Lucky",
+    artist: "Daft Punk",
+    album: "Random Access Memories",
+    duration: 369,
+    genre: "Disco",
+  },
+];
+
+// Fixed reference time so template seeds are reproducible
+const SAMPLE_BASE_TIME = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+function sampleValue(field: SchemaField, index: number): string {
+  const column = parseColumnType(field.type) ?? parseColumnType("text")!;
+  const value = sampleScalar(field, column, index);
+  return column.isArray ? `[${value}]` : value;
+}
+
+function sampleScalar(
+  field: SchemaField,
+  column: ColumnType,
+  index: number
+): string {
+  const name = field.name.toLowerCase();
+  const track = SAMPLE_TRACKS[index];
+  const time = new Date(SAMPLE_BASE_TIME - index * 3_600_000);
+
+  switch (column.kind) {
+    case "boolean":
+      return String(index % 3 !== 0);
+    case "date":
+      return `new Date("${time.toISOString()}")`;
+    case "enum":
+      return JSON.stringify(
+        column.enumValues[index % column.enumValues.length]
+      );
+    case "json":
+      return JSON.stringify({
+        title: track.title,
+        artist: track.artist,
+        genre: track.genre,
+      });
+    case "number":
+      if (["real", "doublePrecision"].includes(column.builder)) {
+        return String((((index * 7) % 50) + 1) / 10);
+      }
+      if (/duration|length|seconds/.test(name)) return String(track.duration);
+      if (/count|plays|streams/.test(name)) return String((index + 1) * 137);
+      if (name === "user_id") return String(100 + index);
+      if (name.endsWith("_id")) return String(5000 + index);
+      return String(index + 1);
+  }
+
+  switch (column.builder) {
+    case "uuid":
+      return `"00000000-0000-4000-8000-${String(index + 1).padStart(12, "0")}"`;
+    case "numeric":
+      return JSON.stringify((0.99 + index).toFixed(2));
+    case "date":
+      return JSON.stringify(time.toISOString().slice(0, 10));
+    case "time":
+      return JSON.stringify(time.toISOString().slice(11, 19));
+    case "interval":
+      return JSON.stringify(
+        /duration|length/.test(name)
+          ? `${track.duration} seconds`
+          : `${index + 1} days`
+      );
+  }
+
+  let text: string;
+  if (/image|cover|artwork|thumbnail|avatar|photo/.test(name))
+    text = SAMPLE_IMAGE_URL;
+  else if (/artist/.test(name)) text = track.artist;
+  else if (/album/.test(name)) text = track.album;
+  else if (/genre/.test(name)) text = track.genre;
+  else if (/title|song|track|name/.test(name)) text = track.title;
+  else if (/description|subtitle|summary/.test(name))
+    text = `${track.genre} picks featuring ${track.artist}`;
+  else if (/url|link/.test(name))
+    text = `https://example.com/${field.name}/${index + 1}`;
+  else if (name.endsWith("_id"))
+    text = `${field.name.slice(0, -3)}_${index + 1}`;
+  else
+    text = `${toPascalCase(field.name).replace(/([a-z])([A-Z])/g, "$1 $2")} ${
+      index + 1
+    }`;
+
+  if (column.length !== null) text = text.slice(0, column.length);
+  return JSON.stringify(text);
 }
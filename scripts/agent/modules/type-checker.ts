@@ -0,0 +1,233 @@
+import * as fs from "fs";
+import * as path from "path";
+import ts from "typescript";
+import chalk from "chalk";
+import { ChangeSet } from "../core/change-set";
+import { LLMProvider } from "../types";
+
+export interface FileDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+function repairAttempts(attempts: number): number {
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new Error(
+      `Repair attempts must be a positive integer, got ${attempts}`
+    );
+  }
+  return attempts;
+}
+
+// Typechecks staged files in memory against the project's tsconfig.json.
+// Files that fail are sent back to the model with their diagnostics; after
+// the last attempt a file that existed before the run is restored.
+export class TypeChecker {
+  private model: LLMProvider | null;
+  private changeSet = new ChangeSet();
+  private maxRepairAttempts: number;
+
+  constructor(model?: LLMProvider, maxRepairAttempts: number = 2) {
+    this.model = model ?? null;
+    this.maxRepairAttempts = repairAttempts(maxRepairAttempts);
+  }
+
+  setModel(model: LLMProvider | null) {
+    this.model = model;
+  }
+
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  setMaxRepairAttempts(attempts: number) {
+    this.maxRepairAttempts = repairAttempts(attempts);
+  }
+
+  // Returns the files that still fail after repairs (and could not be
+  // restored because they are new)
+  async verifyFiles(files: string[]): Promise<string[]> {
+    const targets = files
+      .map((f) => path.resolve(f))
+      .filter((f) => /\.tsx?$/.test(f) && this.changeSet.exists(f));
+    if (targets.length === 0) return [];
+
+    let failing = this.groupByFile(this.check(targets));
+    for (
+      let attempt = 1;
+      failing.size > 0 && this.model && attempt <= this.maxRepairAttempts;
+      attempt++
+    ) {
+      for (const [file, diagnostics] of failing) {
+        console.log(
+          chalk.yellow(
+            `   🔧 ${this.relative(file)}: ${
+              diagnostics.length
+            } type error(s), repair attempt ${attempt}/${
+              this.maxRepairAttempts
+            }`
+          )
+        );
+        await this.repairFile(file, diagnostics);
+      }
+      failing = this.groupByFile(this.check(targets));
+    }
+
+    const unresolved: string[] = [];
+    for (const [file, diagnostics] of failing) {
+      const original = this.originalContent(file);
+      if (original !== null) {
+        this.changeSet.writeFile(file, original);
+        console.log(
+          chalk.yellow(
+            `   ↩️  Kept original ${this.relative(
+              file
+            )}: generated code did not typecheck`
+          )
+        );
+      } else {
+        unresolved.push(file);
+        console.log(
+          chalk.red(
+            `   ❌ ${this.relative(file)} still has ${
+              diagnostics.length
+            } type error(s):`
+          )
+        );
+      }
+      diagnostics
+        .slice(0, 5)
+        .forEach((d) => console.log(chalk.gray(`      ${this.format(d)}`)));
+    }
+    return unresolved;
+  }
+
+  check(files: string[]): FileDiagnostic[] {
+    const options = this.loadCompilerOptions();
+    const host = ts.createCompilerHost(options);
+    const nextEnvPath = path.join(process.cwd(), "next-env.d.ts");
+
+    // Serve staged content so nothing has to be on disk yet
+    host.fileExists = (f) => f === nextEnvPath || this.changeSet.exists(f);
+    host.directoryExists = (d) => this.changeSet.exists(d);
+    host.readFile = (f) => {
+      // next-env.d.ts is git-ignored; it only provides Next's global types
+      if (f === nextEnvPath && !fs.existsSync(f))
+        return '/// <reference types="next" />\n';
+      return this.changeSet.exists(f) ? this.changeSet.readFile(f) : undefined;
+    };
+
+    const program = ts.createProgram({
+      rootNames: [nextEnvPath, ...files],
+      options,
+      host,
+    });
+    const targets = new Set(files.map((f) => path.resolve(f)));
+
+    return ts
+      .getPreEmitDiagnostics(program)
+      .filter(
+        (d) =>
+          d.file &&
+          d.category === ts.DiagnosticCategory.Error &&
+          targets.has(path.resolve(d.file.fileName))
+      )
+      .map((d) => {
+        const { line, character } = d.file!.getLineAndCharacterOfPosition(
+          d.start ?? 0
+        );
+        return {
+          file: path.resolve(d.file!.fileName),
+          line: line + 1,
+          column: character + 1,
+          code: d.code,
+          message: ts.flattenDiagnosticMessageText(d.messageText, "\n"),
+        };
+      });
+  }
+
+  private loadCompilerOptions(): ts.CompilerOptions {
+    const configPath = path.join(process.cwd(), "tsconfig.json");
+    if (!fs.existsSync(configPath)) {
+      return { strict: true, noEmit: true, skipLibCheck: true };
+    }
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, process.cwd());
+    return { ...parsed.options, noEmit: true, incremental: false };
+  }
+
+  private async repairFile(file: string, diagnostics: FileDiagnostic[]) {
+    const repairPrompt = `You are fixing TypeScript compile errors in a generated file of a Next.js project that uses Drizzle ORM with PostgreSQL.
+
+File: ${this.relative(file)}
+
+Compiler errors:
+${diagnostics.map((d) => `- ${this.format(d)}`).join("\n")}
+
+Current code:
+\`\`\`typescript
+${this.changeSet.readFile(file)}
+\`\`\`
+${this.schemaContext(file)}
+Fix every error while keeping the file's behaviour, exports and imports paths. Use only the table and column names that exist in the schema.
+
+Generate ONLY the complete corrected file, no explanation or markdown formatting.`;
+
+    try {
+      if (!this.model) throw new Error("Model not set. Call setModel() first.");
+      const repaired = (await this.model.generateText(repairPrompt))
+        .trim()
+        .replace(/^```(?:typescript|tsx|ts)?\n?/, "")
+        .replace(/\n?```$/, "");
+      this.changeSet.writeFile(file, repaired + "\n");
+    } catch (error) {
+      console.log(
+        chalk.red(`   ❌ Repair failed for ${this.relative(file)}: ${error}`)
+      );
+    }
+  }
+
+  // Schema files the broken file most likely depends on
+  private schemaContext(file: string): string {
+    const schemaDir = path.join(process.cwd(), "src", "db", "schema");
+    if (file.startsWith(schemaDir) || !this.changeSet.exists(schemaDir))
+      return "";
+
+    const schemas = this.changeSet
+      .readDir(schemaDir)
+      .filter((f) => f.endsWith(".ts") && f !== "index.ts")
+      .map(
+        (f) =>
+          `// src/db/schema/${f}\n${this.changeSet.readFile(
+            path.join(schemaDir, f)
+          )}`
+      );
+    return `\nDatabase schema:\n\`\`\`typescript\n${schemas.join(
+      "\n"
+    )}\n\`\`\`\n`;
+  }
+
+  private originalContent(file: string): string | null {
+    const change = this.changeSet.getChanges().find((c) => c.path === file);
+    return change ? change.before : null;
+  }
+
+  private groupByFile(diagnostics: FileDiagnostic[]) {
+    const byFile = new Map<string, FileDiagnostic[]>();
+    for (const d of diagnostics) {
+      byFile.set(d.file, [...(byFile.get(d.file) ?? []), d]);
+    }
+    return byFile;
+  }
+
+  private format(d: FileDiagnostic): string {
+    return `(${d.line},${d.column}) TS${d.code}: ${d.message}`;
+  }
+
+  private relative(file: string): string {
+    return path.relative(process.cwd(), file);
+  }
+}
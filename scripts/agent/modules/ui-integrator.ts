@@ -1,20 +1,106 @@
-import * as fs from "fs";
 import * as path from "path";
 import chalk from "chalk";
-import { SchemaDefinition } from "../types";
-import { toPascalCase } from "../utils";
+import { ChangeSet } from "../core/change-set";
+import {
+  ArrayDeclaration,
+  ComponentEditor,
+  LiteralKind,
+  isValidExpression,
+} from "../core/component-editor";
+import {
+  columnTsType,
+  isNullableField,
+  parseColumnType,
+} from "../core/column-types";
+import { HOOK_STRATEGIES, HookStrategy } from "../core/hook-strategies";
+import { isHistoryTable } from "../core/play-history";
+import { LLMProvider, SchemaDefinition, SchemaField } from "../types";
+import { columnKey, toPascalCase } from "../utils";
+
+// Columns tried, in order, for each property of a UI item
+const FIELD_CANDIDATES: Record<string, string[]> = {
+  id: ["id", "song_id", "playlist_id", "album_id"],
+  title: [
+    "title",
+    "song_title",
+    "track_title",
+    "name",
+    "playlist_name",
+    "album_name",
+  ],
+  artist: ["artist", "artist_name", "creator", "description", "subtitle"],
+  album: ["album", "album_name", "collection", "category", "title"],
+  subtitle: ["subtitle", "description", "artist", "artist_name"],
+  image: [
+    "image",
+    "image_url",
+    "cover_art",
+    "artwork_url",
+    "thumbnail",
+    "cover_image",
+  ],
+  duration: ["duration", "duration_seconds", "length", "total_duration"],
+  audioUrl: ["audio_url", "preview_url", "stream_url", "file_url"],
+};
+
+const FIELD_DEFAULTS: Record<string, string> = {
+  title: '"Unknown Title"',
+  artist: '"Unknown Artist"',
+  album: '"Unknown Album"',
+  subtitle: '"Playlist"',
+  image: "undefined",
+  duration: "180",
+  audioUrl: "undefined",
+};
+
+// A Recently Played card over an `entry` of the listening history: the
+// context it was played from, replayed from its last track
+const RECENT_CONTEXT_FIELDS: Record<string, string> = {
+  id: "entry.track.id",
+  title: "entry.context?.name ?? entry.track.title",
+  artist: "entry.track.artist",
+  album: "entry.track.album",
+  image: "entry.track.albumArt || undefined",
+  duration: "entry.track.duration",
+  audioUrl: "entry.track.audioUrl",
+  context: "entry.context ?? undefined",
+};
+
+function fieldDefault(uiField: { name: string; kind: LiteralKind }): string {
+  return (
+    FIELD_DEFAULTS[uiField.name] ??
+    { string: '""', number: "0", boolean: "false", other: "undefined" }[
+      uiField.kind
+    ]
+  );
+}
+
+const COMPONENTS = {
+  main: { name: "SpotifyMainContent", file: "spotify-main-content.tsx" },
+  sidebar: { name: "SpotifySidebar", file: "spotify-sidebar.tsx" },
+};
 
 export class UIIntegrator {
-  private model: any;
+  private model: LLMProvider | null;
+  private changeSet = new ChangeSet();
+  private hookStrategy: HookStrategy = HOOK_STRATEGIES.plain;
 
-  constructor(model?: any) {
-    this.model = model;
+  constructor(model?: LLMProvider) {
+    this.model = model ?? null;
   }
 
-  setModel(model: any) {
+  setModel(model: LLMProvider | null) {
     this.model = model;
   }
 
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  setHookStrategy(strategy: HookStrategy) {
+    this.hookStrategy = strategy;
+  }
+
   analyzeQueryForUIIntegration(
     query: string,
     schemaDefinitions: SchemaDefinition[]
@@ -28,6 +114,7 @@ export class UIIntegrator {
         targetArray: string;
         schema: SchemaDefinition;
         hookName: string;
+        component: string;
       }>,
     };
 
@@ -75,12 +162,8 @@ export class UIIntegrator {
       const tableName = schema.tableName.toLowerCase();
       const schemaKeywords = tableName.split("_").concat(tableName.split("-"));
 
-      const matchingMapping = uiMappings.find((mapping) => {
-        const queryMatches = mapping.keywords.some((keyword) =>
-          lowerQuery.includes(keyword)
-        );
-
-        const schemaMatches = mapping.keywords.some((keyword) =>
+      const schemaMatches = (mapping: (typeof uiMappings)[number]) =>
+        mapping.keywords.some((keyword) =>
           keyword
             .split(" ")
             .every((word) =>
@@ -90,18 +173,29 @@ export class UIIntegrator {
               )
             )
         );
+      const queryMatches = (mapping: (typeof uiMappings)[number]) =>
+        mapping.keywords.some((keyword) => lowerQuery.includes(keyword));
 
-        return queryMatches || schemaMatches;
-      });
+      // Prefer the section named by the table itself; the query can mention
+      // several sections and would otherwise map every table to the first
+      const matchingMapping =
+        uiMappings.find(schemaMatches) ?? uiMappings.find(queryMatches);
 
       if (matchingMapping) {
-        const hookName = `use${toPascalCase(schema.tableName)}`;
+        // A listening history feeds Recently Played by context
+        const hookName =
+          matchingMapping.targetArray === "recentlyPlayed" &&
+          matchingMapping.component === "main" &&
+          isHistoryTable(schema)
+            ? "useRecentContexts"
+            : `use${toPascalCase(schema.tableName)}`;
 
         analysis.sections.push({
           sectionName: matchingMapping.sectionName,
           targetArray: matchingMapping.targetArray,
           schema,
           hookName,
+          component: matchingMapping.component,
         });
 
         if (matchingMapping.component === "main") {
@@ -132,6 +226,7 @@ export class UIIntegrator {
             targetArray: "recentlyPlayed",
             schema,
             hookName,
+            component: "main",
           });
           analysis.shouldUpdateMainContent = true;
         } else {
@@ -151,361 +246,298 @@ export class UIIntegrator {
     schemaDefinitions: SchemaDefinition[],
     queryAnalysis: any
   ) {
+    await this.integrateComponent("main", queryAnalysis);
+  }
+
+  async updateSpotifySidebar(
+    schemaDefinitions: SchemaDefinition[],
+    queryAnalysis: any
+  ) {
+    await this.integrateComponent("sidebar", queryAnalysis);
+  }
+
+  // Binds each section's static array to its hook. Sections whose hook is
+  // already called are left alone, so re-running on an integrated component
+  // writes nothing.
+  private async integrateComponent(
+    target: keyof typeof COMPONENTS,
+    queryAnalysis: any
+  ) {
+    const component = COMPONENTS[target];
     const componentPath = path.join(
       process.cwd(),
       "src",
       "components",
-      "spotify-main-content.tsx"
+      component.file
     );
 
-    if (!fs.existsSync(componentPath)) {
+    if (!this.changeSet.exists(componentPath)) {
       console.log(
         chalk.yellow(
-          "   ⚠️  SpotifyMainContent component not found, skipping integration"
+          `   ⚠️  ${component.name} component not found, skipping integration`
         )
       );
       return;
     }
 
-    if (!this.model) {
+    const original = this.changeSet.readFile(componentPath);
+    const editor = new ComponentEditor(original, componentPath);
+    if (!editor.findComponent(component.name)) {
       console.log(
-        chalk.yellow("⚠️  No model set, using fallback component integration")
+        chalk.yellow(
+          `   ⚠️  ${component.file} does not define ${component.name}, skipping integration`
+        )
       );
-      await this.updateSpotifyMainContentFallback(queryAnalysis, componentPath);
       return;
     }
 
-    await this.updateSpotifyMainContentWithGemini(queryAnalysis, componentPath);
-  }
-
-  private async updateSpotifyMainContentWithGemini(
-    queryAnalysis: any,
-    componentPath: string
-  ) {
-    const currentContent = fs.readFileSync(componentPath, "utf8");
-
-    const sectionsInfo = queryAnalysis.sections.map((section: any) => ({
-      sectionName: section.sectionName,
-      targetArray: section.targetArray,
-      hookName: section.hookName,
-      schema: {
-        tableName: section.schema.tableName,
-        fields: section.schema.fields.map((f: any) => ({
-          name: f.name,
-          type: f.type,
-        })),
-      },
-    }));
-
-    const integrationPrompt = `You are a React/TypeScript expert. Update this Spotify main content component to integrate with database hooks.
-
-Current Component Code:
-\`\`\`typescript
-${currentContent}
-\`\`\`
-
-Database Integration Requirements:
-- Sections to integrate: ${JSON.stringify(sectionsInfo, null, 2)}
-- Replace hardcoded data arrays with database hooks
-- Add proper imports for hooks from '@/hooks'
-- Add useEffect to fetch data on mount
-- Add loading states with proper UI
-- Transform database records to match existing interface
-
-For each section:
-1. Import the hook: ${sectionsInfo.map((s: any) => s.hookName).join(", ")}
-2. Replace static arrays with database calls
-3. Map database fields to UI format (id, title, artist, album, image, duration)
-4. Handle loading states gracefully
-
-Field mapping guidelines:
-- title: record.title || record.song_title || record.name || record.playlist_name || record.album_name
-- artist: record.artist || record.artist_name || record.creator || record.description
-- album: record.album || record.album_name || record.collection || record.category
-- image: record.image || record.cover_art || record.artwork_url || record.thumbnail
-- duration: record.duration || record.length || record.total_duration || 180
+    const sections = queryAnalysis.sections.filter(
+      (s: any) => (s.component ?? "main") === target
+    );
+    const hooks: string[] = [];
+    let bound = false;
 
-Maintain all existing styling, component structure, and TypeScript types. Only modify data sources and add loading states.
+    for (const section of sections) {
+      if (editor.callsFunction(component.name, section.hookName)) {
+        hooks.push(section.hookName);
+        continue;
+      }
 
-Generate the complete updated component code with proper React patterns and TypeScript.
+      const declaration = editor.findArrayDeclaration(
+        component.name,
+        section.targetArray
+      );
+      if (!declaration || declaration.elementFields.length === 0) {
+        console.log(
+          chalk.yellow(
+            `   ⚠️  No static ${section.targetArray} array in ${component.name} for ${section.sectionName}`
+          )
+        );
+        continue;
+      }
 
-Generate ONLY the TypeScript/JSX code, no explanation or markdown formatting.`;
+      if (section.hookName === "useRecentContexts") {
+        this.bindArrayToHistory(editor, declaration);
+        hooks.push(section.hookName);
+        continue;
+      }
 
-    try {
-      const result = await this.model.generateContent(integrationPrompt);
-      let generatedCode = result.response.text().trim();
+      const mapping = await this.mapRecordFields(
+        section,
+        component.name,
+        declaration.elementFields
+      );
+      this.bindArrayToHook(
+        editor,
+        component.name,
+        declaration,
+        section,
+        mapping
+      );
+      hooks.push(section.hookName);
+      bound = true;
+    }
 
-      // Clean up any markdown formatting
-      generatedCode = generatedCode
-        .replace(/```typescript\n?/g, "")
-        .replace(/```tsx\n?/g, "")
-        .replace(/```\n?/g, "");
+    if (bound && !this.hookStrategy.loadsOnMount)
+      editor.addNamedImports("react", ["useEffect"]);
+    if (hooks.length > 0) editor.addNamedImports("@/hooks", hooks);
 
-      fs.writeFileSync(componentPath, generatedCode);
-    } catch (error) {
-      console.log(chalk.red(`❌ Error integrating main content: ${error}`));
-      await this.updateSpotifyMainContentFallback(queryAnalysis, componentPath);
+    if (editor.getText() !== original) {
+      this.changeSet.writeFile(componentPath, editor.getText());
     }
   }
 
-  private async updateSpotifyMainContentFallback(
-    queryAnalysis: any,
-    componentPath: string
+  // const x = [...]  ->  hook call, fetch effect and a mapped array. Hooks
+  // that load on mount need no effect.
+  private bindArrayToHook(
+    editor: ComponentEditor,
+    componentName: string,
+    declaration: ArrayDeclaration,
+    section: any,
+    mapping: Record<string, string>
   ) {
-    let content = fs.readFileSync(componentPath, "utf8");
-
-    // Add imports for the hooks
-    const hookImports = queryAnalysis.sections
-      .map((section: any) => section.hookName)
-      .join(", ");
-
-    const importMatch = content.match(/import.*from "lucide-react"/);
-    if (importMatch) {
-      const newImports = `${importMatch[0]}
-import { useEffect } from "react"
-import { ${hookImports} } from '@/hooks'`;
-      content = content.replace(importMatch[0], newImports);
-    }
-
-    let updatedContent = content;
-
-    // Process each section from the query analysis
-    for (const section of queryAnalysis.sections) {
-      const { sectionName, targetArray, schema, hookName } = section;
+    const { targetArray, hookName } = section;
+    const dataName = `${targetArray}Data`;
+    const fetchName = `fetch${toPascalCase(targetArray)}`;
+    const indent = editor.indentOf(declaration.statement);
+    const end = editor.endsWithSemicolon(declaration.statement) ? ";" : "";
+    const type = declaration.typeText ? `: ${declaration.typeText}` : "";
+    const { loadsOnMount } = this.hookStrategy;
+
+    editor.replaceNode(
+      declaration.statement,
+      [
+        loadsOnMount
+          ? `const { data: ${dataName} } = ${hookName}()${end}`
+          : `const { data: ${dataName}, fetchAll: ${fetchName} } = ${hookName}()${end}`,
+        ``,
+        `${indent}const ${targetArray}${type} = ${dataName}.records.map((record) => ({`,
+        ...declaration.elementFields.map(
+          (f) => `${indent}  ${f.name}: ${mapping[f.name]},`
+        ),
+        `${indent}}))${end}`,
+      ].join("\n")
+    );
 
-      const arrayMatch = updatedContent.match(
-        new RegExp(`const ${targetArray} = \\[[\\s\\S]*?\\]`)
+    if (!loadsOnMount && !editor.hasEffectCalling(componentName, fetchName)) {
+      const binding = editor.findStatementDeclaring(componentName, dataName)!;
+      editor.insertAfter(
+        binding,
+        [
+          ``,
+          ``,
+          `${indent}useEffect(() => {`,
+          `${indent}  ${fetchName}()${end}`,
+          `${indent}}, [${fetchName}])${end}`,
+        ].join("\n")
       );
-
-      if (arrayMatch) {
-        updatedContent = updatedContent.replace(
-          arrayMatch[0],
-          `// Fetch ${sectionName.toLowerCase()} from database
-  const { data: ${targetArray}Data, loading: ${targetArray}Loading, fetchAll: fetch${toPascalCase(
-            targetArray
-          )} } = ${hookName}();
-
-  // Transform database records to frontend format
-  const ${targetArray} = (${targetArray}Data?.records || []).map((record: any) => ({
-    id: record.id?.toString() || record.song_id?.toString() || record.playlist_id?.toString() || record.album_id?.toString() || Math.random().toString(),
-    title: record.title || record.song_title || record.name || record.playlist_name || record.album_name || "Unknown Title",
-    artist: record.artist || record.artist_name || record.creator || record.description || record.subtitle || "Unknown Artist",
-    album: record.album || record.album_name || record.collection || record.category || record.title || "Unknown Album",
-    image: record.image || record.cover_art || record.artwork_url || record.thumbnail || record.cover_image,
-    duration: record.duration || record.length || record.total_duration || 180
-  }))`
-        );
-
-        // Add to useEffect
-        const useEffectMatch = updatedContent.match(
-          /useEffect\(\(\) => \{[\s\S]*?\}, \[\]\);/
-        );
-        if (useEffectMatch) {
-          const fetchCall = `fetch${toPascalCase(targetArray)}();`;
-          if (!useEffectMatch[0].includes(fetchCall)) {
-            const newUseEffect = useEffectMatch[0].replace(
-              /(\s+)(\}, \[\]\);)/,
-              `$1  ${fetchCall}$1$2`
-            );
-            updatedContent = updatedContent.replace(
-              useEffectMatch[0],
-              newUseEffect
-            );
-          }
-        } else {
-          const componentMatch = updatedContent.match(
-            /export default function SpotifyMainContent\([^}]+\) \{/
-          );
-          if (componentMatch) {
-            const useEffectCode = `
-  useEffect(() => {
-    fetch${toPascalCase(targetArray)}();
-  }, []);
-
-`;
-            updatedContent = updatedContent.replace(
-              componentMatch[0],
-              componentMatch[0] + useEffectCode
-            );
-          }
-        }
-      }
     }
-
-    fs.writeFileSync(componentPath, updatedContent);
   }
 
-  async updateSpotifySidebar(
-    schemaDefinitions: SchemaDefinition[],
-    queryAnalysis: any
+  // const recentlyPlayed = [...]  ->  the contexts of the listening history,
+  // which useRecentContexts() loads and refreshes after every recorded play
+  private bindArrayToHistory(
+    editor: ComponentEditor,
+    declaration: ArrayDeclaration
   ) {
-    const componentPath = path.join(
-      process.cwd(),
-      "src",
-      "components",
-      "spotify-sidebar.tsx"
+    const indent = editor.indentOf(declaration.statement);
+    const end = editor.endsWithSemicolon(declaration.statement) ? ";" : "";
+    const type = declaration.typeText ? `: ${declaration.typeText}` : "";
+
+    editor.replaceNode(
+      declaration.statement,
+      [
+        `const { contexts: recentContexts } = useRecentContexts()${end}`,
+        ``,
+        `${indent}const ${declaration.name}${type} = recentContexts.map((entry) => ({`,
+        ...declaration.elementFields.map(
+          (f) =>
+            `${indent}  ${f.name}: ${
+              RECENT_CONTEXT_FIELDS[f.name] ?? fieldDefault(f)
+            },`
+        ),
+        `${indent}}))${end}`,
+      ].join("\n")
     );
+  }
+
+  // Expressions over `record` for every UI property. The model may suggest
+  // better matches; anything it gets wrong falls back to the schema mapping.
+  private async mapRecordFields(
+    section: any,
+    componentName: string,
+    uiFields: Array<{ name: string; kind: LiteralKind }>
+  ): Promise<Record<string, string>> {
+    const mapping = this.mapFieldsFromSchema(section.schema, uiFields);
+    if (!this.model) return mapping;
 
-    if (!fs.existsSync(componentPath)) {
+    try {
+      const suggested = await this.suggestFieldMapping(
+        section,
+        componentName,
+        uiFields
+      );
+      for (const field of uiFields) {
+        const expression = suggested[field.name];
+        if (typeof expression === "string" && isValidExpression(expression)) {
+          mapping[field.name] = expression.trim();
+        }
+      }
+    } catch (error) {
       console.log(
         chalk.yellow(
-          "   ⚠️  SpotifySidebar component not found, skipping integration"
+          `   ⚠️  Using schema field mapping for ${section.sectionName}: ${error}`
         )
       );
-      return;
     }
-
-    if (!this.model) {
-      console.log(
-        chalk.yellow("⚠️  No model set, using fallback sidebar integration")
-      );
-      await this.updateSpotifySidebarFallback(queryAnalysis, componentPath);
-      return;
-    }
-
-    await this.updateSpotifySidebarWithGemini(queryAnalysis, componentPath);
+    return mapping;
   }
 
-  private async updateSpotifySidebarWithGemini(
-    queryAnalysis: any,
-    componentPath: string
-  ) {
-    const currentContent = fs.readFileSync(componentPath, "utf8");
-
-    const sidebarSections = queryAnalysis.sections.filter(
-      (s: any) =>
-        s.targetArray === "recentlyPlayed" ||
-        s.sectionName.toLowerCase().includes("playlist")
-    );
+  private mapFieldsFromSchema(
+    schema: SchemaDefinition,
+    uiFields: Array<{ name: string; kind: LiteralKind }>
+  ): Record<string, string> {
+    const mapping: Record<string, string> = {};
 
-    if (sidebarSections.length === 0) return;
-
-    const sectionsInfo = sidebarSections.map((section: any) => ({
-      sectionName: section.sectionName,
-      hookName: section.hookName,
-      schema: {
-        tableName: section.schema.tableName,
-        fields: section.schema.fields.map((f: any) => ({
-          name: f.name,
-          type: f.type,
-        })),
-      },
-    }));
-
-    const integrationPrompt = `You are a React/TypeScript expert. Update this Spotify sidebar component to integrate with database hooks for playlist/sidebar data.
+    for (const uiField of uiFields) {
+      const snakeName = uiField.name.replace(
+        /[A-Z]/g,
+        (c) => `_${c.toLowerCase()}`
+      );
+      const candidates = FIELD_CANDIDATES[uiField.name] ?? [snakeName];
+      const fallback = fieldDefault(uiField);
 
-Current Component Code:
-\`\`\`typescript
-${currentContent}
-\`\`\`
+      mapping[uiField.name] = fallback;
+      for (const candidate of candidates) {
+        const field = schema.fields.find(
+          (f) => f.name.toLowerCase() === candidate
+        );
+        if (!field) continue;
 
-Database Integration Requirements:
-- Sidebar sections to integrate: ${JSON.stringify(sectionsInfo, null, 2)}
-- Replace hardcoded playlist arrays with database hooks
-- Add proper imports for hooks from '@/hooks'
-- Add useEffect to fetch data on mount
-- Transform database records to match existing PlaylistItem interface
+        const access = `record.${columnKey(schema, field.name)}`;
+        const columnType = this.columnType(field);
+        const nullable = isNullableField(field);
 
-For each section:
-1. Import the hook: ${sectionsInfo.map((s: any) => s.hookName).join(", ")}
-2. Replace static playlist arrays with database calls
-3. Map database fields to PlaylistItem format (id, title, subtitle, image, duration)
+        if (uiField.kind === "other" || uiField.kind === columnType) {
+          mapping[uiField.name] = nullable
+            ? `${access} ?? ${fallback}`
+            : access;
+          break;
+        }
+        if (uiField.kind === "string" && columnType === "number") {
+          mapping[uiField.name] = nullable
+            ? `${access}?.toString() ?? ${fallback}`
+            : `${access}.toString()`;
+          break;
+        }
+      }
+    }
+    return mapping;
+  }
 
-Field mapping guidelines:
-- title: record.title || record.name || record.playlist_name || record.song_title
-- subtitle: record.subtitle || record.description || record.artist || "Playlist"
-- image: record.image || record.cover_art || record.thumbnail
-- duration: record.duration || record.total_duration || 180
+  private async suggestFieldMapping(
+    section: any,
+    componentName: string,
+    uiFields: Array<{ name: string; kind: LiteralKind }>
+  ): Promise<Record<string, unknown>> {
+    const columns = section.schema.fields.map(
+      (f: SchemaField) =>
+        `- ${columnKey(section.schema, f.name)}: ${this.columnType(f)}${
+          isNullableField(f) ? " | null" : ""
+        }`
+    );
 
-Maintain all existing styling, component structure, and TypeScript types. Only modify data sources.
+    const mappingPrompt = `You are a React/TypeScript expert. Map database records onto the items a Spotify UI section renders.
 
-Generate the complete updated component code with proper React patterns and TypeScript.
+Section: ${section.sectionName} (the \`${
+      section.targetArray
+    }\` array in ${componentName})
+Records returned by ${section.hookName}() have these properties:
+${columns.join("\n")}
 
-Generate ONLY the TypeScript/JSX code, no explanation or markdown formatting.`;
+Every item needs these properties:
+${uiFields
+  .map((f) => `- ${f.name}: ${f.kind === "other" ? "unknown" : f.kind}`)
+  .join("\n")}
 
-    try {
-      const result = await this.model.generateContent(integrationPrompt);
-      let generatedCode = result.response.text().trim();
+Return a JSON object with one entry per item property. Each value is a TypeScript expression over \`record\` that produces the property, for example {"title": "record.songTitle", "image": "record.imageUrl ?? undefined"}. Handle nullable properties with ?? and use a sensible constant when no property fits.
 
-      // Clean up any markdown formatting
-      generatedCode = generatedCode
-        .replace(/```typescript\n?/g, "")
-        .replace(/```tsx\n?/g, "")
-        .replace(/```\n?/g, "");
+Generate ONLY the JSON object, no explanation or markdown formatting.`;
 
-      fs.writeFileSync(componentPath, generatedCode);
-    } catch (error) {
-      console.log(chalk.red(`❌ Error integrating sidebar: ${error}`));
-      await this.updateSpotifySidebarFallback(queryAnalysis, componentPath);
-    }
+    if (!this.model) throw new Error("Model not set. Call setModel() first.");
+    const response = (await this.model.generateText(mappingPrompt))
+      .trim()
+      .replace(/^```(?:json)?\n?/, "")
+      .replace(/\n?```$/, "");
+    return JSON.parse(response);
   }
 
-  private async updateSpotifySidebarFallback(
-    queryAnalysis: any,
-    componentPath: string
-  ) {
-    let content = fs.readFileSync(componentPath, "utf8");
-
-    const hookImports = queryAnalysis.sections
-      .filter((section: any) => section.targetArray === "recentlyPlayed")
-      .map((section: any) => section.hookName)
-      .join(", ");
-
-    if (hookImports) {
-      const importMatch = content.match(/import.*from 'lucide-react'/);
-      if (importMatch) {
-        const newImports = `${importMatch[0]}
-import { useEffect } from 'react'
-import { ${hookImports} } from '@/hooks'`;
-        content = content.replace(importMatch[0], newImports);
-      }
-
-      let updatedContent = content;
-      const sidebarSection = queryAnalysis.sections.find(
-        (s: any) => s.targetArray === "recentlyPlayed"
-      );
-
-      if (sidebarSection) {
-        const { hookName } = sidebarSection;
-
-        const arrayMatch = updatedContent.match(
-          /const recentlyPlayed: PlaylistItem\[\] = \[[\s\S]*?\]/
-        );
-        if (arrayMatch) {
-          updatedContent = updatedContent.replace(
-            arrayMatch[0],
-            `// Fetch playlists from database
-  const { data: playlistData, loading: playlistLoading, fetchAll: fetchPlaylists } = ${hookName}();
-
-  // Transform database records to sidebar format
-  const recentlyPlayed: PlaylistItem[] = (playlistData?.records || []).map((record: any) => ({
-    id: record.id?.toString() || Math.random().toString(),
-    title: record.title || record.name || record.playlist_name || "Unknown Playlist",
-    subtitle: record.subtitle || record.description || "Playlist",
-    image: record.image || record.cover_art || record.thumbnail,
-    duration: record.duration || record.total_duration || 180
-  }))`
-          );
-
-          const componentMatch = updatedContent.match(
-            /export default function SpotifySidebar\([^}]+\) \{[\s\S]*?\n  const/
-          );
-          if (componentMatch) {
-            const useEffectCode = `
-  useEffect(() => {
-    fetchPlaylists();
-  }, []);
-
-  const`;
-            updatedContent = updatedContent.replace(
-              /(\n  const)/,
-              useEffectCode
-            );
-          }
-        }
-      }
-
-      fs.writeFileSync(componentPath, updatedContent);
-    }
+  // Type of the column in the records a hook returns (JSON, so dates are
+  // strings); enums count as strings for matching UI properties
+  private columnType(field: SchemaField): string {
+    const column = parseColumnType(field.type);
+    if (!column) return "unknown";
+    if (column.kind === "enum" && !column.isArray) return "string";
+    return columnTsType(column, true);
   }
 }
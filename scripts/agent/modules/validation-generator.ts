@@ -0,0 +1,198 @@
+import * as path from "path";
+import chalk from "chalk";
+import { ChangeSet } from "../core/change-set";
+import {
+  ColumnType,
+  isNullableField,
+  parseColumnType,
+} from "../core/column-types";
+import { SchemaDefinition } from "../types";
+import { columnKey, tableExportName, toPascalCase } from "../utils";
+
+// Columns the database fills in, which request bodies never set
+const GENERATED_COLUMNS = ["id", "created_at", "updated_at"];
+
+// Exports of a table's file in src/db/validation
+export function validationNames(schemaDef: SchemaDefinition) {
+  const table = tableExportName(schemaDef);
+  const className = toPascalCase(schemaDef.tableName);
+  return {
+    insertSchema: `${table}InsertSchema`,
+    updateSchema: `${table}UpdateSchema`,
+    insertType: `${className}Insert`,
+    updateType: `${className}Update`,
+  };
+}
+
+// Columns a request body may set. POST must include the required ones:
+// those without a default that can't be null. The owner of a user-scoped
+// row is the signed-in user, never the body.
+export function bodyFields(schemaDef: SchemaDefinition) {
+  return schemaDef.fields
+    .filter(
+      (f) => !GENERATED_COLUMNS.includes(f.name) && f.name !== schemaDef.owner
+    )
+    .map((field) => {
+      const column = parseColumnType(field.type);
+      const constraints = field.constraints ?? [];
+      const hasDefault =
+        !!column?.isSerial ||
+        constraints.some(
+          (c) =>
+            c.startsWith("default(") ||
+            c === "defaultNow()" ||
+            c === "defaultRandom()"
+        );
+      const nullable = isNullableField(field);
+      return {
+        field,
+        column,
+        key: columnKey(schemaDef, field.name),
+        required: !hasDefault && !nullable,
+        nullable,
+      };
+    });
+}
+
+// Writes a Zod schema per table for the bodies of POST and PUT requests.
+// The API routes validate with it and the hooks check input with the same
+// schema before sending it, so both reject the same values.
+export class ValidationGenerator {
+  private changeSet = new ChangeSet();
+
+  setChangeSet(changeSet: ChangeSet) {
+    this.changeSet = changeSet;
+  }
+
+  async generateValidationSchema(schemaDef: SchemaDefinition) {
+    const filePath = path.join(
+      process.cwd(),
+      "src",
+      "db",
+      "validation",
+      schemaDef.fileName
+    );
+    this.changeSet.writeFile(
+      filePath,
+      this.generateValidationContent(schemaDef)
+    );
+    console.log(chalk.gray(`   📁 Created: validation/${schemaDef.fileName}`));
+    this.updateValidationIndex();
+  }
+
+  // Rebuilt from the files on disk, like the schema and hooks indexes
+  updateValidationIndex() {
+    const dir = path.join(process.cwd(), "src", "db", "validation");
+    if (!this.changeSet.exists(dir)) return;
+    const files = this.changeSet
+      .readDir(dir)
+      .filter((f) => f.endsWith(".ts") && f !== "index.ts")
+      .sort();
+    const indexPath = path.join(dir, "index.ts");
+    if (files.length === 0) {
+      // Undo removed the last table
+      if (this.changeSet.exists(indexPath))
+        this.changeSet.deleteFile(indexPath);
+      return;
+    }
+    this.changeSet.writeFile(
+      indexPath,
+      files
+        .map((f) => `export * from "./${f.replace(/\.ts$/, "")}";\n`)
+        .join("")
+    );
+  }
+
+  generateValidationContent(schemaDef: SchemaDefinition): string {
+    const names = validationNames(schemaDef);
+    const endpoint = `/api/${schemaDef.tableName.replace(/_/g, "-")}`;
+    const fields = bodyFields(schemaDef);
+    const usesJson = fields.some((f) => f.column?.kind === "json");
+    const json = usesJson
+      ? `
+// Any JSON value; a missing field is undefined and rejected
+const jsonValue = z.custom<string | number | boolean | object | null>(
+  (value) => value !== undefined,
+  "Required"
+);
+`
+      : "";
+    const shape = fields
+      .map((f) => `  ${f.key}: ${this.fieldSchema(f)},`)
+      .join("\n");
+
+    return `import { z } from "zod";
+${json}
+// Bodies accepted by POST and PUT ${endpoint}
+export const ${names.insertSchema} = z.object({
+${shape}
+});
+
+// Any subset of the insert fields, but at least one
+export const ${names.updateSchema} = ${names.insertSchema}
+  .partial()
+  .refine((body) => Object.keys(body).length > 0, {
+    message: "No updatable fields provided",
+  });
+
+export type ${names.insertType} = z.input<typeof ${names.insertSchema}>;
+export type ${names.updateType} = z.input<typeof ${names.updateSchema}>;
+`;
+  }
+
+  private fieldSchema({
+    column,
+    required,
+    nullable,
+  }: ReturnType<typeof bodyFields>[number]): string {
+    if (!column) return "z.unknown()";
+    let schema = column.isArray
+      ? `z.array(${this.valueSchema(column, false)})`
+      : this.valueSchema(column, required);
+    if (nullable) schema += ".nullable()";
+    if (!required) schema += ".optional()";
+    return schema;
+  }
+
+  // Text that is required can't be blank either
+  private valueSchema(column: ColumnType, nonEmpty: boolean): string {
+    switch (column.builder) {
+      case "enum":
+        return `z.enum([${column.enumValues
+          .map((v) => JSON.stringify(v))
+          .join(", ")}])`;
+      case "serial":
+      case "smallserial":
+      case "bigserial":
+      case "integer":
+      case "smallint":
+      case "bigint":
+        return "z.number().int()";
+      case "real":
+      case "doublePrecision":
+        return "z.number()";
+      // Drizzle reads numeric as a string to keep its precision
+      case "numeric":
+        return 'z.coerce.string().regex(/^-?\\d+(\\.\\d+)?$/, "Expected a decimal number")';
+      case "boolean":
+        return "z.boolean()";
+      case "json":
+      case "jsonb":
+        return "jsonValue";
+      case "uuid":
+        return "z.string().uuid()";
+      case "date":
+        return "z.string().date()";
+      case "time":
+        return "z.string().time()";
+      // JSON carries timestamps as ISO strings
+      case "timestamp":
+        return "z.coerce.date()";
+      case "varchar":
+      case "char":
+        return `z.string()${nonEmpty ? ".min(1)" : ""}.max(${column.length})`;
+      default:
+        return `z.string()${nonEmpty ? ".min(1)" : ""}`;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import {
+  LLMFixtureEntry,
+  LLMProvider,
+  LLMResponse,
+  LLMToolRequest,
+} from "../types";
+
+// Record/replay providers for offline runs of the full pipeline. A fixture
+// file is a JSON array of LLMFixtureEntry, written by RecordingProvider
+// while talking to a real model and served back by ReplayProvider.
+
+function fixtureKey(prompt: string): string {
+  return prompt.trimStart().split("\n", 1)[0].trim();
+}
+
+function fixtureHash(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+}
+
+function toolPrompt(request: LLMToolRequest): string {
+  return JSON.stringify(request.messages);
+}
+
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private entries: LLMFixtureEntry[] = [];
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly fixtureFile: string
+  ) {
+    this.name = `recording:${inner.name}`;
+    this.model = inner.model;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const text = await this.inner.generateText(prompt);
+    this.record(prompt, { text, toolCalls: [] });
+    return text;
+  }
+
+  async generateWithTools(request: LLMToolRequest): Promise<LLMResponse> {
+    const response = await this.inner.generateWithTools(request);
+    this.record(toolPrompt(request), response);
+    return response;
+  }
+
+  // Saved after every call so a crashed run still leaves usable fixtures
+  private record(prompt: string, response: LLMResponse) {
+    this.entries.push({
+      key: fixtureKey(prompt),
+      hash: fixtureHash(prompt),
+      text: response.text,
+      ...(response.toolCalls.length ? { toolCalls: response.toolCalls } : {}),
+    });
+    fs.mkdirSync(path.dirname(this.fixtureFile), { recursive: true });
+    fs.writeFileSync(
+      this.fixtureFile,
+      JSON.stringify(this.entries, null, 2) + "\n"
+    );
+  }
+}
+
+// Serves the entry whose prompt hash matches exactly. When project context
+// in a prompt has drifted since recording, falls back to the next unused
+// entry of the same kind (same first line), preserving recorded order.
+export class ReplayProvider implements LLMProvider {
+  readonly name = "replay";
+  readonly model = "replay";
+  private used = new Set<number>();
+
+  constructor(
+    private readonly entries: LLMFixtureEntry[],
+    private readonly source: string = "fixture"
+  ) {}
+
+  static fromFile(fixtureFile: string): ReplayProvider {
+    if (!fs.existsSync(fixtureFile)) {
+      throw new Error(`LLM fixture not found: ${fixtureFile}`);
+    }
+    return new ReplayProvider(
+      JSON.parse(fs.readFileSync(fixtureFile, "utf8")),
+      fixtureFile
+    );
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    return this.next(prompt).text;
+  }
+
+  async generateWithTools(request: LLMToolRequest): Promise<LLMResponse> {
+    const entry = this.next(toolPrompt(request));
+    return { text: entry.text, toolCalls: entry.toolCalls ?? [] };
+  }
+
+  // Entries never requested, useful to spot calls the pipeline stopped making
+  unusedEntries(): LLMFixtureEntry[] {
+    return this.entries.filter((_, i) => !this.used.has(i));
+  }
+
+  private next(prompt: string): LLMFixtureEntry {
+    const hash = fixtureHash(prompt);
+    const key = fixtureKey(prompt);
+    const available = (match: (e: LLMFixtureEntry) => boolean) =>
+      this.entries.findIndex((e, i) => !this.used.has(i) && match(e));
+
+    let index = available((e) => e.hash === hash);
+    if (index === -1) index = available((e) => e.key === key);
+    if (index === -1) {
+      throw new Error(
+        `No recorded response in ${this.source} for prompt "${key}" - re-record the fixture`
+      );
+    }
+    this.used.add(index);
+    return this.entries[index];
+  }
+}
@@ -0,0 +1,77 @@
+import { GoogleGenAI } from "@google/genai";
+import type { Content } from "@google/genai";
+import { LLMMessage, LLMProvider, LLMResponse, LLMToolRequest } from "../types";
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string = "gemini-2.5-flash") {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+    });
+    return response.text ?? "";
+  }
+
+  async generateWithTools(request: LLMToolRequest): Promise<LLMResponse> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.messages.map(toGeminiContent),
+      config: {
+        systemInstruction: request.systemInstruction,
+        tools: [
+          {
+            functionDeclarations: request.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              parametersJsonSchema: tool.parameters,
+            })),
+          },
+        ],
+      },
+    });
+
+    return {
+      text: response.text ?? "",
+      toolCalls: (response.functionCalls ?? []).map((call, i) => ({
+        id: call.id ?? `${call.name}-${i}`,
+        name: call.name ?? "",
+        args: call.args ?? {},
+      })),
+    };
+  }
+}
+
+function toGeminiContent(message: LLMMessage): Content {
+  switch (message.role) {
+    case "user":
+      return { role: "user", parts: [{ text: message.content }] };
+    case "assistant":
+      return {
+        role: "model",
+        parts: message.toolCalls?.length
+          ? message.toolCalls.map((call) => ({
+              functionCall: { id: call.id, name: call.name, args: call.args },
+            }))
+          : [{ text: message.content }],
+      };
+    case "tool":
+      return {
+        role: "function",
+        parts: [
+          {
+            functionResponse: {
+              id: message.toolCallId,
+              name: message.name,
+              response: { result: message.content },
+            },
+          },
+        ],
+      };
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMResponse,
+  LLMToolDefinition,
+  LLMToolRequest,
+} from "../types";
+
+// The parts of the chat completions wire format the provider uses
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface ChatTool {
+  type: "function";
+  function: LLMToolDefinition;
+}
+
+interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  tool_choice?: "auto";
+}
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { content?: string | null; tool_calls?: ChatToolCall[] };
+  }[];
+}
+
+// Talks to any server implementing the OpenAI chat completions API: OpenAI
+// itself, Ollama (http://localhost:11434/v1), llama.cpp's server, vLLM, etc.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+
+  constructor(
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async generateText(prompt: string): Promise<string> {
+    const message = await this.createCompletion({
+      messages: [{ role: "user", content: prompt }],
+    });
+    return message.content ?? "";
+  }
+
+  async generateWithTools(request: LLMToolRequest): Promise<LLMResponse> {
+    const messages = request.messages.map(toChatMessage);
+    if (request.systemInstruction) {
+      messages.unshift({ role: "system", content: request.systemInstruction });
+    }
+
+    const message = await this.createCompletion({
+      messages,
+      tools: request.tools.map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+      tool_choice: "auto",
+    });
+
+    return {
+      text: message.content ?? "",
+      toolCalls: (message.tool_calls ?? []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        args: call.function.arguments
+          ? JSON.parse(call.function.arguments)
+          : {},
+      })),
+    };
+  }
+
+  private async createCompletion(body: ChatCompletionRequest) {
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, ...body }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `${this.baseUrl} responded ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const result = (await response.json()) as ChatCompletionResponse;
+    return result.choices?.[0]?.message ?? {};
+  }
+}
+
+function toChatMessage(message: LLMMessage): ChatMessage {
+  switch (message.role) {
+    case "user":
+      return { role: "user", content: message.content };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: "function",
+                function: {
+                  name: call.name,
+                  arguments: JSON.stringify(call.args),
+                },
+              })),
+            }
+          : {}),
+      };
+    case "tool":
+      return {
+        role: "tool",
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+  }
+}
@@ -0,0 +1,77 @@
+import { LLMProvider, ProviderConfig } from "../types";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+import { ScriptedProvider } from "./scripted-provider";
+import { ReplayProvider } from "./fixture-provider";
+
+// A factory returns null when the provider can't be used (e.g. no API key),
+// which puts the agent in demo mode
+type ProviderFactory = (config: ProviderConfig) => LLMProvider | null;
+
+const providers: Record<string, ProviderFactory> = {
+  gemini: (config) => {
+    const apiKey = config.apiKey || process.env.GEMINI_API_KEY;
+    return apiKey ? new GeminiProvider(apiKey, config.model) : null;
+  },
+  openai: (config) =>
+    new OpenAICompatibleProvider(
+      config.model || process.env.OPENAI_MODEL || "gpt-4o-mini",
+      config.baseUrl ||
+        process.env.OPENAI_BASE_URL ||
+        "https://api.openai.com/v1",
+      config.apiKey || process.env.OPENAI_API_KEY
+    ),
+  scripted: (config) => {
+    if (!config.scriptFile) {
+      throw new Error(
+        "The scripted provider needs a script file (set ORCHIDS_SCRIPT_FILE)"
+      );
+    }
+    return ScriptedProvider.fromFile(config.scriptFile);
+  },
+  replay: (config) => {
+    if (!config.fixtureFile) {
+      throw new Error(
+        "The replay provider needs a fixture file (set ORCHIDS_FIXTURE_FILE)"
+      );
+    }
+    return ReplayProvider.fromFile(config.fixtureFile);
+  },
+};
+
+export function registerProvider(name: string, factory: ProviderFactory) {
+  providers[name] = factory;
+}
+
+export function listProviders(): string[] {
+  return Object.keys(providers);
+}
+
+// CLI flags win over environment variables (ORCHIDS_LLM_PROVIDER etc.)
+export function resolveProviderConfig(
+  overrides: Partial<ProviderConfig> = {}
+): ProviderConfig {
+  return {
+    provider:
+      overrides.provider || process.env.ORCHIDS_LLM_PROVIDER || "gemini",
+    model: overrides.model || process.env.ORCHIDS_LLM_MODEL,
+    apiKey: overrides.apiKey,
+    baseUrl: overrides.baseUrl || process.env.ORCHIDS_LLM_BASE_URL,
+    scriptFile: overrides.scriptFile || process.env.ORCHIDS_SCRIPT_FILE,
+    fixtureFile: overrides.fixtureFile || process.env.ORCHIDS_FIXTURE_FILE,
+  };
+}
+
+export function createProvider(
+  config: ProviderConfig = resolveProviderConfig()
+): LLMProvider | null {
+  const factory = providers[config.provider];
+  if (!factory) {
+    throw new Error(
+      `Unknown LLM provider '${
+        config.provider
+      }'. Available: ${listProviders().join(", ")}`
+    );
+  }
+  return factory(config);
+}
@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import { LLMProvider, LLMResponse, LLMToolRequest } from "../types";
+
+export type ScriptedReply = string | LLMResponse;
+
+// Deterministic provider for tests: replies are handed out in order, either
+// from a fixed list or from a function of the prompt. Every prompt is kept
+// in `prompts` so tests can assert on what the agent asked.
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  readonly prompts: string[] = [];
+  private cursor = 0;
+
+  constructor(
+    private readonly script:
+      | ScriptedReply[]
+      | ((prompt: string, index: number) => ScriptedReply),
+    readonly model: string = "scripted"
+  ) {}
+
+  static fromFile(scriptFile: string): ScriptedProvider {
+    return new ScriptedProvider(
+      JSON.parse(fs.readFileSync(scriptFile, "utf8"))
+    );
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const reply = this.next(prompt);
+    return typeof reply === "string" ? reply : reply.text;
+  }
+
+  async generateWithTools(request: LLMToolRequest): Promise<LLMResponse> {
+    const reply = this.next(JSON.stringify(request.messages));
+    return typeof reply === "string" ? { text: reply, toolCalls: [] } : reply;
+  }
+
+  private next(prompt: string): ScriptedReply {
+    this.prompts.push(prompt);
+    const index = this.cursor++;
+    if (typeof this.script === "function") return this.script(prompt, index);
+    if (index >= this.script.length) {
+      throw new Error(
+        `Scripted provider ran out of replies after ${this.script.length} call(s)`
+      );
+    }
+    return this.script[index];
+  }
+}
@@ -15,6 +15,8 @@ export interface AgentStep {
 
 export interface SchemaField {
   name: string;
+  // See COLUMN_TYPES in core/column-types.ts for the parameterised and
+  // array forms, e.g. "numeric(10,2)", "enum(a|b)" or "text[]"
   type:
     | "serial"
     | "text"
@@ -24,13 +26,71 @@ export interface SchemaField {
     | "uuid"
     | string;
   constraints?: string[];
+  // Foreign key: each row points at one row of `table`
+  references?: SchemaReference;
 }
 
+export type OnDeleteAction = "cascade" | "set null" | "restrict" | "no action";
+
+export interface SchemaReference {
+  table: string;
+  column: string;
+  onDelete?: OnDeleteAction;
+}
+
+// one-to-many is declared on the table that holds the foreign key: each row
+// of `table` has many rows of this one, linked by `column` (default
+// `<singular table>_id`). many-to-many links both tables through the join
+// table `through` (default `<this table>_<table>`), which is generated.
+export interface SchemaRelationship {
+  type: "one-to-many" | "many-to-many";
+  table: string;
+  column?: string;
+  through?: string;
+  onDelete?: OnDeleteAction;
+}
+
+// A change to an existing table. Renames keep the column's data and are
+// only applied once the user confirms them.
+export type SchemaChange =
+  | { action: "add"; field: SchemaField }
+  | { action: "drop"; field: string }
+  | { action: "rename"; field: string; to: string }
+  | { action: "retype"; field: string; type: string; constraints?: string[] };
+
 export interface SchemaDefinition {
   tableName: string;
   fileName: string;
   fields: SchemaField[];
-  relationships?: string[];
+  relationships?: SchemaRelationship[];
+  // Set when the table already exists: the changes to make to it. Without
+  // it, a definition of an existing table is diffed against the file.
+  alter?: SchemaChange[];
+  // Read from the schema file of an existing table: its pgTable export and
+  // the property key of each column (created_at -> createdAt). New tables
+  // use the camelCase names the generator writes.
+  exportName?: string;
+  propertyKeys?: Record<string, string>;
+  // Set by --auth on tables with an integer user_id: the column holding the
+  // id of the user each row belongs to. Routes only serve that user's rows
+  // and fill the column in themselves.
+  owner?: string;
+  // Who may use the table's routes; stored in src/db/access/<table>.ts
+  access?: AccessPolicy;
+}
+
+// "public", "authenticated" (any signed-in user) or the roles allowed.
+// Admins pass every rule, so [] admits only them.
+export type AccessRule = "public" | "authenticated" | string[];
+
+// Operations without a rule are public. Hidden columns, by column name, are
+// left out of responses for users their rule doesn't admit.
+export interface AccessPolicy {
+  read?: AccessRule;
+  create?: AccessRule;
+  update?: AccessRule;
+  delete?: AccessRule;
+  hidden?: Record<string, AccessRule>;
 }
 
 export interface ValidationResult {
@@ -38,3 +98,102 @@ export interface ValidationResult {
   errors: string[];
   warnings: string[];
 }
+
+export interface FileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface RunJournalEntry {
+  id: string;
+  query: string;
+  createdAt: string;
+  files: FileChange[];
+  generatedFiles: FileChange[];
+  commands: string[];
+  // Set when a later step failed after the migrations were applied: only
+  // the files the database depends on were kept
+  partial?: boolean;
+  undoneAt?: string;
+}
+
+export interface DatabaseAgentOptions {
+  dryRun?: boolean;
+  // Write files but leave drizzle-kit and seed commands for the user to run
+  skipCommands?: boolean;
+  // How many times the model may fix a generated file that fails to typecheck
+  repairAttempts?: number;
+  provider?: LLMProvider | null;
+  // Column renames approved up front, as "table.old_name:new_name"
+  renames?: string[];
+  // Asked for every other rename; without it unapproved renames stop the run
+  confirmRename?: (table: string, from: string, to: string) => Promise<boolean>;
+  // Run locking and destructive migrations without asking
+  allowDestructive?: boolean;
+  // Asked before such a migration runs; without it they stop the run
+  confirmMigration?: (risk: "locking" | "destructive") => Promise<boolean>;
+  // postgresql, sqlite or mysql; a different dialect than drizzle.config.ts
+  // switches the project to it
+  dialect?: string;
+  // plain, swr or react-query; otherwise the project keeps the strategy
+  // src/app/providers.tsx sets up
+  hooks?: string;
+  // Add users, sessions and credentials routes, and scope the routes of
+  // tables with user_id to the signed-in user; projects that have auth keep it
+  auth?: boolean;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema describing the tool arguments
+  parameters: Record<string, any>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export type LLMMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+export interface LLMResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+}
+
+export interface LLMToolRequest {
+  messages: LLMMessage[];
+  tools: LLMToolDefinition[];
+  systemInstruction?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generateText(prompt: string): Promise<string>;
+  generateWithTools(request: LLMToolRequest): Promise<LLMResponse>;
+}
+
+export interface ProviderConfig {
+  provider: string;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  scriptFile?: string;
+  fixtureFile?: string;
+}
+
+// One recorded LLM call. `key` is the prompt's first line, which identifies
+// the kind of request even when the surrounding project context changes.
+export interface LLMFixtureEntry {
+  key: string;
+  hash: string;
+  text: string;
+  toolCalls?: LLMToolCall[];
+}
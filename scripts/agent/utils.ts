@@ -1,4 +1,5 @@
 import chalk from "chalk";
+import { SchemaDefinition } from "./types";
 
 export function toPascalCase(str: string): string {
   return str
@@ -7,6 +8,66 @@ export function toPascalCase(str: string): string {
     .join("");
 }
 
+export function toCamelCase(str: string): string {
+  return str.replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase());
+}
+
+// Good enough for table names: "artists" -> "artist", "playlist_entries" ->
+// "playlist_entry", "status" stays "status"
+export function toSingular(str: string): string {
+  if (/ies$/.test(str)) return str.slice(0, -3) + "y";
+  if (/(ss|us|is)$/.test(str)) return str;
+  if (/(sses|xes|ches|shes)$/.test(str)) return str.slice(0, -2);
+  return str.endsWith("s") ? str.slice(0, -1) : str;
+}
+
+// Name a table is exported under in src/db/schema
+export function tableExportName(schemaDef: SchemaDefinition): string {
+  return schemaDef.exportName ?? toCamelCase(schemaDef.tableName);
+}
+
+// Export name of a table referenced by name, e.g. a foreign key target
+export function exportNameFor(
+  tableName: string,
+  schemaDefs: SchemaDefinition[]
+): string {
+  const def = schemaDefs.find((d) => d.tableName === tableName);
+  return def ? tableExportName(def) : toCamelCase(tableName);
+}
+
+// Property key of a column in the table's pgTable object, which is also the
+// key rows have in query results and JSON payloads
+export function columnKey(schemaDef: SchemaDefinition, column: string): string {
+  return schemaDef.propertyKeys?.[column] ?? toCamelCase(column);
+}
+
+// Prompt description of tables: how each is imported, then one line per
+// column with its property key, SQL name, type, constraints and reference
+export function describeTables(schemaDefs: SchemaDefinition[]): string {
+  return schemaDefs
+    .map((def) =>
+      [
+        `- ${def.tableName}: import { ${tableExportName(
+          def
+        )} } from "@/db/schema"`,
+        ...def.fields.map((f) => {
+          const ref = f.references
+            ? ` -> ${f.references.table}.${f.references.column}${
+                f.references.onDelete
+                  ? ` (on delete ${f.references.onDelete})`
+                  : ""
+              }`
+            : "";
+          return `    ${columnKey(def, f.name)} ("${f.name}"): ${[
+            f.type,
+            ...(f.constraints ?? []),
+          ].join(" ")}${ref}`;
+        }),
+      ].join("\n")
+    )
+    .join("\n");
+}
+
 export const stepIcons: Record<string, string> = {
   thinking: "🤔",
   analyzing: "🔍",
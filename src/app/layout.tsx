@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import "./globals.css";
+import { PlayerProvider } from "@/components/player-provider";
 
 export const metadata: Metadata = {
   title: "McBeats",
@@ -13,7 +14,9 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en" className="dark">
-      <body className="antialiased bg-[#121212] text-white">{children}</body>
+      <body className="antialiased bg-[#121212] text-white">
+        <PlayerProvider>{children}</PlayerProvider>
+      </body>
     </html>
   );
 }
\ No newline at end of file
@@ -5,34 +5,32 @@ import SpotifySidebar from '@/components/spotify-sidebar'
 import SpotifyMainContent from '@/components/spotify-main-content'
 import SpotifyPlayer from '@/components/spotify-player'
 import SpotifyHeader from '@/components/spotify-header'
-
-interface Track {
-  id: string
-  title: string
-  artist: string
-  album: string
-  albumArt: string
-  duration: number
-}
+import SpotifyQueue from '@/components/spotify-queue'
+import { usePlayer } from '@/components/player-provider'
+import { usePlayQueue } from '@/hooks/use-play-queue'
+import type { PlayContext } from '@/lib/play-queue'
+import type { Track } from '@/lib/track'
 
 export default function SpotifyApp() {
   const [isSidebarVisible, setIsSidebarVisible] = useState(true)
   const [currentView, setCurrentView] = useState<'home' | 'search' | 'library' | 'playlist'>('home')
   const [searchQuery, setSearchQuery] = useState('')
-  const [isPlaying, setIsPlaying] = useState(false)
-  const [currentTime, setCurrentTime] = useState(0)
-  const [volume, setVolume] = useState(80)
-  const [isShuffled, setIsShuffled] = useState(false)
-  const [repeatMode, setRepeatMode] = useState<'off' | 'all' | 'one'>('off')
   const [isLiked, setIsLiked] = useState(false)
   const [navigationHistory, setNavigationHistory] = useState<string[]>(['home'])
   const [historyIndex, setHistoryIndex] = useState(0)
-  const [currentTrack, setCurrentTrack] = useState<Track | null>(null)
+  const [isQueueOpen, setIsQueueOpen] = useState(false)
+  const player = usePlayer()
+  const playQueue = usePlayQueue()
+
+  // Without a context the track plays on its own
+  const handlePlayTrack = (track: Track, context?: PlayContext, tracks: Track[] = [track]) => {
+    const playContext = context ?? { type: 'playlist', id: track.id, name: track.album }
+    const index = Math.max(0, tracks.findIndex((t) => t.id === track.id))
+    playQueue.playFromContext(playContext, tracks, index)
+  }
 
-  const handlePlayTrack = (track: Track) => {
-    setCurrentTrack(track)
-    setIsPlaying(true)
-    setCurrentTime(0)
+  const handleAddToQueue = (track: Track) => {
+    playQueue.addToQueue(track)
   }
 
   const handleHomeClick = () => {
@@ -85,36 +83,35 @@ export default function SpotifyApp() {
   }
 
   const handlePlayPause = () => {
-    setIsPlaying(!isPlaying)
+    player.togglePlay()
   }
 
   const handleNext = () => {
-    // Logic for next track
-    setCurrentTime(0)
+    playQueue.next()
   }
 
   const handlePrevious = () => {
-    // Logic for previous track
-    setCurrentTime(0)
+    playQueue.previous()
   }
 
   const handleShuffle = () => {
-    setIsShuffled(!isShuffled)
+    playQueue.toggleShuffle()
   }
 
   const handleRepeat = () => {
-    const modes: ('off' | 'all' | 'one')[] = ['off', 'all', 'one']
-    const currentIndex = modes.indexOf(repeatMode)
-    const nextIndex = (currentIndex + 1) % modes.length
-    setRepeatMode(modes[nextIndex])
+    playQueue.cycleRepeat()
   }
 
   const handleSeek = (time: number) => {
-    setCurrentTime(time)
+    player.seek(time)
   }
 
   const handleVolumeChange = (newVolume: number) => {
-    setVolume(newVolume)
+    player.setVolume(newVolume)
+  }
+
+  const handleMuteToggle = () => {
+    player.toggleMute()
   }
 
   const handleToggleLike = () => {
@@ -161,7 +158,9 @@ export default function SpotifyApp() {
 
           {/* Main Content */}
           <div className="flex-1 overflow-y-auto pb-24">
-            {currentView === 'home' && <SpotifyMainContent onPlayTrack={handlePlayTrack} />}
+            {currentView === 'home' && (
+              <SpotifyMainContent onPlayTrack={handlePlayTrack} onAddToQueue={handleAddToQueue} />
+            )}
             {currentView === 'search' && (
               <div className="p-6">
                 <h1 className="text-2xl font-bold mb-6">Search</h1>
@@ -192,16 +191,33 @@ export default function SpotifyApp() {
             )}
           </div>
         </div>
+
+        {/* Queue */}
+        {isQueueOpen && (
+          <SpotifyQueue
+            currentTrack={player.track}
+            context={playQueue.queue.context}
+            queued={playQueue.upcoming.queued}
+            contextTracks={playQueue.upcoming.context}
+            onSkipTo={playQueue.skipTo}
+            onRemove={playQueue.removeFromQueue}
+            onClose={() => setIsQueueOpen(false)}
+          />
+        )}
       </div>
 
       {/* Bottom Player */}
       <SpotifyPlayer
-        currentTrack={currentTrack}
-        isPlaying={isPlaying}
-        currentTime={currentTime}
-        volume={volume}
-        isShuffled={isShuffled}
-        repeatMode={repeatMode}
+        currentTrack={player.track}
+        isPlaying={player.isPlaying}
+        isBuffering={player.isBuffering}
+        error={player.error}
+        currentTime={player.currentTime}
+        duration={player.duration}
+        volume={player.volume}
+        isMuted={player.isMuted}
+        isShuffled={playQueue.queue.shuffle}
+        repeatMode={playQueue.queue.repeat}
         onPlayPause={handlePlayPause}
         onNext={handleNext}
         onPrevious={handlePrevious}
@@ -209,8 +225,11 @@ export default function SpotifyApp() {
         onRepeat={handleRepeat}
         onSeek={handleSeek}
         onVolumeChange={handleVolumeChange}
+        onMuteToggle={handleMuteToggle}
         onToggleLike={handleToggleLike}
         isLiked={isLiked}
+        isQueueOpen={isQueueOpen}
+        onQueueToggle={() => setIsQueueOpen(!isQueueOpen)}
       />
     </div>
   )
@@ -0,0 +1,158 @@
+"use client"
+
+import { createContext, useContext, useEffect, useReducer, useRef, useState, type ReactNode } from 'react'
+import { IDLE_PLAYBACK, isBuffering, playbackReducer, type PlaybackEvent, type PlaybackStatus } from '@/lib/playback'
+import type { Track } from '@/lib/track'
+
+interface PlayerContextValue {
+  track: Track | null
+  status: PlaybackStatus
+  isPlaying: boolean
+  isBuffering: boolean
+  currentTime: number
+  duration: number
+  volume: number
+  isMuted: boolean
+  error: string | null
+  load: (track: Track, autoplay?: boolean) => void
+  play: () => void
+  pause: () => void
+  togglePlay: () => void
+  seek: (time: number) => void
+  setVolume: (volume: number) => void
+  toggleMute: () => void
+}
+
+const PlayerContext = createContext<PlayerContextValue | null>(null)
+
+// Plays tracks through a single HTMLAudioElement. The element's events drive
+// playbackReducer in src/lib/playback.ts; volume and mute are applied to it.
+export function PlayerProvider({ children }: { children: ReactNode }) {
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const [playback, dispatch] = useReducer(playbackReducer, IDLE_PLAYBACK)
+  const [volume, setVolumeState] = useState(80)
+  const [isMuted, setIsMuted] = useState(false)
+
+  // Created on first use, so children can load a track from their own
+  // mount effects, which run before this provider's
+  const getAudio = () => {
+    if (!audioRef.current) {
+      audioRef.current = new Audio()
+      audioRef.current.preload = 'auto'
+    }
+    return audioRef.current
+  }
+
+  useEffect(() => {
+    const audio = getAudio()
+
+    const events: Record<string, () => PlaybackEvent> = {
+      loadstart: () => ({ type: 'loadstart' }),
+      durationchange: () => ({ type: 'durationchange', duration: audio.duration }),
+      canplay: () => ({ type: 'canplay' }),
+      waiting: () => ({ type: 'waiting' }),
+      playing: () => ({ type: 'playing' }),
+      play: () => ({ type: 'play' }),
+      pause: () => ({ type: 'pause' }),
+      timeupdate: () => ({ type: 'timeupdate', time: audio.currentTime }),
+      ended: () => ({ type: 'ended' }),
+      error: () => ({ type: 'error', code: audio.error?.code ?? null })
+    }
+    const listeners = Object.fromEntries(
+      Object.entries(events).map(([event, toEvent]) => [event, () => dispatch(toEvent())])
+    )
+    for (const [event, listener] of Object.entries(listeners)) {
+      audio.addEventListener(event, listener)
+    }
+
+    return () => {
+      for (const [event, listener] of Object.entries(listeners)) {
+        audio.removeEventListener(event, listener)
+      }
+      audio.pause()
+      audio.removeAttribute('src')
+      audio.load()
+      audioRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const audio = getAudio()
+    audio.volume = volume / 100
+    audio.muted = isMuted
+  }, [volume, isMuted])
+
+  const play = () => {
+    const audio = getAudio()
+    if (!audio.getAttribute('src')) return
+    audio.play().catch((e: unknown) => {
+      // Loading another track interrupts a pending play(), which isn't a
+      // failure. Blocked autoplay waits for the play button; real errors
+      // arrive as the element's error event.
+      if (e instanceof DOMException && e.name === 'AbortError') return
+      dispatch({ type: 'pause' })
+    })
+  }
+
+  const pause = () => {
+    audioRef.current?.pause()
+  }
+
+  const load = (next: Track, autoplay = true) => {
+    const audio = getAudio()
+    dispatch({ type: 'load', track: next })
+
+    if (!next.audioUrl) {
+      audio.pause()
+      audio.removeAttribute('src')
+      audio.load()
+      return
+    }
+
+    audio.src = next.audioUrl
+    if (autoplay) play()
+  }
+
+  const togglePlay = () => {
+    if (playback.isPlaying) pause()
+    else play()
+  }
+
+  const seek = (time: number) => {
+    const audio = getAudio()
+    dispatch({ type: 'seek', time })
+    if (audio.getAttribute('src')) audio.currentTime = time
+  }
+
+  // Raising the volume unmutes, like the player's slider suggests
+  const setVolume = (next: number) => {
+    setVolumeState(next)
+    if (next > 0) setIsMuted(false)
+  }
+
+  const toggleMute = () => {
+    setIsMuted((muted) => !muted)
+  }
+
+  const value: PlayerContextValue = {
+    ...playback,
+    isBuffering: isBuffering(playback),
+    volume,
+    isMuted,
+    load,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    setVolume,
+    toggleMute
+  }
+
+  return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>
+}
+
+export function usePlayer() {
+  const player = useContext(PlayerContext)
+  if (!player) throw new Error('usePlayer must be used inside a PlayerProvider')
+  return player
+}
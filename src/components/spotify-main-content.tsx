@@ -1,16 +1,9 @@
 "use client"
 
-import { Play, User } from "lucide-react"
+import { ListPlus, Play, User } from "lucide-react"
 import { useState } from "react"
-
-interface Track {
-  id: string
-  title: string
-  artist: string
-  album: string
-  albumArt: string
-  duration: number
-}
+import type { PlayContext } from "@/lib/play-queue"
+import type { Track } from "@/lib/track"
 
 interface MusicCardProps {
   title: string
@@ -19,9 +12,10 @@ interface MusicCardProps {
   size?: "small" | "medium" | "large"
   className?: string
   onPlay?: () => void
+  onAddToQueue?: () => void
 }
 
-function MusicCard({ title, artist, image, size = "medium", className = "", onPlay }: MusicCardProps) {
+function MusicCard({ title, artist, image, size = "medium", className = "", onPlay, onAddToQueue }: MusicCardProps) {
   const [isHovered, setIsHovered] = useState(false)
 
   const sizeClasses = {
@@ -35,6 +29,11 @@ function MusicCard({ title, artist, image, size = "medium", className = "", onPl
     onPlay?.()
   }
 
+  const handleQueueClick = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    onAddToQueue?.()
+  }
+
   return (
     <div 
       className={`group cursor-pointer p-4 rounded-lg transition-all duration-300 hover:bg-[var(--color-interactive-hover)] border border-transparent hover:border-gray-600/50 ${className}`}
@@ -65,6 +64,18 @@ function MusicCard({ title, artist, image, size = "medium", className = "", onPl
             <Play className="w-5 h-5 text-black fill-black ml-1" />
           </div>
         </div>
+
+        {onAddToQueue && (
+          <button
+            onClick={handleQueueClick}
+            title="Add to queue"
+            className={`absolute top-2 right-2 w-8 h-8 bg-black/70 rounded-full flex items-center justify-center transition-opacity duration-300 hover:scale-110 ${
+              isHovered ? 'opacity-100' : 'opacity-0'
+            }`}
+          >
+            <ListPlus className="w-4 h-4 text-white" />
+          </button>
+        )}
       </div>
       
       <div className="space-y-1">
@@ -76,18 +87,34 @@ function MusicCard({ title, artist, image, size = "medium", className = "", onPl
 }
 
 interface SpotifyMainContentProps {
-  onPlayTrack?: (track: Track) => void
+  // The context plays its tracks after this one; without one only it plays
+  onPlayTrack?: (track: Track, context?: PlayContext, tracks?: Track[]) => void
+  onAddToQueue?: (track: Track) => void
 }
 
-export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentProps) {
-  const recentlyPlayed = [
+// A Recently played card: where the user last listened and the track to
+// pick it up from
+interface RecentItem {
+  id: string
+  title: string
+  artist: string
+  album: string
+  image?: string
+  duration: number
+  audioUrl?: string
+  context?: PlayContext
+}
+
+export default function SpotifyMainContent({ onPlayTrack, onAddToQueue }: SpotifyMainContentProps) {
+  const recentlyPlayed: RecentItem[] = [
     { 
       id: "1",
       title: "Liked Songs", 
       artist: "320 songs",
       album: "Your Music",
       image: "https://v3.fal.media/files/panda/kvQ0deOgoUWHP04ajVH3A_output.png",
-      duration: 180
+      duration: 180,
+      context: { type: "playlist", id: "1", name: "Liked Songs" }
     },
     { 
       id: "2",
@@ -95,7 +122,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
       artist: "Spotify",
       album: "Weekly Mix",
       image: "https://v3.fal.media/files/kangaroo/HRayeBi01JIqfkCjjoenp_output.png",
-      duration: 210
+      duration: 210,
+      context: { type: "playlist", id: "2", name: "Discover Weekly" }
     },
     { 
       id: "3",
@@ -103,7 +131,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
       artist: "Spotify",
       album: "New Releases",
       image: "https://v3.fal.media/files/panda/q7hWJCgH2Fy4cJdWqAzuk_output.png",
-      duration: 195
+      duration: 195,
+      context: { type: "playlist", id: "3", name: "Release Radar" }
     },
     { 
       id: "4",
@@ -111,7 +140,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
       artist: "Spotify",
       album: "Daily Mix",
       image: "https://v3.fal.media/files/elephant/N5qDbXOpqAlIcK7kJ4BBp_output.png",
-      duration: 225
+      duration: 225,
+      context: { type: "playlist", id: "4", name: "Daily Mix 1" }
     },
     { 
       id: "5",
@@ -119,7 +149,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
       artist: "Spotify",
       album: "Chill Collection",
       image: "https://v3.fal.media/files/rabbit/tAQ6AzJJdlEZW-y4eNdxO_output.png",
-      duration: 240
+      duration: 240,
+      context: { type: "playlist", id: "5", name: "Chill Hits" }
     },
     { 
       id: "6",
@@ -127,7 +158,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
       artist: "Spotify",
       album: "Global Charts",
       image: "https://v3.fal.media/files/kangaroo/0OgdfDAzLEbkda0m7uLJw_output.png",
-      duration: 205
+      duration: 205,
+      context: { type: "playlist", id: "6", name: "Top 50 - Global" }
     }
   ]
 
@@ -249,16 +281,20 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
     }
   ]
 
-  const handlePlayTrack = (item: any) => {
-    const track: Track = {
-      id: item.id,
-      title: item.title,
-      artist: item.artist,
-      album: item.album,
-      albumArt: item.image || '/api/placeholder/56/56',
-      duration: item.duration
-    }
-    onPlayTrack?.(track)
+  const toTrack = (item: any): Track => ({
+    id: item.id,
+    title: item.title,
+    artist: item.artist,
+    album: item.album,
+    albumArt: item.image || '/api/placeholder/56/56',
+    duration: item.duration,
+    audioUrl: item.audioUrl
+  })
+
+  // Playlists and albums play on their own; a Made For You card plays the
+  // rest of the shelf after it
+  const handlePlayTrack = (item: any, context?: PlayContext, items: any[] = [item]) => {
+    onPlayTrack?.(toTrack(item), context, items.map(toTrack))
   }
 
   return (
@@ -286,7 +322,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
                 artist={item.artist} 
                 image={item.image}
                 size="small"
-                onPlay={() => handlePlayTrack(item)}
+                onPlay={() => handlePlayTrack(item, item.context)}
+                onAddToQueue={onAddToQueue && (() => onAddToQueue(toTrack(item)))}
               />
             </div>
           ))}
@@ -309,7 +346,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
               artist={item.artist}
               image={item.image}
               size="medium"
-              onPlay={() => handlePlayTrack(item)}
+              onPlay={() => handlePlayTrack(item, { type: "shelf", id: "made-for-you", name: "Made For You" }, madeForYou)}
+              onAddToQueue={onAddToQueue && (() => onAddToQueue(toTrack(item)))}
             />
           ))}
         </div>
@@ -331,7 +369,8 @@ export default function SpotifyMainContent({ onPlayTrack }: SpotifyMainContentPr
               artist={item.artist}
               image={item.image}
               size="medium"
-              onPlay={() => handlePlayTrack(item)}
+              onPlay={() => handlePlayTrack(item, { type: "album", id: item.id, name: item.album })}
+              onAddToQueue={onAddToQueue && (() => onAddToQueue(toTrack(item)))}
             />
           ))}
         </div>
@@ -16,23 +16,20 @@ import {
   List,
   Monitor,
   Heart,
+  Loader2,
   PictureInPicture2 
 } from 'lucide-react'
-
-interface Track {
-  id: string
-  title: string
-  artist: string
-  album: string
-  albumArt: string
-  duration: number
-}
+import type { Track } from '@/lib/track'
 
 interface SpotifyPlayerProps {
   currentTrack?: Track | null
   isPlaying?: boolean
+  isBuffering?: boolean
+  error?: string | null
   currentTime?: number
+  duration?: number
   volume?: number
+  isMuted?: boolean
   isShuffled?: boolean
   repeatMode?: 'off' | 'all' | 'one'
   onPlayPause?: () => void
@@ -42,15 +39,22 @@ interface SpotifyPlayerProps {
   onRepeat?: () => void
   onSeek?: (time: number) => void
   onVolumeChange?: (volume: number) => void
+  onMuteToggle?: () => void
   onToggleLike?: () => void
   isLiked?: boolean
+  isQueueOpen?: boolean
+  onQueueToggle?: () => void
 }
 
 export default function SpotifyPlayer({
   currentTrack = null,
   isPlaying = false,
+  isBuffering = false,
+  error = null,
   currentTime = 0,
+  duration,
   volume = 80,
+  isMuted = false,
   isShuffled = false,
   repeatMode = 'off',
   onPlayPause = () => {},
@@ -60,14 +64,15 @@ export default function SpotifyPlayer({
   onRepeat = () => {},
   onSeek = () => {},
   onVolumeChange = () => {},
+  onMuteToggle = () => {},
   onToggleLike = () => {},
-  isLiked = false
+  isLiked = false,
+  isQueueOpen = false,
+  onQueueToggle = () => {}
 }: SpotifyPlayerProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [localCurrentTime, setLocalCurrentTime] = useState(currentTime)
   const [localVolume, setLocalVolume] = useState(volume)
-  const [isMuted, setIsMuted] = useState(false)
-  const [previousVolume, setPreviousVolume] = useState(volume)
 
   // Default track when no track is selected
   const defaultTrack: Track = {
@@ -80,6 +85,8 @@ export default function SpotifyPlayer({
   }
 
   const activeTrack = currentTrack || defaultTrack
+  // The audio's own length once its metadata loaded
+  const trackDuration = currentTrack && duration ? duration : activeTrack.duration
 
   useEffect(() => {
     if (!isDragging) {
@@ -107,22 +114,6 @@ export default function SpotifyPlayer({
     const newVolume = value[0]
     setLocalVolume(newVolume)
     onVolumeChange(newVolume)
-    if (newVolume > 0 && isMuted) {
-      setIsMuted(false)
-    }
-  }
-
-  const handleMuteToggle = () => {
-    if (isMuted) {
-      setIsMuted(false)
-      setLocalVolume(previousVolume)
-      onVolumeChange(previousVolume)
-    } else {
-      setIsMuted(true)
-      setPreviousVolume(localVolume)
-      setLocalVolume(0)
-      onVolumeChange(0)
-    }
   }
 
   const getVolumeIcon = () => {
@@ -223,6 +214,9 @@ export default function SpotifyPlayer({
               <div className="text-[#b3b3b3] text-xs truncate hover:underline cursor-pointer">
                 {activeTrack.artist}
               </div>
+              {error && (
+                <div className="text-[#f15e6c] text-xs truncate">{error}</div>
+              )}
             </div>
             <Button
               variant="ghost"
@@ -274,7 +268,13 @@ export default function SpotifyPlayer({
                 onClick={onPlayPause}
                 disabled={!currentTrack}
               >
-                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4 ml-0.5" />}
+                {isBuffering ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : isPlaying ? (
+                  <Pause className="h-4 w-4" />
+                ) : (
+                  <Play className="h-4 w-4 ml-0.5" />
+                )}
               </Button>
               <Button
                 variant="ghost"
@@ -288,7 +288,7 @@ export default function SpotifyPlayer({
               <Button
                 variant="ghost"
                 size="sm"
-                className={`text-[#b3b3b3] hover:text-white hover:bg-[#2a2a2a] p-2 h-8 w-8 ${repeatMode !== 'off' ? 'text-[#FFC72C]' : ''}`}
+                className={`relative text-[#b3b3b3] hover:text-white hover:bg-[#2a2a2a] p-2 h-8 w-8 ${repeatMode !== 'off' ? 'text-[#FFC72C]' : ''}`}
                 onClick={onRepeat}
                 disabled={!currentTrack}
               >
@@ -307,7 +307,7 @@ export default function SpotifyPlayer({
               <div className="flex-1 px-2">
                 <Slider
                   value={[localCurrentTime]}
-                  max={activeTrack.duration}
+                  max={trackDuration}
                   step={1}
                   onValueChange={handleProgressChange}
                   onPointerDown={() => setIsDragging(true)}
@@ -317,7 +317,7 @@ export default function SpotifyPlayer({
                 />
               </div>
               <span className="text-[#b3b3b3] text-xs font-medium min-w-[35px]">
-                {formatTime(activeTrack.duration)}
+                {formatTime(trackDuration)}
               </span>
             </div>
           </div>
@@ -327,7 +327,8 @@ export default function SpotifyPlayer({
             <Button
               variant="ghost"
               size="sm"
-              className="text-[#b3b3b3] hover:text-white hover:bg-[#2a2a2a] p-2 h-8 w-8"
+              className={`text-[#b3b3b3] hover:text-white hover:bg-[#2a2a2a] p-2 h-8 w-8 ${isQueueOpen ? 'text-[#FFC72C]' : ''}`}
+              onClick={onQueueToggle}
             >
               <List className="h-4 w-4" />
             </Button>
@@ -343,13 +344,13 @@ export default function SpotifyPlayer({
                 variant="ghost"
                 size="sm"
                 className="text-[#b3b3b3] hover:text-white hover:bg-[#2a2a2a] p-2 h-8 w-8"
-                onClick={handleMuteToggle}
+                onClick={onMuteToggle}
               >
                 <VolumeIcon className="h-4 w-4" />
               </Button>
               <div className="w-24">
                 <Slider
-                  value={[localVolume]}
+                  value={[isMuted ? 0 : localVolume]}
                   max={100}
                   step={1}
                   onValueChange={handleVolumeChange}
@@ -0,0 +1,118 @@
+"use client"
+
+import { X } from 'lucide-react'
+import type { PlayContext } from '@/lib/play-queue'
+import type { Track } from '@/lib/track'
+
+interface SpotifyQueueProps {
+  currentTrack?: Track | null
+  context?: PlayContext | null
+  queued?: Track[]
+  contextTracks?: Track[]
+  // Index into the queued tracks followed by the context's
+  onSkipTo?: (index: number) => void
+  onRemove?: (index: number) => void
+  onClose?: () => void
+}
+
+function QueueRow({
+  track,
+  isCurrent = false,
+  onClick,
+  onRemove
+}: {
+  track: Track
+  isCurrent?: boolean
+  onClick?: () => void
+  onRemove?: () => void
+}) {
+  return (
+    <div className="relative w-full flex items-center gap-3 p-2 rounded-md hover:bg-[#2a2a2a] transition-all duration-200 group">
+      <button onClick={onClick} className="flex items-center gap-3 flex-1 min-w-0" disabled={isCurrent}>
+        <img
+          src={track.albumArt}
+          alt={track.album}
+          className="w-10 h-10 object-cover rounded-md flex-shrink-0"
+        />
+        <div className="flex-1 min-w-0 text-left">
+          <p className={`font-medium text-sm truncate ${isCurrent ? 'text-[#FFC72C]' : 'text-white'}`}>
+            {track.title}
+          </p>
+          <p className="text-[#b3b3b3] text-xs truncate">{track.artist}</p>
+        </div>
+      </button>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="opacity-0 group-hover:opacity-100 text-[#b3b3b3] hover:text-white p-1"
+          aria-label={`Remove ${track.title} from the queue`}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default function SpotifyQueue({
+  currentTrack = null,
+  context = null,
+  queued = [],
+  contextTracks = [],
+  onSkipTo = () => {},
+  onRemove = () => {},
+  onClose = () => {}
+}: SpotifyQueueProps) {
+  return (
+    <div className="w-[320px] h-screen bg-[#121212] flex flex-col border-l border-[#2a2a2a] pb-24">
+      <div className="flex items-center justify-between p-4 border-b border-[#2a2a2a]">
+        <h2 className="text-white font-bold text-lg">Queue</h2>
+        <button
+          onClick={onClose}
+          className="text-[#b3b3b3] hover:text-white p-1 rounded-md hover:bg-[#2a2a2a]"
+          aria-label="Close the queue"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <div className="space-y-2">
+          <h3 className="px-2 text-sm font-medium text-[#b3b3b3]">Now playing</h3>
+          {currentTrack ? (
+            <QueueRow track={currentTrack} isCurrent />
+          ) : (
+            <p className="px-2 text-sm text-[#b3b3b3]">Nothing is playing</p>
+          )}
+        </div>
+
+        {queued.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="px-2 text-sm font-medium text-[#b3b3b3]">Next in queue</h3>
+            {queued.map((track, index) => (
+              <QueueRow
+                key={`queued-${index}`}
+                track={track}
+                onClick={() => onSkipTo(index)}
+                onRemove={() => onRemove(index)}
+              />
+            ))}
+          </div>
+        )}
+
+        {context && contextTracks.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="px-2 text-sm font-medium text-[#b3b3b3] truncate">Next from: {context.name}</h3>
+            {contextTracks.map((track, index) => (
+              <QueueRow
+                key={`context-${index}`}
+                track={track}
+                onClick={() => onSkipTo(queued.length + index)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
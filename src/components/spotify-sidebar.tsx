@@ -2,15 +2,8 @@
 
 import { Home, Search, Library, Plus, ArrowRight, Play } from 'lucide-react'
 import { useState } from 'react'
-
-interface Track {
-  id: string
-  title: string
-  artist: string
-  album: string
-  albumArt: string
-  duration: number
-}
+import type { PlayContext } from '@/lib/play-queue'
+import type { Track } from '@/lib/track'
 
 interface PlaylistItem {
   id: string
@@ -18,6 +11,7 @@ interface PlaylistItem {
   subtitle: string
   image?: string
   duration?: number
+  audioUrl?: string
 }
 
 interface SpotifySidebarProps {
@@ -27,7 +21,7 @@ interface SpotifySidebarProps {
   onSearchClick?: () => void
   onLibraryToggle?: () => void
   onPlaylistClick?: (playlistId: string) => void
-  onPlayTrack?: (track: Track) => void
+  onPlayTrack?: (track: Track, context?: PlayContext) => void
 }
 
 export default function SpotifySidebar({
@@ -103,9 +97,10 @@ export default function SpotifySidebar({
       artist: item.subtitle.split(' • ')[0] || 'Playlist',
       album: item.title,
       albumArt: item.image || '/api/placeholder/56/56',
-      duration: item.duration || 180
+      duration: item.duration || 180,
+      audioUrl: item.audioUrl
     }
-    onPlayTrack?.(track)
+    onPlayTrack?.(track, { type: 'playlist', id: item.id, name: item.title })
   }
 
   const handlePlayButtonClick = (e: React.MouseEvent, item: PlaylistItem) => {
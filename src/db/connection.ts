@@ -0,0 +1,45 @@
+import { PGlite } from "@electric-sql/pglite";
+import * as fs from "fs";
+import * as path from "path";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { drizzle as drizzlePostgres } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import * as schema from "./schema/index";
+
+// Embedded PGlite database used when DATABASE_DRIVER=pglite, so the app,
+// drizzle-kit and seed scripts run without a Postgres server
+export const PGLITE_DATA_DIR = ".orchids/db";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function usesPglite(): boolean {
+  return process.env.DATABASE_DRIVER === "pglite";
+}
+
+// Opens a connection to the configured database. `close` ends it so
+// scripts can exit once they are done.
+export function connectDb(): { db: Database; close: () => Promise<void> } {
+  if (usesPglite()) {
+    // PGlite creates the data directory but not its parents
+    fs.mkdirSync(path.dirname(PGLITE_DATA_DIR), { recursive: true });
+    const client = new PGlite(PGLITE_DATA_DIR);
+    return {
+      db: drizzlePglite(client, { schema }),
+      close: () => client.close(),
+    };
+  }
+
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error(
+      "DATABASE_URL is not set. Add it to .env, or set DATABASE_DRIVER=pglite to use the embedded database"
+    );
+  }
+  // TLS comes from the URL, e.g. ?sslmode=require for hosted databases
+  const client = postgres(url);
+  return {
+    db: drizzlePostgres(client, { schema }),
+    close: () => client.end(),
+  };
+}
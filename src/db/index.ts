@@ -1,7 +1,20 @@
-import { drizzle } from "drizzle-orm/postgres-js";
-import postgres from "postgres";
-import * as schema from "./schema/index";
+import { connectDb, Database } from "./connection";
 
-const connectionString = process.env.DATABASE_URL!;
-const sql = postgres(connectionString);
-export const db = drizzle(sql, { schema });
+// One connection per process; the dev server re-evaluates modules on every
+// change, and a PGlite data directory can only be opened once
+const globalForDb = globalThis as typeof globalThis & { db?: Database };
+
+function connection(): Database {
+  if (!globalForDb.db) globalForDb.db = connectDb().db;
+  return globalForDb.db;
+}
+
+// Connects on first use rather than on import, so a missing DATABASE_URL
+// fails the request that needs the database instead of `next build`
+export const db = new Proxy({} as Database, {
+  get(_, property) {
+    const target = connection();
+    const value = Reflect.get(target, property);
+    return typeof value === "function" ? value.bind(target) : value;
+  },
+});
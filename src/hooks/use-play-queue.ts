@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react'
+import { usePlayer } from '@/components/player-provider'
+import * as playQueue from '@/lib/play-queue'
+import type { PlayContext, QueueState } from '@/lib/play-queue'
+import type { Track } from '@/lib/track'
+
+const STORAGE_KEY = 'mcbeats-queue'
+
+// Seconds after which previous restarts the track instead of going back
+const RESTART_AFTER = 3
+
+// A stale or corrupt queue is dropped rather than restored
+function readStoredQueue(): QueueState | null {
+  try {
+    const stored = playQueue.restoreQueue(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'))
+    if (!stored) localStorage.removeItem(STORAGE_KEY)
+    return stored
+  } catch {
+    localStorage.removeItem(STORAGE_KEY)
+    return null
+  }
+}
+
+// The play queue on top of the player: what plays next, shuffle and repeat.
+// It is kept in localStorage, and a reload brings back the current track
+// paused.
+export function usePlayQueue() {
+  const player = usePlayer()
+  const [queue, setQueue] = useState<QueueState>(playQueue.EMPTY_QUEUE)
+  const [isRestored, setIsRestored] = useState(false)
+
+  useEffect(() => {
+    const stored = readStoredQueue()
+    if (stored) {
+      setQueue(stored)
+      if (stored.current) player.load(stored.current.track, false)
+    }
+    setIsRestored(true)
+  }, [])
+
+  useEffect(() => {
+    if (isRestored) localStorage.setItem(STORAGE_KEY, JSON.stringify(queue))
+  }, [queue, isRestored])
+
+  // A track that ends by itself moves the queue on, or plays again when
+  // repeating one; the next button always moves on
+  useEffect(() => {
+    if (player.status !== 'ended') return
+    if (queue.repeat === 'one') {
+      player.seek(0)
+      player.play()
+    } else {
+      start(playQueue.nextTrack(queue))
+    }
+  }, [player.status])
+
+  const start = (next: QueueState | null): boolean => {
+    if (!next?.current) return false
+    setQueue(next)
+    player.load(next.current.track)
+    return true
+  }
+
+  const playFromContext = (context: PlayContext, tracks: Track[], index: number) => {
+    start(playQueue.playFromContext(queue, context, tracks, index))
+  }
+
+  // At the end of the queue the last track stops and rewinds
+  const next = () => {
+    if (start(playQueue.nextTrack(queue))) return
+    player.pause()
+    player.seek(0)
+  }
+
+  const previous = () => {
+    if (player.currentTime > RESTART_AFTER || !start(playQueue.previousTrack(queue))) {
+      player.seek(0)
+    }
+  }
+
+  const skipTo = (index: number) => {
+    start(playQueue.skipTo(queue, index))
+  }
+
+  return {
+    queue,
+    upcoming: playQueue.upcoming(queue),
+    playFromContext,
+    next,
+    previous,
+    skipTo,
+    addToQueue: (track: Track) => setQueue((q) => playQueue.addToQueue(q, track)),
+    removeFromQueue: (index: number) => setQueue((q) => playQueue.removeFromQueue(q, index)),
+    toggleShuffle: () => setQueue(playQueue.toggleShuffle),
+    cycleRepeat: () => setQueue(playQueue.cycleRepeat)
+  }
+}
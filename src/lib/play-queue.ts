@@ -0,0 +1,273 @@
+import type { Track } from '@/lib/track'
+
+export type RepeatMode = 'off' | 'all' | 'one'
+
+// Where playback started: an album, a playlist or a shelf of the home page
+// such as Made For You
+export interface PlayContext {
+  type: 'album' | 'playlist' | 'shelf'
+  id: string
+  name: string
+}
+
+// A track that played or is playing. position is its place in the play
+// order of the context; null for tracks the user queued.
+export interface QueueEntry {
+  track: Track
+  position: number | null
+}
+
+export interface QueueState {
+  context: PlayContext | null
+  tracks: Track[]
+  // Indexes into tracks in the order they play, shuffled or not
+  order: number[]
+  // Place in order of the last context track played
+  position: number
+  // Queued with "play next", played before the rest of the context
+  upNext: Track[]
+  current: QueueEntry | null
+  // Entries played before current, newest last, so previous retraces a
+  // shuffled order
+  history: QueueEntry[]
+  shuffle: boolean
+  repeat: RepeatMode
+}
+
+const HISTORY_LIMIT = 100
+
+export const EMPTY_QUEUE: QueueState = {
+  context: null,
+  tracks: [],
+  order: [],
+  position: -1,
+  upNext: [],
+  current: null,
+  history: [],
+  shuffle: false,
+  repeat: 'off'
+}
+
+function shuffled(indexes: number[]): number[] {
+  const result = [...indexes]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+// The play order of a context; shuffled ones start with `first`
+function playOrder(count: number, shuffle: boolean, first: number): number[] {
+  const indexes = Array.from({ length: count }, (_, i) => i)
+  if (!shuffle) return indexes
+  return [first, ...shuffled(indexes.filter((i) => i !== first))]
+}
+
+function withHistory(history: QueueEntry[], entry: QueueEntry | null): QueueEntry[] {
+  return entry ? [...history, entry].slice(-HISTORY_LIMIT) : history
+}
+
+// Entries keep pointing at the same tracks once the play order changes
+function reordered(entries: QueueEntry[], from: number[], to: number[]): QueueEntry[] {
+  return entries.map((entry) =>
+    entry.position === null ? entry : { ...entry, position: to.indexOf(from[entry.position]) }
+  )
+}
+
+// Starts tracks[index] of a context, replacing the previous context. Queued
+// tracks stay queued.
+export function playFromContext(
+  state: QueueState,
+  context: PlayContext,
+  tracks: Track[],
+  index: number
+): QueueState {
+  const order = playOrder(tracks.length, state.shuffle, index)
+  const position = order.indexOf(index)
+  return {
+    ...state,
+    context,
+    tracks,
+    order,
+    position,
+    current: { track: tracks[index], position },
+    history: []
+  }
+}
+
+export function addToQueue(state: QueueState, track: Track): QueueState {
+  return { ...state, upNext: [...state.upNext, track] }
+}
+
+export function removeFromQueue(state: QueueState, index: number): QueueState {
+  return { ...state, upNext: state.upNext.filter((_, i) => i !== index) }
+}
+
+// The entry after current: queued tracks first, then the context, which
+// starts over when repeating all, reshuffled to end with the track that
+// just played. Null at the end.
+function following(state: QueueState): { entry: QueueEntry; state: QueueState } | null {
+  if (state.upNext.length) {
+    return {
+      entry: { track: state.upNext[0], position: null },
+      state: { ...state, upNext: state.upNext.slice(1) }
+    }
+  }
+  if (state.position + 1 < state.order.length) {
+    const position = state.position + 1
+    return {
+      entry: { track: state.tracks[state.order[position]], position },
+      state: { ...state, position }
+    }
+  }
+  if (state.repeat === 'all' && state.tracks.length) {
+    const last = state.order[state.position]
+    const order = state.shuffle ? playOrder(state.tracks.length, true, last).reverse() : state.order
+    return {
+      entry: { track: state.tracks[order[0]], position: 0 },
+      state: { ...state, order, position: 0, history: reordered(state.history, state.order, order) }
+    }
+  }
+  return null
+}
+
+// The next track, or null when the queue ran out
+export function nextTrack(state: QueueState): QueueState | null {
+  const step = following(state)
+  if (!step) return null
+  const current =
+    state.current && step.state.order !== state.order
+      ? reordered([state.current], state.order, step.state.order)[0]
+      : state.current
+  return {
+    ...step.state,
+    current: step.entry,
+    history: withHistory(step.state.history, current)
+  }
+}
+
+// The track played before current, or null without history. A queued
+// current track goes back to the front of the queue.
+export function previousTrack(state: QueueState): QueueState | null {
+  const entry = state.history[state.history.length - 1]
+  if (!entry) return null
+  const requeued =
+    state.current && state.current.position === null
+      ? [state.current.track, ...state.upNext]
+      : state.upNext
+  return {
+    ...state,
+    position: entry.position ?? state.position,
+    upNext: requeued,
+    current: entry,
+    history: state.history.slice(0, -1)
+  }
+}
+
+// Plays upcoming(state)[index], dropping what comes before it
+export function skipTo(state: QueueState, index: number): QueueState | null {
+  let skipped: QueueState = state
+  for (let i = 0; i < index; i++) {
+    const step = following(skipped)
+    if (!step) return null
+    skipped = step.state
+  }
+  return nextTrack(skipped)
+}
+
+// Shuffling keeps the current track and reorders the rest; turning it off
+// continues in the context's own order from the current track
+export function toggleShuffle(state: QueueState): QueueState {
+  const shuffle = !state.shuffle
+  const currentIndex = state.position >= 0 ? state.order[state.position] : 0
+  if (!state.tracks.length) return { ...state, shuffle }
+  const order = playOrder(state.tracks.length, shuffle, currentIndex)
+  const position = order.indexOf(currentIndex)
+  return {
+    ...state,
+    shuffle,
+    order,
+    position,
+    current: state.current && reordered([state.current], state.order, order)[0],
+    history: reordered(state.history, state.order, order)
+  }
+}
+
+export function cycleRepeat(state: QueueState): QueueState {
+  const modes: RepeatMode[] = ['off', 'all', 'one']
+  return { ...state, repeat: modes[(modes.indexOf(state.repeat) + 1) % modes.length] }
+}
+
+function isTrack(value: any): value is Track {
+  return (
+    !!value &&
+    ['id', 'title', 'artist', 'album', 'albumArt'].every((key) => typeof value[key] === 'string') &&
+    typeof value.duration === 'number' &&
+    (value.audioUrl === undefined || typeof value.audioUrl === 'string')
+  )
+}
+
+function isContext(value: any): value is PlayContext {
+  return (
+    !!value &&
+    ['album', 'playlist', 'shelf'].includes(value.type) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string'
+  )
+}
+
+// Positions point into order; null marks a queued track
+function isEntry(value: any, orderLength: number): value is QueueEntry {
+  return (
+    !!value &&
+    isTrack(value.track) &&
+    (value.position === null ||
+      (Number.isInteger(value.position) && value.position >= 0 && value.position < orderLength))
+  )
+}
+
+// A queue saved by an earlier session, or null when any part of it is
+// missing or inconsistent, e.g. an order that isn't a permutation of the
+// tracks
+export function restoreQueue(value: unknown): QueueState | null {
+  const state = value as any
+  if (!state || typeof state !== 'object') return null
+  const { tracks, order, position, upNext, current, history } = state
+  if (!Array.isArray(tracks) || !tracks.every(isTrack)) return null
+  if (
+    !Array.isArray(order) ||
+    order.length !== tracks.length ||
+    !tracks.every((_: Track, i: number) => order.includes(i))
+  ) {
+    return null
+  }
+  if (!Number.isInteger(position) || position < -1 || position >= order.length) return null
+  if (!Array.isArray(upNext) || !upNext.every(isTrack)) return null
+  if (current !== null && !isEntry(current, order.length)) return null
+  if (!Array.isArray(history) || !history.every((entry: unknown) => isEntry(entry, order.length))) {
+    return null
+  }
+  if (state.context !== null && !isContext(state.context)) return null
+  if (typeof state.shuffle !== 'boolean' || !['off', 'all', 'one'].includes(state.repeat)) return null
+  return {
+    context: state.context,
+    tracks,
+    order,
+    position,
+    upNext,
+    current,
+    history,
+    shuffle: state.shuffle,
+    repeat: state.repeat
+  }
+}
+
+// What plays after current, for the queue panel: the queued tracks, then
+// the rest of the context
+export function upcoming(state: QueueState): { queued: Track[]; context: Track[] } {
+  return {
+    queued: state.upNext,
+    context: state.order.slice(state.position + 1).map((i) => state.tracks[i])
+  }
+}
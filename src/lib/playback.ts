@@ -0,0 +1,88 @@
+import type { Track } from '@/lib/track'
+
+// What the audio element is doing: `loading` until the track can play,
+// `buffering` while playback waits for data
+export type PlaybackStatus = 'idle' | 'loading' | 'ready' | 'buffering' | 'ended' | 'error'
+
+export interface PlaybackState {
+  track: Track | null
+  status: PlaybackStatus
+  isPlaying: boolean
+  currentTime: number
+  duration: number
+  error: string | null
+}
+
+// The audio element's events, plus the player's own load and seek. A play()
+// the browser refuses arrives as pause.
+export type PlaybackEvent =
+  | { type: 'load'; track: Track }
+  | { type: 'loadstart' }
+  | { type: 'durationchange'; duration: number }
+  | { type: 'canplay' }
+  | { type: 'waiting' }
+  | { type: 'playing' }
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'timeupdate'; time: number }
+  | { type: 'seek'; time: number }
+  | { type: 'ended' }
+  | { type: 'error'; code: number | null }
+
+export const IDLE_PLAYBACK: PlaybackState = {
+  track: null,
+  status: 'idle',
+  isPlaying: false,
+  currentTime: 0,
+  duration: 0,
+  error: null
+}
+
+// MediaError codes
+const MEDIA_ERRORS: Record<number, string> = {
+  1: 'Playback was aborted',
+  2: 'A network error stopped the download',
+  3: 'The audio could not be decoded',
+  4: 'This audio format is not supported'
+}
+
+function failed(state: PlaybackState, error: string): PlaybackState {
+  return { ...state, status: 'error', isPlaying: false, error }
+}
+
+export function playbackReducer(state: PlaybackState, event: PlaybackEvent): PlaybackState {
+  switch (event.type) {
+    case 'load': {
+      const loaded = { ...state, track: event.track, currentTime: 0, duration: event.track.duration, error: null }
+      if (!event.track.audioUrl) return failed(loaded, 'This track has no audio to play')
+      return { ...loaded, status: 'loading' }
+    }
+    case 'loadstart':
+      return { ...state, status: 'loading' }
+    case 'durationchange':
+      return Number.isFinite(event.duration) ? { ...state, duration: event.duration } : state
+    case 'canplay':
+      return state.status === 'loading' || state.status === 'buffering' ? { ...state, status: 'ready' } : state
+    case 'waiting':
+      return { ...state, status: 'buffering' }
+    case 'playing':
+      return { ...state, status: 'ready' }
+    case 'play':
+      return { ...state, isPlaying: true }
+    case 'pause':
+      return { ...state, isPlaying: false }
+    case 'timeupdate':
+      return { ...state, currentTime: event.time }
+    case 'seek':
+      return { ...state, currentTime: event.time, status: state.status === 'ended' ? 'ready' : state.status }
+    case 'ended':
+      return { ...state, status: 'ended', isPlaying: false }
+    case 'error':
+      return failed(state, MEDIA_ERRORS[event.code ?? 0] ?? 'The track could not be played')
+  }
+}
+
+// Playing, but waiting for audio: the play button shows a spinner
+export function isBuffering(state: PlaybackState): boolean {
+  return state.isPlaying && (state.status === 'loading' || state.status === 'buffering')
+}
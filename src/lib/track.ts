@@ -0,0 +1,11 @@
+// A playable track, shared by the shelves that start playback and the player
+export interface Track {
+  id: string
+  title: string
+  artist: string
+  album: string
+  albumArt: string
+  duration: number
+  // Where the player streams it from; tracks without one can't be played
+  audioUrl?: string
+}
@@ -0,0 +1,357 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import ts from "typescript";
+import {
+  accessFileSource,
+  parseAccessFlags,
+  parseAccessPolicy,
+  parseAccessSource,
+} from "../../scripts/agent/core/access-policy";
+import { withOwner } from "../../scripts/agent/core/auth-files";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import { connectionSource } from "../../scripts/agent/core/dialect-files";
+import { DIALECTS, Dialect } from "../../scripts/agent/core/dialects";
+import { withPlayHistory } from "../../scripts/agent/core/play-history";
+import { applyChanges } from "../../scripts/agent/core/schema-evolution";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { ApiGenerator } from "../../scripts/agent/modules/api-generator";
+import { AuthGenerator } from "../../scripts/agent/modules/auth-generator";
+import { OpenApiGenerator } from "../../scripts/agent/modules/openapi-generator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+import { ValidationGenerator } from "../../scripts/agent/modules/validation-generator";
+import { ScriptedProvider } from "../../scripts/agent/providers/scripted-provider";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const ROUTES = path.join(ROOT, "src", "app", "api", "made-for-you");
+
+const schemaGenerator = new SchemaGenerator();
+const madeForYou = schemaGenerator.withRequiredFields(
+  parseTableFlags(
+    "made_for_you",
+    ["title:text:notNull", "editor_notes:text"],
+    [],
+    [
+      "read:public",
+      "write:curator",
+      "delete:admin",
+      "hidden:editor_notes:curator",
+    ]
+  )
+);
+const likedSongs = withOwner(
+  schemaGenerator.withRequiredFields(
+    parseTableFlags(
+      "liked_songs",
+      ["user_id:integer:notNull", "song_title:text:notNull"],
+      [],
+      ["delete:admin"]
+    )
+  )
+);
+
+const recentlyPlayed = withPlayHistory(
+  schemaGenerator.withRequiredFields(
+    parseTableFlags(
+      "recently_played",
+      ["track_id:text:notNull"],
+      [],
+      ["read:authenticated", "hidden:device:admin"]
+    )
+  )
+);
+
+const OPERATIONS: Record<string, string> = {
+  GET: "read",
+  POST: "create",
+  PUT: "update",
+  DELETE: "delete",
+};
+
+// Every exported handler starts by authorizing its operation, and rows
+// read from the database only reach a response through omitFields()
+function assertGuarded(source: string, policy: string, file: string) {
+  const sourceFile = ts.createSourceFile(
+    file,
+    source,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const handlers = sourceFile.statements.filter(
+    (s): s is ts.FunctionDeclaration =>
+      ts.isFunctionDeclaration(s) &&
+      !!s.name &&
+      !!ts.getModifiers(s)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+  );
+  assert.ok(handlers.length > 0, file);
+  for (const handler of handlers) {
+    const method = handler.name!.text;
+    const [body] = handler.body!.statements;
+    assert.ok(body && ts.isTryStatement(body), `${file} ${method}`);
+    assert.equal(
+      body.tryBlock.statements[0].getText(sourceFile),
+      `const access = await authorize(${policy}, "${OPERATIONS[method]}");`,
+      `${file} ${method}`
+    );
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && ["record", "records"].includes(node.text)) {
+      const parent = node.parent;
+      const declared =
+        (ts.isVariableDeclaration(parent) || ts.isParameter(parent)) &&
+        parent.name === node;
+      const hidden =
+        ts.isCallExpression(parent) &&
+        parent.expression.getText(sourceFile) === "omitFields" &&
+        parent.arguments[0] === node;
+      const checked =
+        ts.isPrefixUnaryExpression(parent) ||
+        (ts.isIfStatement(parent) && parent.expression === node);
+      const iterated =
+        node.text === "records" &&
+        (ts.isForOfStatement(parent) ||
+          (ts.isPropertyAccessExpression(parent) &&
+            parent.name.text === "map" &&
+            ts.isCallExpression(parent.parent) &&
+            /^\(record\) => omitFields\(record, hidden\)$/.test(
+              parent.parent.arguments[0].getText(sourceFile)
+            )));
+      // Destructured rows, e.g. the one a DELETE removes
+      const destructured = ts.isBindingElement(parent);
+      assert.ok(
+        declared || hidden || checked || iterated || destructured,
+        `${file}: ${parent.getText(sourceFile)}`
+      );
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+}
+
+async function inRoot<T>(run: () => Promise<T>): Promise<T> {
+  const cwd = process.cwd();
+  const log = console.log;
+  process.chdir(ROOT);
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+  }
+}
+
+// Stages the auth subsystem with an editorial table and a user-scoped one,
+// both with policies
+async function generate(dialect: Dialect): Promise<ChangeSet> {
+  const changeSet = new ChangeSet(true);
+  const generator = new SchemaGenerator();
+  generator.setDialect(dialect);
+  const apiGenerator = new ApiGenerator();
+  const validationGenerator = new ValidationGenerator();
+  const auth = new AuthGenerator();
+  apiGenerator.setChangeSet(changeSet);
+  apiGenerator.setDialect(dialect);
+  validationGenerator.setChangeSet(changeSet);
+  auth.setChangeSet(changeSet);
+  auth.setDialect(dialect);
+
+  const schemaDir = path.join(ROOT, "src", "db", "schema");
+  const authTables = auth.authTables(generator);
+  const tables = [madeForYou, likedSongs];
+  const all = [...authTables, ...tables];
+  changeSet.writeFile(
+    path.join(ROOT, "src", "db", "connection.ts"),
+    connectionSource(dialect)
+  );
+  await inRoot(async () => {
+    auth.writeSchemas(authTables, generator);
+    auth.writePolicies(tables);
+    for (const def of tables) {
+      changeSet.writeFile(
+        path.join(schemaDir, def.fileName),
+        generator.generateBasicSchemaContent(def)
+      );
+      await validationGenerator.generateValidationSchema(def);
+      await apiGenerator.generateApiRoute(def);
+    }
+    changeSet.writeFile(
+      path.join(schemaDir, "index.ts"),
+      all.map((def) => `export * from "./${def.tableName}";\n`).join("")
+    );
+    await auth.updateAuth(all);
+  });
+  return changeSet;
+}
+
+test("reads rules from specs and --access flags", () => {
+  assert.deepEqual(madeForYou.access, {
+    read: "public",
+    create: ["curator"],
+    update: ["curator"],
+    delete: ["admin"],
+    hidden: { editor_notes: ["curator"] },
+  });
+  assert.deepEqual(
+    parseAccessPolicy("playlists", {
+      read: "authenticated",
+      write: "curator|editor",
+      update: ["editor"],
+      hidden: ["notes"],
+    }),
+    {
+      read: "authenticated",
+      create: ["curator", "editor"],
+      update: ["editor"],
+      hidden: { notes: ["admin"] },
+    }
+  );
+  assert.deepEqual(parseAccessFlags("playlists", ["hidden:notes"]), {
+    hidden: { notes: ["admin"] },
+  });
+  assert.throws(
+    () => parseAccessPolicy("playlists", { remove: "admin" }),
+    /unknown key\(s\) remove/
+  );
+
+  // Only a policy: the table keeps its columns
+  const policyOnly = parseTableFlags("made_for_you", [], [], ["read:public"]);
+  assert.deepEqual(policyOnly.alter, []);
+});
+
+test("policy files round-trip and follow column renames", () => {
+  const source = accessFileSource(madeForYou);
+  assert.match(source, /export const madeForYouAccess: AccessPolicy = \{/);
+  assert.match(source, /hidden: \{\n {4}editorNotes: \["curator"\],\n {2}\},/);
+  assert.deepEqual(parseAccessSource(source, madeForYou), madeForYou.access);
+
+  const renamed = applyChanges(madeForYou, [
+    { action: "rename", field: "editor_notes", to: "notes" },
+  ]);
+  assert.deepEqual(renamed.access?.hidden, { notes: ["curator"] });
+  const dropped = applyChanges(madeForYou, [
+    { action: "drop", field: "editor_notes" },
+  ]);
+  assert.equal(dropped.access?.hidden, undefined);
+  assert.deepEqual(dropped.access?.delete, ["admin"]);
+});
+
+test("every handler authorizes its operation and hides columns", async () => {
+  const changeSet = await generate(DIALECTS.postgresql);
+  const list = changeSet.readFile(path.join(ROUTES, "route.ts"));
+  assert.match(list, /import \{ madeForYouAccess \} from "@\/db\/access";/);
+  assert.match(list, /authorize\(madeForYouAccess, "read"\)/);
+  assert.match(list, /authorize\(madeForYouAccess, "create"\)/);
+  assert.match(
+    list,
+    /parseListQuery\(madeForYou, searchParams, \[\], hidden\)/
+  );
+  assert.match(
+    list,
+    /query\.page\(records\.map\(\(record\) => omitFields\(record, hidden\)\), total\)/
+  );
+
+  const record = changeSet.readFile(path.join(ROUTES, "[id]", "route.ts"));
+  for (const operation of ["read", "update", "delete"])
+    assert.match(
+      record,
+      new RegExp(`authorize\\(madeForYouAccess, "${operation}"\\)`)
+    );
+  assert.equal(record.match(/data: omitFields\(record, hidden\)/g)?.length, 3);
+
+  // Owner checks use the user authorize() loaded
+  const owned = changeSet.readFile(
+    path.join(ROOT, "src", "app", "api", "liked-songs", "[id]", "route.ts")
+  );
+  assert.match(
+    owned,
+    /import \{ forbidden, unauthorized \} from "@\/lib\/auth";/
+  );
+  assert.match(
+    owned,
+    /const \{ user \} = access;\n {4}if \(!user\) return unauthorized\(\);/
+  );
+
+  assert.equal(
+    changeSet.readFile(path.join(ROOT, "src", "db", "access", "index.ts")),
+    'export * from "./liked_songs";\nexport * from "./made_for_you";\n'
+  );
+});
+
+test("a model never writes the routes of tables with a policy", async () => {
+  // A completion with neither authorize() nor omitFields()
+  const unguarded = `import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { madeForYou } from "@/db/schema";
+
+export async function GET() {
+  return NextResponse.json({ success: true, data: await db.select().from(madeForYou) });
+}`;
+  const provider = new ScriptedProvider(() => unguarded);
+  for (const dialect of [DIALECTS.postgresql, DIALECTS.mysql]) {
+    const changeSet = new ChangeSet(true);
+    const apiGenerator = new ApiGenerator(provider);
+    apiGenerator.setChangeSet(changeSet);
+    apiGenerator.setDialect(dialect);
+    await inRoot(async () => {
+      for (const def of [madeForYou, recentlyPlayed])
+        await apiGenerator.generateApiRoute(def);
+    });
+
+    const routes = changeSet
+      .getChanges()
+      .map((c) => c.path)
+      .filter((file) => file.endsWith("route.ts"));
+    assert.equal(routes.length, 5);
+    for (const file of routes) {
+      const policy = file.includes("made-for-you")
+        ? "madeForYouAccess"
+        : "recentlyPlayedAccess";
+      assertGuarded(
+        changeSet.readFile(file),
+        policy,
+        `${dialect.name} ${path.relative(ROOT, file)}`
+      );
+    }
+  }
+  assert.equal(provider.prompts.length, 0);
+});
+
+test("policies and the routes enforcing them typecheck", async () => {
+  for (const dialect of [DIALECTS.postgresql, DIALECTS.mysql]) {
+    const changeSet = await generate(dialect);
+    const checker = new TypeChecker();
+    checker.setChangeSet(changeSet);
+    const files = changeSet
+      .getChanges()
+      .map((c) => c.path)
+      .filter(
+        (file) => /\.tsx?$/.test(file) && !file.endsWith("connection.ts")
+      );
+    const errors = await inRoot(async () =>
+      checker
+        .check(files)
+        .map((d) => `${path.relative(ROOT, d.file)}:${d.line} ${d.message}`)
+    );
+    assert.deepEqual(errors, [], dialect.name);
+  }
+});
+
+test("documents who may use each operation", () => {
+  const spec = new OpenApiGenerator().generateSpec([madeForYou]);
+  const list = spec.paths["/api/made-for-you"];
+  assert.equal(list.get.security, undefined);
+  assert.deepEqual(list.post.security, [{ session: [] }]);
+  assert.equal(list.post.responses[403].description, "Only for curator users");
+  assert.equal(
+    spec.paths["/api/made-for-you/{id}"].delete.responses[403].description,
+    "Only for admin users"
+  );
+  assert.ok(spec.components.securitySchemes.session);
+
+  const row = spec.components.schemas.MadeForYou;
+  assert.ok(!row.required.includes("editorNotes"));
+  assert.ok(row.properties.editorNotes);
+});
@@ -0,0 +1,193 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { listParamsSource } from "../../scripts/agent/core/list-query";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { ApiClientGenerator } from "../../scripts/agent/modules/api-client-generator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { ValidationGenerator } from "../../scripts/agent/modules/validation-generator";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+const tracks = new SchemaGenerator().withRequiredFields(
+  parseTableFlags("catalog_tracks", [
+    "title:varchar(20):notNull",
+    "plays:integer:notNull:default(0)",
+    "played_at:timestamp:notNull",
+  ])
+);
+
+interface Call {
+  url: string;
+  method: string;
+  headers: Headers;
+  body: unknown;
+}
+
+// Answers every request with `reply` and records it
+function fakeFetch(reply: { status: number; body: unknown }, calls: Call[]) {
+  return async (url: string | URL | Request, init: RequestInit = {}) => {
+    calls.push({
+      url: String(url),
+      method: init.method ?? "GET",
+      headers: new Headers(init.headers),
+      body: init.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    return new Response(JSON.stringify(reply.body), { status: reply.status });
+  };
+}
+
+// The generated modules are imported from inside the repo so they resolve
+// zod; the @/ imports point at their copies next to the client
+const dir = fs.mkdtempSync(path.join(ROOT, "tests", ".api-client-"));
+let createApiClient: (options?: object) => any;
+let ApiError: new (...args: any[]) => Error & {
+  status: number;
+  issues: unknown[];
+};
+
+before(async () => {
+  fs.writeFileSync(path.join(dir, "list-params.ts"), listParamsSource());
+  fs.writeFileSync(
+    path.join(dir, "validation.ts"),
+    new ValidationGenerator().generateValidationContent(tracks)
+  );
+  fs.writeFileSync(
+    path.join(dir, "api-client.ts"),
+    new ApiClientGenerator()
+      .generateClientContent([tracks])
+      .replace('"@/db/schema"', '"./schema"')
+      .replace('"@/db/validation"', '"./validation"')
+      .replace('"@/lib/list-params"', '"./list-params"')
+  );
+  ({ createApiClient, ApiError } = await import(
+    path.join(dir, "api-client.ts")
+  ));
+});
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test("writes typed resources for each table", () => {
+  const content = new ApiClientGenerator().generateClientContent([tracks]);
+  assert.match(
+    content,
+    /catalogTracks: resource<CatalogTracksRecord, CatalogTracksInsert, CatalogTracksUpdate, CatalogTracksListParams>/
+  );
+  assert.match(
+    content,
+    /export type CatalogTracksRecord = Omit<CatalogTracks, "playedAt" \| "createdAt" \| "updatedAt"> & \{\n {2}playedAt: string;/
+  );
+  assert.match(content, /export const \{ catalogTracks \} = api;/);
+});
+
+test("lists, gets and deletes through the routes", async () => {
+  const calls: Call[] = [];
+  const pagination = { limit: 2, offset: 0, total: 3, hasMore: true };
+  const api = createApiClient({
+    baseUrl: "http://localhost:3000",
+    headers: { authorization: "Bearer token" },
+    fetch: fakeFetch(
+      { status: 200, body: { success: true, data: [{ id: 1 }], pagination } },
+      calls
+    ),
+  });
+
+  const page = await api.catalogTracks.list({
+    filters: { plays: { gte: 10 } },
+    sort: "-plays",
+    limit: 2,
+  });
+  assert.deepEqual(page, { data: [{ id: 1 }], pagination });
+  await api.catalogTracks.list();
+  await api.catalogTracks.get(7);
+  await api.catalogTracks.delete(7);
+
+  assert.deepEqual(
+    calls.map((c) => `${c.method} ${decodeURIComponent(c.url)}`),
+    [
+      "GET http://localhost:3000/api/catalog-tracks?plays[gte]=10&sort=-plays&limit=2",
+      "GET http://localhost:3000/api/catalog-tracks",
+      "GET http://localhost:3000/api/catalog-tracks/7",
+      "DELETE http://localhost:3000/api/catalog-tracks/7",
+    ]
+  );
+  assert.equal(calls[0].headers.get("authorization"), "Bearer token");
+});
+
+test("sends validated bodies and rejects invalid ones without a request", async () => {
+  const calls: Call[] = [];
+  const api = createApiClient({
+    fetch: fakeFetch(
+      { status: 201, body: { success: true, data: { id: 1 } } },
+      calls
+    ),
+  });
+
+  assert.deepEqual(
+    await api.catalogTracks.create({
+      title: "Blinding Lights",
+      playedAt: "2024-05-01T10:00:00.000Z",
+      extra: "dropped",
+    }),
+    { id: 1 }
+  );
+  assert.equal(calls[0].method, "POST");
+  assert.equal(calls[0].headers.get("content-type"), "application/json");
+  assert.deepEqual(calls[0].body, {
+    title: "Blinding Lights",
+    playedAt: "2024-05-01T10:00:00.000Z",
+  });
+
+  await assert.rejects(
+    api.catalogTracks.update(1, {}),
+    (error: any) =>
+      error instanceof ApiError &&
+      error.status === 400 &&
+      error.message === "No updatable fields provided"
+  );
+  await assert.rejects(
+    api.catalogTracks.create({ title: "" }),
+    (error: any) =>
+      error.issues.map((i: any) => i.path.join(".")).join() === "title,playedAt"
+  );
+  assert.equal(calls.length, 1);
+});
+
+test("turns failed responses and network errors into ApiError", async () => {
+  const issues = [{ path: ["title"], message: "Too long" }];
+  const rejected = createApiClient({
+    fetch: fakeFetch(
+      {
+        status: 400,
+        body: { success: false, error: "title: Too long", issues },
+      },
+      []
+    ),
+  });
+  await assert.rejects(rejected.catalogTracks.get(1), (error: any) => {
+    assert.ok(error instanceof ApiError);
+    assert.deepEqual(
+      { message: error.message, status: error.status, issues: error.issues },
+      { message: "title: Too long", status: 400, issues }
+    );
+    return true;
+  });
+
+  const html = createApiClient({
+    fetch: async () => new Response("<html>", { status: 502 }),
+  });
+  await assert.rejects(html.catalogTracks.get(1), {
+    name: "ApiError",
+    message: "Request failed with status 502",
+  });
+
+  const offline = createApiClient({
+    fetch: async () => {
+      throw new TypeError("fetch failed");
+    },
+  });
+  await assert.rejects(offline.catalogTracks.list(), (error: any) => {
+    return error.status === 0 && error.message === "fetch failed";
+  });
+});
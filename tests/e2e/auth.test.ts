@@ -0,0 +1,274 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AUTH_TABLES,
+  integrateLogout,
+  withOwner,
+} from "../../scripts/agent/core/auth-files";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import { connectionSource } from "../../scripts/agent/core/dialect-files";
+import { DIALECTS, Dialect } from "../../scripts/agent/core/dialects";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { ScriptedProvider } from "../../scripts/agent/providers/scripted-provider";
+import { ApiGenerator } from "../../scripts/agent/modules/api-generator";
+import { AuthGenerator } from "../../scripts/agent/modules/auth-generator";
+import { OpenApiGenerator } from "../../scripts/agent/modules/openapi-generator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+import {
+  ValidationGenerator,
+  bodyFields,
+} from "../../scripts/agent/modules/validation-generator";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const ROUTES = path.join(ROOT, "src", "app", "api", "listening-sessions");
+
+const schemaGenerator = new SchemaGenerator();
+const sessions = withOwner(
+  schemaGenerator.withRequiredFields(
+    parseTableFlags("listening_sessions", [
+      "user_id:integer:notNull",
+      "track_title:text:notNull",
+    ])
+  )
+);
+const genres = schemaGenerator.withRequiredFields(
+  parseTableFlags("genres", ["name:text:notNull"])
+);
+
+// Runs the generators from the repo root; the dry-run change set keeps
+// every write in memory
+async function inRoot<T>(run: () => Promise<T>): Promise<T> {
+  const cwd = process.cwd();
+  const log = console.log;
+  process.chdir(ROOT);
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+  }
+}
+
+// Stages the auth subsystem with a scoped and an unscoped table
+async function generate(dialect: Dialect): Promise<ChangeSet> {
+  const changeSet = new ChangeSet(true);
+  const generator = new SchemaGenerator();
+  generator.setDialect(dialect);
+  const apiGenerator = new ApiGenerator();
+  const validationGenerator = new ValidationGenerator();
+  const auth = new AuthGenerator();
+  apiGenerator.setChangeSet(changeSet);
+  apiGenerator.setDialect(dialect);
+  validationGenerator.setChangeSet(changeSet);
+  auth.setChangeSet(changeSet);
+  auth.setDialect(dialect);
+
+  const schemaDir = path.join(ROOT, "src", "db", "schema");
+  const authTables = auth.authTables(generator);
+  const all = [...authTables, sessions, genres];
+  changeSet.writeFile(
+    path.join(ROOT, "src", "db", "connection.ts"),
+    connectionSource(dialect)
+  );
+  await inRoot(async () => {
+    auth.writeSchemas(authTables, generator);
+    for (const def of [sessions, genres]) {
+      changeSet.writeFile(
+        path.join(schemaDir, def.fileName),
+        generator.generateBasicSchemaContent(def)
+      );
+      await validationGenerator.generateValidationSchema(def);
+      await apiGenerator.generateApiRoute(def);
+    }
+    changeSet.writeFile(
+      path.join(schemaDir, "index.ts"),
+      all.map((def) => `export * from "./${def.tableName}";\n`).join("")
+    );
+    await auth.updateAuth(all);
+  });
+  return changeSet;
+}
+
+test("scopes tables with an integer user_id and leaves it out of bodies", () => {
+  assert.equal(sessions.owner, "user_id");
+  assert.equal(withOwner(genres).owner, undefined);
+  const textOwner = parseTableFlags("notes", ["user_id:text"]);
+  assert.equal(withOwner(textOwner).owner, undefined);
+  for (const def of AUTH_TABLES) assert.equal(withOwner(def).owner, undefined);
+
+  assert.deepEqual(
+    bodyFields(sessions).map((f) => f.key),
+    ["trackTitle"]
+  );
+});
+
+test("scoped routes serve only the signed-in user's rows", async () => {
+  const changeSet = await generate(DIALECTS.postgresql);
+  const list = changeSet.readFile(path.join(ROUTES, "route.ts"));
+  assert.match(
+    list,
+    /import \{ getCurrentUser, unauthorized \} from "@\/lib\/auth";/
+  );
+  assert.match(
+    list,
+    /const user = await getCurrentUser\(\);\n {4}if \(!user\) return unauthorized\(\);/
+  );
+  assert.match(
+    list,
+    /const owned = eq\(listeningSessions\.userId, user\.id\);/
+  );
+  assert.match(list, /\.where\(and\(owned, query\.pageWhere\)\)/);
+  assert.match(list, /\.where\(and\(owned, query\.where\)\);/);
+  assert.match(
+    list,
+    /const values: NewListeningSessions = \{ \.\.\.parsed\.data, userId: user\.id \};/
+  );
+
+  const record = changeSet.readFile(path.join(ROUTES, "[id]", "route.ts"));
+  assert.match(record, /return row\.owner === userId \? null : forbidden\(\);/);
+  assert.equal(
+    record.match(/const denied = await checkOwner\(id, user\.id\);/g)?.length,
+    3
+  );
+
+  const unscoped = changeSet.readFile(
+    path.join(ROOT, "src", "app", "api", "genres", "route.ts")
+  );
+  assert.doesNotMatch(unscoped, /getCurrentUser|@\/lib\/auth/);
+
+  // sessions.ts imports users.ts, never the other way around
+  const users = changeSet.readFile(
+    path.join(ROOT, "src", "db", "schema", "users.ts")
+  );
+  assert.doesNotMatch(users, /from "\.\/sessions"/);
+
+  const middleware = changeSet.readFile(
+    path.join(ROOT, "src", "middleware.ts")
+  );
+  assert.match(
+    middleware,
+    /matcher: \[\n {4}"\/api\/listening-sessions\/:path\*",\n {2}\],/
+  );
+});
+
+test("a model's routes never replace the ownership checks", async () => {
+  // A completion that serves every user's rows
+  const unguarded = `import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { listeningSessions } from "@/db/schema";
+
+export async function GET() {
+  return NextResponse.json({ success: true, data: await db.select().from(listeningSessions) });
+}`;
+  const provider = new ScriptedProvider(() => unguarded);
+  const routes = async (apiGenerator: ApiGenerator) => {
+    const changeSet = new ChangeSet(true);
+    apiGenerator.setChangeSet(changeSet);
+    await inRoot(async () => {
+      for (const def of [sessions, genres])
+        await apiGenerator.generateApiRoute(def);
+    });
+    return (table: string, file: string) =>
+      changeSet.readFile(path.join(ROOT, "src", "app", "api", table, file));
+  };
+  const templates = await routes(new ApiGenerator());
+  const modelRoutes = await routes(new ApiGenerator(provider));
+
+  for (const file of ["route.ts", path.join("[id]", "route.ts")]) {
+    assert.equal(
+      modelRoutes("listening-sessions", file),
+      templates("listening-sessions", file)
+    );
+    assert.equal(modelRoutes("genres", file), unguarded);
+  }
+  assert.equal(provider.prompts.length, 2);
+  assert.ok(provider.prompts.every((p) => !p.includes("listening_sessions")));
+});
+
+test("the auth subsystem and scoped routes typecheck", async () => {
+  for (const dialect of [DIALECTS.postgresql, DIALECTS.mysql]) {
+    const changeSet = await generate(dialect);
+    const checker = new TypeChecker();
+    checker.setChangeSet(changeSet);
+    const files = changeSet
+      .getChanges()
+      .map((c) => c.path)
+      .filter(
+        (file) => /\.tsx?$/.test(file) && !file.endsWith("connection.ts")
+      );
+    const errors = await inRoot(async () =>
+      checker
+        .check(files)
+        .map((d) => `${path.relative(ROOT, d.file)}:${d.line} ${d.message}`)
+    );
+    assert.deepEqual(errors, [], dialect.name);
+  }
+});
+
+test("sign-up answers a taken email from the insert, and sign-in always hashes", async () => {
+  const checks = {
+    postgresql: 'cause.code === "23505"',
+    mysql: 'cause.code === "ER_DUP_ENTRY"',
+  };
+  for (const [name, check] of Object.entries(checks)) {
+    const changeSet = await generate(DIALECTS[name as keyof typeof checks]);
+    const auth = changeSet.readFile(path.join(ROOT, "src", "lib", "auth.ts"));
+    assert.ok(auth.includes(`return ${check};`), name);
+    assert.match(
+      auth,
+      /\} catch \(error\) \{\n {4}if \(isUniqueViolation\(error\)\) return null;\n {4}throw error;/
+    );
+    assert.match(
+      auth,
+      /const valid = await verifyPassword\(input\.password, account\?\.passwordHash \?\? DUMMY_HASH\);\n {2}if \(!account \|\| !valid\) return null;/
+    );
+
+    const signup = changeSet.readFile(
+      path.join(ROOT, "src", "app", "api", "auth", "signup", "route.ts")
+    );
+    assert.doesNotMatch(signup, /emailTaken/);
+    assert.match(
+      signup,
+      /const user = await createUser\(body\.data\);\n {4}if \(!user\) \{\n {6}return NextResponse\.json\(\n.*\n {8}\{ status: 409 \}/
+    );
+  }
+});
+
+test("documents the session cookie and 401/403 of scoped operations", () => {
+  const spec = new OpenApiGenerator().generateSpec([sessions, genres]);
+  const record = spec.paths["/api/listening-sessions/{id}"];
+  assert.deepEqual(record.delete.security, [{ session: [] }]);
+  assert.deepEqual(Object.keys(record.delete.responses), [
+    "200",
+    "400",
+    "401",
+    "403",
+    "404",
+    "500",
+  ]);
+  assert.equal(
+    spec.paths["/api/listening-sessions"].post.responses[403],
+    undefined
+  );
+  assert.equal(spec.paths["/api/genres"].get.security, undefined);
+  assert.equal(spec.components.securitySchemes.session.in, "cookie");
+});
+
+test("the header's logout item ends the session", () => {
+  const page = fs.readFileSync(
+    path.join(ROOT, "src", "app", "page.tsx"),
+    "utf8"
+  );
+  const integrated = integrateLogout(page)!;
+  assert.match(integrated, /import \{ signOut \} from '@\/lib\/auth-client'\n/);
+  assert.match(
+    integrated,
+    /const handleUserMenuAction = async \(action: 'profile' \| 'settings' \| 'logout'\) => \{\n {4}if \(action === 'logout'\) \{\n {6}await signOut\(\)\n {6}window\.location\.assign\('\/login'\)\n {4}\}\n {2}\}/
+  );
+  assert.doesNotMatch(integrated, /console\.log\('User menu action:'/);
+  assert.equal(integrateLogout(integrated), null);
+});
@@ -0,0 +1,190 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+
+const dirs: string[] = [];
+
+after(() =>
+  dirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }))
+);
+
+function tempDir() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orchids-change-set-"));
+  dirs.push(dir);
+  return dir;
+}
+
+test("stages writes in memory until they are flushed", () => {
+  const dir = tempDir();
+  const existing = path.join(dir, "src", "app.ts");
+  const created = path.join(dir, "src", "lib", "songs.ts");
+  const removed = path.join(dir, "src", "old.ts");
+  fs.mkdirSync(path.dirname(existing));
+  fs.writeFileSync(existing, "before\n");
+  fs.writeFileSync(removed, "old\n");
+
+  const changeSet = new ChangeSet();
+  changeSet.writeFile(existing, "after\n");
+  changeSet.writeFile(created, "songs\n");
+  changeSet.deleteFile(removed);
+  assert.equal(fs.readFileSync(existing, "utf8"), "before\n");
+  assert.equal(changeSet.readFile(existing), "after\n");
+  assert.equal(changeSet.exists(path.dirname(created)), true);
+  assert.equal(changeSet.exists(removed), false);
+  assert.deepEqual(changeSet.readDir(path.join(dir, "src")), ["app.ts"]);
+  assert.deepEqual(changeSet.readDir(path.dirname(created)), ["songs.ts"]);
+
+  changeSet.flush();
+  assert.equal(fs.readFileSync(existing, "utf8"), "after\n");
+  assert.equal(fs.readFileSync(created, "utf8"), "songs\n");
+  assert.equal(fs.existsSync(removed), false);
+  assert.deepEqual(
+    changeSet.getChanges().map((c) => [path.basename(c.path), c.before]),
+    [
+      ["app.ts", "before\n"],
+      ["songs.ts", null],
+      ["old.ts", "old\n"],
+    ]
+  );
+});
+
+test("rollback restores flushed files and removes the ones it created", () => {
+  const dir = tempDir();
+  const existing = path.join(dir, "app.ts");
+  const created = path.join(dir, "src", "lib", "songs.ts");
+  fs.writeFileSync(existing, "before\n");
+
+  const changeSet = new ChangeSet();
+  changeSet.writeFile(existing, "after\n");
+  changeSet.writeFile(created, "songs\n");
+  changeSet.flush();
+  // Staged after the last flush, so never written
+  changeSet.deleteFile(existing);
+
+  changeSet.rollback();
+  assert.equal(fs.readFileSync(existing, "utf8"), "before\n");
+  assert.deepEqual(fs.readdirSync(dir), ["app.ts"]);
+});
+
+test("a committed change set is no longer rolled back", () => {
+  const dir = tempDir();
+  const file = path.join(dir, "app.ts");
+  const changeSet = new ChangeSet();
+  changeSet.writeFile(file, "after\n");
+  changeSet.commit();
+  changeSet.rollback();
+  assert.equal(fs.readFileSync(file, "utf8"), "after\n");
+});
+
+test("a dry run never touches the disk", () => {
+  const dir = tempDir();
+  const file = path.join(dir, "src", "app.ts");
+  const changeSet = new ChangeSet(true);
+  changeSet.writeFile(file, "after\n");
+  assert.equal(changeSet.runCommand("npx drizzle-kit migrate"), false);
+  changeSet.commit();
+  assert.equal(changeSet.readFile(file), "after\n");
+  assert.deepEqual(fs.readdirSync(dir), []);
+  assert.deepEqual(changeSet.getSkippedCommands(), ["npx drizzle-kit migrate"]);
+});
+
+// A project with one applied migration, the way drizzle-kit leaves it
+function project() {
+  const dir = tempDir();
+  const migrations = path.join(dir, "src", "db", "migrations");
+  fs.mkdirSync(path.join(migrations, "meta"), { recursive: true });
+  const journal = path.join(migrations, "meta", "_journal.json");
+  fs.writeFileSync(path.join(migrations, "0000_init.sql"), "CREATE TABLE a;\n");
+  fs.writeFileSync(journal, '{"entries":[{"idx":0}]}');
+  return {
+    schema: path.join(dir, "src", "db", "schema", "songs.ts"),
+    migrations,
+    journal,
+    // What drizzle-kit generate writes for the next migration
+    generate() {
+      fs.writeFileSync(
+        path.join(migrations, "0001_songs.sql"),
+        "CREATE TABLE songs;\n"
+      );
+      fs.writeFileSync(journal, '{"entries":[{"idx":0},{"idx":1}]}');
+    },
+    files: () => fs.readdirSync(migrations).sort(),
+  };
+}
+
+test("rollback undoes migration files drizzle-kit wrote but never applied", () => {
+  const app = project();
+  const changeSet = new ChangeSet();
+  changeSet.writeFile(app.schema, "export const songs = 1;\n");
+  changeSet.runCommand("npx drizzle-kit generate");
+  changeSet.watchDirectory(app.migrations);
+  app.generate();
+
+  changeSet.rollback();
+  assert.equal(fs.existsSync(app.schema), false);
+  assert.equal(fs.existsSync(path.dirname(app.schema)), false);
+  assert.deepEqual(app.files(), ["0000_init.sql", "meta"]);
+  assert.equal(fs.readFileSync(app.journal, "utf8"), '{"entries":[{"idx":0}]}');
+});
+
+test("rollback keeps applied migrations and the schema files they come from", () => {
+  const app = project();
+  const changeSet = new ChangeSet();
+  changeSet.writeFile(app.schema, "export const songs = 1;\n");
+  changeSet.runCommand("npx drizzle-kit generate");
+  changeSet.watchDirectory(app.migrations);
+  app.generate();
+  changeSet.settle(app.migrations);
+  // Later steps still stage files, change settled ones, and fail
+  const index = path.join(path.dirname(app.schema), "index.ts");
+  changeSet.writeFile(index, "");
+  changeSet.writeFile(app.schema, "export const songs = 2;\n");
+  changeSet.flush();
+
+  const kept = changeSet.getSettledChanges();
+  assert.deepEqual(
+    kept.files.map((c) => [c.path, c.before, c.after]),
+    [[app.schema, null, "export const songs = 1;\n"]]
+  );
+  assert.deepEqual(
+    kept.generatedFiles.map((c) => path.basename(c.path)).sort(),
+    ["0001_songs.sql", "_journal.json"]
+  );
+
+  changeSet.rollback();
+  assert.equal(
+    fs.readFileSync(app.schema, "utf8"),
+    "export const songs = 1;\n"
+  );
+  assert.equal(fs.existsSync(index), false);
+  assert.deepEqual(app.files(), ["0000_init.sql", "0001_songs.sql", "meta"]);
+  assert.equal(
+    fs.readFileSync(app.journal, "utf8"),
+    '{"entries":[{"idx":0},{"idx":1}]}'
+  );
+});
+
+test("only watched directories can be settled", () => {
+  const app = project();
+  const changeSet = new ChangeSet();
+  changeSet.writeFile(app.schema, "export const songs = 1;\n");
+  changeSet.flush();
+  changeSet.settle(app.migrations);
+  assert.deepEqual(changeSet.getSettledChanges(), {
+    files: [],
+    generatedFiles: [],
+  });
+  changeSet.rollback();
+  assert.equal(fs.existsSync(app.schema), false);
+
+  const dryRun = new ChangeSet(true);
+  dryRun.watchDirectory(app.migrations);
+  dryRun.settle(app.migrations);
+  assert.deepEqual(dryRun.getSettledChanges(), {
+    files: [],
+    generatedFiles: [],
+  });
+});
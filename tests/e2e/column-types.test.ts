@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { SchemaValidator } from "../../scripts/agent/modules/schema-validator";
+import { SeedGenerator } from "../../scripts/agent/modules/seed-generator";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+const schemaGenerator = new SchemaGenerator();
+const tracks = schemaGenerator.withRequiredFields(
+  parseTableFlags("catalog_tracks", [
+    "title:text:notNull",
+    "metadata:jsonb:default({})",
+    "price:numeric(10,2):notNull:default(0.99)",
+    "rating:real",
+    "loudness:doublePrecision",
+    "play_count:bigint:notNull:default(0)",
+    "release_date:date",
+    "starts_at:time",
+    "length:interval",
+    "status:enum(draft|published):notNull:default(draft)",
+    "tags:text[]:notNull:default([])",
+    "synced_at:timestamp({ withTimezone: true })",
+    "checked_at:timestamptz:$onUpdate(() => new Date())",
+    "duration_seconds:integer:notNull:check(duration_seconds > 0)",
+  ])
+);
+
+test("accepts every supported column type and constraint", async () => {
+  const result = await new SchemaValidator().validateSchema(tracks);
+  assert.deepEqual(result.errors, []);
+});
+
+test("rejects defaults that do not fit the column", async () => {
+  const result = await new SchemaValidator().validateSchema(
+    schemaGenerator.withRequiredFields(
+      parseTableFlags("bad_defaults", [
+        "plays:integer:default(lots)",
+        "mood:enum(happy|sad):default(angry)",
+        "size:varchar(abc)",
+      ])
+    )
+  );
+  assert.equal(result.errors.length, 3, result.errors.join("\n"));
+});
+
+test("emits pgEnum, array, numeric, timezone and check definitions", () => {
+  const content = schemaGenerator.generateBasicSchemaContent(tracks);
+  assert.match(
+    content,
+    /export const catalogTracksStatusEnum = pgEnum\("catalog_tracks_status", \["draft", "published"\]\);/
+  );
+  assert.match(
+    content,
+    /status: catalogTracksStatusEnum\("status"\)\.notNull\(\)\.default\("draft"\)/
+  );
+  assert.match(
+    content,
+    /tags: text\("tags"\)\.array\(\)\.notNull\(\)\.default\(\[\]\)/
+  );
+  assert.match(content, /numeric\("price", \{ precision: 10, scale: 2 \}\)/);
+  assert.match(content, /timestamp\("synced_at", \{ withTimezone: true \}\)/);
+  assert.match(
+    content,
+    /check\("catalog_tracks_duration_seconds_check", sql`duration_seconds > 0`\)/
+  );
+});
+
+test("generated schema and seed script compile", () => {
+  const changeSet = new ChangeSet(true);
+  const schemaDir = path.join(ROOT, "src", "db", "schema");
+  const schemaFile = path.join(schemaDir, "catalog_tracks.ts");
+  const indexFile = path.join(schemaDir, "index.ts");
+  const seedFile = path.join(ROOT, "scripts", "seed-catalog_tracks.ts");
+
+  changeSet.writeFile(
+    schemaFile,
+    schemaGenerator.generateBasicSchemaContent(tracks)
+  );
+  changeSet.writeFile(
+    indexFile,
+    `${fs.readFileSync(indexFile, "utf8")}\nexport * from "./catalog_tracks";\n`
+  );
+  changeSet.writeFile(
+    seedFile,
+    new SeedGenerator().generateSeedTemplate(tracks)
+  );
+
+  const checker = new TypeChecker();
+  checker.setChangeSet(changeSet);
+  const cwd = process.cwd();
+  process.chdir(ROOT);
+  try {
+    assert.deepEqual(checker.check([schemaFile, seedFile]), []);
+  } finally {
+    process.chdir(cwd);
+  }
+});
@@ -0,0 +1,273 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import {
+  connectionSource,
+  drizzleConfigSource,
+} from "../../scripts/agent/core/dialect-files";
+import {
+  DIALECTS,
+  Dialect,
+  detectDialect,
+} from "../../scripts/agent/core/dialects";
+import { analyzeMigration } from "../../scripts/agent/core/migration-safety";
+import { parseSchemaSource } from "../../scripts/agent/core/schema-parser";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { ApiGenerator } from "../../scripts/agent/modules/api-generator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { SchemaValidator } from "../../scripts/agent/modules/schema-validator";
+import { SeedGenerator } from "../../scripts/agent/modules/seed-generator";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+import { ValidationGenerator } from "../../scripts/agent/modules/validation-generator";
+import { SchemaDefinition } from "../../scripts/agent/types";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+const FIELDS = [
+  "title:varchar(120):notNull:unique",
+  "price:numeric(10,2):notNull:default(0.99)",
+  "plays:bigint:notNull:default(0)",
+  "explicit:boolean:notNull:default(false)",
+  "metadata:json",
+  "status:enum(draft|published):notNull:default(draft)",
+  "tags:text[]:notNull:default([])",
+  "external_id:uuid:notNull:defaultRandom()",
+  "released_on:date:defaultNow()",
+  "synced_at:timestamptz",
+];
+
+function generators(dialect: Dialect) {
+  const schemaGenerator = new SchemaGenerator();
+  const validator = new SchemaValidator();
+  const apiGenerator = new ApiGenerator();
+  const seedGenerator = new SeedGenerator();
+  schemaGenerator.setDialect(dialect);
+  validator.setDialect(dialect);
+  apiGenerator.setDialect(dialect);
+  seedGenerator.setDialect(dialect);
+  return { schemaGenerator, validator, apiGenerator, seedGenerator };
+}
+
+function table(schemaGenerator: SchemaGenerator): SchemaDefinition {
+  return schemaGenerator.withRequiredFields(
+    parseTableFlags("catalog_tracks", FIELDS)
+  );
+}
+
+// Stages the schema, routes, list query and seed of catalog_tracks with the
+// dialect's connection module and returns their type errors
+async function typecheckGenerated(dialect: Dialect): Promise<string[]> {
+  const { schemaGenerator, apiGenerator, seedGenerator } = generators(dialect);
+  const tracks = table(schemaGenerator);
+  const changeSet = new ChangeSet(true);
+  apiGenerator.setChangeSet(changeSet);
+  const validationGenerator = new ValidationGenerator();
+  validationGenerator.setChangeSet(changeSet);
+  const schemaDir = path.join(ROOT, "src", "db", "schema");
+  const schemaFile = path.join(schemaDir, "catalog_tracks.ts");
+  const seedFile = path.join(ROOT, "scripts", "seed-catalog_tracks.ts");
+  const routeDir = path.join(ROOT, "src", "app", "api", "catalog-tracks");
+
+  changeSet.writeFile(
+    path.join(ROOT, "src", "db", "connection.ts"),
+    connectionSource(dialect)
+  );
+  changeSet.writeFile(
+    path.join(schemaDir, "index.ts"),
+    'export * from "./catalog_tracks";\n'
+  );
+  changeSet.writeFile(
+    schemaFile,
+    schemaGenerator.generateBasicSchemaContent(tracks)
+  );
+  changeSet.writeFile(seedFile, seedGenerator.generateSeedTemplate(tracks));
+  await validationGenerator.generateValidationSchema(tracks);
+  await apiGenerator.generateApiRoute(tracks);
+
+  const checker = new TypeChecker();
+  checker.setChangeSet(changeSet);
+  const cwd = process.cwd();
+  process.chdir(ROOT);
+  try {
+    return checker
+      .check([
+        schemaFile,
+        seedFile,
+        path.join(ROOT, "src", "db", "validation", "catalog_tracks.ts"),
+        path.join(ROOT, "src", "lib", "list-query.ts"),
+        path.join(routeDir, "route.ts"),
+        path.join(routeDir, "[id]", "route.ts"),
+      ])
+      .map((d) => `${path.relative(ROOT, d.file)}:${d.line} ${d.message}`);
+  } finally {
+    process.chdir(cwd);
+  }
+}
+
+test("the PostgreSQL templates are the files the project ships with", () => {
+  const read = (file: string) =>
+    fs.readFileSync(path.join(ROOT, file), "utf8").replace(/\r\n/g, "\n");
+  const config = read("drizzle.config.ts");
+  assert.equal(config, drizzleConfigSource(DIALECTS.postgresql));
+  assert.equal(
+    read("src/db/connection.ts"),
+    connectionSource(DIALECTS.postgresql)
+  );
+  assert.equal(detectDialect(config), DIALECTS.postgresql);
+  assert.equal(
+    detectDialect(drizzleConfigSource(DIALECTS.sqlite)),
+    DIALECTS.sqlite
+  );
+  assert.equal(
+    detectDialect(drizzleConfigSource(DIALECTS.mysql)),
+    DIALECTS.mysql
+  );
+});
+
+test("maps column types onto sqlite-core", () => {
+  const { schemaGenerator } = generators(DIALECTS.sqlite);
+  const content = schemaGenerator.generateBasicSchemaContent(
+    table(schemaGenerator)
+  );
+  assert.match(content, /from "drizzle-orm\/sqlite-core";/);
+  assert.match(content, /= sqliteTable\("catalog_tracks", \{/);
+  assert.match(
+    content,
+    /id: integer\("id"\)\.primaryKey\(\{ autoIncrement: true \}\)/
+  );
+  assert.match(content, /title: text\("title", \{ length: 120 \}\)/);
+  assert.match(
+    content,
+    /explicit: integer\("explicit", \{ mode: "boolean" \}\)\.notNull\(\)\.default\(false\)/
+  );
+  assert.match(
+    content,
+    /status: text\("status", \{ enum: \["draft", "published"\] \}\)/
+  );
+  assert.match(
+    content,
+    /tags: text\("tags", \{ mode: "json" \}\)\.\$type<string\[\]>\(\)/
+  );
+  assert.match(content, /\$defaultFn\(\(\) => crypto\.randomUUID\(\)\)/);
+  assert.match(
+    content,
+    /createdAt: integer\("created_at", \{ mode: "timestamp" \}\)\s*\.default\(sql`\(unixepoch\(\)\)`\)/
+  );
+  assert.doesNotMatch(content, /pg-core|pgEnum/);
+});
+
+test("maps column types onto mysql-core without .returning()", async () => {
+  const { schemaGenerator, apiGenerator } = generators(DIALECTS.mysql);
+  const tracks = table(schemaGenerator);
+  const content = schemaGenerator.generateBasicSchemaContent(tracks);
+  assert.match(content, /= mysqlTable\("catalog_tracks", \{/);
+  assert.match(content, /id: int\("id"\)\.autoincrement\(\)\.primaryKey\(\)/);
+  assert.match(
+    content,
+    /price: decimal\("price", \{ precision: 10, scale: 2 \}\)/
+  );
+  assert.match(
+    content,
+    /status: mysqlEnum\("status", \["draft", "published"\]\)/
+  );
+  assert.match(content, /tags: json\("tags"\)\.\$type<string\[\]>\(\)/);
+  assert.match(
+    content,
+    /externalId: varchar\("external_id", \{ length: 36 \}\)/
+  );
+
+  const changeSet = new ChangeSet(true);
+  apiGenerator.setChangeSet(changeSet);
+  await apiGenerator.generateApiRoute(tracks);
+  const routes = changeSet
+    .getChanges()
+    .map((c) => c.after!)
+    .join("\n");
+  assert.doesNotMatch(routes, /\.returning\(\)/);
+  assert.match(routes, /\.\$returningId\(\)/);
+});
+
+test("generated SQLite and MySQL files typecheck", async () => {
+  assert.deepEqual(await typecheckGenerated(DIALECTS.sqlite), []);
+  assert.deepEqual(await typecheckGenerated(DIALECTS.mysql), []);
+});
+
+test("reads generated SQLite and MySQL tables back into the same types", () => {
+  for (const dialect of [DIALECTS.sqlite, DIALECTS.mysql]) {
+    const { schemaGenerator } = generators(dialect);
+    const tracks = table(schemaGenerator);
+    const [parsed] = parseSchemaSource(
+      schemaGenerator.generateBasicSchemaContent(tracks),
+      "catalog_tracks.ts"
+    );
+    const types = Object.fromEntries(
+      parsed.definition.fields.map((f) => [f.name, f.type])
+    );
+    assert.equal(types.id, "serial", dialect.name);
+    assert.equal(types.status, "enum(draft|published)", dialect.name);
+    assert.equal(types.tags, "text[]", dialect.name);
+    assert.equal(types.external_id, "uuid", dialect.name);
+    assert.equal(types.created_at, "timestamp", dialect.name);
+    assert.deepEqual(
+      parsed.definition.fields.find((f) => f.name === "released_on")
+        ?.constraints,
+      ["defaultNow()"],
+      dialect.name
+    );
+  }
+});
+
+test("validates types against the dialect", async () => {
+  const { validator } = generators(DIALECTS.sqlite);
+  const result = await validator.validateSchema(
+    new SchemaGenerator().withRequiredFields(
+      parseTableFlags("sessions", ["length:interval", "tags:text[]"])
+    )
+  );
+  assert.equal(result.errors.length, 1, result.errors.join("\n"));
+  assert.match(result.errors[0], /interval is not supported by SQLite/);
+  assert.match(result.warnings.join("\n"), /arrays are stored as JSON/);
+
+  const mysql = generators(DIALECTS.mysql).validator;
+  const unique = await mysql.validateSchema(
+    new SchemaGenerator().withRequiredFields(
+      parseTableFlags("artists", ["name:text:unique"])
+    )
+  );
+  assert.match(unique.errors.join("\n"), /use varchar\(n\) for unique\(\)/);
+});
+
+test("classifies SQLite table rebuilds and MySQL column changes", () => {
+  const existing = {
+    tracks: { id: "integer", title: "varchar(255)", plays: "integer" },
+  };
+  const rebuild = analyzeMigration(
+    [
+      "PRAGMA foreign_keys=OFF;",
+      "CREATE TABLE `__new_tracks` (`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL, `title` text NOT NULL);",
+      'INSERT INTO `__new_tracks`("id", "title") SELECT "id", "title" FROM `tracks`;',
+      "DROP TABLE `tracks`;",
+      "ALTER TABLE `__new_tracks` RENAME TO `tracks`;",
+      "PRAGMA foreign_keys=ON;",
+    ],
+    existing
+  );
+  assert.deepEqual(
+    rebuild.statements.map((s) => s.risk),
+    ["additive", "additive", "locking", "locking", "additive", "additive"]
+  );
+
+  const mysql = analyzeMigration(
+    [
+      "ALTER TABLE `tracks` ADD `genre` varchar(50);",
+      "ALTER TABLE `tracks` MODIFY COLUMN `title` varchar(100) NOT NULL;",
+    ],
+    existing
+  );
+  assert.deepEqual(
+    mysql.statements.map((s) => s.risk),
+    ["additive", "destructive"]
+  );
+});
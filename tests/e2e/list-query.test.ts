@@ -0,0 +1,276 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { count } from "drizzle-orm";
+import {
+  integer,
+  pgEnum,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/pglite";
+import { DIALECTS } from "../../scripts/agent/core/dialects";
+import {
+  listParamsSource,
+  listQuerySource,
+} from "../../scripts/agent/core/list-query";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+const mood = pgEnum("tracks_mood", ["calm", "upbeat"]);
+const tracks = pgTable("tracks", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  artistName: text("artist_name").notNull(),
+  album: text("album"),
+  plays: integer("plays").notNull(),
+  mood: mood("mood").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+const ROWS = [
+  ["Blinding Lights", "The Weeknd", "After Hours", 900, "upbeat"],
+  ["Save Your Tears", "The Weeknd", "After Hours", 700, "calm"],
+  ["Levitating", "Dua Lipa", null, 800, "upbeat"],
+  ["Heat Waves", "Glass Animals", "Dreamland", 650, "calm"],
+  ["Anti-Hero", "Taylor Swift", "Midnights", 650, "calm"],
+  ["100% Pure", "Test_Artist", null, 10, "upbeat"],
+] as const;
+
+// The generated modules are imported from inside the repo so they resolve
+// drizzle-orm
+const dir = fs.mkdtempSync(path.join(ROOT, "tests", ".list-query-"));
+const client = new PGlite();
+const db = drizzle(client);
+let listSearchParams: (params: object) => URLSearchParams;
+let parseListQuery: (
+  table: unknown,
+  params: URLSearchParams,
+  ignore?: string[],
+  hidden?: string[]
+) => any;
+
+before(async () => {
+  fs.writeFileSync(path.join(dir, "list-params.ts"), listParamsSource());
+  fs.writeFileSync(
+    path.join(dir, "list-query.ts"),
+    listQuerySource(DIALECTS.postgresql)
+  );
+  ({ listSearchParams } = await import(path.join(dir, "list-params.ts")));
+  ({ parseListQuery } = await import(path.join(dir, "list-query.ts")));
+
+  await client.exec(`
+    create type tracks_mood as enum ('calm', 'upbeat');
+    create table tracks (
+      id serial primary key,
+      title text not null,
+      artist_name text not null,
+      album text,
+      plays integer not null,
+      mood tracks_mood not null,
+      created_at timestamp not null
+    );`);
+  await db.insert(tracks).values(
+    ROWS.map(([title, artistName, album, plays, mood], i) => ({
+      title,
+      artistName,
+      album,
+      plays,
+      mood,
+      createdAt: new Date(Date.UTC(2024, 0, i + 1)),
+    }))
+  );
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// GET /api/tracks as the generated route runs it
+async function list(search: string | URLSearchParams, hidden: string[] = []) {
+  const query = parseListQuery(tracks, new URLSearchParams(search), [], hidden);
+  if ("error" in query) return query as { error: string };
+  const rows = await db
+    .select()
+    .from(tracks)
+    .where(query.pageWhere)
+    .orderBy(...query.orderBy)
+    .limit(query.take)
+    .offset(query.offset);
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(tracks)
+    .where(query.where);
+  return query.page(rows, total);
+}
+
+const titles = (result: any) => result.data.map((r: any) => r.title);
+
+test("sorts by created_at descending by default and counts every row", async () => {
+  const result = await list("limit=2");
+  assert.deepEqual(titles(result), ["100% Pure", "Anti-Hero"]);
+  assert.deepEqual(
+    { ...result.pagination, nextCursor: typeof result.pagination.nextCursor },
+    { limit: 2, offset: 0, total: 6, hasMore: true, nextCursor: "string" }
+  );
+});
+
+test("filters with operators on column keys and SQL names", async () => {
+  assert.deepEqual(titles(await list("artist_name=The Weeknd&sort=title")), [
+    "Blinding Lights",
+    "Save Your Tears",
+  ]);
+  assert.deepEqual(titles(await list("plays[gt]=700&sort=-plays")), [
+    "Blinding Lights",
+    "Levitating",
+  ]);
+  assert.deepEqual(
+    titles(await list("mood[in]=calm&plays[lte]=650&sort=title")),
+    ["Anti-Hero", "Heat Waves"]
+  );
+  assert.deepEqual(titles(await list("title[ilike]=%LIGHT%")), [
+    "Blinding Lights",
+  ]);
+  assert.deepEqual(
+    titles(await list("createdAt[gte]=2024-01-05T00:00:00.000Z&sort=id")),
+    ["Anti-Hero", "100% Pure"]
+  );
+});
+
+test("q needs every word in some text column, with LIKE wildcards escaped", async () => {
+  assert.deepEqual(titles(await list("q=weeknd tears")), ["Save Your Tears"]);
+  assert.deepEqual(titles(await list("q=after&sort=plays")), [
+    "Save Your Tears",
+    "Blinding Lights",
+  ]);
+  assert.deepEqual(titles(await list("q=100%")), ["100% Pure"]);
+  assert.deepEqual(titles(await list("q=s_a")), []);
+});
+
+test("columns hidden by an access policy can't be filtered, sorted or searched", async () => {
+  const hidden = ["album"];
+  assert.equal(
+    ((await list("album=Midnights", hidden)) as any).error,
+    "Unknown field 'album'"
+  );
+  assert.equal(
+    ((await list("sort=album", hidden)) as any).error,
+    "Unknown field 'album'"
+  );
+  assert.deepEqual(titles(await list("q=dreamland", hidden)), []);
+  assert.deepEqual(titles(await list("q=dreamland")), ["Heat Waves"]);
+});
+
+test("walks every row by cursor over a multi-field sort", async () => {
+  const seen: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const params: URLSearchParams = listSearchParams({
+      sort: ["-plays", "title"],
+      limit: 2,
+      ...(cursor ? { cursor } : {}),
+    });
+    const result: any = await list(params);
+    assert.equal(result.pagination.offset, cursor ? null : 0);
+    assert.equal(result.pagination.total, 6);
+    seen.push(...titles(result));
+    cursor = result.pagination.nextCursor;
+  } while (cursor);
+  assert.deepEqual(seen, [
+    "Blinding Lights",
+    "Levitating",
+    "Save Your Tears",
+    "Anti-Hero",
+    "Heat Waves",
+    "100% Pure",
+  ]);
+});
+
+test("rejects cursors whose values don't fit their columns", async () => {
+  const cursor = (values: unknown[]) =>
+    Buffer.from(JSON.stringify({ sort: "-plays,title,-id", values })).toString(
+      "base64url"
+    );
+  const errors = await Promise.all(
+    [
+      [900, "Blinding Lights", 1],
+      ["900", "Blinding Lights", 1],
+      [900, 42, 1],
+      [900, "Blinding Lights", null],
+      [null, "Blinding Lights", 1],
+    ].map(
+      async (values) =>
+        ((await list(`sort=-plays,title&cursor=${cursor(values)}`)) as any)
+          .error
+    )
+  );
+  assert.deepEqual(errors, [
+    undefined,
+    "Invalid cursor",
+    "Invalid cursor",
+    "Invalid cursor",
+    "Invalid cursor",
+  ]);
+  const dated = Buffer.from(
+    JSON.stringify({ sort: "-createdAt,-id", values: ["yesterday", 1] })
+  ).toString("base64url");
+  assert.equal((await list(`cursor=${dated}`)).error, "Invalid cursor");
+});
+
+test("serializes typed hook params", () => {
+  assert.equal(
+    decodeURIComponent(
+      listSearchParams({
+        filters: {
+          mood: "calm",
+          plays: { gte: 600, lt: 800 },
+          title: { in: ["Heat Waves", "Anti-Hero"] },
+          createdAt: { gt: new Date(Date.UTC(2024, 0, 2)) },
+        },
+        sort: "-plays",
+        q: "after",
+        offset: 20,
+      }).toString()
+    ).replace(/\+/g, " "),
+    "mood=calm&plays[gte]=600&plays[lt]=800&title[in]=Heat Waves,Anti-Hero&createdAt[gt]=2024-01-02T00:00:00.000Z&sort=-plays&q=after&offset=20"
+  );
+});
+
+test("rejects parameters outside the contract", async () => {
+  const errors = await Promise.all(
+    [
+      "genre=pop",
+      "plays[between]=1",
+      "plays=many",
+      "mood=sad",
+      "mood[ilike]=c%",
+      "sort=-album&cursor=abc",
+      "cursor=abc&offset=2",
+      `cursor=${Buffer.from(
+        JSON.stringify({ sort: "title,id", values: ["x", 1] })
+      ).toString("base64url")}`,
+      "limit=0",
+    ].map(async (search) => ((await list(search)) as any).error)
+  );
+  assert.deepEqual(errors, [
+    "Unknown field 'genre'",
+    "Unknown operator 'between'; use one of eq, ne, gt, gte, lt, lte, in, ilike",
+    "'many' is not a valid value for plays",
+    "'sad' is not a valid value for mood",
+    "ilike only applies to text fields",
+    "Cursor pagination needs a sort on fields that can't be null",
+    "Use either cursor or offset",
+    "The cursor was created for a different sort",
+    "limit must be an integer of at least 1",
+  ]);
+  assert.equal(
+    parseListQuery(tracks, new URLSearchParams("include=artist"), ["include"])
+      .error,
+    undefined
+  );
+});
@@ -0,0 +1,58 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { OfflineRun, runAgentOffline } from "../harness/offline-agent";
+
+let run: OfflineRun;
+
+before(async () => {
+  run = await runAgentOffline(
+    "Can you store the 'Made for you' and 'Popular albums' in a table",
+    "made-for-you-popular-albums"
+  );
+});
+
+after(() => run?.cleanup());
+
+test("writes both tables with their routes, seeds and hooks", () => {
+  assert.deepEqual(run.files, [
+    "scripts/seed-made_for_you.ts",
+    "scripts/seed-popular_albums.ts",
+    "src/app/api-docs/page.tsx",
+    "src/app/api/made-for-you/[id]/route.ts",
+    "src/app/api/made-for-you/route.ts",
+    "src/app/api/openapi.json/route.ts",
+    "src/app/api/popular-albums/[id]/route.ts",
+    "src/app/api/popular-albums/route.ts",
+    "src/components/spotify-main-content.tsx",
+    "src/db/schema/index.ts",
+    "src/db/schema/made_for_you.ts",
+    "src/db/schema/popular_albums.ts",
+    "src/db/validation/index.ts",
+    "src/db/validation/made_for_you.ts",
+    "src/db/validation/popular_albums.ts",
+    "src/hooks/index.ts",
+    "src/hooks/useMadeForYou.ts",
+    "src/hooks/usePopularAlbums.ts",
+    "src/lib/api-client.ts",
+    "src/lib/list-params.ts",
+    "src/lib/list-query.ts",
+    "src/lib/openapi.json",
+  ]);
+});
+
+test("exports both tables from the schema index", () => {
+  const index = run.read("src/db/schema/index.ts");
+  assert.match(index, /export \* from "\.\/made_for_you";/);
+  assert.match(index, /export \* from "\.\/popular_albums";/);
+});
+
+test("feeds both shelves from their hooks", () => {
+  const component = run.read("src/components/spotify-main-content.tsx");
+  assert.match(component, /useMadeForYou\(\)/);
+  assert.match(component, /usePopularAlbums\(\)/);
+});
+
+test("generated code compiles with tsc --noEmit", () => {
+  const result = run.typecheck();
+  assert.equal(result.status, 0, result.output);
+});
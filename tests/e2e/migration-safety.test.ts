@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  analyzeMigration,
+  existingColumns,
+  snapshotColumns,
+  splitStatements,
+} from "../../scripts/agent/core/migration-safety";
+import { alterTableSql } from "../../scripts/agent/core/schema-evolution";
+import { parseSchemaSource } from "../../scripts/agent/core/schema-parser";
+import { parseSchemaChange } from "../../scripts/agent/core/table-spec";
+
+const [tracks] = parseSchemaSource(
+  `export const tracks = pgTable("tracks", {
+  id: serial("id").primaryKey(),
+  title: varchar("title", { length: 255 }).notNull(),
+  plays: integer("plays"),
+  price: numeric("price", { precision: 10, scale: 2 }),
+});`,
+  "tracks.ts"
+);
+const existing = existingColumns([tracks]);
+
+test("splits drizzle-kit migrations into statements", () => {
+  assert.deepEqual(
+    splitStatements(
+      `CREATE TABLE "albums" (\n\t"id" serial PRIMARY KEY NOT NULL\n);\n--> statement-breakpoint\nALTER TABLE "tracks" ADD COLUMN "album_id" integer;`
+    ),
+    [
+      `CREATE TABLE "albums" (\n\t"id" serial PRIMARY KEY NOT NULL\n);`,
+      `ALTER TABLE "tracks" ADD COLUMN "album_id" integer;`,
+    ]
+  );
+});
+
+test("new tables and nullable columns are additive", () => {
+  const report = analyzeMigration(
+    [
+      `CREATE TABLE "albums" ("id" serial PRIMARY KEY NOT NULL, "name" text NOT NULL);`,
+      `CREATE INDEX "albums_name_idx" ON "albums" USING btree ("name");`,
+      `ALTER TABLE "albums" ADD CONSTRAINT "albums_name_unique" UNIQUE("name");`,
+      `ALTER TABLE "tracks" ADD COLUMN "genre" text DEFAULT 'pop' NOT NULL;`,
+      `ALTER TABLE "tracks" ALTER COLUMN "title" SET DATA TYPE varchar(500);`,
+      `ALTER TABLE "tracks" ALTER COLUMN "plays" SET DATA TYPE bigint;`,
+    ],
+    existing
+  );
+  assert.deepEqual(
+    report.statements.map((s) => s.risk),
+    ["additive", "additive", "additive", "additive", "additive", "locking"]
+  );
+  assert.equal(report.risk, "locking");
+});
+
+test("flags drops, narrowing and locks on populated tables", () => {
+  const report = analyzeMigration(
+    [
+      `ALTER TABLE "tracks" DROP COLUMN "plays";`,
+      `DROP TABLE "legacy" CASCADE;`,
+      `ALTER TABLE "tracks" ALTER COLUMN "title" SET DATA TYPE varchar(100);`,
+      `ALTER TABLE "tracks" ALTER COLUMN "price" SET DATA TYPE integer;`,
+      `ALTER TABLE "tracks" ADD COLUMN "album_id" integer NOT NULL;`,
+      `CREATE INDEX "tracks_title_idx" ON "tracks" USING btree ("title");`,
+      `ALTER TABLE "tracks" ADD CONSTRAINT "tracks_album_id_albums_id_fk" FOREIGN KEY ("album_id") REFERENCES "public"."albums"("id") ON DELETE cascade ON UPDATE no action;`,
+      `ALTER TABLE "tracks" ALTER COLUMN "title" SET NOT NULL;`,
+    ],
+    existing
+  );
+  assert.deepEqual(
+    report.statements.map((s) => s.risk),
+    [
+      "destructive",
+      "destructive",
+      "destructive",
+      "destructive",
+      "locking",
+      "locking",
+      "locking",
+      "locking",
+    ]
+  );
+  assert.equal(report.risk, "destructive");
+  assert.match(
+    report.statements[2].reason,
+    /from varchar\(255\) to varchar\(100\)/
+  );
+});
+
+test("classifies the alteration SQL and snapshots", () => {
+  const report = analyzeMigration(
+    alterTableSql(tracks, [
+      parseSchemaChange("tracks", "rename title:name"),
+      parseSchemaChange("tracks", "add genre:text:notNull:default(pop)"),
+      parseSchemaChange("tracks", "retype plays:integer:notNull:default(0)"),
+    ]),
+    existing
+  );
+  assert.deepEqual(
+    report.statements.map((s) => s.risk),
+    ["additive", "additive", "additive", "locking", "locking"]
+  );
+
+  assert.deepEqual(
+    snapshotColumns({
+      tables: {
+        "public.tracks": {
+          name: "tracks",
+          columns: {
+            id: { name: "id", type: "serial" },
+            mood: { name: "mood", type: "tracks_mood", typeSchema: "public" },
+          },
+        },
+      },
+    }),
+    { tracks: { id: "integer", mood: '"public"."tracks_mood"' } }
+  );
+});
@@ -0,0 +1,209 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import {
+  resolveRelationships,
+  sortByDependencies,
+} from "../../scripts/agent/core/relationships";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import {
+  OPENAPI_SPEC_FILE,
+  OpenApiGenerator,
+} from "../../scripts/agent/modules/openapi-generator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+import { ValidationGenerator } from "../../scripts/agent/modules/validation-generator";
+import { SchemaDefinition } from "../../scripts/agent/types";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+function catalog(): SchemaDefinition[] {
+  const generator = new SchemaGenerator();
+  const tracks = parseTableFlags("catalog_tracks", [
+    "title:varchar(120):notNull",
+    "album_name:text",
+    "price:numeric(10,2):notNull:default(0.99)",
+    "status:enum(draft|published):notNull:default(draft)",
+    "tags:text[]:notNull:default([])",
+    "played_at:timestamp:notNull",
+  ]);
+  tracks.relationships = [
+    { type: "one-to-many", table: "catalog_artists", onDelete: "cascade" },
+  ];
+  const artists = parseTableFlags("catalog_artists", ["name:text:notNull"]);
+  return sortByDependencies(
+    resolveRelationships([tracks, artists]).map((def) =>
+      generator.withRequiredFields(def)
+    )
+  );
+}
+
+// Route files of the tables, staged so the generator finds them
+function stageRoutes(changeSet: ChangeSet, defs: SchemaDefinition[]) {
+  for (const def of defs)
+    changeSet.writeFile(
+      path.join(
+        ROOT,
+        "src",
+        "app",
+        "api",
+        def.tableName.replace(/_/g, "-"),
+        "route.ts"
+      ),
+      "export {};\n"
+    );
+}
+
+// The generated module is imported from inside the repo so it resolves zod
+const dir = fs.mkdtempSync(path.join(ROOT, "tests", ".openapi-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test("describes the five operations of each table", () => {
+  const spec = new OpenApiGenerator().generateSpec(catalog());
+  assert.equal(spec.openapi, "3.1.0");
+  assert.deepEqual(
+    Object.entries(spec.paths).map(
+      ([route, item]: [string, any]) =>
+        `${route} ${Object.keys(item)
+          .filter((k) => k !== "parameters")
+          .join(",")}`
+    ),
+    [
+      "/api/catalog-artists get,post",
+      "/api/catalog-artists/{id} get,put,delete",
+      "/api/catalog-tracks get,post",
+      "/api/catalog-tracks/{id} get,put,delete",
+    ]
+  );
+
+  const list = spec.paths["/api/catalog-tracks"].get;
+  const parameters = list.parameters.map((p: any) => p.name);
+  assert.ok(parameters.includes("playedAt"));
+  assert.ok(!parameters.includes("tags"));
+  assert.deepEqual(parameters.slice(-6), [
+    "sort",
+    "q",
+    "limit",
+    "offset",
+    "cursor",
+    "include",
+  ]);
+  assert.match(
+    list.parameters.find((p: any) => p.name === "title").description,
+    /\|ilike\]$/
+  );
+  assert.doesNotMatch(
+    list.parameters.find((p: any) => p.name === "status").description,
+    /ilike/
+  );
+
+  const tracks = spec.components.schemas.CatalogTracks;
+  assert.deepEqual(tracks.properties.albumName, { type: ["string", "null"] });
+  assert.deepEqual(tracks.properties.playedAt, {
+    type: "string",
+    format: "date-time",
+  });
+  assert.deepEqual(tracks.properties.catalogArtist.anyOf, [
+    { $ref: "#/components/schemas/CatalogArtists" },
+    { type: "null" },
+  ]);
+  assert.ok(!tracks.required.includes("catalogArtist"));
+  assert.equal(
+    spec.components.schemas.CatalogArtists.properties.catalogTracks.type,
+    "array"
+  );
+
+  // Every reference points at a component
+  const refs = JSON.stringify(spec).match(/#\/components\/schemas\/\w+/g)!;
+  for (const ref of new Set(refs))
+    assert.ok(spec.components.schemas[ref.split("/").pop()!], ref);
+});
+
+test("requires the same body fields as the Zod schemas", async () => {
+  const [, tracks] = catalog();
+  const spec = new OpenApiGenerator().generateSpec(catalog());
+  const insert = spec.components.schemas.CatalogTracksInsert;
+
+  const file = path.join(dir, "catalog_tracks.ts");
+  fs.writeFileSync(
+    file,
+    new ValidationGenerator().generateValidationContent(tracks)
+  );
+  const { catalogTracksInsertSchema } = await import(file);
+  const missing = catalogTracksInsertSchema
+    .safeParse({})
+    .error.issues.map((i: { path: string[] }) => i.path[0]);
+  assert.deepEqual([...insert.required].sort(), [...missing].sort());
+  assert.deepEqual(Object.keys(insert.properties).sort(), [
+    "albumName",
+    "catalogArtistId",
+    "playedAt",
+    "price",
+    "status",
+    "tags",
+    "title",
+  ]);
+  assert.deepEqual(insert.properties.title, {
+    type: "string",
+    minLength: 1,
+    maxLength: 120,
+  });
+  assert.deepEqual(
+    spec.components.schemas.CatalogTracksUpdate.required,
+    undefined
+  );
+  assert.equal(spec.components.schemas.CatalogTracksUpdate.minProperties, 1);
+});
+
+test("documents the tables with routes and removes the docs with the last one", async () => {
+  const [artists, tracks] = catalog();
+  const changeSet = new ChangeSet(true);
+  const generator = new OpenApiGenerator();
+  generator.setChangeSet(changeSet);
+  stageRoutes(changeSet, [tracks]);
+  const specPath = path.join(ROOT, OPENAPI_SPEC_FILE);
+  const routePath = path.join(
+    ROOT,
+    "src",
+    "app",
+    "api",
+    "openapi.json",
+    "route.ts"
+  );
+  const pagePath = path.join(ROOT, "src", "app", "api-docs", "page.tsx");
+
+  await generator.updateOpenApiSpec([artists, tracks]);
+  const spec = JSON.parse(changeSet.readFile(specPath));
+  assert.deepEqual(Object.keys(spec.paths), [
+    "/api/catalog-tracks",
+    "/api/catalog-tracks/{id}",
+  ]);
+  assert.deepEqual(
+    spec.components.schemas.CatalogTracks.properties.catalogArtist.anyOf[0],
+    {
+      type: "object",
+    }
+  );
+
+  const checker = new TypeChecker();
+  checker.setChangeSet(changeSet);
+  const cwd = process.cwd();
+  process.chdir(ROOT);
+  try {
+    assert.deepEqual(
+      checker
+        .check([routePath, pagePath])
+        .map((d) => `${path.relative(ROOT, d.file)}:${d.line} ${d.message}`),
+      []
+    );
+  } finally {
+    process.chdir(cwd);
+  }
+
+  await generator.updateOpenApiSpec([artists]);
+  assert.equal(changeSet.exists(specPath), false);
+  assert.equal(changeSet.exists(routePath), false);
+  assert.equal(changeSet.exists(pagePath), false);
+});
@@ -0,0 +1,178 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { PGlite } from "@electric-sql/pglite";
+import { RunJournal } from "../../scripts/agent/core/run-journal";
+import { LLMProvider } from "../../scripts/agent/types";
+import {
+  OfflineRun,
+  fixtureProvider,
+  runAgentOffline,
+} from "../harness/offline-agent";
+
+const QUERY = "Can you store the recently played songs in a table";
+let run: OfflineRun;
+
+before(async () => {
+  run = await runAgentOffline(QUERY, "recently-played", { pglite: true });
+});
+
+after(() => run?.cleanup());
+
+test("migrates and seeds the embedded database", async () => {
+  const client = new PGlite(path.join(run.projectDir, ".orchids", "db"));
+  try {
+    const migrations = await client.query<{ count: number }>(
+      "select count(*)::int as count from drizzle.__drizzle_migrations"
+    );
+    assert.equal(migrations.rows[0].count, 1);
+    const seeded = await client.query<{ count: number }>(
+      "select count(*)::int as count from recently_played"
+    );
+    assert.ok(seeded.rows[0].count > 0, "no rows were seeded");
+  } finally {
+    await client.close();
+  }
+});
+
+test("writes the migration and connects seeds through src/db", () => {
+  assert.ok(
+    fs
+      .readdirSync(path.join(run.projectDir, "src", "db", "migrations"))
+      .some((f) => /^0000_.*\.sql$/.test(f))
+  );
+  assert.match(
+    run.read("scripts/seed-recently_played.ts"),
+    /import \{ connectDb \} from "@\/db\/connection";/
+  );
+});
+
+test("a generated route serves the seeded rows from the embedded database", () => {
+  // In its own process, as the app opens the data directory through src/db
+  const script = path.join(run.projectDir, "get-recently-played.ts");
+  fs.writeFileSync(
+    script,
+    `import { NextRequest } from "next/server";
+import { GET } from "./src/app/api/recently-played/route";
+
+GET(new NextRequest("http://localhost/api/recently-played?limit=2")).then(
+  async (response) => {
+    console.log(JSON.stringify({ status: response.status, body: await response.json() }));
+    process.exit(0);
+  }
+);
+`
+  );
+  const result = spawnSync(
+    process.execPath,
+    [require.resolve("tsx/cli"), script],
+    {
+      cwd: run.projectDir,
+      env: { ...process.env, DATABASE_DRIVER: "pglite", DATABASE_URL: "" },
+      encoding: "utf8",
+      timeout: 120_000,
+    }
+  );
+  assert.equal(result.status, 0, result.stderr);
+  const { status, body } = JSON.parse(result.stdout.trim().split("\n").pop()!);
+  assert.equal(status, 200);
+  assert.equal(body.success, true);
+  assert.equal(body.data.length, 2);
+  assert.ok(body.pagination.total > 0);
+});
+
+test("undo writes and applies a migration that drops the run's table", async () => {
+  const migrationsDir = path.join(run.projectDir, "src", "db", "migrations");
+  assert.equal(await run.undo(), true);
+
+  const added = fs
+    .readdirSync(migrationsDir)
+    .filter((f) => /^0001_.*\.sql$/.test(f));
+  assert.equal(added.length, 1);
+  assert.match(
+    fs.readFileSync(path.join(migrationsDir, added[0]), "utf8"),
+    /DROP TABLE "recently_played"/
+  );
+  assert.ok(
+    !fs.existsSync(
+      path.join(run.projectDir, "src", "db", "schema", "recently_played.ts")
+    )
+  );
+
+  const client = new PGlite(path.join(run.projectDir, ".orchids", "db"));
+  try {
+    const migrations = await client.query<{ count: number }>(
+      "select count(*)::int as count from drizzle.__drizzle_migrations"
+    );
+    assert.equal(migrations.rows[0].count, 2);
+    const table = await client.query<{ name: string | null }>(
+      "select to_regclass('public.recently_played')::text as name"
+    );
+    assert.equal(table.rows[0].name, null);
+  } finally {
+    await client.close();
+  }
+});
+
+test("a step failing after migrate keeps the schema the database has", async () => {
+  // Routes that never typecheck, however often they are repaired
+  const recorded = fixtureProvider("recently-played");
+  const provider: LLMProvider = {
+    name: recorded.name,
+    model: recorded.model,
+    generateText: async (prompt) =>
+      /^You are (generating a Next\.js|fixing TypeScript)/.test(
+        prompt.trimStart()
+      )
+        ? 'export const GET: number = "not a route";\n'
+        : recorded.generateText(prompt),
+    generateWithTools: (request) => recorded.generateWithTools(request),
+  };
+  const failed = await runAgentOffline(QUERY, "recently-played", {
+    pglite: true,
+    provider,
+  });
+  try {
+    const journal = new RunJournal(failed.projectDir).load()!;
+    assert.equal(journal.partial, true);
+    assert.deepEqual(failed.files, [
+      "src/db/schema/index.ts",
+      "src/db/schema/recently_played.ts",
+    ]);
+    assert.ok(
+      !fs.existsSync(
+        path.join(failed.projectDir, "src", "app", "api", "recently-played")
+      )
+    );
+
+    const snapshot = JSON.parse(
+      failed.read("src/db/migrations/meta/0000_snapshot.json")
+    );
+    assert.ok(snapshot.tables["public.recently_played"]);
+    const client = new PGlite(path.join(failed.projectDir, ".orchids", "db"));
+    try {
+      const table = await client.query<{ name: string | null }>(
+        "select to_regclass('public.recently_played')::text as name"
+      );
+      assert.equal(table.rows[0].name, "recently_played");
+    } finally {
+      await client.close();
+    }
+    // The schema files still describe what the migrations created
+    const generate = spawnSync("npx", ["drizzle-kit", "generate"], {
+      cwd: failed.projectDir,
+      env: { ...process.env, DATABASE_DRIVER: "pglite" },
+      encoding: "utf8",
+      timeout: 120_000,
+    });
+    assert.equal(generate.status, 0, generate.stderr);
+    assert.match(generate.stdout, /No schema changes/);
+
+    assert.equal(await failed.undo(), true);
+    assert.ok(!fs.existsSync(path.join(failed.projectDir, failed.files[1])));
+  } finally {
+    failed.cleanup();
+  }
+});
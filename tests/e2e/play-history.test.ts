@@ -0,0 +1,166 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { withOwner } from "../../scripts/agent/core/auth-files";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import {
+  integratePlayRecorder,
+  isHistoryTable,
+  withPlayHistory,
+} from "../../scripts/agent/core/play-history";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { ApiGenerator } from "../../scripts/agent/modules/api-generator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { UIIntegrator } from "../../scripts/agent/modules/ui-integrator";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const PAGE = path.join(ROOT, "src", "app", "page.tsx");
+const MAIN_CONTENT = path.join(
+  ROOT,
+  "src",
+  "components",
+  "spotify-main-content.tsx"
+);
+
+const schemaGenerator = new SchemaGenerator();
+const history = schemaGenerator.withRequiredFields(
+  withPlayHistory(
+    parseTableFlags("recently_played", [
+      "track_name:text:notNull",
+      "artist_name:text:notNull",
+    ])
+  )
+);
+
+// Runs the generators from the repo root; the dry-run change set keeps
+// every write in memory
+async function inRoot<T>(run: () => Promise<T>): Promise<T> {
+  const cwd = process.cwd();
+  const log = console.log;
+  process.chdir(ROOT);
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+  }
+}
+
+test("adds the track and history columns a new history table lacks", () => {
+  assert.deepEqual(
+    history.fields.map((f) => f.name),
+    [
+      "id",
+      "track_name",
+      "artist_name",
+      "album_name",
+      "image_url",
+      "duration_seconds",
+      "audio_url",
+      "track_id",
+      "context_type",
+      "context_id",
+      "context_name",
+      "device",
+      "played_at",
+      "created_at",
+      "updated_at",
+    ]
+  );
+  assert.ok(isHistoryTable(history));
+
+  const albums = parseTableFlags("popular_albums", ["album_name:text"]);
+  assert.equal(withPlayHistory(albums), albums);
+  // Tables bound before the player recorded plays keep the plain hook
+  assert.equal(
+    isHistoryTable(parseTableFlags("recently_played", ["song_title:text"])),
+    false
+  );
+});
+
+test("records and aggregates plays through the /plays route", async () => {
+  const changeSet = new ChangeSet(true);
+  const apiGenerator = new ApiGenerator();
+  apiGenerator.setChangeSet(changeSet);
+  const scoped = withOwner({
+    ...history,
+    fields: [
+      ...history.fields,
+      { name: "user_id", type: "integer", constraints: ["notNull()"] },
+    ],
+  });
+  await inRoot(() => apiGenerator.generateApiRoute(scoped));
+
+  const route = changeSet.readFile(
+    path.join(ROOT, "src", "app", "api", "recently-played", "plays", "route.ts")
+  );
+  assert.match(route, /title: row\.trackName,/);
+  assert.match(route, /audioUrl: row\.audioUrl \?\? undefined,/);
+  // Duplicates are the same track on the same device and user
+  assert.match(
+    route,
+    /and\(\n {10}eq\(recentlyPlayed\.userId, user\.id\),\n {10}eq\(recentlyPlayed\.trackId, track\.id\),\n {10}eq\(recentlyPlayed\.device, device\),\n {10}between\(/
+  );
+  assert.match(
+    route,
+    /if \(duplicate\) return NextResponse\.json\(\{ success: true, recorded: false \}\);/
+  );
+  assert.match(
+    route,
+    /const values: NewRecentlyPlayed = \{ \.\.\.parsed\.data, userId: user\.id \};/
+  );
+  assert.match(
+    route,
+    /\.where\(eq\(recentlyPlayed\.userId, user\.id\)\)\n {6}\.orderBy\(desc\(recentlyPlayed\.playedAt\)\)/
+  );
+  assert.match(
+    route,
+    /const id = context \? `\$\{context\.type\}:\$\{context\.id\}` : `track:\$\{row\.trackId\}`;/
+  );
+});
+
+test("starts the recorder next to SpotifyApp's play queue", () => {
+  const page = integratePlayRecorder(fs.readFileSync(PAGE, "utf8"));
+  assert.ok(page);
+  assert.match(
+    page,
+    /const playQueue = usePlayQueue\(\)\n {2}usePlayRecorder\(playQueue\.queue\)\n/
+  );
+  assert.match(
+    page,
+    /import \{ usePlayRecorder \} from '@\/hooks\/usePlayHistory'/
+  );
+  assert.equal(integratePlayRecorder(page), null);
+});
+
+test("feeds Recently played from the contexts of the history", async () => {
+  const changeSet = new ChangeSet(true);
+  const integrator = new UIIntegrator();
+  integrator.setChangeSet(changeSet);
+  const integrate = () =>
+    inRoot(async () => {
+      const analysis = integrator.analyzeQueryForUIIntegration(
+        "store the recently played songs",
+        [history]
+      );
+      await integrator.updateSpotifyMainContent([history], analysis);
+      return changeSet.readFile(MAIN_CONTENT);
+    });
+
+  const component = await integrate();
+  assert.match(
+    component,
+    /const \{ contexts: recentContexts \} = useRecentContexts\(\)\n\n {2}const recentlyPlayed: RecentItem\[\] = recentContexts\.map\(\(entry\) => \(\{/
+  );
+  assert.match(component, /id: entry\.track\.id,/);
+  assert.match(
+    component,
+    /title: entry\.context\?\.name \?\? entry\.track\.title,/
+  );
+  assert.match(component, /context: entry\.context \?\? undefined,/);
+  assert.match(component, /import \{ useRecentContexts \} from "@\/hooks"/);
+  assert.match(component, /import \{ useState \} from "react"/);
+  assert.equal(await integrate(), component);
+});
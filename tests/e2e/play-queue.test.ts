@@ -0,0 +1,162 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EMPTY_QUEUE,
+  PlayContext,
+  QueueState,
+  addToQueue,
+  cycleRepeat,
+  nextTrack,
+  playFromContext,
+  previousTrack,
+  restoreQueue,
+  skipTo,
+  toggleShuffle,
+  upcoming,
+} from "../../src/lib/play-queue";
+import type { Track } from "../../src/lib/track";
+
+const album: PlayContext = { type: "album", id: "a1", name: "Midnights" };
+const tracks: Track[] = Array.from({ length: 6 }, (_, i) => ({
+  id: `t${i}`,
+  title: `Track ${i}`,
+  artist: "Artist",
+  album: "Midnights",
+  albumArt: "",
+  duration: 180,
+}));
+const queued: Track = { ...tracks[0], id: "q1", title: "Queued" };
+
+function next(state: QueueState): QueueState {
+  const moved = nextTrack(state);
+  assert.ok(moved);
+  return moved;
+}
+
+// Every context entry points at the track it holds
+function assertPositions(state: QueueState) {
+  for (const entry of [state.current!, ...state.history]) {
+    if (entry.position === null) continue;
+    assert.equal(state.tracks[state.order[entry.position]], entry.track);
+  }
+}
+
+test("next and previous follow and retrace a shuffled order", () => {
+  const shuffled = { ...EMPTY_QUEUE, shuffle: true };
+  let state = playFromContext(shuffled, album, tracks, 2);
+  assert.equal(state.order[0], 2);
+  assert.deepEqual(
+    [...state.order].sort(),
+    tracks.map((_, i) => i)
+  );
+
+  const played = [state.current!.track];
+  while (nextTrack(state)) {
+    state = next(state);
+    played.push(state.current!.track);
+  }
+  assert.deepEqual(
+    played,
+    state.order.map((i) => tracks[i])
+  );
+  assertPositions(state);
+
+  for (let i = played.length - 2; i >= 0; i--) {
+    state = previousTrack(state)!;
+    assert.equal(state.current!.track, played[i]);
+  }
+  assert.equal(previousTrack(state), null);
+});
+
+test("repeat all starts the context over, reshuffled away from the last track", () => {
+  let state = cycleRepeat(playFromContext(EMPTY_QUEUE, album, tracks, 5));
+  assert.equal(state.repeat, "all");
+  state = next(state);
+  assert.equal(state.current!.track, tracks[0]);
+  assert.equal(state.position, 0);
+
+  for (let run = 0; run < 20; run++) {
+    let shuffled = playFromContext(
+      { ...EMPTY_QUEUE, shuffle: true, repeat: "all" },
+      album,
+      tracks,
+      0
+    );
+    while (shuffled.position < shuffled.order.length - 1)
+      shuffled = next(shuffled);
+    const last = shuffled.current!.track;
+    shuffled = next(shuffled);
+    assert.notEqual(shuffled.current!.track, last);
+    assert.equal(shuffled.history[shuffled.history.length - 1].track, last);
+    assertPositions(shuffled);
+  }
+});
+
+test("previous puts a queued current track back at the front of the queue", () => {
+  let state = playFromContext(EMPTY_QUEUE, album, tracks, 0);
+  state = addToQueue(addToQueue(state, queued), tracks[4]);
+  state = next(state);
+  assert.deepEqual(state.current, { track: queued, position: null });
+  assert.deepEqual(state.upNext, [tracks[4]]);
+
+  state = previousTrack(state)!;
+  assert.deepEqual(state.current, { track: tracks[0], position: 0 });
+  assert.deepEqual(state.upNext, [queued, tracks[4]]);
+});
+
+test("skipTo drops what comes before the chosen track", () => {
+  let state = addToQueue(
+    playFromContext(EMPTY_QUEUE, album, tracks, 0),
+    queued
+  );
+  assert.deepEqual(upcoming(state).queued, [queued]);
+  state = skipTo(state, 2)!;
+  assert.equal(state.current!.track, tracks[2]);
+  assert.deepEqual(state.upNext, []);
+  assert.equal(skipTo(state, 10), null);
+});
+
+test("toggling shuffle keeps current and history on their tracks", () => {
+  let state = playFromContext(EMPTY_QUEUE, album, tracks, 0);
+  state = next(next(addToQueue(next(state), queued)));
+  assert.equal(state.current!.track, tracks[2]);
+
+  for (let i = 0; i < 2; i++) {
+    state = toggleShuffle(state);
+    assert.equal(state.current!.track, tracks[2]);
+    assert.equal(state.order[state.position], 2);
+    assertPositions(state);
+  }
+  assert.deepEqual(state.order, [0, 1, 2, 3, 4, 5]);
+  assert.deepEqual(upcoming(state).context, tracks.slice(3));
+});
+
+test("restores a saved queue only when every part of it is consistent", () => {
+  let state = playFromContext(
+    { ...EMPTY_QUEUE, shuffle: true },
+    album,
+    tracks,
+    1
+  );
+  state = next(addToQueue(state, queued));
+  const saved = JSON.parse(JSON.stringify(state));
+  assert.deepEqual(restoreQueue(saved), state);
+
+  const corrupt = [
+    null,
+    "queue",
+    { ...saved, order: [0, 1, 2] },
+    { ...saved, order: [0, 0, 1, 2, 3, 4] },
+    { ...saved, position: 6 },
+    { ...saved, position: 1.5 },
+    { ...saved, current: { track: tracks[0], position: 9 } },
+    { ...saved, current: { track: { id: "t0" }, position: 0 } },
+    { ...saved, history: [{ track: tracks[0], position: -1 }] },
+    { ...saved, upNext: [null] },
+    { ...saved, context: { type: "radio", id: "r", name: "Radio" } },
+    { ...saved, repeat: "twice" },
+    { ...saved, tracks: undefined },
+  ];
+  for (const value of corrupt) assert.equal(restoreQueue(value), null);
+  assert.deepEqual(restoreQueue(EMPTY_QUEUE), EMPTY_QUEUE);
+});
@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  IDLE_PLAYBACK,
+  PlaybackEvent,
+  PlaybackState,
+  isBuffering,
+  playbackReducer,
+} from "../../src/lib/playback";
+import type { Track } from "../../src/lib/track";
+
+const track: Track = {
+  id: "t1",
+  title: "Track 1",
+  artist: "Artist",
+  album: "Album",
+  albumArt: "",
+  duration: 180,
+  audioUrl: "/audio/t1.mp3",
+};
+
+function run(
+  events: PlaybackEvent[],
+  state: PlaybackState = IDLE_PLAYBACK
+): PlaybackState {
+  return events.reduce(playbackReducer, state);
+}
+
+test("loads a track, buffers until it can play, then plays to the end", () => {
+  let state = run([{ type: "load", track }]);
+  assert.equal(state.status, "loading");
+  assert.equal(state.track, track);
+  assert.equal(state.duration, 180);
+
+  state = run([{ type: "play" }], state);
+  assert.ok(isBuffering(state));
+  state = run(
+    [{ type: "durationchange", duration: 181.5 }, { type: "canplay" }],
+    state
+  );
+  assert.equal(state.status, "ready");
+  assert.equal(state.duration, 181.5);
+  assert.ok(!isBuffering(state));
+
+  state = run([{ type: "waiting" }], state);
+  assert.equal(state.status, "buffering");
+  assert.ok(isBuffering(state));
+  state = run([{ type: "playing" }, { type: "timeupdate", time: 42 }], state);
+  assert.equal(state.status, "ready");
+  assert.equal(state.currentTime, 42);
+
+  state = run([{ type: "ended" }], state);
+  assert.equal(state.status, "ended");
+  assert.equal(state.isPlaying, false);
+  state = run([{ type: "seek", time: 0 }], state);
+  assert.equal(state.status, "ready");
+  assert.equal(state.currentTime, 0);
+});
+
+test("a paused track that waits for data isn't shown as buffering", () => {
+  const state = run([{ type: "load", track }, { type: "waiting" }]);
+  assert.equal(state.status, "buffering");
+  assert.ok(!isBuffering(state));
+});
+
+test("canplay only settles a load or a stall", () => {
+  const ended = run([
+    { type: "load", track },
+    { type: "canplay" },
+    { type: "ended" },
+  ]);
+  assert.equal(run([{ type: "canplay" }], ended).status, "ended");
+  // Streams report an infinite duration until they end
+  const streaming = run(
+    [{ type: "durationchange", duration: Infinity }],
+    ended
+  );
+  assert.equal(streaming.duration, 180);
+});
+
+test("media errors stop playback with a message", () => {
+  const state = run([
+    { type: "load", track },
+    { type: "play" },
+    { type: "error", code: 4 },
+  ]);
+  assert.equal(state.status, "error");
+  assert.equal(state.isPlaying, false);
+  assert.equal(state.error, "This audio format is not supported");
+  assert.equal(
+    run([{ type: "error", code: null }]).error,
+    "The track could not be played"
+  );
+
+  // Loading the next track clears the error
+  const next = run([{ type: "load", track: { ...track, id: "t2" } }], state);
+  assert.equal(next.status, "loading");
+  assert.equal(next.error, null);
+});
+
+test("a track without audio is an error, not a load", () => {
+  const playing = run([
+    { type: "load", track },
+    { type: "play" },
+    { type: "timeupdate", time: 30 },
+  ]);
+  const state = run(
+    [{ type: "load", track: { ...track, id: "t2", audioUrl: undefined } }],
+    playing
+  );
+  assert.equal(state.status, "error");
+  assert.equal(state.error, "This track has no audio to play");
+  assert.equal(state.isPlaying, false);
+  assert.equal(state.currentTime, 0);
+  assert.equal(state.track?.id, "t2");
+});
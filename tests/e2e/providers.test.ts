@@ -0,0 +1,222 @@
+import { after, afterEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  RecordingProvider,
+  ReplayProvider,
+} from "../../scripts/agent/providers/fixture-provider";
+import { OpenAICompatibleProvider } from "../../scripts/agent/providers/openai-compatible-provider";
+import { ScriptedProvider } from "../../scripts/agent/providers/scripted-provider";
+import { LLMToolRequest } from "../../scripts/agent/types";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orchids-providers-"));
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+afterEach(() => mock.restoreAll());
+
+// Answers every request with `reply` and keeps the requests sent
+function stubFetch(reply: unknown, status = 200) {
+  const requests: { url: string; init: RequestInit }[] = [];
+  mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+    requests.push({ url, init });
+    return new Response(JSON.stringify(reply), { status });
+  });
+  return {
+    requests,
+    body: (i = 0) => JSON.parse(String(requests[i].init.body)),
+  };
+}
+
+const toolRequest: LLMToolRequest = {
+  systemInstruction: "You edit a Spotify clone.",
+  tools: [
+    {
+      name: "read_file",
+      description: "Reads a file of the project",
+      parameters: { type: "object", properties: { path: { type: "string" } } },
+    },
+  ],
+  messages: [
+    { role: "user", content: "Store the recently played songs" },
+    {
+      role: "assistant",
+      content: "",
+      toolCalls: [{ id: "call_1", name: "read_file", args: { path: "a.ts" } }],
+    },
+    {
+      role: "tool",
+      toolCallId: "call_1",
+      name: "read_file",
+      content: "export {}",
+    },
+  ],
+};
+
+test("openai-compatible sends chat completions and reads the reply", async () => {
+  const fetch = stubFetch({
+    choices: [{ message: { role: "assistant", content: "CREATE TABLE" } }],
+  });
+  const provider = new OpenAICompatibleProvider(
+    "llama3",
+    "http://localhost:11434/v1/",
+    "secret"
+  );
+
+  assert.equal(await provider.generateText("Write SQL"), "CREATE TABLE");
+  const [{ url, init }] = fetch.requests;
+  assert.equal(url, "http://localhost:11434/v1/chat/completions");
+  assert.equal(init.method, "POST");
+  assert.deepEqual(init.headers, {
+    "Content-Type": "application/json",
+    Authorization: "Bearer secret",
+  });
+  assert.deepEqual(fetch.body(), {
+    model: "llama3",
+    messages: [{ role: "user", content: "Write SQL" }],
+  });
+});
+
+test("openai-compatible maps tools, tool calls and tool results", async () => {
+  const fetch = stubFetch({
+    choices: [
+      {
+        message: {
+          content: null,
+          tool_calls: [
+            {
+              id: "call_2",
+              type: "function",
+              function: { name: "read_file", arguments: '{"path":"b.ts"}' },
+            },
+            {
+              id: "call_3",
+              type: "function",
+              function: { name: "list_tables", arguments: "" },
+            },
+          ],
+        },
+      },
+    ],
+  });
+  const provider = new OpenAICompatibleProvider("gpt-4o", "https://api.test");
+
+  assert.deepEqual(await provider.generateWithTools(toolRequest), {
+    text: "",
+    toolCalls: [
+      { id: "call_2", name: "read_file", args: { path: "b.ts" } },
+      { id: "call_3", name: "list_tables", args: {} },
+    ],
+  });
+  assert.deepEqual(fetch.requests[0].init.headers, {
+    "Content-Type": "application/json",
+  });
+  assert.deepEqual(fetch.body(), {
+    model: "gpt-4o",
+    messages: [
+      { role: "system", content: "You edit a Spotify clone." },
+      { role: "user", content: "Store the recently played songs" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "read_file", arguments: '{"path":"a.ts"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "export {}" },
+    ],
+    tools: [{ type: "function", function: toolRequest.tools[0] }],
+    tool_choice: "auto",
+  });
+});
+
+test("openai-compatible reports failed requests and empty replies", async () => {
+  stubFetch({ error: "model not found" }, 404);
+  const provider = new OpenAICompatibleProvider("missing", "https://api.test");
+  await assert.rejects(
+    provider.generateText("Hi"),
+    /https:\/\/api\.test responded 404: \{"error":"model not found"\}/
+  );
+
+  mock.restoreAll();
+  stubFetch({ choices: [] });
+  assert.equal(await provider.generateText("Hi"), "");
+});
+
+test("replay serves the exact prompt first, then the next of its kind", async () => {
+  const file = path.join(dir, "replay.json");
+  const recorder = new RecordingProvider(
+    new ScriptedProvider(["schema v1", "schema v2", "route"]),
+    file
+  );
+  await recorder.generateText("Generate a schema\nTable: songs");
+  await recorder.generateText("Generate a schema\nTable: albums");
+  await recorder.generateText("Generate a route\nTable: songs");
+  const entries = JSON.parse(fs.readFileSync(file, "utf8"));
+  assert.deepEqual(
+    entries.map((e: { key: string }) => e.key),
+    ["Generate a schema", "Generate a schema", "Generate a route"]
+  );
+
+  const exact = ReplayProvider.fromFile(file);
+  assert.equal(
+    await exact.generateText("Generate a schema\nTable: albums"),
+    "schema v2"
+  );
+  assert.equal(
+    await exact.generateText("Generate a schema\nTable: songs"),
+    "schema v1"
+  );
+
+  // A drifted prompt takes the first unused entry with the same first line
+  const drifted = ReplayProvider.fromFile(file);
+  assert.equal(
+    await drifted.generateText("Generate a schema\nTable: albums"),
+    "schema v2"
+  );
+  assert.equal(
+    await drifted.generateText("Generate a schema\nTable: genres"),
+    "schema v1"
+  );
+  await assert.rejects(
+    drifted.generateText("Generate a schema\nTable: artists"),
+    /No recorded response in .*replay\.json for prompt "Generate a schema"/
+  );
+  assert.deepEqual(
+    drifted.unusedEntries().map((e) => e.text),
+    ["route"]
+  );
+});
+
+test("replays recorded tool calls", async () => {
+  const file = path.join(dir, "tools.json");
+  const call = { id: "call_1", name: "read_file", args: { path: "a.ts" } };
+  const recorder = new RecordingProvider(
+    new ScriptedProvider([{ text: "", toolCalls: [call] }, "done"]),
+    file
+  );
+  await recorder.generateWithTools(toolRequest);
+  await recorder.generateWithTools({ ...toolRequest, messages: [] });
+
+  const replay = ReplayProvider.fromFile(file);
+  assert.deepEqual(await replay.generateWithTools(toolRequest), {
+    text: "",
+    toolCalls: [call],
+  });
+  assert.deepEqual(
+    await replay.generateWithTools({ ...toolRequest, messages: [] }),
+    {
+      text: "done",
+      toolCalls: [],
+    }
+  );
+  assert.throws(
+    () => ReplayProvider.fromFile(path.join(dir, "missing.json")),
+    /LLM fixture not found/
+  );
+});
@@ -0,0 +1,235 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import {
+  HOOK_STRATEGIES,
+  HookStrategy,
+  detectHookStrategy,
+  resolveHookStrategy,
+} from "../../scripts/agent/core/hook-strategies";
+import {
+  queryCacheSource,
+  unwrapLayoutChildren,
+  wrapLayoutChildren,
+} from "../../scripts/agent/core/query-cache-files";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { FrontendIntegrator } from "../../scripts/agent/modules/frontend-integrator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { SchemaDefinition } from "../../scripts/agent/types";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const LAYOUT = path.join(ROOT, "src", "app", "layout.tsx");
+const PROVIDERS = path.join(ROOT, "src", "app", "providers.tsx");
+const QUERY_KEYS = path.join(ROOT, "src", "lib", "query-keys.ts");
+const QUERY_CLIENT = path.join(ROOT, "src", "lib", "query-client.ts");
+const HYDRATION = path.join(ROOT, "src", "lib", "hydration.tsx");
+
+const generator = new SchemaGenerator();
+const tracks = generator.withRequiredFields(
+  parseTableFlags("catalog_tracks", ["title:text:notNull", "plays:integer"])
+);
+const artists = generator.withRequiredFields(
+  parseTableFlags("catalog_artists", ["name:text:notNull"])
+);
+
+// Route and hook files of the tables, staged so the integrator finds them
+function stage(changeSet: ChangeSet, defs: SchemaDefinition[]) {
+  for (const def of defs) {
+    const endpoint = def.tableName.replace(/_/g, "-");
+    changeSet.writeFile(
+      path.join(ROOT, "src", "app", "api", endpoint, "route.ts"),
+      "export {};\n"
+    );
+  }
+}
+
+// Runs the integrator from the repo root; the dry-run change set keeps
+// every write in memory
+async function inRoot<T>(run: () => Promise<T>): Promise<T> {
+  const cwd = process.cwd();
+  const log = console.log;
+  process.chdir(ROOT);
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+  }
+}
+
+function integrator(changeSet: ChangeSet, strategy: HookStrategy) {
+  const frontend = new FrontendIntegrator();
+  frontend.setChangeSet(changeSet);
+  frontend.setHookStrategy(strategy);
+  return frontend;
+}
+
+const dir = fs.mkdtempSync(path.join(ROOT, "tests", ".query-hooks-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test("resolves --hooks values and detects the project's strategy", () => {
+  assert.equal(resolveHookStrategy("SWR").name, "swr");
+  assert.equal(resolveHookStrategy("tanstack").name, "react-query");
+  assert.throws(
+    () => resolveHookStrategy("apollo"),
+    /Unknown hook strategy 'apollo'. Use one of: plain, swr, react-query/
+  );
+
+  assert.equal(detectHookStrategy(null).name, "plain");
+  for (const strategy of [HOOK_STRATEGIES.swr, HOOK_STRATEGIES["react-query"]])
+    assert.equal(
+      detectHookStrategy(
+        queryCacheSource("src/app/providers.tsx", strategy, [tracks])
+      ),
+      strategy
+    );
+});
+
+test("writes the query cache files and wraps the layout in the provider", async () => {
+  const changeSet = new ChangeSet(true);
+  stage(changeSet, [artists, tracks]);
+  const ready = await inRoot(() =>
+    integrator(changeSet, HOOK_STRATEGIES["react-query"]).updateQueryCache(
+      [artists, tracks],
+      HOOK_STRATEGIES.plain
+    )
+  );
+  assert.equal(ready, true);
+
+  for (const file of [PROVIDERS, QUERY_KEYS, QUERY_CLIENT, HYDRATION])
+    assert.ok(changeSet.exists(file), file);
+  assert.deepEqual(changeSet.getSkippedCommands(), [
+    "npm install @tanstack/react-query",
+  ]);
+
+  const layout = changeSet.readFile(LAYOUT);
+  assert.match(layout, /import \{ Providers \} from "\.\/providers";/);
+  assert.match(
+    layout,
+    /<PlayerProvider>\s*<Providers>\{children\}<\/Providers>\s*<\/PlayerProvider>/
+  );
+  assert.equal(wrapLayoutChildren(layout), null);
+
+  const hydration = changeSet.readFile(HYDRATION);
+  assert.match(
+    hydration,
+    /catalogTracks: \{\n {4}list: \(params\?: CatalogTracksListParams\): PrefetchQuery => \(\{\n {6}key: queryKeys\.catalogTracks\.list\(params\),/
+  );
+  assert.match(
+    hydration,
+    /<HydrationBoundary state=\{dehydrate\(queryClient\)\}>/
+  );
+});
+
+test("switching back to plain hooks removes the files and the provider", async () => {
+  const changeSet = new ChangeSet(true);
+  stage(changeSet, [tracks]);
+  await inRoot(() =>
+    integrator(changeSet, HOOK_STRATEGIES.swr).updateQueryCache(
+      [tracks],
+      HOOK_STRATEGIES.plain
+    )
+  );
+  assert.equal(changeSet.exists(QUERY_CLIENT), false);
+  assert.match(
+    changeSet.readFile(HYDRATION),
+    /<SWRConfig value=\{\{ fallback \}\}>/
+  );
+
+  await inRoot(() =>
+    integrator(changeSet, HOOK_STRATEGIES.plain).updateQueryCache(
+      [tracks],
+      HOOK_STRATEGIES.swr
+    )
+  );
+  for (const file of [PROVIDERS, QUERY_KEYS, HYDRATION])
+    assert.equal(changeSet.exists(file), false, file);
+  assert.equal(changeSet.readFile(LAYOUT), fs.readFileSync(LAYOUT, "utf8"));
+  assert.equal(unwrapLayoutChildren(fs.readFileSync(LAYOUT, "utf8")), null);
+});
+
+test("nests every key of a table under its name", async () => {
+  const file = path.join(dir, "query-keys.ts");
+  fs.writeFileSync(
+    file,
+    queryCacheSource("src/lib/query-keys.ts", HOOK_STRATEGIES.swr, [
+      artists,
+      tracks,
+    ])
+  );
+  const { queryKeys, matchesKey } = await import(file);
+
+  assert.deepEqual(queryKeys.catalogTracks.list(), [
+    "catalogTracks",
+    "list",
+    {},
+  ]);
+  assert.deepEqual(queryKeys.catalogTracks.list({ limit: 5 }), [
+    "catalogTracks",
+    "list",
+    { limit: 5 },
+  ]);
+  assert.deepEqual(queryKeys.catalogArtists.detail(3), [
+    "catalogArtists",
+    "detail",
+    3,
+  ]);
+
+  const tracksOnly = matchesKey(queryKeys.catalogTracks.all);
+  assert.equal(tracksOnly(queryKeys.catalogTracks.detail(1)), true);
+  assert.equal(tracksOnly(queryKeys.catalogArtists.list()), false);
+  assert.equal(tracksOnly("catalogTracks"), false);
+  assert.equal(
+    matchesKey(queryKeys.catalogTracks.lists())(
+      queryKeys.catalogTracks.detail(1)
+    ),
+    false
+  );
+});
+
+test("generates cached hooks from templates even with a model", async () => {
+  const hooks: Record<string, string> = {};
+  for (const strategy of [
+    HOOK_STRATEGIES.swr,
+    HOOK_STRATEGIES["react-query"],
+  ]) {
+    const changeSet = new ChangeSet(true);
+    const frontend = integrator(changeSet, strategy);
+    frontend.setModel({
+      name: "unused",
+      model: "unused",
+      generateText: async () => assert.fail("cached hooks are templates"),
+    } as any);
+    await inRoot(() =>
+      frontend.generateFrontendIntegration([tracks], "catalog tracks")
+    );
+    hooks[strategy.name] = changeSet.readFile(
+      path.join(ROOT, "src", "hooks", "useCatalogTracks.ts")
+    );
+  }
+
+  const query = hooks["react-query"];
+  assert.match(query, /from '@tanstack\/react-query';/);
+  assert.match(query, /queryKey: keys\.list\(params\),/);
+  assert.match(
+    query,
+    /onMutate: id => patchLists\(records => records\.filter\(record => record\.id !== id\)\),\n {4}onError: \(_error, _id, previous\) => restore\(previous\),/
+  );
+  assert.match(query, /onSettled: invalidate,/);
+  assert.match(query, /refresh: \(\) => Promise<void>;/);
+
+  const swr = hooks.swr;
+  assert.match(swr, /import useSWR, \{ useSWRConfig \} from 'swr';/);
+  assert.match(swr, /rollbackOnError: true,/);
+  assert.match(swr, /if \(changes\) await mutate\(matchesKey\(keys\.all\)\);/);
+  for (const hook of [query, swr]) {
+    assert.match(
+      hook,
+      /export function useCatalogTracks\(initialParams\?: CatalogTracksListParams\)/
+    );
+    assert.doesNotMatch(hook, /\bfetch\(/);
+  }
+});
@@ -0,0 +1,108 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { OfflineRun, runAgentOffline } from "../harness/offline-agent";
+
+let run: OfflineRun;
+
+before(async () => {
+  run = await runAgentOffline(
+    "Can you store the recently played songs in a table",
+    "recently-played"
+  );
+});
+
+after(() => run?.cleanup());
+
+test("writes the schema, API routes, seed script, hook and UI changes", () => {
+  assert.deepEqual(run.files, [
+    "scripts/seed-recently_played.ts",
+    "src/app/api-docs/page.tsx",
+    "src/app/api/openapi.json/route.ts",
+    "src/app/api/recently-played/[id]/route.ts",
+    "src/app/api/recently-played/plays/route.ts",
+    "src/app/api/recently-played/route.ts",
+    "src/components/spotify-main-content.tsx",
+    "src/db/schema/index.ts",
+    "src/db/schema/recently_played.ts",
+    "src/db/validation/index.ts",
+    "src/db/validation/recently_played.ts",
+    "src/hooks/index.ts",
+    "src/hooks/usePlayHistory.ts",
+    "src/hooks/useRecentlyPlayed.ts",
+    "src/lib/api-client.ts",
+    "src/lib/list-params.ts",
+    "src/lib/list-query.ts",
+    "src/lib/openapi.json",
+  ]);
+});
+
+test("exports the new table from the schema index", () => {
+  assert.match(
+    run.read("src/db/schema/index.ts"),
+    /export \* from "\.\/recently_played";/
+  );
+});
+
+test("validates request bodies with the shared Zod schemas", () => {
+  const route = run.read("src/app/api/recently-played/route.ts");
+  assert.match(route, /recentlyPlayedInsertSchema\.safeParse\(body\)/);
+  const recordRoute = run.read("src/app/api/recently-played/[id]/route.ts");
+  assert.match(recordRoute, /recentlyPlayedUpdateSchema\.safeParse\(body\)/);
+  const client = run.read("src/lib/api-client.ts");
+  assert.match(
+    client,
+    /recentlyPlayed: resource<[^>]+>\(\s+request,\s+"\/api\/recently-played",\s+recentlyPlayedInsertSchema,\s+recentlyPlayedUpdateSchema/
+  );
+});
+
+test("lists records through the shared list-query contract", () => {
+  const route = run.read("src/app/api/recently-played/route.ts");
+  assert.match(route, /parseListQuery\(recentlyPlayed, searchParams\)/);
+  assert.doesNotMatch(route, /searchParams\.get\("id"\)/);
+  const client = run.read("src/lib/api-client.ts");
+  assert.match(client, /export type RecentlyPlayedListParams = ListParams</);
+});
+
+test("builds the hook on the generated API client", () => {
+  const hook = run.read("src/hooks/useRecentlyPlayed.ts");
+  assert.match(hook, /from '@\/lib\/api-client';/);
+  assert.match(hook, /await recentlyPlayed\.list\(params\)/);
+  assert.match(hook, /await recentlyPlayed\.create\(data\)/);
+  assert.doesNotMatch(hook, /\bfetch\(/);
+});
+
+test("records the player's plays with their context and device", () => {
+  const schema = run.read("src/db/schema/recently_played.ts");
+  for (const column of ["track_id", "context_type", "context_id", "device"])
+    assert.match(schema, new RegExp(`\\("${column}"`));
+  assert.match(schema, /audioUrl: text\("audio_url"\)/);
+
+  const hook = run.read("src/hooks/usePlayHistory.ts");
+  assert.match(hook, /const MIN_PLAY_SECONDS = 30;/);
+  assert.match(
+    hook,
+    /Number\.isFinite\(duration\) && duration > 0 \? Math\.min\(MIN_PLAY_SECONDS, duration \/ 2\) : MIN_PLAY_SECONDS/
+  );
+  assert.match(hook, /recentlyPlayedPlays\n {6}\.record\(/);
+  assert.doesNotMatch(hook, /\bfetch\(/);
+  const client = run.read("src/lib/api-client.ts");
+  assert.match(
+    client,
+    /recentlyPlayedPlays: plays\(request, "\/api\/recently-played\/plays"\)/
+  );
+});
+
+test("feeds the Recently Played shelf from the history by context", () => {
+  const component = run.read("src/components/spotify-main-content.tsx");
+  assert.match(component, /useRecentContexts\(\)/);
+  assert.doesNotMatch(component, /useRecentlyPlayed\(\)/);
+  assert.match(
+    run.read("src/hooks/index.ts"),
+    /export \* from '\.\/usePlayHistory';/
+  );
+});
+
+test("generated code compiles with tsc --noEmit", () => {
+  const result = run.typecheck();
+  assert.equal(result.status, 0, result.output);
+});
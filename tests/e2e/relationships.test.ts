@@ -0,0 +1,174 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import {
+  resolveRelationships,
+  sortByDependencies,
+} from "../../scripts/agent/core/relationships";
+import {
+  parseFieldFlag,
+  parseTableFlags,
+} from "../../scripts/agent/core/table-spec";
+import { ApiGenerator } from "../../scripts/agent/modules/api-generator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { SchemaValidator } from "../../scripts/agent/modules/schema-validator";
+import { SeedGenerator } from "../../scripts/agent/modules/seed-generator";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+import { ValidationGenerator } from "../../scripts/agent/modules/validation-generator";
+import { SchemaDefinition } from "../../scripts/agent/types";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+const schemaGenerator = new SchemaGenerator();
+
+// Declared children first to show the dependency sort
+function catalog(): SchemaDefinition[] {
+  const tracks = parseTableFlags("tracks", ["title:text:notNull"]);
+  tracks.relationships = [
+    { type: "one-to-many", table: "artists", onDelete: "cascade" },
+  ];
+  const playlists = parseTableFlags("playlists", ["name:text:notNull"]);
+  playlists.relationships = [{ type: "many-to-many", table: "tracks" }];
+  const artists = parseTableFlags("artists", ["name:text:notNull"]);
+
+  return sortByDependencies(
+    resolveRelationships([tracks, playlists, artists]).map((def) =>
+      schemaGenerator.withRequiredFields(def)
+    )
+  );
+}
+
+test("resolves foreign keys, join tables and dependency order", () => {
+  const defs = catalog();
+  assert.deepEqual(
+    defs.map((d) => d.tableName),
+    ["artists", "tracks", "playlists", "playlists_tracks"]
+  );
+
+  const artistId = defs[1].fields.find((f) => f.name === "artist_id");
+  assert.deepEqual(artistId, {
+    name: "artist_id",
+    type: "integer",
+    constraints: ["notNull()"],
+    references: { table: "artists", column: "id", onDelete: "cascade" },
+  });
+
+  const join = defs[3];
+  assert.deepEqual(
+    join.fields.filter((f) => f.references).map((f) => f.name),
+    ["playlist_id", "track_id"]
+  );
+  assert.deepEqual(resolveRelationships(defs), defs);
+});
+
+test("parses references() in field flags", () => {
+  assert.deepEqual(
+    parseFieldFlag("artist_id:integer:references(artists.id, set null)"),
+    {
+      name: "artist_id",
+      type: "integer",
+      constraints: [],
+      references: { table: "artists", column: "id", onDelete: "set null" },
+    }
+  );
+});
+
+test("rejects unknown tables and set null on required keys", async () => {
+  const def = schemaGenerator.withRequiredFields(
+    parseTableFlags("tracks", [
+      "label_id:integer:references(labels)",
+      "artist_id:integer:notNull:references(tracks, set null)",
+      "album_id:text:references(tracks)",
+    ])
+  );
+  const result = await new SchemaValidator().validateSchema(def);
+  assert.equal(result.errors.length, 3, result.errors.join("\n"));
+});
+
+test("emits references() and relations() for both sides", () => {
+  const defs = catalog();
+  const tracks = schemaGenerator.generateBasicSchemaContent(defs[1], defs);
+  assert.match(tracks, /import \{ relations \} from "drizzle-orm";/);
+  assert.match(tracks, /import \{ artists \} from "\.\/artists";/);
+  assert.match(
+    tracks,
+    /artistId: integer\("artist_id"\)\.notNull\(\)\.references\(\(\) => artists\.id, \{ onDelete: "cascade" \}\)/
+  );
+  assert.match(tracks, /artist: one\(artists, \{/);
+  assert.match(tracks, /playlistsTracks: many\(playlistsTracks\)/);
+
+  const artists = schemaGenerator.generateBasicSchemaContent(defs[0], defs);
+  assert.match(
+    artists,
+    /export const artistsRelations = relations\(artists, \(\{ many \}\) => \(\{\n  tracks: many\(tracks\),\n\}\)\);/
+  );
+});
+
+test("generated schemas, routes and seeds compile", async () => {
+  const defs = catalog();
+  const changeSet = new ChangeSet(true);
+  const schemaDir = path.join(ROOT, "src", "db", "schema");
+  const indexFile = path.join(schemaDir, "index.ts");
+  const files: string[] = [];
+
+  for (const def of defs) {
+    const schemaFile = path.join(schemaDir, def.fileName);
+    changeSet.writeFile(
+      schemaFile,
+      schemaGenerator.generateBasicSchemaContent(def, defs)
+    );
+    const seedFile = path.join(ROOT, "scripts", `seed-${def.tableName}.ts`);
+    changeSet.writeFile(
+      seedFile,
+      new SeedGenerator().generateSeedTemplate(def)
+    );
+    files.push(schemaFile, seedFile);
+  }
+  changeSet.writeFile(
+    indexFile,
+    `${fs.readFileSync(indexFile, "utf8")}\n${defs
+      .map((d) => `export * from "./${d.tableName}";`)
+      .join("\n")}\n`
+  );
+
+  const validationGenerator = new ValidationGenerator();
+  validationGenerator.setChangeSet(changeSet);
+  for (const def of defs) {
+    await validationGenerator.generateValidationSchema(def);
+    files.push(path.join(ROOT, "src", "db", "validation", def.fileName));
+  }
+
+  const apiGenerator = new ApiGenerator();
+  apiGenerator.setChangeSet(changeSet);
+  for (const def of defs) await apiGenerator.generateApiRoute(def, defs);
+  const routes = defs.flatMap((d) => {
+    const dir = path.join(
+      ROOT,
+      "src",
+      "app",
+      "api",
+      d.tableName.replace(/_/g, "-")
+    );
+    return [path.join(dir, "route.ts"), path.join(dir, "[id]", "route.ts")];
+  });
+  assert.match(
+    changeSet.readFile(routes[2]),
+    /db\.query\.tracks\.findMany\(\{\n\s+where: query\.pageWhere,\n\s+with: include,/
+  );
+  assert.match(
+    changeSet.readFile(path.join(ROOT, "scripts", "seed-tracks.ts")),
+    /artistId: artistsIds\[i % artistsIds\.length\]\.id,/
+  );
+
+  const checker = new TypeChecker();
+  checker.setChangeSet(changeSet);
+  const cwd = process.cwd();
+  process.chdir(ROOT);
+  try {
+    assert.deepEqual(checker.check([...files, ...routes]), []);
+  } finally {
+    process.chdir(cwd);
+  }
+});
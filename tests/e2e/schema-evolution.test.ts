@@ -0,0 +1,197 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import { DatabaseWorkflow } from "../../scripts/agent/core/database-workflow";
+import {
+  alterTableSql,
+  diffSchemas,
+} from "../../scripts/agent/core/schema-evolution";
+import {
+  loadSchemaTables,
+  parseSchemaSource,
+} from "../../scripts/agent/core/schema-parser";
+import {
+  parseSchemaChange,
+  parseTableFlags,
+} from "../../scripts/agent/core/table-spec";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { SchemaValidator } from "../../scripts/agent/modules/schema-validator";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+import { SchemaChange } from "../../scripts/agent/types";
+import { describeTables } from "../../scripts/agent/utils";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const EXAMPLE = path.join(ROOT, "src", "db", "schema", "example.ts");
+
+function exampleTable(changeSet = new ChangeSet(true)) {
+  const cwd = process.cwd();
+  process.chdir(ROOT);
+  try {
+    return loadSchemaTables(changeSet).find(
+      (t) => t.definition.tableName === "example"
+    )!;
+  } finally {
+    process.chdir(cwd);
+  }
+}
+
+const changes: SchemaChange[] = [
+  { action: "rename", field: "name", to: "title" },
+  parseSchemaChange("example", "add genre:enum(pop|rock):default(pop)"),
+  parseSchemaChange(
+    "example",
+    "retype description:varchar(500):notNull:default(none)"
+  ),
+  { action: "drop", field: "updated_at" },
+];
+
+test("reads pgTable declarations back into schema definitions", () => {
+  const table = exampleTable();
+  assert.equal(table.definition.tableName, "example");
+  assert.deepEqual(table.definition.fields[1], {
+    name: "name",
+    type: "varchar(255)",
+    constraints: ["notNull()"],
+  });
+  assert.equal(table.definition.exportName, "example");
+  assert.equal(table.definition.propertyKeys!.created_at, "createdAt");
+
+  const [tracks] = parseSchemaSource(
+    `export const tracksGenre = pgEnum("tracks_genre", ["pop", "rock"]);
+export const tracks = pgTable("tracks", {
+  id: serial("id").primaryKey(),
+  genre: tracksGenre("genre").notNull(),
+  artistId: integer("artist_id").references(() => tracks.id, { onDelete: "set null" }),
+}, () => [check("tracks_genre_check", sql\`genre <> 'jazz'\`)]);`,
+    "tracks.ts"
+  );
+  assert.deepEqual(tracks.definition.propertyKeys, {
+    id: "id",
+    genre: "genre",
+    artist_id: "artistId",
+  });
+  assert.deepEqual(tracks.definition.fields.slice(1), [
+    {
+      name: "genre",
+      type: "enum(pop|rock)",
+      constraints: ["notNull()", "check(genre <> 'jazz')"],
+    },
+    {
+      name: "artist_id",
+      type: "integer",
+      constraints: [],
+      references: { table: "tracks", column: "id", onDelete: "set null" },
+    },
+  ]);
+  assert.equal(tracks.enums.genre.typeName, "tracks_genre");
+  assert.match(
+    describeTables([tracks.definition]),
+    /artistId \("artist_id"\): integer -> tracks\.id \(on delete set null\)/
+  );
+});
+
+test("detects adds, drops, retypes and rename candidates", () => {
+  const existing = exampleTable().definition;
+  const desired = new SchemaGenerator().withRequiredFields(
+    parseTableFlags("example", [
+      "title:varchar(255):notNull",
+      "description:text:notNull:default(none)",
+      "plays:integer:notNull:default(0)",
+    ])
+  );
+  assert.deepEqual(diffSchemas(existing, desired), [
+    { action: "rename", field: "name", to: "title" },
+    {
+      action: "retype",
+      field: "description",
+      type: "text",
+      constraints: ["notNull()", "default(none)"],
+    },
+    {
+      action: "add",
+      field: {
+        name: "plays",
+        type: "integer",
+        constraints: ["notNull()", "default(0)"],
+      },
+    },
+  ]);
+  assert.deepEqual(diffSchemas(existing, existing), []);
+});
+
+test("rejects NOT NULL columns without a default on existing rows", async () => {
+  const table = exampleTable();
+  const result = await new SchemaValidator().validateAlteration(
+    table.definition,
+    [
+      parseSchemaChange("example", "add plays:integer:notNull"),
+      parseSchemaChange("example", "drop missing"),
+      parseSchemaChange("example", "rename name:description"),
+    ]
+  );
+  assert.equal(result.errors.length, 3, result.errors.join("\n"));
+});
+
+test("emits data-preserving ALTER statements", () => {
+  assert.deepEqual(alterTableSql(exampleTable(), changes), [
+    'ALTER TABLE "example" RENAME COLUMN "name" TO "title";',
+    `CREATE TYPE "public"."example_genre" AS ENUM('pop', 'rock');`,
+    `ALTER TABLE "example" ADD COLUMN "genre" "public"."example_genre" DEFAULT 'pop';`,
+    'ALTER TABLE "example" ALTER COLUMN "description" SET DATA TYPE varchar(500) USING "description"::varchar(500);',
+    `ALTER TABLE "example" ALTER COLUMN "description" SET DEFAULT 'none';`,
+    `UPDATE "example" SET "description" = 'none' WHERE "description" IS NULL;`,
+    'ALTER TABLE "example" ALTER COLUMN "description" SET NOT NULL;',
+    'ALTER TABLE "example" DROP COLUMN "updated_at";',
+  ]);
+});
+
+test("patches the schema file in place and keeps it compiling", async () => {
+  const changeSet = new ChangeSet(true);
+  const workflow = new DatabaseWorkflow(null);
+  workflow.setChangeSet(changeSet);
+  const cwd = process.cwd();
+  process.chdir(ROOT);
+  try {
+    const table = exampleTable(changeSet);
+    const written = await workflow.alterSchema(
+      { table, changes },
+      new SchemaGenerator(),
+      [table]
+    );
+    assert.deepEqual(written, [EXAMPLE]);
+
+    const patched = changeSet.readFile(EXAMPLE);
+    assert.match(
+      patched,
+      /import \{ pgTable, serial, timestamp, varchar, pgEnum \} from "drizzle-orm\/pg-core";/
+    );
+    assert.match(
+      patched,
+      /export const exampleGenreEnum = pgEnum\("example_genre", \["pop", "rock"\]\);\r?\n\r?\nexport const example = pgTable/
+    );
+    assert.match(
+      patched,
+      /  title: varchar\("title", \{ length: 255 \}\)\.notNull\(\),/
+    );
+    assert.match(
+      patched,
+      /  description: varchar\("description", \{ length: 500 \}\)\.notNull\(\)\.default\("none"\),\r?\n  genre:/
+    );
+    assert.match(
+      patched,
+      /  genre: exampleGenreEnum\("genre"\)\.default\("pop"\),\r?\n  createdAt/
+    );
+    assert.doesNotMatch(patched, /updatedAt/);
+    assert.match(
+      patched,
+      /export type NewExample = typeof example\.\$inferInsert;/
+    );
+
+    const checker = new TypeChecker();
+    checker.setChangeSet(changeSet);
+    assert.deepEqual(checker.check([EXAMPLE]), []);
+  } finally {
+    process.chdir(cwd);
+  }
+});
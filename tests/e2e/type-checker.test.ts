@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import { TypeChecker } from "../../scripts/agent/modules/type-checker";
+import { ScriptedProvider } from "../../scripts/agent/providers/scripted-provider";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const NEW_FILE = path.join(ROOT, "src", "lib", "play-count.ts");
+const EXISTING_FILE = path.join(ROOT, "src", "lib", "utils.ts");
+
+const broken = 'export const playCount: number = "twelve";\n';
+const stillBroken = "export const playCount: number = null;\n";
+const fixed = "export const playCount: number = 12;\n";
+
+async function inRoot<T>(run: () => Promise<T>): Promise<T> {
+  const cwd = process.cwd();
+  const log = console.log;
+  process.chdir(ROOT);
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+  }
+}
+
+function checker(provider: ScriptedProvider, changeSet: ChangeSet) {
+  const typeChecker = new TypeChecker(provider);
+  typeChecker.setChangeSet(changeSet);
+  return typeChecker;
+}
+
+test("sends a failing file back to the model until it compiles", async () => {
+  const changeSet = new ChangeSet(true);
+  changeSet.writeFile(NEW_FILE, broken);
+  const provider = new ScriptedProvider([
+    "```typescript\n" + stillBroken + "```",
+    fixed,
+  ]);
+
+  const unresolved = await inRoot(() =>
+    checker(provider, changeSet).verifyFiles([NEW_FILE])
+  );
+  assert.deepEqual(unresolved, []);
+  assert.equal(changeSet.readFile(NEW_FILE), fixed);
+  assert.equal(provider.prompts.length, 2);
+  assert.match(provider.prompts[0], /File: src\/lib\/play-count\.ts/);
+  assert.match(provider.prompts[0], /TS2322: Type 'string' is not assignable/);
+  assert.match(provider.prompts[1], /playCount: number = null/);
+});
+
+test("restores changed files and reports new ones that never compile", async () => {
+  const changeSet = new ChangeSet(true);
+  const original = fs.readFileSync(EXISTING_FILE, "utf8");
+  changeSet.writeFile(
+    EXISTING_FILE,
+    `${original}\nexport const broken: number = "x";\n`
+  );
+  changeSet.writeFile(NEW_FILE, broken);
+  const provider = new ScriptedProvider(() => stillBroken);
+  const typeChecker = checker(provider, changeSet);
+  typeChecker.setMaxRepairAttempts(3);
+
+  const unresolved = await inRoot(() =>
+    typeChecker.verifyFiles([EXISTING_FILE, NEW_FILE])
+  );
+  assert.deepEqual(unresolved, [NEW_FILE]);
+  assert.equal(changeSet.readFile(EXISTING_FILE), original);
+  assert.equal(changeSet.readFile(NEW_FILE), stillBroken);
+  // Both files on each of the three attempts
+  assert.equal(provider.prompts.length, 6);
+});
+
+test("only accepts a positive whole number of repair attempts", () => {
+  const typeChecker = new TypeChecker();
+  for (const attempts of [0, -1, 1.5, NaN])
+    assert.throws(
+      () => typeChecker.setMaxRepairAttempts(attempts),
+      /Repair attempts must be a positive integer/
+    );
+  assert.throws(() => new TypeChecker(undefined, 0));
+  typeChecker.setMaxRepairAttempts(1);
+});
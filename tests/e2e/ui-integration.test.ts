@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { ChangeSet } from "../../scripts/agent/core/change-set";
+import {
+  HOOK_STRATEGIES,
+  HookStrategy,
+} from "../../scripts/agent/core/hook-strategies";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { UIIntegrator } from "../../scripts/agent/modules/ui-integrator";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const MAIN_CONTENT = path.join(
+  ROOT,
+  "src",
+  "components",
+  "spotify-main-content.tsx"
+);
+
+// Template-mode integration against the real component; the dry-run change
+// set keeps every write in memory
+async function integrate(
+  changeSet: ChangeSet,
+  query: string,
+  strategy: HookStrategy = HOOK_STRATEGIES.plain
+) {
+  const schemas = [
+    new SchemaGenerator().withRequiredFields(
+      parseTableFlags("recently_played", [
+        "song_title:text:notNull",
+        "artist_name:text:notNull",
+        "album_name:text",
+        "image_url:text",
+        "duration_seconds:integer:notNull",
+      ])
+    ),
+  ];
+  const integrator = new UIIntegrator();
+  integrator.setChangeSet(changeSet);
+  integrator.setHookStrategy(strategy);
+
+  const cwd = process.cwd();
+  process.chdir(ROOT);
+  try {
+    const analysis = integrator.analyzeQueryForUIIntegration(query, schemas);
+    await integrator.updateSpotifyMainContent(schemas, analysis);
+  } finally {
+    process.chdir(cwd);
+  }
+  return changeSet.readFile(MAIN_CONTENT);
+}
+
+test("replaces the whole array literal with the hook and a typed mapper", async () => {
+  const component = await integrate(
+    new ChangeSet(true),
+    "store the recently played songs"
+  );
+
+  assert.match(
+    component,
+    /const \{ data: recentlyPlayedData, fetchAll: fetchRecentlyPlayed \} = useRecentlyPlayed\(\)/
+  );
+  assert.match(component, /title: record\.songTitle,/);
+  assert.match(component, /album: record\.albumName \?\? "Unknown Album",/);
+  assert.doesNotMatch(component, /"Liked Songs"/);
+  // The neighbouring arrays are untouched
+  assert.match(component, /const madeForYou = \[/);
+  assert.match(component, /import \{ useState, useEffect \} from "react"/);
+  assert.match(component, /import \{ useRecentlyPlayed \} from "@\/hooks"/);
+});
+
+test("re-running on an integrated component is a no-op", async () => {
+  const changeSet = new ChangeSet(true);
+  const first = await integrate(changeSet, "store the recently played songs");
+  const second = await integrate(changeSet, "store the recently played songs");
+
+  assert.equal(second, first);
+  assert.equal(first.match(/useEffect\(\(\) =>/g)?.length, 1);
+});
+
+test("hooks that load on mount are bound without a fetch effect", async () => {
+  const component = await integrate(
+    new ChangeSet(true),
+    "store the recently played songs",
+    HOOK_STRATEGIES["react-query"]
+  );
+
+  assert.match(
+    component,
+    /const \{ data: recentlyPlayedData \} = useRecentlyPlayed\(\)/
+  );
+  assert.doesNotMatch(component, /fetchRecentlyPlayed/);
+  assert.doesNotMatch(component, /useEffect/);
+});
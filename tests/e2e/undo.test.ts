@@ -0,0 +1,106 @@
+import { after, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DatabaseAgent } from "../../scripts/agent/databaseAgent";
+import { RunJournal } from "../../scripts/agent/core/run-journal";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const dirs: string[] = [];
+
+after(() =>
+  dirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }))
+);
+
+// A copy of the app's database files, which undo rebuilds the indexes from
+function project(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orchids-undo-"));
+  dirs.push(dir);
+  for (const entry of ["tsconfig.json", "drizzle.config.ts", "src/db"]) {
+    fs.cpSync(path.join(ROOT, entry), path.join(dir, entry), {
+      recursive: true,
+    });
+  }
+  fs.mkdirSync(path.join(dir, "src", "lib"));
+  return dir;
+}
+
+async function inProject<T>(dir: string, run: () => Promise<T>): Promise<T> {
+  const cwd = process.cwd();
+  const log = console.log;
+  process.chdir(dir);
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+  }
+}
+
+test("runs recorded within the same millisecond keep their own ids", () => {
+  const dir = project();
+  const journal = new RunJournal(dir);
+  mock.timers.enable({ apis: ["Date"], now: Date.UTC(2025, 0, 1, 12) });
+  try {
+    const ids = ["first", "second", "third"].map(
+      (query) => journal.record(query, [], [], []).id
+    );
+    assert.deepEqual(ids, [
+      "20250101T120000000",
+      "20250101T120000000_2",
+      "20250101T120000000_3",
+    ]);
+  } finally {
+    mock.timers.reset();
+  }
+  assert.deepEqual(
+    journal.list().map((run) => run.query),
+    ["first", "second", "third"]
+  );
+  assert.equal(journal.load()?.query, "third");
+});
+
+test("undo skips files changed since the run unless forced", async () => {
+  const dir = project();
+  const created = path.join(dir, "src", "lib", "songs.ts");
+  const edited = path.join(dir, "src", "lib", "albums.ts");
+  fs.writeFileSync(created, "export const songs = [];\n");
+  fs.writeFileSync(edited, "export const albums = [1];\n// edited by hand\n");
+  const journal = new RunJournal(dir);
+  const record = () =>
+    inProject(dir, async () =>
+      journal.record(
+        "Can you store the albums in a table",
+        [
+          { path: created, before: null, after: "export const songs = [];\n" },
+          {
+            path: edited,
+            before: "export const albums = [];\n",
+            after: "export const albums = [1];\n",
+          },
+        ],
+        [],
+        []
+      )
+    );
+
+  const run = await record();
+  const undone = await inProject(dir, () =>
+    new DatabaseAgent({ skipCommands: true }).undoRun(run.id)
+  );
+  assert.equal(undone, true);
+  assert.equal(fs.existsSync(created), false);
+  assert.equal(
+    fs.readFileSync(edited, "utf8"),
+    "export const albums = [1];\n// edited by hand\n"
+  );
+  assert.ok(journal.load(run.id)?.undoneAt);
+
+  const forced = await record();
+  await inProject(dir, () =>
+    new DatabaseAgent({ skipCommands: true }).undoRun(forced.id, true)
+  );
+  assert.equal(fs.readFileSync(edited, "utf8"), "export const albums = [];\n");
+});
@@ -0,0 +1,96 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { parseTableFlags } from "../../scripts/agent/core/table-spec";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { ValidationGenerator } from "../../scripts/agent/modules/validation-generator";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+const tracks = new SchemaGenerator().withRequiredFields(
+  parseTableFlags("catalog_tracks", [
+    "title:varchar(20):notNull",
+    "artist_name:text:notNull",
+    "album_name:text",
+    "price:numeric(10,2):notNull:default(0.99)",
+    "plays:integer:notNull:default(0)",
+    "explicit:boolean",
+    "metadata:jsonb:notNull",
+    "status:enum(draft|published):notNull:default(draft)",
+    "tags:text[]:notNull:default([])",
+    "external_id:uuid:notNull:defaultRandom()",
+    "released_on:date",
+    "played_at:timestamp:notNull",
+  ])
+);
+
+// The generated module is imported from inside the repo so it resolves zod
+const dir = fs.mkdtempSync(path.join(ROOT, "tests", ".validation-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+async function generatedSchemas() {
+  const file = path.join(dir, "catalog_tracks.ts");
+  fs.writeFileSync(
+    file,
+    new ValidationGenerator().generateValidationContent(tracks)
+  );
+  return import(file);
+}
+
+test("writes insert and update schemas from the table definition", () => {
+  const content = new ValidationGenerator().generateValidationContent(tracks);
+  assert.match(content, /title: z\.string\(\)\.min\(1\)\.max\(20\),/);
+  assert.match(
+    content,
+    /albumName: z\.string\(\)\.nullable\(\)\.optional\(\),/
+  );
+  assert.match(content, /plays: z\.number\(\)\.int\(\)\.optional\(\),/);
+  assert.match(
+    content,
+    /status: z\.enum\(\["draft", "published"\]\)\.optional\(\),/
+  );
+  assert.match(content, /tags: z\.array\(z\.string\(\)\)\.optional\(\),/);
+  assert.match(content, /playedAt: z\.coerce\.date\(\),/);
+  assert.doesNotMatch(content, /\bid:|createdAt|updatedAt/);
+  assert.match(
+    content,
+    /export type CatalogTracksInsert = z\.input<typeof catalogTracksInsertSchema>;/
+  );
+});
+
+test("accepts valid bodies and reports each invalid field", async () => {
+  const { catalogTracksInsertSchema, catalogTracksUpdateSchema } =
+    await generatedSchemas();
+
+  const valid = catalogTracksInsertSchema.safeParse({
+    title: "Blinding Lights",
+    artistName: "The Weeknd",
+    metadata: { bpm: 171 },
+    price: 1.29,
+    playedAt: "2024-05-01T10:00:00.000Z",
+    unknown: "dropped",
+  });
+  assert.equal(valid.success, true);
+  assert.equal(valid.data.price, "1.29");
+  assert.ok(valid.data.playedAt instanceof Date);
+  assert.equal("unknown" in valid.data, false);
+
+  const invalid = catalogTracksInsertSchema.safeParse({
+    title: "",
+    artistName: "The Weeknd",
+    status: "archived",
+    externalId: "not-a-uuid",
+    releasedOn: "yesterday",
+  });
+  assert.equal(invalid.success, false);
+  assert.deepEqual(
+    invalid.error.issues.map((i: { path: string[] }) => i.path.join(".")),
+    ["title", "metadata", "status", "externalId", "releasedOn", "playedAt"]
+  );
+
+  assert.equal(catalogTracksUpdateSchema.safeParse({ plays: 3 }).success, true);
+  const empty = catalogTracksUpdateSchema.safeParse({});
+  assert.equal(empty.success, false);
+  assert.equal(empty.error.issues[0].message, "No updatable fields provided");
+});
@@ -0,0 +1,162 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { DatabaseAgent } from "../../scripts/agent/databaseAgent";
+import { RunJournal } from "../../scripts/agent/core/run-journal";
+import {
+  RecordingProvider,
+  ReplayProvider,
+} from "../../scripts/agent/providers/fixture-provider";
+import { createProvider } from "../../scripts/agent/providers/registry";
+import { LLMProvider } from "../../scripts/agent/types";
+import { templateModel } from "./template-model";
+
+const ROOT = path.resolve(__dirname, "..", "..");
+const FIXTURES_DIR = path.join(ROOT, "tests", "fixtures");
+
+// The parts of the app the pipeline reads or rewrites
+const PROJECT_FILES = [
+  "tsconfig.json",
+  "drizzle.config.ts",
+  "src/db",
+  "src/components/player-provider.tsx",
+  "src/lib/play-queue.ts",
+  "src/lib/playback.ts",
+  "src/lib/track.ts",
+  "src/components/spotify-main-content.tsx",
+  "src/components/spotify-sidebar.tsx",
+];
+
+export interface OfflineRun {
+  projectDir: string;
+  // Files the run created or changed, relative to projectDir and sorted
+  files: string[];
+  read(file: string): string;
+  typecheck(): { status: number | null; output: string };
+  // DatabaseAgent.undoRun on the copy, destructive migrations allowed
+  undo(): Promise<boolean>;
+  cleanup(): void;
+}
+
+// Runs DatabaseAgent.processQuery against a throwaway copy of the app.
+// LLM calls are replayed from tests/fixtures/<fixture>.json; with
+// ORCHIDS_RECORD=1 they go to the configured provider and are recorded
+// into that file instead, and with ORCHIDS_RECORD=template to the template
+// model the committed fixtures come from. drizzle-kit and seed scripts are
+// only run with `pglite`, against the copy's embedded database in
+// .orchids/db. `provider` replaces the fixture's, e.g. to wrap it.
+export async function runAgentOffline(
+  query: string,
+  fixture: string,
+  options: { pglite?: boolean; provider?: LLMProvider } = {}
+): Promise<OfflineRun> {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "orchids-e2e-"));
+  for (const entry of PROJECT_FILES) {
+    fs.cpSync(path.join(ROOT, entry), path.join(projectDir, entry), {
+      recursive: true,
+    });
+  }
+  fs.symlinkSync(
+    path.join(ROOT, "node_modules"),
+    path.join(projectDir, "node_modules"),
+    "dir"
+  );
+
+  if (options.pglite) {
+    fs.mkdirSync(path.join(projectDir, ".orchids"), { recursive: true });
+  }
+  const provider = options.provider ?? fixtureProvider(fixture);
+  await inProject(projectDir, options, () =>
+    new DatabaseAgent({
+      provider,
+      skipCommands: !options.pglite,
+    }).processQuery(query)
+  );
+
+  const run = new RunJournal(projectDir).load();
+  if (!run) throw new Error(`Agent run for "${query}" did not complete`);
+
+  const files = run.files.map((f) => f.path).sort();
+  return {
+    projectDir,
+    files,
+    read: (file) => fs.readFileSync(path.join(projectDir, file), "utf8"),
+    typecheck: () => typecheck(projectDir, files),
+    undo: () =>
+      inProject(projectDir, options, () =>
+        new DatabaseAgent({
+          provider: null,
+          skipCommands: !options.pglite,
+          allowDestructive: true,
+        }).undoRun()
+      ),
+    cleanup: () => fs.rmSync(projectDir, { recursive: true, force: true }),
+  };
+}
+
+// Runs the agent from inside the copy, quietly and on its embedded
+// database with `pglite`
+async function inProject<T>(
+  projectDir: string,
+  options: { pglite?: boolean },
+  run: () => Promise<T>
+): Promise<T> {
+  const cwd = process.cwd();
+  const log = console.log;
+  const driver = process.env.DATABASE_DRIVER;
+  process.chdir(projectDir);
+  if (!process.env.ORCHIDS_VERBOSE) console.log = () => {};
+  if (options.pglite) process.env.DATABASE_DRIVER = "pglite";
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+    if (driver === undefined) delete process.env.DATABASE_DRIVER;
+    else process.env.DATABASE_DRIVER = driver;
+  }
+}
+
+export function fixtureProvider(fixture: string): LLMProvider {
+  const fixtureFile = path.join(FIXTURES_DIR, `${fixture}.json`);
+  if (process.env.ORCHIDS_RECORD === "template") {
+    return new RecordingProvider(templateModel(fixture), fixtureFile);
+  }
+  if (process.env.ORCHIDS_RECORD !== "1") {
+    return ReplayProvider.fromFile(fixtureFile);
+  }
+  const live = createProvider();
+  if (!live) {
+    throw new Error("ORCHIDS_RECORD=1 needs a configured LLM provider");
+  }
+  return new RecordingProvider(live, fixtureFile);
+}
+
+// Compiles just the generated files with the app's tsconfig. next-env.d.ts
+// is git-ignored, so write the part that provides Next's global JSX types.
+function typecheck(projectDir: string, files: string[]) {
+  fs.writeFileSync(
+    path.join(projectDir, "next-env.d.ts"),
+    '/// <reference types="next" />\n'
+  );
+  fs.writeFileSync(
+    path.join(projectDir, "tsconfig.e2e.json"),
+    JSON.stringify({
+      extends: "./tsconfig.json",
+      compilerOptions: { incremental: false },
+      include: ["next-env.d.ts", ...files.filter((f) => /\.tsx?$/.test(f))],
+    })
+  );
+  const result = spawnSync(
+    process.execPath,
+    [
+      require.resolve("typescript/bin/tsc"),
+      "--noEmit",
+      "-p",
+      "tsconfig.e2e.json",
+    ],
+    { cwd: projectDir, encoding: "utf8", timeout: 300_000 }
+  );
+  return { status: result.status, output: result.stdout + result.stderr };
+}
@@ -0,0 +1,171 @@
+import { withPlayHistory } from "../../scripts/agent/core/play-history";
+import { ApiGenerator } from "../../scripts/agent/modules/api-generator";
+import { FrontendIntegrator } from "../../scripts/agent/modules/frontend-integrator";
+import { SchemaGenerator } from "../../scripts/agent/modules/schema-generator";
+import { SeedGenerator } from "../../scripts/agent/modules/seed-generator";
+import { ScriptedProvider } from "../../scripts/agent/providers/scripted-provider";
+import { SchemaDefinition, SchemaField } from "../../scripts/agent/types";
+
+// A stand-in model that answers the pipeline's prompts with the agent's own
+// templates. The fixtures in tests/fixtures were recorded from it, not
+// from a real provider: they pin the prompts and the pipeline around them,
+// not the quality of any model's code.
+
+const field = (
+  name: string,
+  type: string,
+  constraints: string[] = []
+): SchemaField => ({ name, type, constraints });
+
+const STAMPS = [
+  field("created_at", "timestamp", ["defaultNow()", "notNull()"]),
+  field("updated_at", "timestamp", ["defaultNow()", "notNull()"]),
+];
+
+// The tables the analysis prompt is answered with
+const TABLES: Record<string, SchemaDefinition> = {
+  recently_played: {
+    tableName: "recently_played",
+    fileName: "recently_played.ts",
+    fields: [
+      field("id", "serial", ["primaryKey()"]),
+      field("song_title", "text", ["notNull()"]),
+      field("artist_name", "text", ["notNull()"]),
+      field("album_name", "text"),
+      field("image_url", "text"),
+      field("duration_seconds", "integer", ["notNull()"]),
+      field("played_at", "timestamp", ["defaultNow()", "notNull()"]),
+      ...STAMPS,
+    ],
+  },
+  made_for_you: {
+    tableName: "made_for_you",
+    fileName: "made_for_you.ts",
+    fields: [
+      field("id", "serial", ["primaryKey()"]),
+      field("title", "text", ["notNull()"]),
+      field("description", "text"),
+      field("image_url", "text", ["notNull()"]),
+      field("playlist_type", "varchar(50)", ["notNull()"]),
+      field("position", "integer", ["notNull()", "default(0)"]),
+      ...STAMPS,
+    ],
+  },
+  popular_albums: {
+    tableName: "popular_albums",
+    fileName: "popular_albums.ts",
+    fields: [
+      field("id", "serial", ["primaryKey()"]),
+      field("album_name", "text", ["notNull()"]),
+      field("artist_name", "text", ["notNull()"]),
+      field("image_url", "text", ["notNull()"]),
+      field("release_year", "integer"),
+      field("play_count", "integer", ["notNull()", "default(0)"]),
+      ...STAMPS,
+    ],
+  },
+};
+
+// The tables of each suite's query
+const SUITE_TABLES: Record<string, string[]> = {
+  "recently-played": ["recently_played"],
+  "made-for-you-popular-albums": ["made_for_you", "popular_albums"],
+};
+
+// Answers of the UI mapping prompt, by the component array they fill
+const MAPPINGS: Record<string, Record<string, string>> = {
+  recentlyPlayed: {
+    id: "record.id.toString()",
+    title: "record.songTitle",
+    artist: "record.artistName",
+    album: 'record.albumName ?? "Unknown Album"',
+    image: "record.imageUrl ?? undefined",
+    duration: "record.durationSeconds",
+  },
+  madeForYou: {
+    id: "record.id.toString()",
+    title: "record.title",
+    artist: 'record.description ?? "Spotify"',
+    album: "record.playlistType",
+    image: "record.imageUrl",
+    duration: "180",
+  },
+  popularAlbums: {
+    id: "record.id.toString()",
+    title: "record.albumName",
+    artist: "record.artistName",
+    album: "record.albumName",
+    image: "record.imageUrl",
+    duration: "180",
+  },
+};
+
+function fence(code: string): string {
+  return "```typescript\n" + code.trim() + "\n```";
+}
+
+function match(prompt: string, pattern: RegExp): string {
+  const found = prompt.match(pattern);
+  if (!found) throw new Error(`Template model: no ${pattern} in the prompt`);
+  return found[1].trim();
+}
+
+export function templateModel(fixture: string): ScriptedProvider {
+  const suite = SUITE_TABLES[fixture];
+  if (!suite) throw new Error(`Template model: no tables for ${fixture}`);
+  const schemas = new SchemaGenerator();
+  const api = new ApiGenerator();
+  const seeds = new SeedGenerator();
+  const hooks = new FrontendIntegrator();
+  // History tables gain their columns after the analysis
+  const table = (name: string) => withPlayHistory(TABLES[name]);
+
+  return new ScriptedProvider((prompt) => {
+    const first = prompt.trimStart().split("\n", 1)[0];
+    if (first.startsWith("You are a database schema expert"))
+      return JSON.stringify(
+        suite.map((name) => TABLES[name]),
+        null,
+        2
+      );
+    if (first.startsWith("Generate a Drizzle ORM schema file"))
+      return fence(
+        schemas.generateBasicSchemaContent(
+          table(match(prompt, /- Table name: (\w+)/))
+        )
+      );
+    if (first.startsWith("Generate a TypeScript index file"))
+      return fence(
+        schemas.generateBasicSchemaIndexContent(
+          match(prompt, /Schema files to export: (.*)/).split(", ")
+        )
+      );
+    if (first.startsWith("You are generating a Next.js API route"))
+      return api["generateMainRouteTemplate"](
+        table(match(prompt, /- Table: (\w+)/)),
+        []
+      );
+    if (first.startsWith("You are generating a Next.js dynamic API route"))
+      return api["generateDynamicRouteTemplate"](
+        table(match(prompt, /- Table: (\w+)/)),
+        []
+      );
+    if (first.startsWith("Generate a TypeScript seed file"))
+      return seeds.generateSeedTemplate(
+        table(match(prompt, /- Database table name: (\w+)/))
+      );
+    if (first.startsWith("Generate a complete React hook"))
+      return fence(
+        hooks["generateReactHookFallback"](
+          table(match(prompt, /- Table name: (\w+)/))
+        )
+      );
+    if (first.startsWith("You are a React/TypeScript expert. Map database"))
+      return JSON.stringify(
+        MAPPINGS[match(prompt, /the `(\w+)` array/)],
+        null,
+        2
+      );
+    throw new Error(`Template model: unexpected prompt "${first}"`);
+  });
+}